@@ -0,0 +1,51 @@
+import { redirect } from "next/navigation";
+import { getAuthenticatedUser } from "@/lib/auth";
+import { OAUTH_AUTHORIZE_PATH, validateAuthorizationRequest } from "@/lib/oauth";
+import { OAuthConsent } from "@/components/oauth-consent";
+import {
+  Card,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+
+export default async function OAuthAuthorizePage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(await searchParams)) {
+    const first = Array.isArray(value) ? value[0] : value;
+    if (first !== undefined) query.set(key, first);
+  }
+
+  const result = await validateAuthorizationRequest(query);
+  if (result.status === "redirect") {
+    redirect(result.redirectUrl);
+  }
+  if (result.status === "invalid") {
+    return (
+      <Card>
+        <CardHeader className="text-center">
+          <CardTitle className="text-xl">Authorization failed</CardTitle>
+          <CardDescription>{result.error}</CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  const user = await getAuthenticatedUser();
+  if (!user) {
+    const callbackUrl = `${OAUTH_AUTHORIZE_PATH}?${query.toString()}`;
+    redirect(`/login?callbackUrl=${encodeURIComponent(callbackUrl)}`);
+  }
+
+  return (
+    <OAuthConsent
+      request={result.request}
+      query={query.toString()}
+      walletAddress={user.walletAddress}
+    />
+  );
+}
@@ -1,8 +1,10 @@
 import { redirect } from "next/navigation";
 import { getAuthenticatedUser } from "@/lib/auth";
-import { getApiKeyPrefix } from "@/lib/data/users";
+import { getApiKeys } from "@/lib/data/api-keys";
 import { McpServerUrl } from "@/components/mcp-server-url";
 import { ApiKeyCard } from "@/components/api-key-card";
+import { OAuthConnectionsCard } from "@/components/oauth-connections-card";
+import { getOAuthConnections } from "@/lib/data/oauth";
 import { MCP_TOOLS } from "@/lib/mcp/tool-registry";
 import { getUserHumanHash } from "@/lib/data/wallet";
 
@@ -14,7 +16,8 @@ export default async function McpPage() {
   }
 
   const humanHash = await getUserHumanHash(user.userId);
-  const apiKeyPrefix = await getApiKeyPrefix(user.userId);
+  const apiKeys = await getApiKeys(user.userId);
+  const connections = await getOAuthConnections(user.userId);
 
   if (!humanHash) {
     // Backfill humanHash for existing users who don't have one yet
@@ -28,11 +31,12 @@ export default async function McpPage() {
         <div>
           <h2 className="text-xl font-semibold">MCP Configuration</h2>
           <p className="text-sm text-muted-foreground">
-            Configure your MCP server endpoint and API key for AI agent integration.
+            Configure your MCP server endpoint and API keys for AI agent integration.
           </p>
         </div>
-        <McpServerUrl humanHash={user_record.humanHash!} tools={[...MCP_TOOLS]} />
-        <ApiKeyCard apiKeyPrefix={apiKeyPrefix} />
+        <McpServerUrl humanHash={user_record.humanHash!} tools={[...MCP_TOOLS]} apiKeys={apiKeys} />
+        <ApiKeyCard apiKeys={apiKeys} />
+        <OAuthConnectionsCard connections={connections} />
       </div>
     );
   }
@@ -42,11 +46,12 @@ export default async function McpPage() {
       <div>
         <h2 className="text-xl font-semibold">MCP Configuration</h2>
         <p className="text-sm text-muted-foreground">
-          Configure your MCP server endpoint and API key for AI agent integration.
+          Configure your MCP server endpoint and API keys for AI agent integration.
         </p>
       </div>
-      <McpServerUrl humanHash={humanHash} tools={[...MCP_TOOLS]} />
-      <ApiKeyCard apiKeyPrefix={apiKeyPrefix} />
+      <McpServerUrl humanHash={humanHash} tools={[...MCP_TOOLS]} apiKeys={apiKeys} />
+      <ApiKeyCard apiKeys={apiKeys} />
+      <OAuthConnectionsCard connections={connections} />
     </div>
   );
 }
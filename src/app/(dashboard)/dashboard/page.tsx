@@ -5,11 +5,14 @@ import { getAuthenticatedUser } from "@/lib/auth";
 import { getValidatedChainId } from "@/lib/server/chain";
 import { getPendingCount } from "@/lib/data/payments";
 import { getRecentTransactions } from "@/lib/data/transactions";
+import { getAnalytics } from "@/lib/data/analytics";
 import type { TransactionDTO } from "@/lib/models/transaction";
 import { SectionCards } from "@/components/section-cards";
 import { PendingAlert } from "@/components/pending-alert";
 import { SummaryChart } from "@/components/summary-chart";
 import { RecentTransactions } from "@/components/recent-transactions";
+import { ApiKeySpending } from "@/components/api-key-spending";
+import { TagSpending } from "@/components/tag-spending";
 import {
   Card,
   CardContent,
@@ -52,6 +55,28 @@ function RecentTransactionsSkeleton() {
   );
 }
 
+async function ApiKeySpendingWrapper({
+  userId,
+  chainId,
+}: {
+  userId: string;
+  chainId: number;
+}) {
+  const { spendingByApiKey } = await getAnalytics(userId, chainId);
+  return <ApiKeySpending spending={spendingByApiKey} />;
+}
+
+async function TagSpendingWrapper({
+  userId,
+  chainId,
+}: {
+  userId: string;
+  chainId: number;
+}) {
+  const { spendingByTag } = await getAnalytics(userId, chainId);
+  return <TagSpending spending={spendingByTag} />;
+}
+
 // ── Dashboard Page ─────────────────────────────────────────────────────────
 
 export default async function DashboardPage() {
@@ -74,6 +99,12 @@ export default async function DashboardPage() {
       <Suspense fallback={<RecentTransactionsSkeleton />}>
         <RecentTransactionsWrapper userId={user.userId} chainId={chainId} />
       </Suspense>
+      <Suspense fallback={<RecentTransactionsSkeleton />}>
+        <ApiKeySpendingWrapper userId={user.userId} chainId={chainId} />
+      </Suspense>
+      <Suspense fallback={<RecentTransactionsSkeleton />}>
+        <TagSpendingWrapper userId={user.userId} chainId={chainId} />
+      </Suspense>
     </div>
   );
 }
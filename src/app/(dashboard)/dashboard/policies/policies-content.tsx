@@ -3,8 +3,15 @@
 import { useMemo } from "react";
 import { useChain } from "@/contexts/chain-context";
 import { PolicyTable } from "@/components/policy-table";
+import { PolicyMatchTester } from "@/components/policy-match-tester";
 import type { EndpointPolicyDTO } from "@/lib/models/endpoint-policy";
 
+/** Whether a policy applies to `chainId`, mirroring chainScopeFilter in the data layer. */
+function appliesToChain(policy: EndpointPolicyDTO, chainId: number): boolean {
+  if (policy.chainId !== null) return policy.chainId === chainId;
+  return policy.chainIds.length === 0 || policy.chainIds.includes(chainId);
+}
+
 interface PoliciesContentProps {
   allPolicies: EndpointPolicyDTO[];
 }
@@ -14,7 +21,7 @@ export default function PoliciesContent({ allPolicies }: PoliciesContentProps) {
   const chainId = activeChain.chain.id;
 
   const filteredPolicies = useMemo(
-    () => allPolicies.filter((p) => p.chainId === chainId),
+    () => allPolicies.filter((p) => appliesToChain(p, chainId)),
     [allPolicies, chainId],
   );
 
@@ -25,6 +32,7 @@ export default function PoliciesContent({ allPolicies }: PoliciesContentProps) {
         chainName={activeChain.displayName}
         chainId={chainId}
       />
+      <PolicyMatchTester chainId={chainId} />
     </div>
   );
 }
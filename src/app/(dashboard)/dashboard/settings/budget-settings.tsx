@@ -0,0 +1,123 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { toast } from "sonner";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { updateBudgetAction } from "@/app/actions/user";
+import type { BudgetStatus } from "@/lib/budget";
+
+function toInputValue(value: number | null): string {
+  return value == null ? "" : String(value);
+}
+
+/** Parse an optional USD budget input; blank means no limit. */
+function parseBudget(value: string): number | null {
+  const trimmed = value.trim();
+  return trimmed === "" ? null : Number(trimmed);
+}
+
+function SpentLabel({ period }: { period: BudgetStatus["daily"] }) {
+  if (!period) return null;
+  return (
+    <p className="text-muted-foreground text-xs">
+      ${period.spent.toFixed(2)} spent · ${period.remaining.toFixed(2)} remaining
+    </p>
+  );
+}
+
+export function BudgetSettings({
+  initialStatus,
+}: {
+  initialStatus: BudgetStatus;
+}) {
+  const [dailyBudget, setDailyBudget] = useState(
+    toInputValue(initialStatus.daily?.limit ?? null),
+  );
+  const [monthlyBudget, setMonthlyBudget] = useState(
+    toInputValue(initialStatus.monthly?.limit ?? null),
+  );
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  function handleSave(e: React.FormEvent) {
+    e.preventDefault();
+    setError(null);
+
+    startTransition(async () => {
+      const result = await updateBudgetAction({
+        dailyBudget: parseBudget(dailyBudget),
+        monthlyBudget: parseBudget(monthlyBudget),
+      });
+      if (result.success) {
+        setDailyBudget(toInputValue(result.data.dailyBudget));
+        setMonthlyBudget(toInputValue(result.data.monthlyBudget));
+        toast.success("Spending budget updated");
+      } else {
+        setError(result.error);
+      }
+    });
+  }
+
+  return (
+    <Card>
+      <form onSubmit={handleSave} className="flex flex-col gap-6">
+        <CardHeader>
+          <CardTitle>Spending Budget</CardTitle>
+          <CardDescription>
+            Account-wide limits in USD across every endpoint and chain. Applies
+            to auto-signed and manually approved payments. Leave blank for no
+            limit.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="daily-budget">Daily budget (USD)</Label>
+            <Input
+              id="daily-budget"
+              type="number"
+              min="0"
+              step="any"
+              placeholder="No limit"
+              value={dailyBudget}
+              onChange={(e) => setDailyBudget(e.target.value)}
+              data-testid="daily-budget-input"
+            />
+            <SpentLabel period={initialStatus.daily} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="monthly-budget">Monthly budget (USD)</Label>
+            <Input
+              id="monthly-budget"
+              type="number"
+              min="0"
+              step="any"
+              placeholder="No limit"
+              value={monthlyBudget}
+              onChange={(e) => setMonthlyBudget(e.target.value)}
+              data-testid="monthly-budget-input"
+            />
+            <SpentLabel period={initialStatus.monthly} />
+          </div>
+          {error && (
+            <p className="text-destructive text-sm sm:col-span-2">{error}</p>
+          )}
+        </CardContent>
+        <CardFooter>
+          <Button type="submit" disabled={isPending} data-testid="save-budget-button">
+            {isPending ? "Saving..." : "Save Budget"}
+          </Button>
+        </CardFooter>
+      </form>
+    </Card>
+  );
+}
@@ -1,7 +1,10 @@
 import { redirect } from "next/navigation";
 import { getAuthenticatedUser } from "@/lib/auth";
-import { getUserEnabledChains } from "@/lib/data/user";
+import { getRecipientDenylist, getUserEnabledChains } from "@/lib/data/user";
+import { getBudgetStatus } from "@/lib/budget";
 import { ChainSettings } from "./chain-settings";
+import { BudgetSettings } from "./budget-settings";
+import { RecipientDenylistSettings } from "./recipient-denylist-settings";
 
 export default async function SettingsPage() {
   const user = await getAuthenticatedUser();
@@ -10,7 +13,11 @@ export default async function SettingsPage() {
     redirect("/login");
   }
 
-  const initialEnabledChains = await getUserEnabledChains(user.userId);
+  const [initialEnabledChains, budgetStatus, deniedPayTo] = await Promise.all([
+    getUserEnabledChains(user.userId),
+    getBudgetStatus(user.userId),
+    getRecipientDenylist(user.userId),
+  ]);
 
   return (
     <div className="flex flex-col gap-6">
@@ -21,6 +28,8 @@ export default async function SettingsPage() {
         </p>
       </div>
       <ChainSettings initialEnabledChains={initialEnabledChains} />
+      <BudgetSettings initialStatus={budgetStatus} />
+      <RecipientDenylistSettings initialDeniedPayTo={deniedPayTo} />
     </div>
   );
 }
@@ -0,0 +1,83 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { toast } from "sonner";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { updateRecipientDenylistAction } from "@/app/actions/user";
+
+/** Split a comma- or newline-separated list of addresses. */
+function parseAddressList(value: string): string[] {
+  return value
+    .split(/[\s,]+/)
+    .map((a) => a.trim())
+    .filter((a) => a !== "");
+}
+
+export function RecipientDenylistSettings({
+  initialDeniedPayTo,
+}: {
+  initialDeniedPayTo: string[];
+}) {
+  const [addresses, setAddresses] = useState(initialDeniedPayTo.join("\n"));
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  function handleSave(e: React.FormEvent) {
+    e.preventDefault();
+    setError(null);
+
+    startTransition(async () => {
+      const result = await updateRecipientDenylistAction({
+        deniedPayTo: parseAddressList(addresses),
+      });
+      if (result.success) {
+        setAddresses(result.data.join("\n"));
+        toast.success("Recipient denylist updated");
+      } else {
+        setError(result.error);
+      }
+    });
+  }
+
+  return (
+    <Card>
+      <form onSubmit={handleSave} className="flex flex-col gap-6">
+        <CardHeader>
+          <CardTitle>Blocked Recipients</CardTitle>
+          <CardDescription>
+            Payments to these payTo addresses are always rejected, on every
+            endpoint and chain. Use it to block an address a merchant URL was
+            hijacked to pay.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <Label htmlFor="denied-pay-to">Addresses (one per line)</Label>
+          <textarea
+            id="denied-pay-to"
+            rows={4}
+            placeholder="0x..."
+            value={addresses}
+            onChange={(e) => setAddresses(e.target.value)}
+            className="border-input placeholder:text-muted-foreground focus-visible:border-ring focus-visible:ring-ring/50 w-full rounded-md border bg-transparent px-3 py-2 font-mono text-sm shadow-xs outline-none focus-visible:ring-[3px]"
+            data-testid="denied-pay-to-input"
+          />
+          {error && <p className="text-destructive text-sm">{error}</p>}
+        </CardContent>
+        <CardFooter>
+          <Button type="submit" disabled={isPending} data-testid="save-denylist-button">
+            {isPending ? "Saving..." : "Save Denylist"}
+          </Button>
+        </CardFooter>
+      </form>
+    </Card>
+  );
+}
@@ -6,6 +6,7 @@ import { getTransactions } from "@/lib/data/transactions";
 import { TransactionTable } from "@/components/transaction-table";
 import { TransactionsHeader } from "@/components/transactions-header";
 import PendingPaymentList from "@/components/pending-payment-list";
+import SpendingGrantList from "@/components/spending-grant-list";
 
 export default async function TransactionsPage() {
   const user = await getAuthenticatedUser();
@@ -32,6 +33,9 @@ export default async function TransactionsPage() {
         <PendingPaymentList walletAddress={user.walletAddress} />
       </div>
 
+      {/* Spending Grants Section (only shown when an agent has requested one) */}
+      <SpendingGrantList />
+
       {/* Completed Transactions Section */}
       <div className="flex flex-col gap-6">
         <TransactionsHeader />
@@ -4,6 +4,7 @@ import WalletBalance from "@/components/wallet-balance";
 import FundWalletForm from "@/components/fund-wallet-form";
 import WithdrawCard from "@/components/withdraw-card";
 import type { SmartAccountDTO } from "@/lib/models/smart-account";
+import type { BudgetPeriodStatus } from "@/lib/budget";
 
 type ActiveWalletSectionAccount = Pick<SmartAccountDTO, "chainId"> &
   Partial<Pick<SmartAccountDTO, "smartAccountAddress" | "sessionKeyStatus">>;
@@ -14,6 +15,7 @@ interface ActiveWalletSectionProps extends ActiveWalletSectionAccount {
   balanceError?: Error;
   chainName: string;
   explorerUrl: string;
+  dailySpend: BudgetPeriodStatus | null;
 }
 
 export default function ActiveWalletSection({
@@ -24,6 +26,7 @@ export default function ActiveWalletSection({
   chainName,
   explorerUrl,
   sessionKeyStatus,
+  dailySpend,
   chainId,
 }: ActiveWalletSectionProps) {
   return (
@@ -36,6 +39,7 @@ export default function ActiveWalletSection({
         chainName={chainName}
         explorerUrl={explorerUrl}
         sessionKeyStatus={sessionKeyStatus}
+        dailySpend={dailySpend}
       />
       <div className="grid gap-6 md:grid-cols-2">
         <FundWalletForm accountAddress={smartAccountAddress} chainId={chainId} />
@@ -12,12 +12,14 @@ import {
   setupSmartAccount,
   getSmartAccountForChain,
   getAllSmartAccountsAction,
+  getSessionKeyDailySpendAction,
 } from "@/app/actions/smart-account";
 
 export interface WalletInitialData {
   smartAccount: Awaited<ReturnType<typeof getSmartAccountForChain>>;
   allAccounts: Awaited<ReturnType<typeof getAllSmartAccountsAction>>;
   balance: Awaited<ReturnType<typeof import("@/app/actions/smart-account").getSmartAccountBalanceAction>>;
+  dailySpend: Awaited<ReturnType<typeof getSessionKeyDailySpendAction>>;
 }
 
 interface WalletContentProps {
@@ -50,6 +52,12 @@ export default function WalletContent({
     initialData: initialData.allAccounts,
   });
 
+  const { data: dailySpend } = useQuery({
+    queryKey: ["session-key-daily-spend", chainId],
+    queryFn: () => getSessionKeyDailySpendAction(chainId),
+    initialData: isInitialChain ? initialData.dailySpend : undefined,
+  });
+
   const { mutate: doSetup, isPending: setupPending } = useMutation({
     mutationFn: async (cId: number) => unwrap(await setupSmartAccount(cId)),
     onSuccess: () => {
@@ -106,6 +114,7 @@ export default function WalletContent({
       chainName={activeChain.displayName}
       explorerUrl={activeChain.explorerUrl}
       sessionKeyStatus={sessionKeyStatus}
+      dailySpend={dailySpend ?? null}
       chainId={chainId}
     />
   );
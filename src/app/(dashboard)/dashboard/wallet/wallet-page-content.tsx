@@ -5,6 +5,7 @@ import {
   getSmartAccountForChain,
   getAllSmartAccountsAction,
   getSmartAccountBalanceAction,
+  getSessionKeyDailySpendAction,
 } from "@/app/actions/smart-account";
 import WalletContent from "./wallet-content";
 
@@ -16,10 +17,11 @@ export default async function WalletPageContent() {
   const cookieHeader = headersList.get("cookie");
   const initialChainId = await getValidatedChainId(cookieHeader, user.userId);
 
-  const [smartAccount, allAccounts, balance] = await Promise.all([
+  const [smartAccount, allAccounts, balance, dailySpend] = await Promise.all([
     getSmartAccountForChain(initialChainId),
     getAllSmartAccountsAction(),
     getSmartAccountBalanceAction(initialChainId),
+    getSessionKeyDailySpendAction(initialChainId),
   ]);
 
   return (
@@ -28,6 +30,7 @@ export default async function WalletPageContent() {
         smartAccount,
         allAccounts: allAccounts ?? [],
         balance: balance ?? null,
+        dailySpend,
       }}
       initialChainId={initialChainId}
     />
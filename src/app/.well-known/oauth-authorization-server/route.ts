@@ -0,0 +1,5 @@
+import { getAuthorizationServerMetadata } from "@/lib/oauth";
+
+export async function GET(request: Request) {
+  return Response.json(getAuthorizationServerMetadata(new URL(request.url).origin));
+}
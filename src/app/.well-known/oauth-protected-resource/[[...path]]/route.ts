@@ -0,0 +1,20 @@
+import { getProtectedResourceMetadata } from "@/lib/oauth";
+
+const MCP_PATH = "/api/mcp";
+
+/**
+ * Protected resource metadata (RFC 9728). Served for the MCP endpoint path
+ * appended to the well-known path, e.g.
+ * /.well-known/oauth-protected-resource/api/mcp/{humanHash}, or bare.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ path?: string[] }> },
+) {
+  const { path } = await params;
+  const resourcePath = path?.length ? `/${path.join("/")}` : MCP_PATH;
+  if (resourcePath !== MCP_PATH && !resourcePath.startsWith(`${MCP_PATH}/`)) {
+    return Response.json({ error: "Unknown resource" }, { status: 404 });
+  }
+  return Response.json(getProtectedResourceMetadata(new URL(request.url).origin, resourcePath));
+}
@@ -1,14 +1,54 @@
 "use server";
 
 import { revalidatePath } from "next/cache";
-import { ok } from "@/lib/action-result";
+import { ok, err } from "@/lib/action-result";
 import { withAuth } from "@/lib/action-result-server";
-import { rotateApiKey as _rotateApiKey } from "@/lib/data/users";
+import {
+  createApiKey as _createApiKey,
+  updateApiKeyScopes as _updateApiKeyScopes,
+  updateApiKeyBudget as _updateApiKeyBudget,
+  revokeApiKey as _revokeApiKey,
+} from "@/lib/data/api-keys";
+import { ApiKeyBudgetInput, ApiKeyCreateInput, ApiKeyScopesInput } from "@/lib/models/api-key";
+import type { ApiKeyScope } from "@/lib/mcp/tool-registry";
 
-export async function regenerateApiKey() {
+export async function createApiKey(label: string, scopes: ApiKeyScope[]) {
   return withAuth(async (auth) => {
-    const { rawKey } = await _rotateApiKey(auth.userId);
-    revalidatePath("/dashboard/settings");
-    return ok({ rawKey });
+    const parsed = ApiKeyCreateInput.safeParse({ label, scopes });
+    if (!parsed.success) return err(parsed.error.issues[0]?.message ?? "Invalid API key");
+    const { rawKey, apiKey } = await _createApiKey(auth.userId, parsed.data);
+    revalidatePath("/dashboard/mcp");
+    return ok({ rawKey, apiKey });
+  });
+}
+
+export async function updateApiKeyScopes(keyId: string, scopes: ApiKeyScope[]) {
+  return withAuth(async (auth) => {
+    const parsed = ApiKeyScopesInput.safeParse({ scopes });
+    if (!parsed.success) return err(parsed.error.issues[0]?.message ?? "Invalid scopes");
+    const updated = await _updateApiKeyScopes(auth.userId, keyId, parsed.data.scopes);
+    if (!updated) return err("API key not found or revoked");
+    revalidatePath("/dashboard/mcp");
+    return ok(updated);
+  });
+}
+
+export async function updateApiKeyBudget(keyId: string, budget: ApiKeyBudgetInput) {
+  return withAuth(async (auth) => {
+    const parsed = ApiKeyBudgetInput.safeParse(budget);
+    if (!parsed.success) return err(parsed.error.issues[0]?.message ?? "Invalid budget");
+    const updated = await _updateApiKeyBudget(auth.userId, keyId, parsed.data);
+    if (!updated) return err("API key not found or revoked");
+    revalidatePath("/dashboard/mcp");
+    return ok(updated);
+  });
+}
+
+export async function revokeApiKey(keyId: string) {
+  return withAuth(async (auth) => {
+    const revoked = await _revokeApiKey(auth.userId, keyId);
+    if (!revoked) return err("API key not found or already revoked");
+    revalidatePath("/dashboard/mcp");
+    return ok(revoked);
   });
 }
@@ -0,0 +1,73 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { ok, err } from "@/lib/action-result";
+import { withAuth } from "@/lib/action-result-server";
+import {
+  createAuthorizationCode,
+  revokeOAuthConnection as _revokeOAuthConnection,
+  updateOAuthConnectionBudget as _updateOAuthConnectionBudget,
+} from "@/lib/data/oauth";
+import { ApiKeyBudgetInput } from "@/lib/models/api-key";
+import { buildRedirectUrl, validateAuthorizationRequest } from "@/lib/oauth";
+import { logger } from "@/lib/logger";
+
+/**
+ * Approve an OAuth authorization request. The raw query string is
+ * re-validated so the approval covers exactly what the client asked for.
+ * Returns the client redirect URL carrying the authorization code.
+ */
+export async function approveOAuthAuthorization(query: string) {
+  return withAuth(async (auth) => {
+    const result = await validateAuthorizationRequest(new URLSearchParams(query));
+    if (result.status === "invalid") return err(result.error);
+    if (result.status === "redirect") return ok({ redirectUrl: result.redirectUrl });
+
+    const { request } = result;
+    const code = await createAuthorizationCode(auth.userId, request);
+    logger.info("OAuth client authorized", { userId: auth.userId, action: "oauth_authorized", clientId: request.clientId, scopes: request.scopes });
+    revalidatePath("/dashboard/mcp");
+    return ok({ redirectUrl: buildRedirectUrl(request.redirectUri, { code, state: request.state }) });
+  });
+}
+
+/**
+ * Deny an OAuth authorization request. Returns the client redirect URL
+ * carrying an access_denied error.
+ */
+export async function denyOAuthAuthorization(query: string) {
+  return withAuth(async () => {
+    const result = await validateAuthorizationRequest(new URLSearchParams(query));
+    if (result.status === "invalid") return err(result.error);
+    if (result.status === "redirect") return ok({ redirectUrl: result.redirectUrl });
+
+    const { request } = result;
+    return ok({
+      redirectUrl: buildRedirectUrl(request.redirectUri, {
+        error: "access_denied",
+        error_description: "The user denied the request",
+        state: request.state,
+      }),
+    });
+  });
+}
+
+export async function revokeOAuthConnection(grantId: string) {
+  return withAuth(async (auth) => {
+    const revoked = await _revokeOAuthConnection(auth.userId, grantId);
+    if (!revoked) return err("Connection not found or already revoked");
+    revalidatePath("/dashboard/mcp");
+    return ok(revoked);
+  });
+}
+
+export async function updateOAuthConnectionBudget(grantId: string, budget: ApiKeyBudgetInput) {
+  return withAuth(async (auth) => {
+    const parsed = ApiKeyBudgetInput.safeParse(budget);
+    if (!parsed.success) return err(parsed.error.issues[0]?.message ?? "Invalid budget");
+    const updated = await _updateOAuthConnectionBudget(auth.userId, grantId, parsed.data);
+    if (!updated) return err("Connection not found or revoked");
+    revalidatePath("/dashboard/mcp");
+    return ok(updated);
+  });
+}
@@ -15,11 +15,17 @@ import {
   failPendingPayment,
 } from "@/lib/data/payments";
 import { createTransaction } from "@/lib/data/transactions";
+import { getRecipientDenylist } from "@/lib/data/user";
+import { prepareResponseForStorage } from "@/lib/data/response-bodies";
 import { ensureAutoSignPolicy } from "@/lib/data/policies";
+import { releaseSpend, reserveSpend } from "@/lib/spend-reservation";
+import { checkPolicyPins } from "@/lib/policy";
 import { executePayment } from "@/lib/x402/payment";
 import { buildPaymentHeaders, extractSettleResponse } from "@/lib/x402/headers";
 import { formatAmountForDisplay } from "@/lib/x402/display";
 import { getRequirementAmount } from "@/lib/x402/requirements";
+import { parseTextBody, readResponseBody, type ResponseBody } from "@/lib/x402/response-body";
+import { toPaymentMetadata } from "@/lib/payment-metadata";
 import { getChainById, getNetworkIdentifiers } from "@/lib/chain-config";
 import { logger } from "@/lib/logger";
 import { safeFetch } from "@/lib/safe-fetch";
@@ -113,6 +119,42 @@ export async function approvePendingPayment(
       logger.warn("Could not determine payment amount", { userId: auth.userId, paymentId, amountRaw, action: "amount_parse_failed" });
     }
     const safeAmount = isNaN(amountForTx) ? 0 : amountForTx;
+
+    // The recipient may have been denylisted while the payment waited
+    if (acceptedRequirement?.payTo) {
+      const deniedPayTo = await getRecipientDenylist(auth.userId);
+      if (deniedPayTo.includes(acceptedRequirement.payTo.toLowerCase())) {
+        logger.warn("Recipient is on the denylist during approval", { userId: auth.userId, paymentId, action: "recipient_denied", payTo: acceptedRequirement.payTo });
+        return err(`Recipient denied: ${acceptedRequirement.payTo} is on your recipient denylist`);
+      }
+    }
+
+    if (payment.policyId && acceptedRequirement) {
+      const pinReason = await checkPolicyPins(payment.policyId, auth.userId, {
+        payTo: acceptedRequirement.payTo,
+        asset: acceptedRequirement.asset,
+      });
+      if (pinReason) {
+        logger.warn("Policy pins rejected payment during approval", { userId: auth.userId, paymentId, action: "policy_denied", reason: pinReason });
+        return err(`Policy denied: ${pinReason}`);
+      }
+    }
+
+    // Hold the amount against the account, API key and app budgets while the
+    // paid request is sent, so concurrent payments cannot overspend them
+    const reservation = await reserveSpend(
+      {
+        userId: auth.userId,
+        apiKeyId: payment.apiKeyId ?? undefined,
+        oauthClientId: payment.oauthClientId ?? undefined,
+      },
+      safeAmount,
+    );
+    if (!reservation.reserved) {
+      logger.warn("Budget exceeded during approval", { userId: auth.userId, paymentId, action: "budget_exceeded", limit: reservation.limit, reason: reservation.reason, amount: safeAmount });
+      return err(reservation.error);
+    }
+
     logger.info("Payment approval started", { userId: auth.userId, paymentId, url: payment.url, action: "approve_started", amount: safeAmount });
 
     const x402Version = isFullFormat ? (storedPaymentRequired.x402Version ?? 1) : 1;
@@ -161,12 +203,14 @@ export async function approvePendingPayment(
         return err("Payment has already been processed");
       }
 
-      let responsePayload: string | null = null;
+      let responseBody: ResponseBody | null = null;
       try {
-        responsePayload = await paidResponse.clone().text();
+        responseBody = await readResponseBody(paidResponse.clone());
       } catch {
         // If reading fails, leave as null
       }
+      const responsePayload = responseBody?.payload ?? null;
+      const storedResponse = await prepareResponseForStorage(payment.userId, responseBody);
 
       const settlement = extractSettleResponse(paidResponse) ?? undefined;
       const txHash = settlement?.transaction ?? null;
@@ -184,9 +228,16 @@ export async function approvePendingPayment(
         network: acceptedRequirement?.network ?? "base",
         chainId,
         status: txStatus,
+        signingStrategy: "manual_approval",
         userId: payment.userId,
+        policyId: payment.policyId,
+        apiKeyId: payment.apiKeyId,
+        oauthClientId: payment.oauthClientId,
+        purpose: payment.purpose,
+        taskId: payment.taskId,
+        tags: payment.tags,
         txHash: txHash ?? undefined,
-        responsePayload,
+        ...storedResponse,
         errorMessage: !paidResponse.ok ? `Payment approved but server responded with ${paidResponse.status}` : undefined,
         responseStatus: paidResponse.status,
       });
@@ -194,29 +245,25 @@ export async function approvePendingPayment(
       if (paidResponse.ok) {
         logger.info("Payment approval completed", { userId: auth.userId, paymentId, url: payment.url, action: "approve_completed", status: paidResponse.status, txHash });
         await completePendingPayment(paymentId, auth.userId, {
-          responsePayload: responsePayload ?? "",
+          ...storedResponse,
+          responsePayload: storedResponse.responsePayload ?? "",
           responseStatus: paidResponse.status,
           txHash: txHash ?? undefined,
         });
       } else {
         logger.error("Payment approval failed - server returned error", { userId: auth.userId, paymentId, url: payment.url, action: "approve_failed", status: paidResponse.status, responseBody: responsePayload?.slice(0, 500) });
         await failPendingPayment(paymentId, auth.userId, {
-          responsePayload: responsePayload ?? undefined,
+          ...storedResponse,
+          responsePayload: storedResponse.responsePayload ?? undefined,
           responseStatus: paidResponse.status,
         });
       }
 
-      let responseData: unknown = null;
-      const contentType = paidResponse.headers.get("content-type") ?? "";
-      if (contentType.includes("application/json")) {
-        try {
-          responseData = JSON.parse(responsePayload ?? "");
-        } catch {
-          responseData = responsePayload;
-        }
-      } else {
-        responseData = responsePayload;
-      }
+      // Binary and oversized bodies stay out of the action result; the agent gets them via x402_get_result
+      const responseData =
+        responseBody?.encoding === "utf8" && !storedResponse.responseBodyId
+          ? parseTextBody(responseBody.payload, responseBody.contentType)
+          : null;
 
       revalidatePaymentPaths();
 
@@ -243,6 +290,11 @@ export async function approvePendingPayment(
         chainId,
         status: "failed",
         userId: payment.userId,
+        apiKeyId: payment.apiKeyId,
+        oauthClientId: payment.oauthClientId,
+        purpose: payment.purpose,
+        taskId: payment.taskId,
+        tags: payment.tags,
         errorMessage: `Network error: ${errorMsg}`,
       });
 
@@ -253,6 +305,11 @@ export async function approvePendingPayment(
       revalidatePaymentPaths();
 
       return err(`Network error: ${errorMsg}`);
+    } finally {
+      // The transaction is recorded by now, or the payment was not made
+      await releaseSpend(reservation.reservationId).catch((error) => {
+        logger.error("Failed to release spend reservation", { userId: auth.userId, paymentId, action: "spend_reservation_release_failed", error: error instanceof Error ? error.message : String(error) });
+      });
     }
   });
 }
@@ -324,6 +381,7 @@ async function retryPaymentFlow(
     ? JSON.parse(payment.requestHeaders)
     : {};
 
+  const metadata = toPaymentMetadata(payment);
   const result = await executePayment(
     payment.url,
     userId,
@@ -331,8 +389,11 @@ async function retryPaymentFlow(
       method: payment.method as "GET" | "POST" | "PUT" | "DELETE" | "PATCH",
       body: payment.requestBody ?? undefined,
       headers: Object.keys(storedHeaders).length > 0 ? storedHeaders : undefined,
+      metadata,
     },
     payment.chainId,
+    payment.apiKeyId ?? undefined,
+    payment.oauthClientId ?? undefined,
   );
 
   if (result.status === "pending_approval") {
@@ -341,13 +402,19 @@ async function retryPaymentFlow(
       userId,
       url: payment.url,
       method: payment.method,
+      policyId: result.policyId,
+      apiKeyId: payment.apiKeyId ?? undefined,
+      oauthClientId: payment.oauthClientId ?? undefined,
       amountRaw: result.amountRaw,
       asset: result.asset,
+      reason: result.reason,
+      previousAmount: result.previousAmount,
       chainId: result.chainId,
       paymentRequirements: result.paymentRequirements,
       expiresAt,
       body: payment.requestBody ?? undefined,
       headers: Object.keys(storedHeaders).length > 0 ? storedHeaders : undefined,
+      ...metadata,
     });
 
     revalidatePaymentPaths();
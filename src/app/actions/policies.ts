@@ -12,9 +12,12 @@ import {
   toggleAutoSign as _toggleAutoSign,
   archivePolicy as _archivePolicy,
   unarchivePolicy as _unarchivePolicy,
+  mergePerChainPolicies as _mergePerChainPolicies,
 } from "@/lib/data/policies";
-import type {
-  EndpointPolicyDTO,
+import { explainPolicyMatch } from "@/lib/policy";
+import { HTTP_METHODS, type HttpMethod } from "@/lib/endpoint-pattern";
+import {
+  type EndpointPolicyDTO,
   EndpointPolicyCreateInput,
   EndpointPolicyUpdateInput,
 } from "@/lib/models/endpoint-policy";
@@ -35,15 +38,26 @@ export async function getPolicy(policyId: string): Promise<EndpointPolicyDTO> {
   });
 }
 
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function formatIssues(issues: { message: string }[]): string {
+  return `Invalid input: ${issues.map((i) => i.message).join(", ")}`;
+}
+
 // ---------------------------------------------------------------------------
 // Mutations — return ActionResult<T>
 // ---------------------------------------------------------------------------
 
 export async function createPolicy(data: EndpointPolicyCreateInput) {
   return withAuth(async (auth) => {
-    const policy = await _createPolicy(auth.userId, data);
+    const parsed = EndpointPolicyCreateInput.safeParse(data);
+    if (!parsed.success) return err(formatIssues(parsed.error.issues));
+
+    const policy = await _createPolicy(auth.userId, parsed.data);
     if (!policy) {
-      return err("A policy for this endpoint pattern already exists");
+      return err("A policy for this endpoint pattern and HTTP method already exists");
     }
 
     revalidatePath("/dashboard/policies");
@@ -53,23 +67,26 @@ export async function createPolicy(data: EndpointPolicyCreateInput) {
 
 export async function updatePolicy(policyId: string, data: EndpointPolicyUpdateInput) {
   return withAuth(async (auth) => {
+    const parsed = EndpointPolicyUpdateInput.safeParse(data);
+    if (!parsed.success) return err(formatIssues(parsed.error.issues));
+
     const existing = await _getPolicy(policyId, auth.userId);
     if (!existing) return err("Policy not found");
 
-    const policy = await _updatePolicy(policyId, auth.userId, data);
-    if (!policy) return err("A policy for this endpoint pattern already exists");
+    const policy = await _updatePolicy(policyId, auth.userId, parsed.data);
+    if (!policy) return err("A policy for this endpoint pattern and HTTP method already exists");
 
     revalidatePath("/dashboard/policies");
     return ok(policy);
   });
 }
 
-export async function activatePolicy(policyId: string) {
+export async function activatePolicy(policyId: string, options?: { pinFirstSeenPayTo?: boolean }) {
   return withAuth(async (auth) => {
     const existing = await _getPolicy(policyId, auth.userId);
     if (!existing) return err("Policy not found");
 
-    const policy = await _activatePolicy(policyId, auth.userId);
+    const policy = await _activatePolicy(policyId, auth.userId, options);
     if (!policy) return err("Policy not found");
 
     revalidatePath("/dashboard/policies");
@@ -117,3 +134,25 @@ export async function unarchivePolicy(policyId: string) {
     return ok(policy);
   });
 }
+
+export async function mergePerChainPolicies() {
+  return withAuth(async (auth) => {
+    const result = await _mergePerChainPolicies(auth.userId);
+
+    revalidatePath("/dashboard/policies");
+    return ok(result);
+  });
+}
+
+export async function testPolicyMatch(url: string, chainId: number, method: HttpMethod = "GET") {
+  return withAuth(async (auth) => {
+    try {
+      new URL(url);
+    } catch {
+      return err("Enter a full URL (e.g., https://api.example.com/v1/data)");
+    }
+    if (!HTTP_METHODS.includes(method)) return err(`Unsupported HTTP method: ${method}`);
+
+    return ok(await explainPolicyMatch(auth.userId, url, chainId, method));
+  });
+}
@@ -27,6 +27,7 @@ import {
   SESSION_KEY_MAX_SPEND_DAILY,
   SESSION_KEY_MAX_EXPIRY_DAYS,
 } from "@/lib/smart-account-constants";
+import { getSessionKeyDailyStatus } from "@/lib/budget";
 import type { SmartAccountDTO } from "@/lib/models/smart-account";
 
 // ---------------------------------------------------------------------------
@@ -45,6 +46,14 @@ export async function getAllSmartAccountsAction() {
   return withAuthRead((auth) => getAllSmartAccounts(auth.userId));
 }
 
+export async function getSessionKeyDailySpendAction(chainId: number) {
+  return withAuthRead(async (auth) => {
+    const account = await getSmartAccount(auth.userId, chainId);
+    if (!account) return null;
+    return getSessionKeyDailyStatus(auth.userId, chainId, account.spendLimitDaily);
+  });
+}
+
 // ---------------------------------------------------------------------------
 // Mutations — return ActionResult<T>
 // ---------------------------------------------------------------------------
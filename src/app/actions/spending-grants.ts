@@ -0,0 +1,88 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { verifyMessage } from "viem";
+import { ok, err } from "@/lib/action-result";
+import { withAuth } from "@/lib/action-result-server";
+import {
+  getSpendingGrant,
+  approveSpendingGrant as _approveSpendingGrant,
+  rejectSpendingGrant as _rejectSpendingGrant,
+  revokeSpendingGrant as _revokeSpendingGrant,
+} from "@/lib/data/spending-grants";
+import { formatSpendingGrantMessage } from "@/lib/spending-grants";
+import { createChainPublicClient, isChainSupported } from "@/lib/chain-config";
+import { logger } from "@/lib/logger";
+
+/**
+ * Verify the user's signature over a grant's approval message. Goes through
+ * the chain's public client so smart contract wallets (ERC-1271) work too;
+ * test mode verifies locally, as SIWE login does.
+ */
+async function verifyGrantSignature(
+  walletAddress: string,
+  message: string,
+  signature: string,
+  chainId: number,
+): Promise<boolean> {
+  const params = {
+    address: walletAddress as `0x${string}`,
+    message,
+    signature: signature as `0x${string}`,
+  };
+  if (process.env.NEXT_PUBLIC_TEST_MODE === "true") {
+    return verifyMessage(params);
+  }
+  return createChainPublicClient(chainId).verifyMessage(params);
+}
+
+/**
+ * Approve a pending spending grant. `signature` is the user's wallet
+ * signature over the grant's approval message, made on `chainId`.
+ */
+export async function approveSpendingGrant(grantId: string, signature: string, chainId: number) {
+  return withAuth(async (auth) => {
+    const grant = await getSpendingGrant(grantId, auth.userId);
+    if (!grant) return err("Spending grant not found");
+    if (grant.status !== "pending") return err(`Spending grant is already ${grant.status}`);
+    if (Date.now() > new Date(grant.expiresAt).getTime()) return err("Spending grant request has expired");
+    if (!isChainSupported(chainId)) return err(`Chain ${chainId} is not supported`);
+
+    const valid = await verifyGrantSignature(auth.walletAddress, formatSpendingGrantMessage(grant), signature, chainId);
+    if (!valid) {
+      logger.warn("Invalid spending grant signature", { userId: auth.userId, grantId, action: "grant_signature_invalid" });
+      return err("Signature does not match your wallet");
+    }
+
+    const approved = await _approveSpendingGrant(grantId, auth.userId, signature);
+    if (!approved) return err("Spending grant has already been processed");
+
+    logger.info("Spending grant approved", { userId: auth.userId, grantId, action: "grant_approved", amount: approved.amountUsd, expiresAt: approved.expiresAt });
+    revalidatePath("/dashboard/transactions");
+    return ok(approved);
+  });
+}
+
+export async function rejectSpendingGrant(grantId: string) {
+  return withAuth(async (auth) => {
+    const rejected = await _rejectSpendingGrant(grantId, auth.userId);
+    if (!rejected) return err("Spending grant is no longer pending");
+
+    revalidatePath("/dashboard/transactions");
+    return ok(undefined as void);
+  });
+}
+
+/**
+ * End an active grant before it expires or runs out.
+ */
+export async function revokeSpendingGrant(grantId: string) {
+  return withAuth(async (auth) => {
+    const revoked = await _revokeSpendingGrant(grantId, auth.userId);
+    if (!revoked) return err("Spending grant is not active");
+
+    logger.info("Spending grant revoked", { userId: auth.userId, grantId, action: "grant_revoked" });
+    revalidatePath("/dashboard/transactions");
+    return ok(undefined as void);
+  });
+}
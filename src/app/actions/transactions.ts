@@ -3,6 +3,7 @@
 import {
   getRecentTransactions as _getRecentTransactions,
   getTransactions as _getTransactions,
+  type TransactionMetadataFilter,
 } from "@/lib/data/transactions";
 import { withAuthRead } from "@/lib/action-result-server";
 import type { TransactionDTO } from "@/lib/models/transaction";
@@ -13,9 +14,14 @@ export async function getRecentTransactions(limit?: number, chainId?: number): P
   );
 }
 
-export async function getTransactions(since?: string, until?: string, chainId?: number): Promise<TransactionDTO[]> {
+export async function getTransactions(
+  since?: string,
+  until?: string,
+  chainId?: number,
+  metadata?: TransactionMetadataFilter,
+): Promise<TransactionDTO[]> {
   return withAuthRead(async (auth) => {
-    const options: { since?: Date; until?: Date; chainId?: number } = {};
+    const options: { since?: Date; until?: Date; chainId?: number } & TransactionMetadataFilter = {};
     if (since) {
       const sinceDate = new Date(since);
       if (isNaN(sinceDate.getTime())) throw new Error("Invalid 'since' date format");
@@ -29,6 +35,8 @@ export async function getTransactions(since?: string, until?: string, chainId?:
     if (chainId !== undefined) {
       options.chainId = chainId;
     }
+    if (metadata?.tag) options.tag = metadata.tag;
+    if (metadata?.taskId) options.taskId = metadata.taskId;
     return _getTransactions(auth.userId, options);
   });
 }
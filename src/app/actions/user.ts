@@ -1,9 +1,15 @@
 "use server";
 
 import { revalidatePath } from "next/cache";
-import { ok } from "@/lib/action-result";
+import { ok, err } from "@/lib/action-result";
 import { withAuth } from "@/lib/action-result-server";
-import { setUserEnabledChains as _setUserEnabledChains } from "@/lib/data/user";
+import {
+  setUserEnabledChains as _setUserEnabledChains,
+  setUserBudget as _setUserBudget,
+  setRecipientDenylist as _setRecipientDenylist,
+} from "@/lib/data/user";
+import { regenerateHumanHash as _regenerateHumanHash } from "@/lib/data/wallet";
+import { UserBudgetInput, UserRecipientDenylistInput } from "@/lib/models/user";
 
 export async function updateEnabledChainsAction(chainIds: number[]) {
   return withAuth(async (auth) => {
@@ -12,3 +18,41 @@ export async function updateEnabledChainsAction(chainIds: number[]) {
     return ok(result);
   });
 }
+
+export async function updateBudgetAction(budget: UserBudgetInput) {
+  return withAuth(async (auth) => {
+    const parsed = UserBudgetInput.safeParse(budget);
+    if (!parsed.success) {
+      return err(
+        `Invalid input: ${parsed.error.issues.map((i) => i.message).join(", ")}`,
+      );
+    }
+
+    const result = await _setUserBudget(auth.userId, parsed.data);
+    revalidatePath("/dashboard/settings");
+    return ok(result);
+  });
+}
+
+export async function updateRecipientDenylistAction(input: UserRecipientDenylistInput) {
+  return withAuth(async (auth) => {
+    const parsed = UserRecipientDenylistInput.safeParse(input);
+    if (!parsed.success) {
+      return err(
+        `Invalid input: ${parsed.error.issues.map((i) => i.message).join(", ")}`,
+      );
+    }
+
+    const result = await _setRecipientDenylist(auth.userId, parsed.data.deniedPayTo);
+    revalidatePath("/dashboard/settings");
+    return ok(result);
+  });
+}
+
+export async function regenerateMcpUrlAction() {
+  return withAuth(async (auth) => {
+    const humanHash = await _regenerateHumanHash(auth.userId);
+    revalidatePath("/dashboard/mcp");
+    return ok({ humanHash });
+  });
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server";
+import { rateLimit, getClientIp } from "@/lib/rate-limit";
+import { getAuthenticatedUser } from "@/lib/auth";
+import { getSpendingGrants } from "@/lib/data/spending-grants";
+
+/**
+ * GET /api/grants
+ * List the authenticated user's pending and active spending grants.
+ * Used by React Query polling in the dashboard.
+ */
+export async function GET(request: NextRequest) {
+  const limited = rateLimit(getClientIp(request), 30);
+  if (limited) return limited;
+
+  const auth = await getAuthenticatedUser();
+  if (!auth) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const grants = await getSpendingGrants(auth.userId);
+
+  return NextResponse.json(grants);
+}
@@ -1,83 +1,278 @@
 import { WebStandardStreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/webStandardStreamableHttp.js";
+import { checkResourceAllowed } from "@modelcontextprotocol/sdk/shared/auth-utils.js";
 import { createMcpServer } from "@/lib/mcp/server";
 import { rateLimit, getClientIp } from "@/lib/rate-limit";
-import { getUserByApiKey } from "@/lib/data/users";
+import { getUserByApiKey } from "@/lib/data/api-keys";
+import { getUserByAccessToken, OAUTH_ACCESS_TOKEN_PREFIX } from "@/lib/data/oauth";
+import { getProtectedResourceMetadataUrl } from "@/lib/oauth";
+import { getUserHumanHash } from "@/lib/data/wallet";
+import { logger } from "@/lib/logger";
+import { getToolScope, type ApiKeyScope } from "@/lib/mcp/tool-registry";
+import { handleStatefulMcpRequest, isStatefulMcpEnabled } from "@/lib/mcp/session";
 
 /**
- * Extract API key from the request.
- * Priority: Authorization: Bearer header > api_key query parameter.
+ * Mismatched URL attempts allowed per IP and per credential in the window below.
+ * Kept far lower than the normal request limit: a valid key used against
+ * someone else's URL points to a shared key or to URL scraping.
  */
-function extractApiKey(request: Request): string | null {
+const HUMAN_HASH_MISMATCH_LIMIT = 10;
+const HUMAN_HASH_MISMATCH_WINDOW_MS = 15 * 60_000;
+
+interface McpRouteContext {
+  params: Promise<{ humanHash: string }>;
+}
+
+/** Who an MCP request authenticated as, via an API key or an OAuth access token. */
+interface McpCaller {
+  userId: string;
+  /** Set for API keys only. */
+  apiKeyId?: string;
+  /** Set for OAuth access tokens only; the app's budget and attribution hang off it. */
+  oauthClientId?: string;
+  scopes: ApiKeyScope[];
+  /** Stable id of the credential, for per-credential rate limits and logs. */
+  credentialId: string;
+}
+
+/**
+ * Extract the bearer credential from the request.
+ * Priority: Authorization: Bearer header > api_key query parameter. The query
+ * parameter is kept for existing API key setups only; OAuth access tokens
+ * must be sent in the header.
+ */
+function extractCredential(request: Request): { token: string; fromQuery: boolean } | null {
   const authHeader = request.headers.get("authorization");
   if (authHeader) {
     const match = authHeader.match(/^Bearer\s+(.+)$/i);
     if (match) {
-      return match[1];
+      return { token: match[1], fromQuery: false };
     }
   }
 
   const url = new URL(request.url);
   const queryKey = url.searchParams.get("api_key");
   if (queryKey) {
-    return queryKey;
+    return { token: queryKey, fromQuery: true };
   }
 
   return null;
 }
 
-// Stateless: create a fresh server + transport per request
-async function handleMcpRequest(
+/**
+ * Resolve a credential to the calling user. OAuth access tokens bound to a
+ * resource only work for MCP URLs under that resource.
+ */
+async function authenticate(
   request: Request,
-): Promise<Response> {
-  // IP-based rate limiting
-  const ipLimited = rateLimit(getClientIp(request), 60);
-  if (ipLimited) return ipLimited;
+  credential: { token: string; fromQuery: boolean },
+  clientIp: string,
+): Promise<McpCaller | null> {
+  if (credential.token.startsWith(OAUTH_ACCESS_TOKEN_PREFIX)) {
+    if (credential.fromQuery) return null;
+    const identity = await getUserByAccessToken(credential.token);
+    if (!identity) return null;
+
+    const url = new URL(request.url);
+    if (
+      identity.resource &&
+      !checkResourceAllowed({ requestedResource: `${url.origin}${url.pathname}`, configuredResource: identity.resource })
+    ) {
+      return null;
+    }
+    return {
+      userId: identity.userId,
+      oauthClientId: identity.clientId,
+      scopes: identity.scopes,
+      credentialId: `oauth:${identity.grantId}`,
+    };
+  }
+
+  const identity = await getUserByApiKey(credential.token, clientIp);
+  if (!identity) return null;
+  if (credential.fromQuery) {
+    logger.info("API key passed as query parameter", { userId: identity.userId, apiKeyId: identity.apiKeyId, action: "api_key_query_param" });
+  }
+  return { ...identity, credentialId: identity.apiKeyId };
+}
+
+/**
+ * 401 with a WWW-Authenticate challenge pointing at the protected resource
+ * metadata, which is how MCP clients discover the OAuth flow.
+ */
+function unauthorized(request: Request, body: Record<string, string>, invalidToken: boolean): Response {
+  const url = new URL(request.url);
+  const metadataUrl = getProtectedResourceMetadataUrl(url.origin, url.pathname);
+  const challenge = invalidToken
+    ? `Bearer error="invalid_token", resource_metadata="${metadataUrl}"`
+    : `Bearer resource_metadata="${metadataUrl}"`;
+  return new Response(JSON.stringify(body), {
+    status: 401,
+    headers: { "Content-Type": "application/json", "WWW-Authenticate": challenge },
+  });
+}
+
+/** Why a tools/call is outside the caller's scopes, or null if it is not such a call. */
+function outOfScopeReason(message: unknown, scopes: readonly ApiKeyScope[]): string | null {
+  if (!message || typeof message !== "object" || Array.isArray(message)) return null;
+
+  const { method, params } = message as { method?: unknown; params?: { name?: unknown } };
+  if (method !== "tools/call" || typeof params?.name !== "string") return null;
+
+  const scope = getToolScope(params.name);
+  if (!scope || scopes.includes(scope)) return null;
+
+  return `${params.name} requires the "${scope}" scope, which this API key or OAuth authorization does not have (scopes: ${scopes.join(", ")}). Ask the user to grant it in the dashboard.`;
+}
+
+/**
+ * Refuse a tools/call for a known tool outside the key's scopes with a tool
+ * error the agent can read, instead of the SDK's generic "tool not found".
+ * A JSON-RPC batch containing such a call is refused as a whole. Returns
+ * null if the request has no such call.
+ */
+async function refuseOutOfScopeCall(
+  request: Request,
+  scopes: readonly ApiKeyScope[],
+): Promise<Response | null> {
+  if (request.method !== "POST") return null;
+
+  let body: unknown;
+  try {
+    body = await request.clone().json();
+  } catch {
+    return null; // Let the transport report malformed JSON
+  }
 
-  // Extract and validate API key
-  const apiKey = extractApiKey(request);
-  if (!apiKey) {
+  if (Array.isArray(body)) {
+    const reason = body.map((message) => outOfScopeReason(message, scopes)).find((r) => r !== null);
+    if (!reason) return null;
     return new Response(
       JSON.stringify({
-        error: "API key required",
-        hint: "Pass via Authorization: Bearer <key> header or ?api_key=<key> query parameter",
+        jsonrpc: "2.0",
+        id: null,
+        error: { code: -32600, message: `Invalid Request: batch refused because ${reason}` },
       }),
-      { status: 401, headers: { "Content-Type": "application/json" } },
+      { status: 400, headers: { "Content-Type": "application/json" } },
     );
   }
 
-  // Look up user by API key
-  const result = await getUserByApiKey(apiKey);
-  if (!result) {
-    return new Response(
-      JSON.stringify({ error: "Invalid API key" }),
-      { status: 401, headers: { "Content-Type": "application/json" } },
+  const reason = outOfScopeReason(body, scopes);
+  if (!reason) return null;
+
+  const { id } = body as { id?: unknown };
+  return new Response(
+    JSON.stringify({
+      jsonrpc: "2.0",
+      id: id ?? null,
+      result: {
+        content: [{ type: "text", text: `Error: ${reason}` }],
+        isError: true,
+      },
+    }),
+    { status: 200, headers: { "Content-Type": "application/json" } },
+  );
+}
+
+/**
+ * Reject a request whose URL humanHash does not belong to the caller's user.
+ * Mismatches are logged and counted in their own rate-limit buckets, per IP
+ * and per credential, so repeated attempts are throttled well before the
+ * normal request limit. Returns null if the humanHash matches.
+ */
+async function refuseHumanHashMismatch(
+  humanHash: string,
+  { userId, credentialId }: McpCaller,
+  clientIp: string,
+): Promise<Response | null> {
+  const expected = await getUserHumanHash(userId);
+  if (expected && expected === humanHash) return null;
+
+  logger.warn("MCP humanHash does not match credential", {
+    userId,
+    credentialId,
+    action: "human_hash_mismatch",
+    humanHash,
+    clientIp,
+  });
+
+  const ipLimited = rateLimit(`mcp-mismatch:ip:${clientIp}`, HUMAN_HASH_MISMATCH_LIMIT, HUMAN_HASH_MISMATCH_WINDOW_MS);
+  if (ipLimited) return ipLimited;
+  const keyLimited = rateLimit(`mcp-mismatch:key:${credentialId}`, HUMAN_HASH_MISMATCH_LIMIT, HUMAN_HASH_MISMATCH_WINDOW_MS);
+  if (keyLimited) return keyLimited;
+
+  return new Response(
+    JSON.stringify({
+      error: "Credentials do not match this MCP server URL",
+      hint: "Copy the current MCP server URL from the dashboard. URLs stop working after they are regenerated.",
+    }),
+    { status: 403, headers: { "Content-Type": "application/json" } },
+  );
+}
+
+// A fresh server + transport per request: stateless by default, or bound to a
+// MongoDB-backed session when MCP_STATEFUL_SESSIONS is enabled
+async function handleMcpRequest(
+  request: Request,
+  { params }: McpRouteContext,
+): Promise<Response> {
+  // IP-based rate limiting
+  const clientIp = getClientIp(request);
+  const ipLimited = rateLimit(clientIp, 60);
+  if (ipLimited) return ipLimited;
+
+  // Extract and validate the API key or OAuth access token
+  const credential = extractCredential(request);
+  if (!credential) {
+    return unauthorized(
+      request,
+      {
+        error: "Authorization required",
+        hint: "Authorize via OAuth, or pass an API key via Authorization: Bearer <key> header",
+      },
+      false,
     );
   }
 
-  const { userId } = result;
+  const caller = await authenticate(request, credential, clientIp);
+  if (!caller) {
+    return unauthorized(request, { error: "Invalid or expired credentials" }, true);
+  }
+
+  const { userId, apiKeyId, oauthClientId, scopes } = caller;
+
+  const { humanHash } = await params;
+  const mismatch = await refuseHumanHashMismatch(humanHash, caller, clientIp);
+  if (mismatch) return mismatch;
 
-  // API key rate limiting (after validation, keyed by userId)
+  // Per-user rate limiting (after validation, shared by all of the user's credentials)
   const keyLimited = rateLimit(`apikey:${userId}`, 60);
   if (keyLimited) return keyLimited;
 
+  const refused = await refuseOutOfScopeCall(request, scopes);
+  if (refused) return refused;
+
+  if (isStatefulMcpEnabled()) {
+    return handleStatefulMcpRequest(request, caller, () => createMcpServer(userId, apiKeyId, scopes, oauthClientId));
+  }
+
   const transport = new WebStandardStreamableHTTPServerTransport({
     sessionIdGenerator: undefined, // stateless mode
   });
 
-  const server = createMcpServer(userId);
+  const server = createMcpServer(userId, apiKeyId, scopes, oauthClientId);
   await server.connect(transport);
 
   return transport.handleRequest(request);
 }
 
-export async function GET(request: Request) {
-  return handleMcpRequest(request);
+export async function GET(request: Request, context: McpRouteContext) {
+  return handleMcpRequest(request, context);
 }
 
-export async function POST(request: Request) {
-  return handleMcpRequest(request);
+export async function POST(request: Request, context: McpRouteContext) {
+  return handleMcpRequest(request, context);
 }
 
-export async function DELETE(request: Request) {
-  return handleMcpRequest(request);
+export async function DELETE(request: Request, context: McpRouteContext) {
+  return handleMcpRequest(request, context);
 }
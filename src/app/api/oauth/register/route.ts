@@ -0,0 +1,58 @@
+import { OAuthClientMetadataSchema } from "@modelcontextprotocol/sdk/shared/auth.js";
+import { rateLimit, getClientIp } from "@/lib/rate-limit";
+import { registerOAuthClient } from "@/lib/data/oauth";
+import { OAuthClientRegistrationInput } from "@/lib/models/oauth-client";
+import { API_KEY_SCOPES } from "@/lib/mcp/tool-registry";
+import { logger } from "@/lib/logger";
+
+function registrationError(error: string, description: string): Response {
+  return Response.json({ error, error_description: description }, { status: 400 });
+}
+
+/**
+ * Dynamic client registration (RFC 7591). Every client is registered as a
+ * public client (token_endpoint_auth_method "none") that must use PKCE.
+ */
+export async function POST(request: Request) {
+  const limited = rateLimit(`oauth-register:${getClientIp(request)}`, 10);
+  if (limited) return limited;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return registrationError("invalid_client_metadata", "Request body must be JSON");
+  }
+
+  const metadata = OAuthClientMetadataSchema.safeParse(body);
+  if (!metadata.success) {
+    return registrationError("invalid_client_metadata", metadata.error.issues[0]?.message ?? "Invalid client metadata");
+  }
+
+  const parsed = OAuthClientRegistrationInput.safeParse({
+    clientName: metadata.data.client_name ?? null,
+    clientUri: metadata.data.client_uri ?? null,
+    redirectUris: metadata.data.redirect_uris,
+  });
+  if (!parsed.success) {
+    return registrationError("invalid_redirect_uri", parsed.error.issues[0]?.message ?? "Invalid redirect URI");
+  }
+
+  const client = await registerOAuthClient(parsed.data);
+  logger.info("OAuth client registered", { action: "oauth_client_registered", clientId: client.clientId, clientName: client.clientName });
+
+  return Response.json(
+    {
+      client_id: client.clientId,
+      client_id_issued_at: Math.floor(new Date(client.createdAt).getTime() / 1000),
+      client_name: client.clientName ?? undefined,
+      client_uri: client.clientUri ?? undefined,
+      redirect_uris: client.redirectUris,
+      token_endpoint_auth_method: "none",
+      grant_types: ["authorization_code", "refresh_token"],
+      response_types: ["code"],
+      scope: API_KEY_SCOPES.join(" "),
+    },
+    { status: 201, headers: { "Cache-Control": "no-store" } },
+  );
+}
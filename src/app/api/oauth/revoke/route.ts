@@ -0,0 +1,30 @@
+import { rateLimit, getClientIp } from "@/lib/rate-limit";
+import { revokeOAuthToken } from "@/lib/data/oauth";
+import { oauthError } from "@/lib/oauth";
+
+/**
+ * Token revocation (RFC 7009). Revoking either token ends the whole grant.
+ * Always answers 200 for well-formed requests, even for unknown tokens.
+ */
+export async function POST(request: Request) {
+  const limited = rateLimit(`oauth-revoke:${getClientIp(request)}`, 60);
+  if (limited) return limited;
+
+  let form: FormData;
+  try {
+    form = await request.formData();
+  } catch {
+    return oauthError("invalid_request", "Request body must be application/x-www-form-urlencoded");
+  }
+  const token = form.get("token");
+  const clientId = form.get("client_id");
+  if (typeof token !== "string" || !token) {
+    return oauthError("invalid_request", "token is required");
+  }
+  if (typeof clientId !== "string" || !clientId) {
+    return oauthError("invalid_client", "client_id is required", 401);
+  }
+
+  await revokeOAuthToken(token, clientId);
+  return new Response(null, { status: 200 });
+}
@@ -0,0 +1,63 @@
+import { rateLimit, getClientIp } from "@/lib/rate-limit";
+import { exchangeAuthorizationCode, refreshAccessToken, type OAuthTokenResult } from "@/lib/data/oauth";
+import { oauthError, parseScope } from "@/lib/oauth";
+
+function tokenResponse(result: OAuthTokenResult): Response {
+  if (result.status === "invalid_grant") {
+    return oauthError("invalid_grant", result.reason);
+  }
+  return Response.json(result.tokens, {
+    headers: { "Cache-Control": "no-store", Pragma: "no-cache" },
+  });
+}
+
+/**
+ * Token endpoint: authorization_code (with PKCE) and refresh_token grants.
+ * Clients are public, so client_id is sent in the form body.
+ */
+export async function POST(request: Request) {
+  const limited = rateLimit(`oauth-token:${getClientIp(request)}`, 60);
+  if (limited) return limited;
+
+  let form: FormData;
+  try {
+    form = await request.formData();
+  } catch {
+    return oauthError("invalid_request", "Request body must be application/x-www-form-urlencoded");
+  }
+  const field = (name: string) => {
+    const value = form.get(name);
+    return typeof value === "string" && value !== "" ? value : null;
+  };
+
+  const clientId = field("client_id");
+  if (!clientId) {
+    return oauthError("invalid_client", "client_id is required", 401);
+  }
+
+  switch (field("grant_type")) {
+    case "authorization_code": {
+      const code = field("code");
+      const redirectUri = field("redirect_uri");
+      const codeVerifier = field("code_verifier");
+      if (!code || !redirectUri || !codeVerifier) {
+        return oauthError("invalid_request", "code, redirect_uri and code_verifier are required");
+      }
+      return tokenResponse(await exchangeAuthorizationCode({ code, clientId, redirectUri, codeVerifier }));
+    }
+    case "refresh_token": {
+      const refreshToken = field("refresh_token");
+      if (!refreshToken) {
+        return oauthError("invalid_request", "refresh_token is required");
+      }
+      const scope = field("scope");
+      const scopes = scope ? parseScope(scope) : undefined;
+      if (scopes === null) {
+        return oauthError("invalid_scope", "Unknown scope requested");
+      }
+      return tokenResponse(await refreshAccessToken({ refreshToken, clientId, scopes }));
+    }
+    default:
+      return oauthError("unsupported_grant_type", "Supported grant types: authorization_code, refresh_token");
+  }
+}
@@ -3,6 +3,7 @@
 import { useState } from "react";
 import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Dialog,
   DialogContent,
@@ -13,8 +14,34 @@ import {
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
 import { createPolicy } from "@/app/actions/policies";
+import { useChain } from "@/contexts/chain-context";
+import { HTTP_METHODS, type HttpMethod } from "@/lib/endpoint-pattern";
+
+/** Parse an optional USD cap input; blank means no cap. */
+function parseCap(value: string): number | null {
+  const trimmed = value.trim();
+  return trimmed === "" ? null : Number(trimmed);
+}
+
+/** Which chains a new policy applies to. */
+type ChainScope = "current" | "all" | "selected";
+
+/** Split a comma- or whitespace-separated list of addresses. */
+function parseAddressList(value: string): string[] {
+  return value
+    .split(/[\s,]+/)
+    .map((a) => a.trim())
+    .filter((a) => a !== "");
+}
 
 interface AddPolicyDialogProps {
   open: boolean;
@@ -30,17 +57,57 @@ export function AddPolicyDialog({
   chainId,
 }: AddPolicyDialogProps) {
   const [endpointPattern, setEndpointPattern] = useState("");
+  const { supportedChains } = useChain();
+  const [chainScope, setChainScope] = useState<ChainScope>("current");
+  const [selectedChainIds, setSelectedChainIds] = useState<number[]>([]);
+  const [methods, setMethods] = useState<HttpMethod[]>([]);
   const [autoSign, setAutoSign] = useState(false);
+  const [maxPerRequest, setMaxPerRequest] = useState("");
+  const [maxPerHour, setMaxPerHour] = useState("");
+  const [maxPerDay, setMaxPerDay] = useState("");
+  const [maxInChatApproval, setMaxInChatApproval] = useState("");
+  const [maxPriceIncreasePercent, setMaxPriceIncreasePercent] = useState("");
+  const [maxPriceIncreaseUsd, setMaxPriceIncreaseUsd] = useState("");
+  const [rejectPriceIncrease, setRejectPriceIncrease] = useState(false);
+  const [allowedPayTo, setAllowedPayTo] = useState("");
+  const [allowedAssets, setAllowedAssets] = useState("");
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  function toggleMethod(method: HttpMethod, checked: boolean) {
+    setMethods((prev) =>
+      checked ? [...prev, method] : prev.filter((m) => m !== method),
+    );
+  }
+
+  function toggleChain(id: number, checked: boolean) {
+    setSelectedChainIds((prev) =>
+      checked ? [...prev, id] : prev.filter((c) => c !== id),
+    );
+  }
+
   async function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
     setError(null);
     setSubmitting(true);
 
     try {
-      const result = await createPolicy({ endpointPattern, autoSign, chainId });
+      const result = await createPolicy({
+        endpointPattern,
+        methods,
+        autoSign,
+        chainId: chainScope === "current" ? chainId : null,
+        chainIds: chainScope === "selected" ? selectedChainIds : [],
+        maxPerRequest: parseCap(maxPerRequest),
+        maxPerHour: parseCap(maxPerHour),
+        maxPerDay: parseCap(maxPerDay),
+        maxInChatApproval: parseCap(maxInChatApproval),
+        maxPriceIncreasePercent: parseCap(maxPriceIncreasePercent),
+        maxPriceIncreaseUsd: parseCap(maxPriceIncreaseUsd),
+        priceIncreaseAction: rejectPriceIncrease ? "reject" : "manual_approval",
+        allowedPayTo: parseAddressList(allowedPayTo),
+        allowedAssets: parseAddressList(allowedAssets),
+      });
 
       if (!result.success) {
         setError(result.error);
@@ -49,7 +116,19 @@ export function AddPolicyDialog({
 
       toast.success("Policy created");
       setEndpointPattern("");
+      setMethods([]);
+      setChainScope("current");
+      setSelectedChainIds([]);
       setAutoSign(false);
+      setMaxPerRequest("");
+      setMaxPerHour("");
+      setMaxPerDay("");
+      setMaxInChatApproval("");
+      setMaxPriceIncreasePercent("");
+      setMaxPriceIncreaseUsd("");
+      setRejectPriceIncrease(false);
+      setAllowedPayTo("");
+      setAllowedAssets("");
       onOpenChange(false);
       onSuccess();
     } catch {
@@ -65,8 +144,9 @@ export function AddPolicyDialog({
         <DialogHeader>
           <DialogTitle>Add Endpoint Policy</DialogTitle>
           <DialogDescription>
-            Create a new policy for an endpoint pattern. Use wildcards like{" "}
-            <code className="text-xs">https://api.example.com/*</code>
+            Create a new policy for an endpoint pattern. Use host wildcards,
+            path globs and parameters like{" "}
+            <code className="text-xs">{"https://*.example.com/v1/{id}/**"}</code>
           </DialogDescription>
         </DialogHeader>
 
@@ -75,7 +155,7 @@ export function AddPolicyDialog({
             <Label htmlFor="endpointPattern">Endpoint Pattern</Label>
             <Input
               id="endpointPattern"
-              placeholder="https://api.example.com/*"
+              placeholder="https://api.example.com/v1/*"
               value={endpointPattern}
               onChange={(e) => setEndpointPattern(e.target.value)}
               data-testid="policy-endpoint-pattern-input"
@@ -83,6 +163,63 @@ export function AddPolicyDialog({
             />
           </div>
 
+          <div className="flex flex-col gap-2">
+            <Label>Chains</Label>
+            <Select value={chainScope} onValueChange={(v) => setChainScope(v as ChainScope)}>
+              <SelectTrigger data-testid="policy-chain-scope-select">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="current">This chain only</SelectItem>
+                <SelectItem value="all">All enabled chains</SelectItem>
+                <SelectItem value="selected">Selected chains</SelectItem>
+              </SelectContent>
+            </Select>
+            {chainScope === "selected" && (
+              <div className="flex flex-wrap gap-4">
+                {supportedChains.map((config) => (
+                  <div key={config.chain.id} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`chain-${config.chain.id}`}
+                      checked={selectedChainIds.includes(config.chain.id)}
+                      onCheckedChange={(checked) => toggleChain(config.chain.id, checked === true)}
+                    />
+                    <Label htmlFor={`chain-${config.chain.id}`} className="text-xs">
+                      {config.displayName}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            )}
+            <p className="text-muted-foreground text-xs">
+              A policy for this chain takes precedence over a multi-chain policy.
+            </p>
+          </div>
+
+          <div className="flex flex-col gap-2">
+            <Label>HTTP Methods</Label>
+            <div className="flex flex-wrap gap-4">
+              {HTTP_METHODS.map((method) => (
+                <div key={method} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`method-${method}`}
+                    checked={methods.includes(method)}
+                    onCheckedChange={(checked) => toggleMethod(method, checked === true)}
+                    data-testid={`policy-method-${method.toLowerCase()}-checkbox`}
+                  />
+                  <Label htmlFor={`method-${method}`} className="font-mono text-xs">
+                    {method}
+                  </Label>
+                </div>
+              ))}
+            </div>
+            <p className="text-muted-foreground text-xs">
+              Leave all unchecked to apply to every method. A policy for
+              specific methods takes precedence over one for the same pattern
+              that covers every method.
+            </p>
+          </div>
+
           <div className="flex items-center gap-3">
             <Switch
               id="autoSign"
@@ -92,6 +229,132 @@ export function AddPolicyDialog({
             <Label htmlFor="autoSign">Auto-sign payments</Label>
           </div>
 
+          <div className="flex flex-col gap-2">
+            <Label>Spending Limits (USD, optional)</Label>
+            <div className="grid grid-cols-3 gap-2">
+              <Input
+                id="maxPerRequest"
+                type="number"
+                min="0"
+                step="any"
+                placeholder="Per request"
+                aria-label="Maximum per request (USD)"
+                value={maxPerRequest}
+                onChange={(e) => setMaxPerRequest(e.target.value)}
+                data-testid="policy-max-per-request-input"
+              />
+              <Input
+                id="maxPerHour"
+                type="number"
+                min="0"
+                step="any"
+                placeholder="Per hour"
+                aria-label="Maximum per hour (USD)"
+                value={maxPerHour}
+                onChange={(e) => setMaxPerHour(e.target.value)}
+                data-testid="policy-max-per-hour-input"
+              />
+              <Input
+                id="maxPerDay"
+                type="number"
+                min="0"
+                step="any"
+                placeholder="Per day"
+                aria-label="Maximum per day (USD)"
+                value={maxPerDay}
+                onChange={(e) => setMaxPerDay(e.target.value)}
+                data-testid="policy-max-per-day-input"
+              />
+            </div>
+            <p className="text-muted-foreground text-xs">
+              Payments over a limit need manual approval when auto-sign is on,
+              and are rejected otherwise.
+            </p>
+          </div>
+
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="maxInChatApproval">Confirm in Chat up to (USD, optional)</Label>
+            <Input
+              id="maxInChatApproval"
+              type="number"
+              min="0"
+              step="any"
+              placeholder="e.g. 1.00"
+              value={maxInChatApproval}
+              onChange={(e) => setMaxInChatApproval(e.target.value)}
+              data-testid="policy-max-in-chat-approval-input"
+            />
+            <p className="text-muted-foreground text-xs">
+              Payments needing approval at or below this amount can be confirmed
+              in MCP clients that support it. Larger ones need a wallet signature.
+            </p>
+          </div>
+
+          <div className="flex flex-col gap-2">
+            <Label>Price Increase Protection (optional)</Label>
+            <div className="grid grid-cols-2 gap-2">
+              <Input
+                id="maxPriceIncreasePercent"
+                type="number"
+                min="0"
+                step="any"
+                placeholder="Max increase %"
+                aria-label="Maximum price increase (percent)"
+                value={maxPriceIncreasePercent}
+                onChange={(e) => setMaxPriceIncreasePercent(e.target.value)}
+                data-testid="policy-max-price-increase-percent-input"
+              />
+              <Input
+                id="maxPriceIncreaseUsd"
+                type="number"
+                min="0"
+                step="any"
+                placeholder="Max increase USD"
+                aria-label="Maximum price increase (USD)"
+                value={maxPriceIncreaseUsd}
+                onChange={(e) => setMaxPriceIncreaseUsd(e.target.value)}
+                data-testid="policy-max-price-increase-usd-input"
+              />
+            </div>
+            <div className="flex items-center gap-3">
+              <Switch
+                id="rejectPriceIncrease"
+                checked={rejectPriceIncrease}
+                onCheckedChange={setRejectPriceIncrease}
+              />
+              <Label htmlFor="rejectPriceIncrease">Reject instead of asking for approval</Label>
+            </div>
+            <p className="text-muted-foreground text-xs">
+              Compared with the last price paid to the same endpoint under this
+              policy.
+            </p>
+          </div>
+
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="allowedPayTo">Allowed Recipients (optional)</Label>
+            <Input
+              id="allowedPayTo"
+              placeholder="0x... (payTo addresses, comma-separated)"
+              value={allowedPayTo}
+              onChange={(e) => setAllowedPayTo(e.target.value)}
+              className="font-mono"
+              data-testid="policy-allowed-pay-to-input"
+            />
+            <Input
+              id="allowedAssets"
+              placeholder="0x... (token addresses, comma-separated)"
+              aria-label="Allowed assets"
+              value={allowedAssets}
+              onChange={(e) => setAllowedAssets(e.target.value)}
+              className="font-mono"
+              data-testid="policy-allowed-assets-input"
+            />
+            <p className="text-muted-foreground text-xs">
+              Payments to any other recipient or token are rejected. Leave
+              blank to allow any.
+            </p>
+          </div>
+
           {error && (
             <p className="text-destructive text-sm">{error}</p>
           )}
@@ -106,7 +369,11 @@ export function AddPolicyDialog({
             </Button>
             <Button
               type="submit"
-              disabled={submitting || !endpointPattern}
+              disabled={
+                submitting ||
+                !endpointPattern ||
+                (chainScope === "selected" && selectedChainIds.length === 0)
+              }
               data-testid="policy-create-button"
             >
               {submitting ? "Creating..." : "Create Policy"}
@@ -1,15 +1,19 @@
 "use client";
 
-import { useState } from "react";
-import { Copy, Check, RotateCw, AlertTriangle } from "lucide-react";
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { Copy, Check, Plus, AlertTriangle } from "lucide-react";
 import {
   Card,
+  CardAction,
   CardContent,
   CardDescription,
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -21,28 +25,202 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
 import { toast } from "sonner";
-import { regenerateApiKey } from "@/app/actions/api-key";
+import { createApiKey, updateApiKeyScopes, updateApiKeyBudget, revokeApiKey } from "@/app/actions/api-key";
+import { API_KEY_SCOPES, API_KEY_SCOPE_LABELS, type ApiKeyScope } from "@/lib/mcp/tool-registry";
+import type { ApiKeyDTO } from "@/lib/models/api-key";
 
 interface ApiKeyCardProps {
-  apiKeyPrefix: string | null;
+  apiKeys: ApiKeyDTO[];
+}
+
+function formatDate(dateStr: string): string {
+  return new Date(dateStr).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function toInputValue(value: number | null): string {
+  return value == null ? "" : String(value);
+}
+
+/** Parse an optional USD limit input; blank means no limit. */
+function parseLimit(value: string): number | null {
+  const trimmed = value.trim();
+  return trimmed === "" ? null : Number(trimmed);
+}
+
+function formatKeyBudget(key: ApiKeyDTO): string {
+  const limits = [
+    key.dailyBudget != null && `$${key.dailyBudget}/day`,
+    key.monthlyBudget != null && `$${key.monthlyBudget}/month`,
+    key.maxPerRequest != null && `$${key.maxPerRequest}/request`,
+  ].filter(Boolean);
+  return limits.length > 0 ? limits.join(" · ") : "No limit";
+}
+
+const BUDGET_FIELDS = [
+  { field: "dailyBudget", label: "Daily budget (USD)" },
+  { field: "monthlyBudget", label: "Monthly budget (USD)" },
+  { field: "maxPerRequest", label: "Per-request cap (USD)" },
+] as const;
+
+type BudgetField = (typeof BUDGET_FIELDS)[number]["field"];
+
+function ScopeCheckboxes({
+  idPrefix,
+  scopes,
+  onChange,
+}: {
+  idPrefix: string;
+  scopes: ApiKeyScope[];
+  onChange: (scopes: ApiKeyScope[]) => void;
+}) {
+  return (
+    <div className="flex flex-col gap-2">
+      {API_KEY_SCOPES.map((scope) => (
+        <div key={scope} className="flex items-center gap-2">
+          <Checkbox
+            id={`${idPrefix}-${scope}`}
+            checked={scopes.includes(scope)}
+            onCheckedChange={(checked) =>
+              onChange(
+                checked
+                  ? API_KEY_SCOPES.filter((s) => s === scope || scopes.includes(s))
+                  : scopes.filter((s) => s !== scope),
+              )
+            }
+          />
+          <Label htmlFor={`${idPrefix}-${scope}`} className="font-normal">
+            <span className="font-mono text-xs">{scope}</span>
+            <span className="text-muted-foreground">— {API_KEY_SCOPE_LABELS[scope]}</span>
+          </Label>
+        </div>
+      ))}
+    </div>
+  );
 }
 
-export function ApiKeyCard({ apiKeyPrefix }: ApiKeyCardProps) {
+export function ApiKeyCard({ apiKeys }: ApiKeyCardProps) {
+  const router = useRouter();
+  const [, startTransition] = useTransition();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [label, setLabel] = useState("");
+  const [scopes, setScopes] = useState<ApiKeyScope[]>([...API_KEY_SCOPES]);
+  const [editingKey, setEditingKey] = useState<ApiKeyDTO | null>(null);
+  const [editScopes, setEditScopes] = useState<ApiKeyScope[]>([]);
+  const [savingScopes, setSavingScopes] = useState(false);
+  const [budgetKey, setBudgetKey] = useState<ApiKeyDTO | null>(null);
+  const [budgetInputs, setBudgetInputs] = useState<Record<BudgetField, string>>({
+    dailyBudget: "",
+    monthlyBudget: "",
+    maxPerRequest: "",
+  });
+  const [savingBudget, setSavingBudget] = useState(false);
+  const [creating, setCreating] = useState(false);
   const [newKey, setNewKey] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
-  const [isRotating, setIsRotating] = useState(false);
 
-  const handleRotate = async () => {
-    setIsRotating(true);
-    const result = await regenerateApiKey();
+  const handleOpenChange = (open: boolean) => {
+    setDialogOpen(open);
+    if (!open) {
+      setLabel("");
+      setScopes([...API_KEY_SCOPES]);
+      setNewKey(null);
+      setCopied(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCreating(true);
+    const result = await createApiKey(label, scopes);
     if (result.success) {
       setNewKey(result.data.rawKey);
-      setCopied(false);
+      startTransition(() => router.refresh());
+    } else {
+      toast.error(result.error);
+    }
+    setCreating(false);
+  };
+
+  const openScopeEditor = (key: ApiKeyDTO) => {
+    setEditingKey(key);
+    setEditScopes(key.scopes);
+  };
+
+  const handleSaveScopes = async () => {
+    if (!editingKey) return;
+    setSavingScopes(true);
+    const result = await updateApiKeyScopes(editingKey._id, editScopes);
+    if (result.success) {
+      toast.success(`Updated scopes for "${editingKey.label}"`);
+      setEditingKey(null);
+      startTransition(() => router.refresh());
+    } else {
+      toast.error(result.error);
+    }
+    setSavingScopes(false);
+  };
+
+  const openBudgetEditor = (key: ApiKeyDTO) => {
+    setBudgetKey(key);
+    setBudgetInputs({
+      dailyBudget: toInputValue(key.dailyBudget),
+      monthlyBudget: toInputValue(key.monthlyBudget),
+      maxPerRequest: toInputValue(key.maxPerRequest),
+    });
+  };
+
+  const handleSaveBudget = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!budgetKey) return;
+    setSavingBudget(true);
+    const result = await updateApiKeyBudget(budgetKey._id, {
+      dailyBudget: parseLimit(budgetInputs.dailyBudget),
+      monthlyBudget: parseLimit(budgetInputs.monthlyBudget),
+      maxPerRequest: parseLimit(budgetInputs.maxPerRequest),
+    });
+    if (result.success) {
+      toast.success(`Updated budget for "${budgetKey.label}"`);
+      setBudgetKey(null);
+      startTransition(() => router.refresh());
+    } else {
+      toast.error(result.error);
+    }
+    setSavingBudget(false);
+  };
+
+  const handleRevoke = async (key: ApiKeyDTO) => {
+    const result = await revokeApiKey(key._id);
+    if (result.success) {
+      toast.success(`Revoked "${key.label}"`);
+      startTransition(() => router.refresh());
     } else {
       toast.error(result.error);
     }
-    setIsRotating(false);
   };
 
   const handleCopy = async (text: string) => {
@@ -65,96 +243,267 @@ export function ApiKeyCard({ apiKeyPrefix }: ApiKeyCardProps) {
   return (
     <Card>
       <CardHeader>
-        <CardTitle>API Key</CardTitle>
+        <CardTitle>API Keys</CardTitle>
         <CardDescription>
-          Use this key to authenticate AI agents with your MCP endpoint.
+          Give each AI agent its own key so you can see which agent made a
+          payment, cap how much it can spend, and revoke one without breaking
+          the others.
         </CardDescription>
+        <CardAction>
+          <Button variant="outline" size="sm" onClick={() => setDialogOpen(true)}>
+            <Plus className="size-4" />
+            New Key
+          </Button>
+        </CardAction>
       </CardHeader>
-      <CardContent className="space-y-4">
-        {newKey ? (
-          <div className="space-y-3">
-            <div className="flex items-center gap-2 rounded-md border border-yellow-500/20 bg-yellow-500/10 p-3">
-              <AlertTriangle className="size-4 shrink-0 text-yellow-600" />
-              <p className="text-sm text-yellow-600">
-                Save this key now — it won&apos;t be shown again.
-              </p>
-            </div>
-            <div className="flex items-center gap-2">
-              <div className="bg-muted min-w-0 flex-1 rounded-md border px-3 py-2">
-                <p className="truncate font-mono text-sm">{newKey}</p>
-              </div>
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => handleCopy(newKey)}
-              >
-                {copied ? (
-                  <>
-                    <Check className="size-4" />
-                    Copied!
-                  </>
-                ) : (
-                  <>
-                    <Copy className="size-4" />
-                    Copy
-                  </>
-                )}
-              </Button>
-            </div>
-          </div>
+      <CardContent>
+        {apiKeys.length === 0 ? (
+          <p className="text-muted-foreground text-sm">
+            No API keys yet. Create one for each agent you connect.
+          </p>
         ) : (
-          <div className="flex items-center gap-2">
-            <div className="bg-muted min-w-0 flex-1 rounded-md border px-3 py-2">
-              <p className="font-mono text-sm">
-                {apiKeyPrefix ? (
-                  <>
-                    {apiKeyPrefix}
-                    <span className="text-muted-foreground">
-                      ••••••••••••••••••••••••••••
-                    </span>
-                  </>
-                ) : (
-                  <span className="text-muted-foreground">
-                    No API key generated yet
-                  </span>
-                )}
-              </p>
-            </div>
-          </div>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Label</TableHead>
+                <TableHead>Key</TableHead>
+                <TableHead>Scopes</TableHead>
+                <TableHead>Budget</TableHead>
+                <TableHead>Created</TableHead>
+                <TableHead>Last Used</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {apiKeys.map((key) => (
+                <TableRow key={key._id} className={key.revokedAt ? "opacity-60" : undefined}>
+                  <TableCell className="font-medium">{key.label}</TableCell>
+                  <TableCell className="font-mono text-sm">
+                    {key.keyPrefix}
+                    <span className="text-muted-foreground">••••••••</span>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {key.scopes.map((scope) => (
+                        <Badge key={scope} variant="outline" className="font-mono">
+                          {scope}
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-muted-foreground text-sm">
+                    {formatKeyBudget(key)}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground text-sm">
+                    {formatDate(key.createdAt)}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground text-sm">
+                    {key.lastUsedAt ? (
+                      <>
+                        {formatDate(key.lastUsedAt)}
+                        {key.lastUsedIp && (
+                          <span className="block font-mono text-xs">{key.lastUsedIp}</span>
+                        )}
+                      </>
+                    ) : (
+                      "Never"
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {key.revokedAt ? (
+                      <Badge variant="secondary" className="text-muted-foreground">
+                        Revoked
+                      </Badge>
+                    ) : (
+                      <Badge className="bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300">
+                        Active
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {!key.revokedAt && (
+                      <Button variant="ghost" size="sm" onClick={() => openScopeEditor(key)}>
+                        Edit Scopes
+                      </Button>
+                    )}
+                    {!key.revokedAt && (
+                      <Button variant="ghost" size="sm" onClick={() => openBudgetEditor(key)}>
+                        Edit Budget
+                      </Button>
+                    )}
+                    {!key.revokedAt && (
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="sm" className="text-destructive">
+                            Revoke
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Revoke &ldquo;{key.label}&rdquo;?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Agents using this key will stop working immediately.
+                              Other keys are not affected.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={() => handleRevoke(key)}
+                              variant="destructive"
+                            >
+                              Revoke Key
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
         )}
+      </CardContent>
 
-        <AlertDialog>
-          <AlertDialogTrigger asChild>
-            <Button variant="outline" size="sm" disabled={isRotating}>
-              <RotateCw className="size-4" />
-              {apiKeyPrefix && !newKey ? "Rotate Key" : "Generate Key"}
+      <Dialog open={dialogOpen} onOpenChange={handleOpenChange}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{newKey ? "API Key Created" : "New API Key"}</DialogTitle>
+            <DialogDescription>
+              {newKey
+                ? "Copy this key into your agent's MCP configuration."
+                : "Name the key after the agent that will use it."}
+            </DialogDescription>
+          </DialogHeader>
+
+          {newKey ? (
+            <div className="space-y-3">
+              <div className="flex items-center gap-2 rounded-md border border-yellow-500/20 bg-yellow-500/10 p-3">
+                <AlertTriangle className="size-4 shrink-0 text-yellow-600" />
+                <p className="text-sm text-yellow-600">
+                  Save this key now — it won&apos;t be shown again.
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="bg-muted min-w-0 flex-1 rounded-md border px-3 py-2">
+                  <p className="truncate font-mono text-sm">{newKey}</p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleCopy(newKey)}
+                >
+                  {copied ? (
+                    <>
+                      <Check className="size-4" />
+                      Copied!
+                    </>
+                  ) : (
+                    <>
+                      <Copy className="size-4" />
+                      Copy
+                    </>
+                  )}
+                </Button>
+              </div>
+              <DialogFooter>
+                <Button onClick={() => handleOpenChange(false)}>Done</Button>
+              </DialogFooter>
+            </div>
+          ) : (
+            <form onSubmit={handleCreate} className="flex flex-col gap-4">
+              <div className="flex flex-col gap-2">
+                <Label htmlFor="apiKeyLabel">Label</Label>
+                <Input
+                  id="apiKeyLabel"
+                  placeholder="e.g. Research agent"
+                  value={label}
+                  maxLength={64}
+                  onChange={(e) => setLabel(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="flex flex-col gap-2">
+                <Label>Scopes</Label>
+                <ScopeCheckboxes idPrefix="new-key-scope" scopes={scopes} onChange={setScopes} />
+              </div>
+              <DialogFooter>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => handleOpenChange(false)}
+                >
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={creating || !label.trim() || scopes.length === 0}>
+                  {creating ? "Creating..." : "Create Key"}
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={editingKey !== null} onOpenChange={(open) => !open && setEditingKey(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit Scopes</DialogTitle>
+            <DialogDescription>
+              Choose which tools &ldquo;{editingKey?.label}&rdquo; exposes. Changes apply to
+              the agent&apos;s next request.
+            </DialogDescription>
+          </DialogHeader>
+          <ScopeCheckboxes idPrefix="edit-key-scope" scopes={editScopes} onChange={setEditScopes} />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditingKey(null)}>
+              Cancel
             </Button>
-          </AlertDialogTrigger>
-          <AlertDialogContent>
-            <AlertDialogHeader>
-              <AlertDialogTitle>
-                {apiKeyPrefix && !newKey
-                  ? "Rotate API Key?"
-                  : "Generate API Key?"}
-              </AlertDialogTitle>
-              <AlertDialogDescription>
-                {apiKeyPrefix && !newKey
-                  ? "This will invalidate your current API key. Any agents using the old key will stop working immediately."
-                  : "This will generate a new API key for authenticating with your MCP endpoint."}
-              </AlertDialogDescription>
-            </AlertDialogHeader>
-            <AlertDialogFooter>
-              <AlertDialogCancel>Cancel</AlertDialogCancel>
-              <AlertDialogAction
-                onClick={handleRotate}
-                variant="destructive"
-              >
-                {apiKeyPrefix && !newKey ? "Rotate Key" : "Generate Key"}
-              </AlertDialogAction>
-            </AlertDialogFooter>
-          </AlertDialogContent>
-        </AlertDialog>
-      </CardContent>
+            <Button onClick={handleSaveScopes} disabled={savingScopes || editScopes.length === 0}>
+              {savingScopes ? "Saving..." : "Save Scopes"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={budgetKey !== null} onOpenChange={(open) => !open && setBudgetKey(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit Budget</DialogTitle>
+            <DialogDescription>
+              Limit how much &ldquo;{budgetKey?.label}&rdquo; can spend. These apply on top of
+              your account-wide budget. Leave blank for no limit.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSaveBudget} className="flex flex-col gap-4">
+            {BUDGET_FIELDS.map(({ field, label: fieldLabel }) => (
+              <div key={field} className="flex flex-col gap-2">
+                <Label htmlFor={`key-budget-${field}`}>{fieldLabel}</Label>
+                <Input
+                  id={`key-budget-${field}`}
+                  type="number"
+                  min="0"
+                  step="any"
+                  placeholder="No limit"
+                  value={budgetInputs[field]}
+                  onChange={(e) =>
+                    setBudgetInputs((inputs) => ({ ...inputs, [field]: e.target.value }))
+                  }
+                />
+              </div>
+            ))}
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setBudgetKey(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={savingBudget}>
+                {savingBudget ? "Saving..." : "Save Budget"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
     </Card>
   );
 }
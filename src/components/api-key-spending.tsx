@@ -0,0 +1,74 @@
+import Link from "next/link"
+
+import { Badge } from "@/components/ui/badge"
+import {
+  Card,
+  CardAction,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import type { ApiKeySpending as ApiKeySpendingRow } from "@/lib/data/analytics"
+
+export function ApiKeySpending({ spending }: { spending: ApiKeySpendingRow[] }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Spending by API Key or App</CardTitle>
+        <CardDescription>Last 30 days</CardDescription>
+        <CardAction>
+          <Link
+            href="/dashboard/mcp"
+            className="text-sm text-muted-foreground underline-offset-4 hover:underline"
+          >
+            Manage keys
+          </Link>
+        </CardAction>
+      </CardHeader>
+      <CardContent>
+        {spending.length === 0 ? (
+          <div className="flex h-24 items-center justify-center text-muted-foreground">
+            No payments yet
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Key or App</TableHead>
+                <TableHead className="text-right">Payments</TableHead>
+                <TableHead className="text-right">Spent</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {spending.map((row) => (
+                <TableRow key={row.apiKeyId ?? row.oauthClientId ?? "none"}>
+                  <TableCell className="font-medium">
+                    <span className="flex items-center gap-2">
+                      {row.label}
+                      {row.revoked && <Badge variant="outline">revoked</Badge>}
+                    </span>
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    {row.count}
+                  </TableCell>
+                  <TableCell className="text-right font-medium tabular-nums">
+                    ${row.spending.toFixed(2)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,7 +1,7 @@
 "use client";
 
 import { useEffect } from "react";
-import { useRouter } from "next/navigation";
+import { useRouter, useSearchParams } from "next/navigation";
 import { useAppKit } from "@reown/appkit/react";
 import { useSession, signOut } from "next-auth/react";
 import { Wallet, Loader2 } from "lucide-react";
@@ -16,11 +16,21 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 
+/** Only same-origin paths, so the login page cannot be used as an open redirect. */
+function safeCallbackUrl(value: string | null): string {
+  if (!value || !value.startsWith("/") || value.startsWith("//") || value.startsWith("/\\")) {
+    return "/dashboard";
+  }
+  return value;
+}
+
 export function LoginForm({
   className,
   ...props
 }: React.ComponentProps<"div">) {
   const router = useRouter();
+  const searchParams = useSearchParams();
+  const callbackUrl = safeCallbackUrl(searchParams.get("callbackUrl"));
   const { open } = useAppKit();
   const { data: session, status } = useSession();
 
@@ -31,8 +41,8 @@ export function LoginForm({
       signOut({ redirect: false });
       return;
     }
-    router.push("/dashboard");
-  }, [status, session?.address, session?.userId, router]);
+    router.push(callbackUrl);
+  }, [status, session?.address, session?.userId, router, callbackUrl]);
 
   const isLoading = status === "loading";
 
@@ -1,9 +1,12 @@
 "use client";
 
-import { useState } from "react";
-import { Copy, Check } from "lucide-react";
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { Copy, Check, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
 import {
   Card,
+  CardAction,
   CardContent,
   CardDescription,
   CardHeader,
@@ -12,14 +15,32 @@ import {
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
-import type { McpToolDescriptor } from "@/lib/mcp/tool-registry";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { regenerateMcpUrlAction } from "@/app/actions/user";
+import { getToolsForScopes, type McpToolDescriptor } from "@/lib/mcp/tool-registry";
+import type { ApiKeyDTO } from "@/lib/models/api-key";
 
 interface McpServerUrlProps {
   humanHash: string;
   tools: McpToolDescriptor[];
+  apiKeys?: ApiKeyDTO[];
 }
 
-export function McpServerUrl({ humanHash, tools }: McpServerUrlProps) {
+export function McpServerUrl({ humanHash, tools, apiKeys = [] }: McpServerUrlProps) {
+  const activeKeys = apiKeys.filter((key) => !key.revokedAt);
+
+  const router = useRouter();
+  const [regenerating, startRegenerate] = useTransition();
   const [copied, setCopied] = useState(false);
 
   const mcpUrl =
@@ -44,13 +65,51 @@ export function McpServerUrl({ humanHash, tools }: McpServerUrlProps) {
     }
   };
 
+  const handleRegenerate = () => {
+    startRegenerate(async () => {
+      const result = await regenerateMcpUrlAction();
+      if (result.success) {
+        toast.success("MCP server URL regenerated");
+        router.refresh();
+      } else {
+        toast.error(result.error);
+      }
+    });
+  };
+
   return (
     <Card>
       <CardHeader>
         <CardTitle>MCP Server URL</CardTitle>
         <CardDescription>
-          Use this URL to connect AI agents to your payment gateway.
+          Use this URL to connect AI agents to your payment gateway. Only your
+          API keys work with it.
         </CardDescription>
+        <CardAction>
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="outline" size="sm" disabled={regenerating}>
+                <RefreshCw className="size-4" />
+                {regenerating ? "Regenerating..." : "Regenerate"}
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Regenerate MCP server URL?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  The current URL stops working immediately. Your API keys stay
+                  valid, but every agent must be updated with the new URL.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={handleRegenerate} variant="destructive">
+                  Regenerate URL
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </CardAction>
       </CardHeader>
       <CardContent className="space-y-4">
         <div className="flex items-center gap-2">
@@ -85,12 +144,31 @@ export function McpServerUrl({ humanHash, tools }: McpServerUrlProps) {
               </Badge>
             ))}
           </div>
+          {activeKeys.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-muted-foreground text-sm">
+                Each API key only exposes the tools in its scopes:
+              </p>
+              {activeKeys.map((key) => (
+                <div key={key._id} className="flex flex-wrap items-center gap-2">
+                  <span className="min-w-32 text-sm font-medium">{key.label}</span>
+                  {getToolsForScopes(key.scopes).map((tool) => (
+                    <Badge key={tool.name} variant="outline" title={tool.summary}>
+                      {tool.name}
+                    </Badge>
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
         </div>
         <Separator />
         <div className="space-y-3">
           <h4 className="text-sm font-medium">Authentication</h4>
           <p className="text-muted-foreground text-sm">
-            Include your API key in requests using the Authorization header:
+            MCP clients that support OAuth only need the URL above: they open an
+            authorization page where you approve them with your wallet.
+            Otherwise, include an API key in requests using the Authorization header:
           </p>
           <div className="bg-muted rounded-md border px-3 py-2">
             <p className="font-mono text-sm">
@@ -98,7 +176,8 @@ export function McpServerUrl({ humanHash, tools }: McpServerUrlProps) {
             </p>
           </div>
           <p className="text-muted-foreground text-sm">
-            Or pass it as a query parameter: <code className="text-xs">?api_key=brv_...</code>
+            The <code className="text-xs">?api_key=brv_...</code> query parameter still
+            works but is deprecated, since URLs end up in proxy logs.
           </p>
         </div>
       </CardContent>
@@ -0,0 +1,235 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { revokeOAuthConnection, updateOAuthConnectionBudget } from "@/app/actions/oauth";
+import type { OAuthConnection } from "@/lib/data/oauth";
+
+function formatDate(dateStr: string): string {
+  return new Date(dateStr).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function toInputValue(value: number | null): string {
+  return value == null ? "" : String(value);
+}
+
+/** Parse an optional USD limit input; blank means no limit. */
+function parseLimit(value: string): number | null {
+  const trimmed = value.trim();
+  return trimmed === "" ? null : Number(trimmed);
+}
+
+function formatConnectionBudget(connection: OAuthConnection): string {
+  const limits = [
+    connection.dailyBudget != null && `$${connection.dailyBudget}/day`,
+    connection.monthlyBudget != null && `$${connection.monthlyBudget}/month`,
+    connection.maxPerRequest != null && `$${connection.maxPerRequest}/request`,
+  ].filter(Boolean);
+  return limits.length > 0 ? limits.join(" · ") : "No limit";
+}
+
+const BUDGET_FIELDS = [
+  { field: "dailyBudget", label: "Daily budget (USD)" },
+  { field: "monthlyBudget", label: "Monthly budget (USD)" },
+  { field: "maxPerRequest", label: "Per-request cap (USD)" },
+] as const;
+
+type BudgetField = (typeof BUDGET_FIELDS)[number]["field"];
+
+export function OAuthConnectionsCard({ connections }: { connections: OAuthConnection[] }) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [budgetConnection, setBudgetConnection] = useState<OAuthConnection | null>(null);
+  const [budgetInputs, setBudgetInputs] = useState<Record<BudgetField, string>>({
+    dailyBudget: "",
+    monthlyBudget: "",
+    maxPerRequest: "",
+  });
+  const [savingBudget, setSavingBudget] = useState(false);
+
+  const handleDisconnect = (connection: OAuthConnection) => {
+    startTransition(async () => {
+      const result = await revokeOAuthConnection(connection._id);
+      if (result.success) {
+        toast.success(`Disconnected ${connection.clientName ?? "client"}`);
+        router.refresh();
+      } else {
+        toast.error(result.error);
+      }
+    });
+  };
+
+  const openBudgetEditor = (connection: OAuthConnection) => {
+    setBudgetConnection(connection);
+    setBudgetInputs({
+      dailyBudget: toInputValue(connection.dailyBudget),
+      monthlyBudget: toInputValue(connection.monthlyBudget),
+      maxPerRequest: toInputValue(connection.maxPerRequest),
+    });
+  };
+
+  const handleSaveBudget = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!budgetConnection) return;
+    setSavingBudget(true);
+    const result = await updateOAuthConnectionBudget(budgetConnection._id, {
+      dailyBudget: parseLimit(budgetInputs.dailyBudget),
+      monthlyBudget: parseLimit(budgetInputs.monthlyBudget),
+      maxPerRequest: parseLimit(budgetInputs.maxPerRequest),
+    });
+    if (result.success) {
+      toast.success(`Updated budget for ${budgetConnection.clientName ?? "client"}`);
+      setBudgetConnection(null);
+      router.refresh();
+    } else {
+      toast.error(result.error);
+    }
+    setSavingBudget(false);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Connected Apps</CardTitle>
+        <CardDescription>
+          MCP clients you authorized with OAuth. Disconnecting one revokes its
+          tokens immediately.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {connections.length === 0 ? (
+          <p className="text-muted-foreground text-sm">
+            No apps connected. MCP clients that support OAuth will open an
+            authorization page when you add the MCP server URL without an API key.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>App</TableHead>
+                <TableHead>Scopes</TableHead>
+                <TableHead>Budget</TableHead>
+                <TableHead>Authorized</TableHead>
+                <TableHead>Last Used</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {connections.map((connection) => (
+                <TableRow key={connection._id}>
+                  <TableCell className="font-medium">
+                    {connection.clientName ?? "Unnamed client"}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {connection.scopes.map((scope) => (
+                        <Badge key={scope} variant="outline" className="font-mono">
+                          {scope}
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-muted-foreground text-sm">
+                    {formatConnectionBudget(connection)}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground text-sm">
+                    {formatDate(connection.createdAt)}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground text-sm">
+                    {connection.lastUsedAt ? formatDate(connection.lastUsedAt) : "Never"}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => openBudgetEditor(connection)}>
+                      Edit Budget
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-destructive"
+                      disabled={isPending}
+                      onClick={() => handleDisconnect(connection)}
+                    >
+                      Disconnect
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={budgetConnection !== null} onOpenChange={(open) => !open && setBudgetConnection(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit Budget</DialogTitle>
+            <DialogDescription>
+              Limit how much {budgetConnection?.clientName ?? "this app"} can spend. These apply on
+              top of your account-wide budget. Leave blank for no limit.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSaveBudget} className="flex flex-col gap-4">
+            {BUDGET_FIELDS.map(({ field, label }) => (
+              <div key={field} className="flex flex-col gap-2">
+                <Label htmlFor={`oauth-budget-${field}`}>{label}</Label>
+                <Input
+                  id={`oauth-budget-${field}`}
+                  type="number"
+                  min="0"
+                  step="any"
+                  placeholder="No limit"
+                  value={budgetInputs[field]}
+                  onChange={(e) =>
+                    setBudgetInputs((inputs) => ({ ...inputs, [field]: e.target.value }))
+                  }
+                />
+              </div>
+            ))}
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setBudgetConnection(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={savingBudget}>
+                {savingBudget ? "Saving..." : "Save Budget"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
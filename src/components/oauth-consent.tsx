@@ -0,0 +1,105 @@
+"use client";
+
+import { useTransition } from "react";
+import { ShieldCheck } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { approveOAuthAuthorization, denyOAuthAuthorization } from "@/app/actions/oauth";
+import { API_KEY_SCOPE_LABELS } from "@/lib/mcp/tool-registry";
+import type { AuthorizationRequest } from "@/lib/oauth";
+
+interface OAuthConsentProps {
+  request: AuthorizationRequest;
+  /** The original authorize query string, re-validated by the server on submit. */
+  query: string;
+  walletAddress: string;
+}
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 6)}…${address.slice(-4)}`;
+}
+
+function redirectHost(redirectUri: string): string {
+  const url = new URL(redirectUri);
+  return url.host || url.protocol;
+}
+
+export function OAuthConsent({ request, query, walletAddress }: OAuthConsentProps) {
+  const [isPending, startTransition] = useTransition();
+  const clientName = request.clientName ?? "An MCP client";
+
+  const respond = (action: typeof approveOAuthAuthorization) => {
+    startTransition(async () => {
+      const result = await action(query);
+      if (result.success) {
+        window.location.assign(result.data.redirectUrl);
+      } else {
+        toast.error(result.error);
+      }
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="text-center">
+        <div className="flex flex-col items-center gap-2">
+          <div className="flex size-8 items-center justify-center rounded-md">
+            <ShieldCheck className="size-6" />
+          </div>
+          <CardTitle className="text-xl">Authorize {clientName}</CardTitle>
+          <CardDescription>
+            {clientName} wants to use your Brevet wallet{" "}
+            <span className="font-mono">{shortAddress(walletAddress)}</span> through MCP.
+          </CardDescription>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <p className="text-sm font-medium">It will be able to:</p>
+          <ul className="space-y-2">
+            {request.scopes.map((scope) => (
+              <li key={scope} className="flex items-center gap-2 text-sm">
+                <Badge variant="outline" className="font-mono">
+                  {scope}
+                </Badge>
+                <span className="text-muted-foreground">{API_KEY_SCOPE_LABELS[scope]}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+        <p className="text-muted-foreground text-xs">
+          You will be returned to <span className="font-mono">{redirectHost(request.redirectUri)}</span>.
+          Payments stay subject to your policies and budgets, and you can disconnect
+          this client at any time on the MCP page.
+        </p>
+      </CardContent>
+      <CardFooter className="flex gap-2">
+        <Button
+          variant="outline"
+          className="flex-1"
+          disabled={isPending}
+          onClick={() => respond(denyOAuthAuthorization)}
+        >
+          Deny
+        </Button>
+        <Button
+          className="flex-1"
+          disabled={isPending}
+          onClick={() => respond(approveOAuthAuthorization)}
+          data-testid="oauth-approve-button"
+        >
+          {isPending ? "Authorizing..." : "Authorize"}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
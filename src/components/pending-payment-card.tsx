@@ -30,7 +30,8 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
-import { Clock, Check, X, Loader2, RefreshCw, Zap } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Clock, Check, X, Loader2, RefreshCw, Zap, Info, TrendingUp } from "lucide-react";
 import type { PendingPaymentDTO } from "@/lib/models/pending-payment";
 
 interface PendingPaymentCardProps {
@@ -331,7 +332,45 @@ export default function PendingPaymentCard({
           <div>{new Date(payment.createdAt).toLocaleString()}</div>
           <div className="text-muted-foreground">Expires</div>
           <div>{new Date(payment.expiresAt).toLocaleString()}</div>
+          {payment.purpose && (
+            <>
+              <div className="text-muted-foreground">Purpose</div>
+              <div className="break-words" data-testid="pending-payment-purpose">{payment.purpose}</div>
+            </>
+          )}
+          {payment.taskId && (
+            <>
+              <div className="text-muted-foreground">Task</div>
+              <div className="truncate font-mono text-xs" title={payment.taskId}>{payment.taskId}</div>
+            </>
+          )}
+          {payment.tags.length > 0 && (
+            <>
+              <div className="text-muted-foreground">Tags</div>
+              <div className="flex flex-wrap gap-1">
+                {payment.tags.map((tag) => (
+                  <Badge key={tag} variant="secondary">{tag}</Badge>
+                ))}
+              </div>
+            </>
+          )}
         </div>
+        {payment.reason && (
+          <Alert
+            className="border-amber-300 bg-amber-50 text-amber-800 dark:border-amber-700 dark:bg-amber-950/30 dark:text-amber-200"
+            data-testid="pending-payment-review-reason"
+          >
+            {payment.previousAmount != null ? <TrendingUp className="size-4" /> : <Info className="size-4" />}
+            <AlertTitle>
+              {payment.previousAmount != null ? "Price changed" : "Why this needs approval"}
+            </AlertTitle>
+            <AlertDescription>
+              {payment.reason}.
+              {payment.previousAmount != null &&
+                " Check that the new price is expected before approving."}
+            </AlertDescription>
+          </Alert>
+        )}
         <Separator />
       </CardContent>
       <CardFooter className="gap-2">
@@ -0,0 +1,126 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { Search } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { testPolicyMatch } from "@/app/actions/policies";
+import type { PolicyMatchExplanation } from "@/lib/policy";
+import { HTTP_METHODS, type HttpMethod } from "@/lib/endpoint-pattern";
+
+interface PolicyMatchTesterProps {
+  chainId: number;
+}
+
+export function PolicyMatchTester({ chainId }: PolicyMatchTesterProps) {
+  const [url, setUrl] = useState("");
+  const [method, setMethod] = useState<HttpMethod>("GET");
+  const [result, setResult] = useState<PolicyMatchExplanation | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+
+  function handleTest(e: React.FormEvent) {
+    e.preventDefault();
+    setError(null);
+
+    startTransition(async () => {
+      const response = await testPolicyMatch(url, chainId, method);
+      if (response.success) {
+        setResult(response.data);
+      } else {
+        setResult(null);
+        setError(response.error);
+      }
+    });
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Search className="size-5" />
+          Test a URL
+        </CardTitle>
+        <CardDescription>
+          See which policy would apply to a URL and why. Exact hosts rank above
+          host wildcards, then more literal path segments, then{" "}
+          <code className="text-xs">*</code>/<code className="text-xs">{"{param}"}</code>{" "}
+          segments, then fewer <code className="text-xs">**</code> globs.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4">
+        <form onSubmit={handleTest} className="flex gap-2">
+          <Select value={method} onValueChange={(v) => setMethod(v as HttpMethod)}>
+            <SelectTrigger className="w-[110px]" data-testid="policy-test-method-select">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {HTTP_METHODS.map((m) => (
+                <SelectItem key={m} value={m}>
+                  {m}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            placeholder="https://api.example.com/v1/123/report"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            data-testid="policy-test-url-input"
+          />
+          <Button type="submit" disabled={isPending || !url} data-testid="policy-test-url-button">
+            {isPending ? "Testing..." : "Test"}
+          </Button>
+        </form>
+
+        {error && <p className="text-destructive text-sm">{error}</p>}
+
+        {result && (
+          <div className="flex flex-col gap-3" data-testid="policy-test-result">
+            {result.selected ? (
+              <p className="text-sm">
+                Matches <span className="font-mono">{result.selected.endpointPattern}</span>{" "}
+                ({result.selected.autoSign ? "auto-sign" : "manual approval"}):{" "}
+                {result.selected.reason}.
+              </p>
+            ) : (
+              <p className="text-sm">
+                No active policy matches. {method} payments to this URL would be
+                rejected and a draft policy created.
+              </p>
+            )}
+
+            {result.candidates.length > 0 && (
+              <ul className="flex flex-col gap-1 text-sm">
+                {result.candidates.map((candidate) => (
+                  <li key={candidate.policyId} className="flex flex-wrap items-center gap-2">
+                    <Badge variant={candidate.matched ? "default" : "outline"}>
+                      {candidate.matched ? "match" : "no match"}
+                    </Badge>
+                    <span className="font-mono">
+                      {candidate.methods.length > 0 && `${candidate.methods.join(",")} `}
+                      {candidate.endpointPattern}
+                    </span>
+                    {candidate.status !== "active" && (
+                      <Badge variant="secondary">{candidate.status}</Badge>
+                    )}
+                    <span className="text-muted-foreground">{candidate.reason}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -4,8 +4,18 @@ import { useTransition } from "react";
 import { useState } from "react";
 import { useRouter } from "next/navigation";
 import { toast } from "sonner";
-import { AlertTriangle, Plus, Shield } from "lucide-react";
+import { AlertTriangle, Merge, Plus, Shield } from "lucide-react";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardAction } from "@/components/ui/card";
@@ -25,11 +35,37 @@ import {
   toggleAutoSign,
   archivePolicy,
   unarchivePolicy,
+  mergePerChainPolicies,
 } from "@/app/actions/policies";
+import { getChainById } from "@/lib/chain-config";
 import type { EndpointPolicyDTO } from "@/lib/models/endpoint-policy";
 
 type TabFilter = "all" | "active" | "draft" | "archived";
 
+function formatLimits(policy: EndpointPolicyDTO): string {
+  const parts = [
+    policy.maxPerRequest != null && `$${policy.maxPerRequest}/req`,
+    policy.maxPerHour != null && `$${policy.maxPerHour}/hr`,
+    policy.maxPerDay != null && `$${policy.maxPerDay}/day`,
+    policy.maxInChatApproval != null && `chat ≤ $${policy.maxInChatApproval}`,
+    policy.maxPriceIncreasePercent != null && `price +${policy.maxPriceIncreasePercent}%`,
+    policy.maxPriceIncreaseUsd != null && `price +$${policy.maxPriceIncreaseUsd}`,
+    policy.allowedPayTo.length > 0 &&
+      `${policy.allowedPayTo.length} pinned recipient${policy.allowedPayTo.length !== 1 ? "s" : ""}`,
+    policy.allowedAssets.length > 0 &&
+      `${policy.allowedAssets.length} pinned asset${policy.allowedAssets.length !== 1 ? "s" : ""}`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(" · ") : "—";
+}
+
+function formatChainScope(policy: EndpointPolicyDTO): string {
+  if (policy.chainId !== null) return "This chain";
+  if (policy.chainIds.length === 0) return "All enabled chains";
+  return policy.chainIds
+    .map((id) => getChainById(id)?.displayName ?? String(id))
+    .join(", ");
+}
+
 interface PolicyTableProps {
   initialPolicies: EndpointPolicyDTO[];
   chainName?: string;
@@ -42,12 +78,13 @@ export function PolicyTable({ initialPolicies, chainName, chainId }: PolicyTable
   const [tab, setTab] = useState<TabFilter>("all");
   const [dialogOpen, setDialogOpen] = useState(false);
   const [actionInProgress, setActionInProgress] = useState<string | null>(null);
+  const [confirmPolicy, setConfirmPolicy] = useState<EndpointPolicyDTO | null>(null);
 
   const policies = initialPolicies;
 
-  async function handleActivate(policyId: string) {
+  async function handleActivate(policyId: string, pinFirstSeenPayTo = false) {
     setActionInProgress(policyId);
-    const result = await activatePolicy(policyId);
+    const result = await activatePolicy(policyId, { pinFirstSeenPayTo });
     if (result.success) {
       toast.success("Policy activated");
       startTransition(() => router.refresh());
@@ -93,6 +130,23 @@ export function PolicyTable({ initialPolicies, chainName, chainId }: PolicyTable
     setActionInProgress(null);
   }
 
+  async function handleMerge() {
+    setActionInProgress("merge");
+    const result = await mergePerChainPolicies();
+    if (result.success) {
+      const count = result.data.merged.length;
+      if (count > 0) {
+        toast.success(`Merged into ${count} multi-chain polic${count === 1 ? "y" : "ies"}`);
+      } else {
+        toast.info("No identical per-chain policies to merge");
+      }
+      startTransition(() => router.refresh());
+    } else {
+      toast.error(result.error);
+    }
+    setActionInProgress(null);
+  }
+
   function handlePolicyCreated() {
     startTransition(() => {
       router.refresh();
@@ -141,7 +195,18 @@ export function PolicyTable({ initialPolicies, chainName, chainId }: PolicyTable
           <Shield className="size-5" />
           Endpoint Policies{chainName ? ` — ${chainName}` : ""}
         </CardTitle>
-        <CardAction>
+        <CardAction className="flex gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={isBusy}
+            onClick={handleMerge}
+            title="Replace identical policies on several chains with one multi-chain policy"
+            data-testid="merge-chain-policies-button"
+          >
+            <Merge className="size-4" />
+            Merge chains
+          </Button>
           <Button
             size="sm"
             onClick={() => setDialogOpen(true)}
@@ -189,8 +254,11 @@ export function PolicyTable({ initialPolicies, chainName, chainId }: PolicyTable
                 <TableHeader>
                   <TableRow>
                     <TableHead>Endpoint Pattern</TableHead>
+                    <TableHead>Methods</TableHead>
+                    <TableHead>Chains</TableHead>
                     <TableHead>Status</TableHead>
                     <TableHead>Auto-Sign</TableHead>
+                    <TableHead>Limits</TableHead>
                     <TableHead className="text-right">Actions</TableHead>
                   </TableRow>
                 </TableHeader>
@@ -206,6 +274,35 @@ export function PolicyTable({ initialPolicies, chainName, chainId }: PolicyTable
                         <TableCell className="font-mono text-sm">
                           {policy.endpointPattern}
                         </TableCell>
+                        <TableCell className="text-sm">
+                          {policy.methods.length > 0 ? (
+                            <div className="flex flex-wrap gap-1">
+                              {policy.methods.map((method) => (
+                                <Badge key={method} variant="outline" className="font-mono">
+                                  {method}
+                                </Badge>
+                              ))}
+                            </div>
+                          ) : (
+                            <span className="text-muted-foreground">Any</span>
+                          )}
+                          {policy.status === "draft" && policy.triggerMethod && (
+                            <p className="text-muted-foreground mt-1 text-xs">
+                              Triggered by {policy.triggerMethod}
+                            </p>
+                          )}
+                          {policy.status === "draft" && policy.firstSeenPayTo && (
+                            <p
+                              className="text-muted-foreground mt-1 font-mono text-xs"
+                              title={policy.firstSeenPayTo}
+                            >
+                              payTo {policy.firstSeenPayTo.slice(0, 6)}…{policy.firstSeenPayTo.slice(-4)}
+                            </p>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-muted-foreground text-sm">
+                          {formatChainScope(policy)}
+                        </TableCell>
                         <TableCell>{statusBadge(policy.status)}</TableCell>
                         <TableCell>
                           <Switch
@@ -216,6 +313,9 @@ export function PolicyTable({ initialPolicies, chainName, chainId }: PolicyTable
                             }
                           />
                         </TableCell>
+                        <TableCell className="text-muted-foreground text-sm">
+                          {formatLimits(policy)}
+                        </TableCell>
                         <TableCell className="text-right">
                           {isArchived ? (
                             <Button
@@ -233,7 +333,11 @@ export function PolicyTable({ initialPolicies, chainName, chainId }: PolicyTable
                                   size="sm"
                                   variant="default"
                                   disabled={isBusy}
-                                  onClick={() => handleActivate(policy._id)}
+                                  onClick={() =>
+                                    policy.firstSeenPayTo
+                                      ? setConfirmPolicy(policy)
+                                      : handleActivate(policy._id)
+                                  }
                                 >
                                   {isActionTarget ? "..." : "Activate"}
                                 </Button>
@@ -265,6 +369,38 @@ export function PolicyTable({ initialPolicies, chainName, chainId }: PolicyTable
         onSuccess={handlePolicyCreated}
         chainId={chainId}
       />
+
+      <AlertDialog
+        open={confirmPolicy !== null}
+        onOpenChange={(open) => !open && setConfirmPolicy(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Confirm recipient</AlertDialogTitle>
+            <AlertDialogDescription>
+              The payment that created this draft asked to pay{" "}
+              <span className="font-mono break-all">{confirmPolicy?.firstSeenPayTo}</span>.
+              Pin it so this policy only pays that address, or activate without
+              restricting the recipient.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              variant="outline"
+              onClick={() => confirmPolicy && handleActivate(confirmPolicy._id)}
+            >
+              Activate without pinning
+            </AlertDialogAction>
+            <AlertDialogAction
+              onClick={() => confirmPolicy && handleActivate(confirmPolicy._id, true)}
+              data-testid="activate-pin-recipient-button"
+            >
+              Pin and activate
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </Card>
   );
 }
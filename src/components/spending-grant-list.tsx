@@ -0,0 +1,175 @@
+"use client";
+
+import { useState } from "react";
+import { useAccount, useSignMessage } from "wagmi";
+import { useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { Check, Clock, Loader2, Ban, X } from "lucide-react";
+import {
+  approveSpendingGrant,
+  rejectSpendingGrant,
+  revokeSpendingGrant,
+} from "@/app/actions/spending-grants";
+import { useChain } from "@/contexts/chain-context";
+import { useSpendingGrants, SPENDING_GRANTS_QUERY_KEY } from "@/hooks/use-spending-grants";
+import { formatGrantDuration, formatSpendingGrantMessage } from "@/lib/spending-grants";
+import { formatUsd } from "@/lib/x402/display";
+import type { SpendingGrantDTO } from "@/lib/models/spending-grant";
+import {
+  Card,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+  CardContent,
+  CardFooter,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+
+function SpendingGrantCard({ grant, onAction }: { grant: SpendingGrantDTO; onAction: () => void }) {
+  const [actionInProgress, setActionInProgress] = useState<"approve" | "reject" | "revoke" | null>(null);
+  const { signMessageAsync } = useSignMessage();
+  const { chainId: walletChainId } = useAccount();
+  const { activeChain } = useChain();
+  const isActive = grant.status === "active";
+  const remaining = Math.max(0, grant.amountUsd - grant.spentUsd);
+
+  async function handleApprove() {
+    setActionInProgress("approve");
+    try {
+      const signature = await signMessageAsync({ message: formatSpendingGrantMessage(grant) });
+      const result = await approveSpendingGrant(grant._id, signature, walletChainId ?? activeChain.chain.id);
+      if (result.success) {
+        toast.success("Spending grant approved");
+      } else {
+        toast.error(result.error);
+      }
+      onAction();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to sign grant");
+    } finally {
+      setActionInProgress(null);
+    }
+  }
+
+  async function handleEnd(action: "reject" | "revoke") {
+    setActionInProgress(action);
+    try {
+      const result = action === "reject"
+        ? await rejectSpendingGrant(grant._id)
+        : await revokeSpendingGrant(grant._id);
+      if (result.success) {
+        toast.success(action === "reject" ? "Spending grant rejected" : "Spending grant revoked");
+      } else {
+        toast.error(result.error);
+      }
+      onAction();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : `Failed to ${action} grant`);
+    } finally {
+      setActionInProgress(null);
+    }
+  }
+
+  const isActioning = actionInProgress !== null;
+
+  return (
+    <Card data-testid="spending-grant-card">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <CardTitle className="truncate text-sm font-medium">{grant.purpose}</CardTitle>
+            <CardDescription>
+              {isActive ? "Active spending grant" : "Spending grant requested by your MCP agent"}
+            </CardDescription>
+          </div>
+          <Badge variant={isActive ? "secondary" : "outline"} className="shrink-0">
+            <Clock className="size-3" />
+            {isActive ? "Active" : "Awaiting approval"}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+          <div className="text-muted-foreground">Amount</div>
+          <div className="font-medium">Up to {formatUsd(grant.amountUsd)}</div>
+          {isActive ? (
+            <>
+              <div className="text-muted-foreground">Remaining</div>
+              <div>{formatUsd(remaining)}</div>
+              <div className="text-muted-foreground">Expires</div>
+              <div>{new Date(grant.expiresAt).toLocaleString()}</div>
+            </>
+          ) : (
+            <>
+              <div className="text-muted-foreground">Duration</div>
+              <div>{formatGrantDuration(grant.durationSeconds)} after approval</div>
+              <div className="text-muted-foreground">Approve by</div>
+              <div>{new Date(grant.expiresAt).toLocaleString()}</div>
+            </>
+          )}
+        </div>
+      </CardContent>
+      <CardFooter className="gap-2">
+        {isActive ? (
+          <Button variant="outline" size="sm" onClick={() => handleEnd("revoke")} disabled={isActioning}>
+            {actionInProgress === "revoke" ? <Loader2 className="animate-spin" /> : <Ban />}
+            Revoke
+          </Button>
+        ) : (
+          <>
+            <Button size="sm" onClick={handleApprove} disabled={isActioning} data-testid="spending-grant-approve-button">
+              {actionInProgress === "approve" ? (
+                <>
+                  <Loader2 className="animate-spin" />
+                  Signing...
+                </>
+              ) : (
+                <>
+                  <Check />
+                  Approve & Sign
+                </>
+              )}
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => handleEnd("reject")} disabled={isActioning}>
+              {actionInProgress === "reject" ? <Loader2 className="animate-spin" /> : <X />}
+              Reject
+            </Button>
+          </>
+        )}
+      </CardFooter>
+    </Card>
+  );
+}
+
+/**
+ * Pending and active spending grants. Renders nothing when there are none,
+ * so the section only appears once an agent has asked for a grant.
+ */
+export default function SpendingGrantList() {
+  const { grants } = useSpendingGrants();
+  const queryClient = useQueryClient();
+
+  if (grants.length === 0) return null;
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div>
+        <h3 className="text-lg font-semibold">Spending Grants</h3>
+        <p className="text-sm text-muted-foreground">
+          Task budgets requested by your MCP agent. Approved grants auto-sign
+          payments until they expire or run out.
+        </p>
+      </div>
+      <div className="space-y-4">
+        {grants.map((grant) => (
+          <SpendingGrantCard
+            key={grant._id}
+            grant={grant}
+            onAction={() => queryClient.invalidateQueries({ queryKey: SPENDING_GRANTS_QUERY_KEY })}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import Link from "next/link"
+
+import { Badge } from "@/components/ui/badge"
+import {
+  Card,
+  CardAction,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import type { TagSpending as TagSpendingRow } from "@/lib/data/analytics"
+
+export function TagSpending({ spending }: { spending: TagSpendingRow[] }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Spending by Tag</CardTitle>
+        <CardDescription>
+          Last 30 days. Payments with several tags count toward each.
+        </CardDescription>
+        <CardAction>
+          <Link
+            href="/dashboard/transactions"
+            className="text-sm text-muted-foreground underline-offset-4 hover:underline"
+          >
+            View transactions
+          </Link>
+        </CardAction>
+      </CardHeader>
+      <CardContent>
+        {spending.length === 0 ? (
+          <div className="flex h-24 items-center justify-center text-muted-foreground">
+            No payments yet
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Tag</TableHead>
+                <TableHead className="text-right">Payments</TableHead>
+                <TableHead className="text-right">Spent</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {spending.map((row) => (
+                <TableRow key={row.tag ?? "untagged"}>
+                  <TableCell className="font-medium">
+                    {row.tag !== null ? (
+                      <Badge variant="secondary">{row.tag}</Badge>
+                    ) : (
+                      <span className="text-muted-foreground">Untagged</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right tabular-nums">
+                    {row.count}
+                  </TableCell>
+                  <TableCell className="text-right font-medium tabular-nums">
+                    ${row.spending.toFixed(2)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -185,6 +185,28 @@ function JsonViewer({ data }: { data: string }) {
   );
 }
 
+function BinaryViewer({ data, contentType }: { data: string; contentType: string | null }) {
+  const mimeType = contentType?.split(";")[0].trim() || "application/octet-stream";
+  // Each base64 character carries 6 bits; padding is close enough for display
+  const sizeKb = Math.max(1, Math.round((data.length * 3) / 4 / 1024));
+
+  if (mimeType.startsWith("image/")) {
+    return (
+      // eslint-disable-next-line @next/next/no-img-element -- data URL, nothing to optimize
+      <img
+        src={`data:${mimeType};base64,${data}`}
+        alt="Response image"
+        className="max-w-full rounded"
+      />
+    );
+  }
+  return (
+    <p className="text-sm text-muted-foreground">
+      Binary response ({mimeType}, {sizeKb} KB)
+    </p>
+  );
+}
+
 function TransactionDetailSheet({
   transaction,
   onClose,
@@ -234,6 +256,23 @@ function TransactionDetailSheet({
                 </a>
               )}
             </div>
+            {(transaction.purpose || transaction.taskId || transaction.tags.length > 0) && (
+              <div className="mx-4 space-y-2 text-sm" data-testid="transaction-metadata">
+                {transaction.purpose && <p>{transaction.purpose}</p>}
+                {transaction.taskId && (
+                  <p className="text-muted-foreground">
+                    Task <span className="font-mono text-xs">{transaction.taskId}</span>
+                  </p>
+                )}
+                {transaction.tags.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {transaction.tags.map((tag) => (
+                      <Badge key={tag} variant="secondary">{tag}</Badge>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
             {transaction.status === "failed" && (
               <div className="mx-4 rounded-md border border-red-200 bg-red-50 p-3 dark:border-red-900 dark:bg-red-950">
                 <div className="flex items-start gap-2">
@@ -258,10 +297,25 @@ function TransactionDetailSheet({
                 </div>
               </div>
             )}
+            {transaction.responseBodyId && (
+              <p className="mx-4 text-xs text-muted-foreground" data-testid="transaction-response-truncated">
+                {transaction.responsePayload
+                  ? "The response was too large to show in full. This is the start of it;"
+                  : "The response was too large to show here;"}{" "}
+                agents can page through it with x402_get_result (resultId {transaction.responseBodyId}).
+              </p>
+            )}
             {transaction.responsePayload && (
               <ScrollArea className="flex-1 min-h-0 px-4 pb-4">
                 <div className="rounded-md border bg-muted/30 p-4 overflow-x-auto">
-                  <JsonViewer data={transaction.responsePayload} />
+                  {transaction.responseEncoding === "base64" ? (
+                    <BinaryViewer
+                      data={transaction.responsePayload}
+                      contentType={transaction.responseContentType}
+                    />
+                  ) : (
+                    <JsonViewer data={transaction.responsePayload} />
+                  )}
                 </div>
               </ScrollArea>
             )}
@@ -277,6 +331,8 @@ export function TransactionTable({ initialTransactions }: TransactionTableProps)
   const [isPending, startTransition] = useTransition();
   const [since, setSince] = useState("");
   const [until, setUntil] = useState("");
+  const [tag, setTag] = useState("");
+  const [taskId, setTaskId] = useState("");
   const [pageSize, setPageSize] = useState(10);
   const [currentPage, setCurrentPage] = useState(0);
   const [sortDir, setSortDir] = useState<"asc" | "desc">("desc");
@@ -285,21 +341,30 @@ export function TransactionTable({ initialTransactions }: TransactionTableProps)
   const { activeChain } = useChain();
 
   useEffect(() => {
-    startTransition(async () => {
-      const sinceParam = since ? new Date(since).toISOString() : undefined;
-      let untilParam: string | undefined;
-      if (until) {
-        const untilDate = new Date(until);
-        untilDate.setHours(23, 59, 59, 999);
-        untilParam = untilDate.toISOString();
-      }
-      const data = await getTransactions(sinceParam, untilParam, activeChain.chain.id);
-      setTransactions(data);
-    });
-  }, [since, until, activeChain.chain.id]);
+    // Debounced so typing a tag or task ID doesn't refetch on every keystroke
+    const timer = setTimeout(() => {
+      startTransition(async () => {
+        const sinceParam = since ? new Date(since).toISOString() : undefined;
+        let untilParam: string | undefined;
+        if (until) {
+          const untilDate = new Date(until);
+          untilDate.setHours(23, 59, 59, 999);
+          untilParam = untilDate.toISOString();
+        }
+        const data = await getTransactions(sinceParam, untilParam, activeChain.chain.id, {
+          tag: tag.trim() || undefined,
+          taskId: taskId.trim() || undefined,
+        });
+        setTransactions(data);
+      });
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [since, until, tag, taskId, activeChain.chain.id]);
 
   const handleSinceChange = (value: string) => { setSince(value); setCurrentPage(0); };
   const handleUntilChange = (value: string) => { setUntil(value); setCurrentPage(0); };
+  const handleTagChange = (value: string) => { setTag(value); setCurrentPage(0); };
+  const handleTaskIdChange = (value: string) => { setTaskId(value); setCurrentPage(0); };
   const handlePageSizeChange = (value: number) => { setPageSize(value); setCurrentPage(0); };
 
   const sorted = useMemo(() => {
@@ -318,7 +383,7 @@ export function TransactionTable({ initialTransactions }: TransactionTableProps)
 
   return (
     <div className="flex flex-col gap-4">
-      {/* Date range filters */}
+      {/* Date range and metadata filters */}
       <div className="flex flex-wrap items-end gap-3">
         <div className="flex flex-col gap-1.5">
           <Label htmlFor="filter-since">From</Label>
@@ -340,13 +405,34 @@ export function TransactionTable({ initialTransactions }: TransactionTableProps)
             className="w-auto"
           />
         </div>
-        {(since || until) && (
+        <div className="flex flex-col gap-1.5">
+          <Label htmlFor="filter-tag">Tag</Label>
+          <Input
+            id="filter-tag"
+            value={tag}
+            onChange={(e) => handleTagChange(e.target.value)}
+            placeholder="e.g. research"
+            className="w-36"
+          />
+        </div>
+        <div className="flex flex-col gap-1.5">
+          <Label htmlFor="filter-task-id">Task ID</Label>
+          <Input
+            id="filter-task-id"
+            value={taskId}
+            onChange={(e) => handleTaskIdChange(e.target.value)}
+            className="w-44"
+          />
+        </div>
+        {(since || until || tag || taskId) && (
           <Button
             variant="ghost"
             size="sm"
             onClick={() => {
               handleSinceChange("");
               handleUntilChange("");
+              handleTagChange("");
+              handleTaskIdChange("");
             }}
           >
             Clear
@@ -394,8 +480,9 @@ export function TransactionTable({ initialTransactions }: TransactionTableProps)
               </TableHeader>
               <TableBody>
                 {paged.map((tx) => {
-                  const hasResponse = tx.responsePayload !== null;
-                  const isClickable = hasResponse || tx.errorMessage !== null || tx.status === "failed";
+                  const hasResponse = tx.responsePayload !== null || tx.responseBodyId !== null;
+                  const hasMetadata = tx.purpose !== null || tx.taskId !== null || tx.tags.length > 0;
+                  const isClickable = hasResponse || hasMetadata || tx.errorMessage !== null || tx.status === "failed";
                   return (
                     <TableRow
                       key={tx._id}
@@ -12,6 +12,7 @@ import {
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import type { SmartAccountDTO } from "@/lib/models/smart-account";
+import type { BudgetPeriodStatus } from "@/lib/budget";
 
 interface WalletBalanceProps {
   accountAddress?: string;
@@ -21,6 +22,8 @@ interface WalletBalanceProps {
   chainName: string;
   explorerUrl: string;
   sessionKeyStatus?: SmartAccountDTO["sessionKeyStatus"];
+  /** Today's auto-signed spend against the session key's daily limit. */
+  dailySpend?: BudgetPeriodStatus | null;
 }
 
 export default function WalletBalance({
@@ -31,6 +34,7 @@ export default function WalletBalance({
   chainName,
   explorerUrl,
   sessionKeyStatus,
+  dailySpend,
 }: WalletBalanceProps) {
   const [copied, setCopied] = useState(false);
 
@@ -132,6 +136,11 @@ export default function WalletBalance({
             </Badge>
           </div>
         )}
+        {sessionKeyStatus === "active" && dailySpend && (
+          <p className="text-sm text-muted-foreground" data-testid="session-key-daily-spend">
+            Spent today: ${dailySpend.spent.toFixed(2)} / ${dailySpend.limit.toFixed(2)} daily limit
+          </p>
+        )}
       </CardContent>
     </Card>
   );
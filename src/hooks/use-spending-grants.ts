@@ -0,0 +1,28 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import type { SpendingGrantDTO } from "@/lib/models/spending-grant";
+
+export const SPENDING_GRANTS_QUERY_KEY = ["spending-grants"] as const;
+
+async function fetchSpendingGrants(): Promise<SpendingGrantDTO[]> {
+  const res = await fetch("/api/grants");
+  if (!res.ok) throw new Error("Failed to fetch spending grants");
+  return res.json();
+}
+
+export function useSpendingGrants() {
+  const { data, isLoading, error } = useQuery({
+    queryKey: SPENDING_GRANTS_QUERY_KEY,
+    queryFn: fetchSpendingGrants,
+    refetchInterval: 10_000,
+    refetchIntervalInBackground: false,
+    refetchOnWindowFocus: true,
+  });
+
+  return {
+    grants: data ?? [],
+    isLoading,
+    error,
+  };
+}
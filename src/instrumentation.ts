@@ -0,0 +1,22 @@
+/**
+ * Next.js instrumentation hook: runs once when a server instance starts.
+ * Applies database migrations before the instance serves requests.
+ *
+ * @see https://nextjs.org/docs/app/guides/instrumentation
+ */
+export async function register() {
+  // Mongoose only runs on the Node.js runtime
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+  const { runMigrations } = await import("@/lib/migrations");
+  const { logger } = await import("@/lib/logger");
+  try {
+    await runMigrations();
+  } catch (error) {
+    // Keep serving; migrations run again on the next start
+    logger.error("Database migrations failed", {
+      action: "migration_failed",
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
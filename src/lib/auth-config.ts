@@ -7,7 +7,6 @@ import {
 import { createPublicClient, http, verifyMessage as verifyMessageLocally } from "viem";
 import { connectDB } from "@/lib/db";
 import { User } from "@/lib/models/user";
-import { ensureApiKey } from "@/lib/data/users";
 import { getTestnetChains, getMainnetChains } from "@/lib/chain-config";
 
 declare module "next-auth" {
@@ -105,8 +104,6 @@ async function upsertUser(walletAddress: string) {
     await user.save();
   }
 
-  await ensureApiKey(user.id);
-
   return user;
 }
 
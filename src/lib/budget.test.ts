@@ -0,0 +1,154 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const mockGetApiKeyBudget = vi.fn();
+vi.mock("@/lib/data/api-keys", () => ({
+  getApiKeyBudget: (...args: unknown[]) => mockGetApiKeyBudget(...args),
+}));
+
+const mockGetOAuthClientBudget = vi.fn();
+vi.mock("@/lib/data/oauth", () => ({
+  getOAuthClientBudget: (...args: unknown[]) => mockGetOAuthClientBudget(...args),
+}));
+
+const mockGetUserSpendSince = vi.fn();
+const mockGetApiKeySpendSince = vi.fn();
+const mockGetOAuthClientSpendSince = vi.fn();
+vi.mock("@/lib/data/transactions", () => ({
+  getUserSpendSince: (...args: unknown[]) => mockGetUserSpendSince(...args),
+  getAutoSignSpendSince: vi.fn(),
+  getApiKeySpendSince: (...args: unknown[]) => mockGetApiKeySpendSince(...args),
+  getOAuthClientSpendSince: (...args: unknown[]) => mockGetOAuthClientSpendSince(...args),
+}));
+
+const mockGetUserBudget = vi.fn();
+vi.mock("@/lib/data/user", () => ({
+  getUserBudget: (...args: unknown[]) => mockGetUserBudget(...args),
+}));
+
+const mockGetReservedSpend = vi.fn();
+vi.mock("@/lib/data/spend-reservations", () => ({
+  getReservedSpend: (...args: unknown[]) => mockGetReservedSpend(...args),
+}));
+
+describe("checkBudget", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetUserSpendSince.mockResolvedValue(0);
+    mockGetReservedSpend.mockResolvedValue(0);
+  });
+
+  it("counts payments in flight, other than the caller's own, toward the budget", async () => {
+    mockGetUserBudget.mockResolvedValue({ dailyBudget: 10, monthlyBudget: 100 });
+    mockGetUserSpendSince.mockResolvedValue(6);
+    mockGetReservedSpend.mockResolvedValue(3.5);
+    const { checkBudget } = await import("./budget");
+
+    const result = await checkBudget("user-1", 1, "reservation-1");
+
+    expect(mockGetReservedSpend).toHaveBeenCalledTimes(1);
+    expect(mockGetReservedSpend).toHaveBeenCalledWith({ userId: "user-1" }, "reservation-1");
+    expect(result.allowed).toBe(false);
+    expect(!result.allowed && result.reason).toContain("your daily budget");
+  });
+
+  it("skips the reservation lookup when no budget is set", async () => {
+    mockGetUserBudget.mockResolvedValue({ dailyBudget: null, monthlyBudget: null });
+    const { checkBudget } = await import("./budget");
+
+    expect(await checkBudget("user-1", 100)).toEqual({ allowed: true });
+    expect(mockGetReservedSpend).not.toHaveBeenCalled();
+  });
+});
+
+describe("checkApiKeyBudget", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetApiKeySpendSince.mockResolvedValue(0);
+    mockGetReservedSpend.mockResolvedValue(0);
+  });
+
+  it("allows any payment when the key has no limits", async () => {
+    mockGetApiKeyBudget.mockResolvedValue({ dailyBudget: null, monthlyBudget: null, maxPerRequest: null });
+    const { checkApiKeyBudget } = await import("./budget");
+
+    expect(await checkApiKeyBudget("key-1", 100)).toEqual({ allowed: true });
+    expect(mockGetApiKeySpendSince).not.toHaveBeenCalled();
+  });
+
+  it("rejects a payment above the per-request cap", async () => {
+    mockGetApiKeyBudget.mockResolvedValue({ dailyBudget: null, monthlyBudget: null, maxPerRequest: 1 });
+    const { checkApiKeyBudget } = await import("./budget");
+
+    const result = await checkApiKeyBudget("key-1", 1.5);
+
+    expect(result.allowed).toBe(false);
+    expect(!result.allowed && result.reason).toContain("per-request cap");
+  });
+
+  it("rejects a payment that would exceed the key's daily budget", async () => {
+    mockGetApiKeyBudget.mockResolvedValue({ dailyBudget: 5, monthlyBudget: 50, maxPerRequest: null });
+    mockGetApiKeySpendSince.mockResolvedValue(4.5);
+    const { checkApiKeyBudget } = await import("./budget");
+
+    const result = await checkApiKeyBudget("key-1", 1);
+
+    expect(mockGetApiKeySpendSince).toHaveBeenCalledWith("key-1", expect.any(Date));
+    expect(result.allowed).toBe(false);
+    expect(!result.allowed && result.reason).toContain("this API key's daily budget");
+  });
+
+  it("counts the key's other payments in flight toward its budget", async () => {
+    mockGetApiKeyBudget.mockResolvedValue({ dailyBudget: 5, monthlyBudget: null, maxPerRequest: null });
+    mockGetApiKeySpendSince.mockResolvedValue(3);
+    mockGetReservedSpend.mockResolvedValue(1.5);
+    const { checkApiKeyBudget } = await import("./budget");
+
+    const result = await checkApiKeyBudget("key-1", 1, "reservation-1");
+
+    expect(mockGetReservedSpend).toHaveBeenCalledWith({ apiKeyId: "key-1" }, "reservation-1");
+    expect(result.allowed).toBe(false);
+  });
+});
+
+describe("checkOAuthClientBudget", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetOAuthClientSpendSince.mockResolvedValue(0);
+    mockGetReservedSpend.mockResolvedValue(0);
+  });
+
+  it("rejects a payment above the client's per-request cap", async () => {
+    mockGetOAuthClientBudget.mockResolvedValue({ dailyBudget: null, monthlyBudget: null, maxPerRequest: 1 });
+    const { checkOAuthClientBudget } = await import("./budget");
+
+    const result = await checkOAuthClientBudget("user-1", "client-1", 1.5);
+
+    expect(mockGetOAuthClientBudget).toHaveBeenCalledWith("user-1", "client-1");
+    expect(result.allowed).toBe(false);
+    expect(!result.allowed && result.reason).toContain("this app's per-request cap");
+  });
+
+  it("sums the user's spend through the client for its daily budget", async () => {
+    mockGetOAuthClientBudget.mockResolvedValue({ dailyBudget: 5, monthlyBudget: null, maxPerRequest: null });
+    mockGetOAuthClientSpendSince.mockResolvedValue(4.5);
+    const { checkOAuthClientBudget } = await import("./budget");
+
+    const result = await checkOAuthClientBudget("user-1", "client-1", 1);
+
+    expect(mockGetOAuthClientSpendSince).toHaveBeenCalledWith("user-1", "client-1", expect.any(Date));
+    expect(result.allowed).toBe(false);
+    expect(!result.allowed && result.reason).toContain("this app's daily budget");
+  });
+
+  it("counts the client's other payments in flight toward its budget", async () => {
+    mockGetOAuthClientBudget.mockResolvedValue({ dailyBudget: 5, monthlyBudget: null, maxPerRequest: null });
+    mockGetOAuthClientSpendSince.mockResolvedValue(3);
+    mockGetReservedSpend.mockResolvedValue(1.5);
+    const { checkOAuthClientBudget } = await import("./budget");
+
+    const result = await checkOAuthClientBudget("user-1", "client-1", 1, "reservation-1");
+
+    expect(mockGetReservedSpend).toHaveBeenCalledWith({ userId: "user-1", oauthClientId: "client-1" }, "reservation-1");
+    expect(result.allowed).toBe(false);
+  });
+});
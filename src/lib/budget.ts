@@ -0,0 +1,227 @@
+import { formatUnits } from "viem";
+import { getUserBudget } from "@/lib/data/user";
+import { getApiKeyBudget } from "@/lib/data/api-keys";
+import { getOAuthClientBudget } from "@/lib/data/oauth";
+import {
+  getUserSpendSince,
+  getAutoSignSpendSince,
+  getApiKeySpendSince,
+  getOAuthClientSpendSince,
+} from "@/lib/data/transactions";
+import { getReservedSpend } from "@/lib/data/spend-reservations";
+import { getUsdcConfig } from "@/lib/chain-config";
+import { formatUsd } from "@/lib/x402/display";
+import type { ApiKeyBudgetInput } from "@/lib/models/api-key";
+
+export interface BudgetPeriodStatus {
+  limit: number;
+  spent: number;
+  remaining: number;
+}
+
+export interface BudgetStatus {
+  /** Spend for the current calendar day, or null if no daily budget is set. */
+  daily: BudgetPeriodStatus | null;
+  /** Spend for the current calendar month, or null if no monthly budget is set. */
+  monthly: BudgetPeriodStatus | null;
+}
+
+export interface ApiKeyBudgetStatus extends BudgetStatus {
+  /** Largest single payment the key (or OAuth client) may make, or null if uncapped. */
+  maxPerRequest: number | null;
+}
+
+export type BudgetCheckResult =
+  | { allowed: true }
+  | { allowed: false; reason: string };
+
+function getStartOfToday(): Date {
+  const startOfToday = new Date();
+  startOfToday.setHours(0, 0, 0, 0);
+  return startOfToday;
+}
+
+function getStartOfMonth(): Date {
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth(), 1);
+}
+
+async function getPeriodStatus(
+  limit: number | null,
+  since: Date,
+  getSpendSince: (since: Date) => Promise<number>,
+): Promise<BudgetPeriodStatus | null> {
+  if (limit == null) return null;
+  const spent = await getSpendSince(since);
+  return { limit, spent, remaining: Math.max(0, limit - spent) };
+}
+
+/** Find the first period that `amount` would push over its limit. */
+function checkPeriods(status: BudgetStatus, amount: number, owner: string): BudgetCheckResult {
+  const periods = [
+    { period: status.daily, label: "daily" },
+    { period: status.monthly, label: "monthly" },
+  ];
+  for (const { period, label } of periods) {
+    if (period && period.spent + amount > period.limit) {
+      return {
+        allowed: false,
+        reason: `Payment of ${formatUsd(amount)} would exceed ${owner} ${label} budget of ${formatUsd(period.limit)} (${formatUsd(period.remaining)} remaining)`,
+      };
+    }
+  }
+  return { allowed: true };
+}
+
+/**
+ * Add the amount reserved by payments in flight to a spend query, fetched
+ * once and only if some period has a limit.
+ */
+function withReservedSpend(
+  getSettledSpendSince: (since: Date) => Promise<number>,
+  getReserved: () => Promise<number>,
+): (since: Date) => Promise<number> {
+  let reserved: Promise<number> | undefined;
+  return async (since) => {
+    reserved ??= getReserved();
+    const [settled, held] = await Promise.all([getSettledSpendSince(since), reserved]);
+    return settled + held;
+  };
+}
+
+/**
+ * Get the user's account-wide budget and how much of it remains.
+ * Periods are calendar-based (start of today / start of this month) and
+ * sum settled payments across every chain, plus the amounts reserved by
+ * payments in flight other than `reservationId` (the caller's own).
+ */
+export async function getBudgetStatus(userId: string, reservationId?: string): Promise<BudgetStatus> {
+  const { dailyBudget, monthlyBudget } = await getUserBudget(userId);
+  const getSpendSince = withReservedSpend(
+    (since) => getUserSpendSince(userId, since),
+    () => getReservedSpend({ userId }, reservationId),
+  );
+
+  const [daily, monthly] = await Promise.all([
+    getPeriodStatus(dailyBudget, getStartOfToday(), getSpendSince),
+    getPeriodStatus(monthlyBudget, getStartOfMonth(), getSpendSince),
+  ]);
+
+  return { daily, monthly };
+}
+
+/**
+ * Check whether a payment of `amount` USD fits within the user's
+ * account-wide budget. Applies to both auto-signed and manually approved
+ * payments. Pass the payment's own `reservationId` once its amount is
+ * reserved, so it is not counted twice.
+ */
+export async function checkBudget(userId: string, amount: number, reservationId?: string): Promise<BudgetCheckResult> {
+  const status = await getBudgetStatus(userId, reservationId);
+  return checkPeriods(status, amount, "your");
+}
+
+async function getCredentialBudgetStatus(
+  { dailyBudget, monthlyBudget, maxPerRequest }: ApiKeyBudgetInput,
+  getSpendSince: (since: Date) => Promise<number>,
+): Promise<ApiKeyBudgetStatus> {
+  const [daily, monthly] = await Promise.all([
+    getPeriodStatus(dailyBudget, getStartOfToday(), getSpendSince),
+    getPeriodStatus(monthlyBudget, getStartOfMonth(), getSpendSince),
+  ]);
+
+  return { daily, monthly, maxPerRequest };
+}
+
+/** Check a payment against a credential's per-request cap, then its periods. */
+function checkCredentialBudget(status: ApiKeyBudgetStatus, amount: number, owner: string): BudgetCheckResult {
+  if (status.maxPerRequest != null && amount > status.maxPerRequest) {
+    return {
+      allowed: false,
+      reason: `Payment of ${formatUsd(amount)} exceeds ${owner} per-request cap of ${formatUsd(status.maxPerRequest)}`,
+    };
+  }
+
+  return checkPeriods(status, amount, owner);
+}
+
+/**
+ * Get an API key's own budget and how much of it remains. Spend is summed
+ * over settled payments and reservations made with that key only, on the
+ * same calendar periods as the account-wide budget.
+ */
+export async function getApiKeyBudgetStatus(apiKeyId: string, reservationId?: string): Promise<ApiKeyBudgetStatus> {
+  return getCredentialBudgetStatus(
+    await getApiKeyBudget(apiKeyId),
+    withReservedSpend(
+      (since) => getApiKeySpendSince(apiKeyId, since),
+      () => getReservedSpend({ apiKeyId }, reservationId),
+    ),
+  );
+}
+
+/**
+ * Check whether a payment of `amount` USD fits within an API key's
+ * per-request cap and its daily and monthly budgets. Applies in addition to
+ * the account-wide budget, so one agent cannot spend everyone's share.
+ */
+export async function checkApiKeyBudget(
+  apiKeyId: string,
+  amount: number,
+  reservationId?: string,
+): Promise<BudgetCheckResult> {
+  return checkCredentialBudget(await getApiKeyBudgetStatus(apiKeyId, reservationId), amount, "this API key's");
+}
+
+/**
+ * Get the budget a user set for an OAuth client and how much of it remains.
+ * Spend is summed over the user's settled payments and reservations made
+ * through that client.
+ */
+export async function getOAuthClientBudgetStatus(
+  userId: string,
+  clientId: string,
+  reservationId?: string,
+): Promise<ApiKeyBudgetStatus> {
+  return getCredentialBudgetStatus(
+    await getOAuthClientBudget(userId, clientId),
+    withReservedSpend(
+      (since) => getOAuthClientSpendSince(userId, clientId, since),
+      () => getReservedSpend({ userId, oauthClientId: clientId }, reservationId),
+    ),
+  );
+}
+
+/**
+ * Check whether a payment of `amount` USD fits within the limits the user
+ * set for an OAuth client, the OAuth counterpart of checkApiKeyBudget.
+ */
+export async function checkOAuthClientBudget(
+  userId: string,
+  clientId: string,
+  amount: number,
+  reservationId?: string,
+): Promise<BudgetCheckResult> {
+  return checkCredentialBudget(
+    await getOAuthClientBudgetStatus(userId, clientId, reservationId),
+    amount,
+    "this app's",
+  );
+}
+
+/**
+ * Get today's session-key-signed spend against the key's daily limit.
+ * `spendLimitDaily` is in USDC micro-units as stored on the SmartAccount.
+ * Returns null if the session key has no daily limit.
+ */
+export async function getSessionKeyDailyStatus(
+  userId: string,
+  chainId: number,
+  spendLimitDaily: number | undefined,
+): Promise<BudgetPeriodStatus | null> {
+  if (spendLimitDaily === undefined) return null;
+  const decimals = getUsdcConfig(chainId)?.decimals ?? 6;
+  const limit = parseFloat(formatUnits(BigInt(spendLimitDaily), decimals));
+  const spent = await getAutoSignSpendSince(userId, chainId, getStartOfToday());
+  return { limit, spent, remaining: Math.max(0, limit - spent) };
+}
@@ -1,4 +1,6 @@
 import { Transaction } from "@/lib/models/transaction";
+import { ApiKey } from "@/lib/models/api-key";
+import { OAuthClient } from "@/lib/models/oauth-client";
 import { Types } from "mongoose";
 import { connectDB } from "@/lib/db";
 import { cache } from "react";
@@ -29,11 +31,39 @@ export interface MetricsSummary {
   overallSuccessRate: number;
 }
 
+export interface ApiKeySpending {
+  /**
+   * Null for payments not made through an API key (e.g. before keys were
+   * tracked, or by an OAuth app).
+   */
+  apiKeyId: string | null;
+  /** Set on the rows for apps connected with OAuth instead of an API key. */
+  oauthClientId: string | null;
+  label: string;
+  revoked: boolean;
+  count: number;
+  spending: number;
+}
+
+export interface TagSpending {
+  /** Null for payments made without tags. */
+  tag: string | null;
+  count: number;
+  spending: number;
+}
+
 export interface AnalyticsData {
   dailySpending: DailySpending[];
   summary: AnalyticsSummary;
   dailyMetrics: DailyMetrics[];
   metricsSummary: MetricsSummary;
+  /** Spend per API key and per OAuth app over the same window, largest first. */
+  spendingByApiKey: ApiKeySpending[];
+  /**
+   * Spend per tag over the same window, largest first. A payment with several
+   * tags counts toward each of them, so the rows can add up to more than the total.
+   */
+  spendingByTag: TagSpending[];
 }
 
 function isSuccessStatus(status: string): boolean {
@@ -82,6 +112,9 @@ export const getAnalytics = cache(async function getAnalytics(
     .lean();
 
   const dailyMap = new Map<string, number>();
+  const apiKeyMap = new Map<string | null, { count: number; spending: number }>();
+  const oauthClientMap = new Map<string, { count: number; spending: number }>();
+  const tagMap = new Map<string | null, { count: number; spending: number }>();
   const dailyMetricsMap = new Map<string, { count: number; spending: number; success: number; failure: number }>();
 
   for (let i = 0; i < 30; i++) {
@@ -105,6 +138,27 @@ export const getAnalytics = cache(async function getAnalytics(
 
     totalAmount += tx.amount;
 
+    const apiKeyId = tx.apiKeyId?.toString() ?? null;
+    if (!apiKeyId && tx.oauthClientId) {
+      const clientMetrics = oauthClientMap.get(tx.oauthClientId) ?? { count: 0, spending: 0 };
+      clientMetrics.count += 1;
+      clientMetrics.spending += tx.amount;
+      oauthClientMap.set(tx.oauthClientId, clientMetrics);
+    } else {
+      const keyMetrics = apiKeyMap.get(apiKeyId) ?? { count: 0, spending: 0 };
+      keyMetrics.count += 1;
+      keyMetrics.spending += tx.amount;
+      apiKeyMap.set(apiKeyId, keyMetrics);
+    }
+
+    const tags: (string | null)[] = tx.tags?.length ? tx.tags : [null];
+    for (const tag of tags) {
+      const tagMetrics = tagMap.get(tag) ?? { count: 0, spending: 0 };
+      tagMetrics.count += 1;
+      tagMetrics.spending += tx.amount;
+      tagMap.set(tag, tagMetrics);
+    }
+
     if (tx.createdAt >= startOfToday) {
       today += tx.amount;
     }
@@ -164,5 +218,52 @@ export const getAnalytics = cache(async function getAnalytics(
     overallSuccessRate: totalResolved > 0 ? Math.round((totalSuccess / totalResolved) * 1000) / 10 : 0,
   };
 
-  return { dailySpending, summary, dailyMetrics, metricsSummary };
+  const keyIds = [...apiKeyMap.keys()].filter((id): id is string => id !== null);
+  const keys = keyIds.length > 0
+    ? await ApiKey.find({ _id: { $in: keyIds.map((id) => new Types.ObjectId(id)) } })
+        .select("label revokedAt")
+        .lean()
+    : [];
+  const keysById = new Map(keys.map((key) => [key._id.toString(), key]));
+
+  const clientIds = [...oauthClientMap.keys()];
+  const clients = clientIds.length > 0
+    ? await OAuthClient.find({ clientId: { $in: clientIds } })
+        .select("clientId clientName")
+        .lean()
+    : [];
+  const clientNames = new Map(clients.map((client) => [client.clientId, client.clientName ?? null]));
+
+  const spendingByApiKey: ApiKeySpending[] = [
+    ...Array.from(apiKeyMap.entries()).map(([apiKeyId, metrics]) => {
+      const key = apiKeyId ? keysById.get(apiKeyId) : undefined;
+      return {
+        apiKeyId,
+        oauthClientId: null,
+        label: key?.label ?? (apiKeyId ? "Deleted key" : "No API key"),
+        revoked: key?.revokedAt != null,
+        count: metrics.count,
+        spending: Math.round(metrics.spending * 100) / 100,
+      };
+    }),
+    ...Array.from(oauthClientMap.entries()).map(([oauthClientId, metrics]) => ({
+      apiKeyId: null,
+      oauthClientId,
+      label: clientNames.get(oauthClientId) ?? "Unnamed app",
+      revoked: false,
+      count: metrics.count,
+      spending: Math.round(metrics.spending * 100) / 100,
+    })),
+  ]
+    .sort((a, b) => b.spending - a.spending);
+
+  const spendingByTag: TagSpending[] = Array.from(tagMap.entries())
+    .map(([tag, metrics]) => ({
+      tag,
+      count: metrics.count,
+      spending: Math.round(metrics.spending * 100) / 100,
+    }))
+    .sort((a, b) => b.spending - a.spending);
+
+  return { dailySpending, summary, dailyMetrics, metricsSummary, spendingByApiKey, spendingByTag };
 });
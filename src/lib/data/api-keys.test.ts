@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Types } from "mongoose";
+
+vi.mock("@/lib/db", () => ({ connectDB: vi.fn(() => Promise.resolve()) }));
+
+const mockApiKeyFindOne = vi.fn();
+const mockApiKeyCreate = vi.fn();
+const mockApiKeyUpdateOne = vi.fn();
+const mockApiKeyCountDocuments = vi.fn();
+vi.mock("@/lib/models/api-key", () => ({
+  ApiKey: {
+    findOne: mockApiKeyFindOne,
+    create: mockApiKeyCreate,
+    updateOne: mockApiKeyUpdateOne,
+    countDocuments: mockApiKeyCountDocuments,
+  },
+  ApiKeyDTO: {
+    parse: (doc: unknown) => doc,
+  },
+}));
+
+const mockUserFindOne = vi.fn();
+const mockUserUpdateOne = vi.fn();
+vi.mock("@/lib/models/user", () => ({
+  User: {
+    findOne: mockUserFindOne,
+    updateOne: mockUserUpdateOne,
+  },
+}));
+
+const USER_ID = new Types.ObjectId();
+const KEY_ID = new Types.ObjectId();
+
+function chainable(doc: unknown) {
+  return { select: () => ({ lean: () => Promise.resolve(doc) }) };
+}
+
+describe("getUserByApiKey", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("resolves the key id with the user id and records last use", async () => {
+    const { getUserByApiKey } = await import("@/lib/data/api-keys");
+    mockApiKeyFindOne.mockReturnValue(chainable({ _id: KEY_ID, userId: USER_ID, revokedAt: null }));
+
+    const result = await getUserByApiKey("brv_abc", "203.0.113.7");
+
+    expect(result).toEqual({ userId: USER_ID.toString(), apiKeyId: KEY_ID.toString(), scopes: ["read", "discover", "pay"] });
+    const update = mockApiKeyUpdateOne.mock.calls[0][1];
+    expect(update.$set.lastUsedIp).toBe("203.0.113.7");
+  });
+
+  it("returns the key's scopes", async () => {
+    const { getUserByApiKey } = await import("@/lib/data/api-keys");
+    mockApiKeyFindOne.mockReturnValue(
+      chainable({ _id: KEY_ID, userId: USER_ID, scopes: ["read", "discover"], revokedAt: null }),
+    );
+
+    const result = await getUserByApiKey("brv_abc");
+
+    expect(result?.scopes).toEqual(["read", "discover"]);
+  });
+
+  it("rejects a revoked key", async () => {
+    const { getUserByApiKey } = await import("@/lib/data/api-keys");
+    mockApiKeyFindOne.mockReturnValue(chainable({ _id: KEY_ID, userId: USER_ID, revokedAt: new Date() }));
+
+    const result = await getUserByApiKey("brv_abc");
+
+    expect(result).toBeNull();
+    expect(mockApiKeyUpdateOne).not.toHaveBeenCalled();
+  });
+
+  it("migrates a legacy key stored on the user", async () => {
+    const { getUserByApiKey } = await import("@/lib/data/api-keys");
+    mockApiKeyFindOne.mockReturnValue(chainable(null));
+    mockUserFindOne.mockReturnValue(chainable({ _id: USER_ID, apiKeyPrefix: "brv_a1b2" }));
+    mockApiKeyCreate.mockResolvedValue({ _id: KEY_ID });
+
+    const result = await getUserByApiKey("brv_legacy");
+
+    expect(result).toEqual({ userId: USER_ID.toString(), apiKeyId: KEY_ID.toString(), scopes: ["read", "discover", "pay"] });
+    expect(mockApiKeyCreate).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: USER_ID, label: "Default key", keyPrefix: "brv_a1b2" }),
+    );
+    expect(mockUserUpdateOne).toHaveBeenCalledWith(
+      { _id: USER_ID },
+      { $set: { apiKeyHash: null, apiKeyPrefix: null } },
+    );
+  });
+
+  it("returns null for an unknown key", async () => {
+    const { getUserByApiKey } = await import("@/lib/data/api-keys");
+    mockApiKeyFindOne.mockReturnValue(chainable(null));
+    mockUserFindOne.mockReturnValue(chainable(null));
+
+    expect(await getUserByApiKey("brv_unknown")).toBeNull();
+  });
+});
+
+describe("createApiKey", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("stores only the hash and prefix of the new key", async () => {
+    const { createApiKey } = await import("@/lib/data/api-keys");
+    mockApiKeyCountDocuments.mockResolvedValue(0);
+    mockApiKeyCreate.mockImplementation((doc: Record<string, unknown>) =>
+      Promise.resolve({ toObject: () => doc }),
+    );
+
+    const { rawKey } = await createApiKey(USER_ID.toString(), { label: "Research agent", scopes: ["read"] });
+
+    const doc = mockApiKeyCreate.mock.calls[0][0];
+    expect(rawKey).toMatch(/^brv_[0-9a-f]{32}$/);
+    expect(doc.keyPrefix).toBe(rawKey.slice(0, 8));
+    expect(doc.keyHash).not.toContain(rawKey);
+    expect(doc.label).toBe("Research agent");
+    expect(doc.scopes).toEqual(["read"]);
+  });
+
+  it("refuses to exceed the active key limit", async () => {
+    const { createApiKey, MAX_API_KEYS_PER_USER } = await import("@/lib/data/api-keys");
+    mockApiKeyCountDocuments.mockResolvedValue(MAX_API_KEYS_PER_USER);
+
+    await expect(createApiKey(USER_ID.toString(), { label: "One too many", scopes: ["read"] })).rejects.toThrow("at most");
+  });
+});
@@ -0,0 +1,225 @@
+import { randomBytes, createHash } from "crypto";
+import { Types } from "mongoose";
+import { ApiKey, ApiKeyDTO, type ApiKeyBudgetInput, type ApiKeyCreateInput } from "@/lib/models/api-key";
+import { API_KEY_SCOPES, type ApiKeyScope } from "@/lib/mcp/tool-registry";
+import { User } from "@/lib/models/user";
+import { notifyCredentialMcpSessions, TOOLS_LIST_CHANGED_NOTIFICATION } from "@/lib/data/mcp-sessions";
+import { connectDB } from "@/lib/db";
+
+const API_KEY_PREFIX = "brv_";
+
+/** Maximum number of unrevoked API keys per user. */
+export const MAX_API_KEYS_PER_USER = 25;
+
+/** Minimum time between last-used updates for the same key. */
+const LAST_USED_THROTTLE_MS = 60_000;
+
+/** Generate a raw API key: brv_ + 32 random hex chars (128 bits of entropy). */
+function generateApiKey(): string {
+  return API_KEY_PREFIX + randomBytes(16).toString("hex");
+}
+
+/** SHA-256 hash of a raw API key for storage. */
+function hashApiKey(rawKey: string): string {
+  return createHash("sha256").update(rawKey).digest("hex");
+}
+
+/**
+ * Get all of the user's API keys, newest first, including revoked ones.
+ */
+export async function getApiKeys(userId: string): Promise<ApiKeyDTO[]> {
+  await connectDB();
+  const docs = await ApiKey.find({ userId: new Types.ObjectId(userId) })
+    .sort({ createdAt: -1 })
+    .lean();
+  return docs.map((doc) => ApiKeyDTO.parse(doc));
+}
+
+/**
+ * Create a labelled API key limited to `scopes`. Returns the raw key, which
+ * is only available here — only its hash and prefix are stored.
+ */
+export async function createApiKey(
+  userId: string,
+  { label, scopes }: ApiKeyCreateInput,
+): Promise<{ rawKey: string; apiKey: ApiKeyDTO }> {
+  await connectDB();
+  const userObjectId = new Types.ObjectId(userId);
+
+  const activeCount = await ApiKey.countDocuments({ userId: userObjectId, revokedAt: null });
+  if (activeCount >= MAX_API_KEYS_PER_USER) {
+    throw new Error(`You can have at most ${MAX_API_KEYS_PER_USER} active API keys. Revoke one first.`);
+  }
+
+  const rawKey = generateApiKey();
+  const doc = await ApiKey.create({
+    userId: userObjectId,
+    label,
+    keyHash: hashApiKey(rawKey),
+    keyPrefix: rawKey.slice(0, 8),
+    scopes,
+  });
+
+  return { rawKey, apiKey: ApiKeyDTO.parse(doc.toObject()) };
+}
+
+/**
+ * Change which scopes an unrevoked API key has. Takes effect on the agent's
+ * next request; the key's stateful MCP sessions are told to re-list tools.
+ * Returns null if the key does not exist or is revoked.
+ */
+export async function updateApiKeyScopes(
+  userId: string,
+  keyId: string,
+  scopes: ApiKeyScope[],
+): Promise<ApiKeyDTO | null> {
+  await connectDB();
+  const doc = await ApiKey.findOneAndUpdate(
+    { _id: keyId, userId: new Types.ObjectId(userId), revokedAt: null },
+    { $set: { scopes } },
+    { returnDocument: "after" },
+  ).lean();
+  if (!doc) return null;
+
+  await notifyCredentialMcpSessions(keyId, TOOLS_LIST_CHANGED_NOTIFICATION);
+  return ApiKeyDTO.parse(doc);
+}
+
+/**
+ * Set an unrevoked API key's own spending limits. These apply on top of the
+ * account-wide budget. Returns null if the key does not exist or is revoked.
+ */
+export async function updateApiKeyBudget(
+  userId: string,
+  keyId: string,
+  budget: ApiKeyBudgetInput,
+): Promise<ApiKeyDTO | null> {
+  await connectDB();
+  const doc = await ApiKey.findOneAndUpdate(
+    { _id: keyId, userId: new Types.ObjectId(userId), revokedAt: null },
+    {
+      $set: {
+        dailyBudget: budget.dailyBudget,
+        monthlyBudget: budget.monthlyBudget,
+        maxPerRequest: budget.maxPerRequest,
+      },
+    },
+    { returnDocument: "after" },
+  ).lean();
+  return doc ? ApiKeyDTO.parse(doc) : null;
+}
+
+/**
+ * Get an API key's own spending limits (USD, null = no limit).
+ * Returns all nulls if the key is not found.
+ */
+export async function getApiKeyBudget(apiKeyId: string): Promise<ApiKeyBudgetInput> {
+  await connectDB();
+  const key = await ApiKey.findById(new Types.ObjectId(apiKeyId))
+    .select("dailyBudget monthlyBudget maxPerRequest")
+    .lean();
+  return {
+    dailyBudget: key?.dailyBudget ?? null,
+    monthlyBudget: key?.monthlyBudget ?? null,
+    maxPerRequest: key?.maxPerRequest ?? null,
+  };
+}
+
+/**
+ * Revoke one API key. Agents using other keys are unaffected.
+ * Returns null if the key does not exist or is already revoked.
+ */
+export async function revokeApiKey(userId: string, keyId: string): Promise<ApiKeyDTO | null> {
+  await connectDB();
+  const doc = await ApiKey.findOneAndUpdate(
+    { _id: keyId, userId: new Types.ObjectId(userId), revokedAt: null },
+    { $set: { revokedAt: new Date() } },
+    { returnDocument: "after" },
+  ).lean();
+  return doc ? ApiKeyDTO.parse(doc) : null;
+}
+
+/** The user and key an MCP request authenticated as, with the key's scopes. */
+export interface ApiKeyIdentity {
+  userId: string;
+  apiKeyId: string;
+  scopes: ApiKeyScope[];
+}
+
+/**
+ * Move a key stored on the User document (before keys had their own
+ * collection) into the ApiKey collection, so it keeps working and shows up
+ * in the key list. Returns the migrated key's id, or null if none matched.
+ */
+async function migrateLegacyApiKey(hash: string): Promise<ApiKeyIdentity | null> {
+  const user = await User.findOne({ apiKeyHash: hash }).select("_id apiKeyPrefix").lean();
+  if (!user) {
+    return null;
+  }
+
+  let apiKeyId: Types.ObjectId;
+  try {
+    const doc = await ApiKey.create({
+      userId: user._id,
+      label: "Default key",
+      keyHash: hash,
+      keyPrefix: user.apiKeyPrefix ?? API_KEY_PREFIX,
+    });
+    apiKeyId = doc._id;
+  } catch (err: unknown) {
+    // A concurrent request already migrated this key
+    const isDuplicateKeyError =
+      err &&
+      typeof err === "object" &&
+      "code" in err &&
+      (err as { code: number }).code === 11000;
+    if (!isDuplicateKeyError) {
+      throw err;
+    }
+    const existing = await ApiKey.findOne({ keyHash: hash }).select("_id").lean();
+    if (!existing) {
+      throw err;
+    }
+    apiKeyId = existing._id;
+  }
+
+  await User.updateOne({ _id: user._id }, { $set: { apiKeyHash: null, apiKeyPrefix: null } });
+
+  return { userId: user._id.toString(), apiKeyId: apiKeyId.toString(), scopes: [...API_KEY_SCOPES] };
+}
+
+/**
+ * Look up a user by raw API key. Hashes the input and finds the unrevoked
+ * key by the stored hash, recording when and from where it was last used.
+ * Returns the key's identity and scopes, or null if not found.
+ */
+export async function getUserByApiKey(
+  rawKey: string,
+  ip?: string,
+): Promise<ApiKeyIdentity | null> {
+  await connectDB();
+  const hash = hashApiKey(rawKey);
+
+  const key = await ApiKey.findOne({ keyHash: hash }).select("_id userId scopes revokedAt").lean();
+  if (!key) {
+    return migrateLegacyApiKey(hash);
+  }
+  if (key.revokedAt) {
+    return null;
+  }
+
+  // Throttled so busy agents don't write on every request
+  await ApiKey.updateOne(
+    {
+      _id: key._id,
+      $or: [{ lastUsedAt: null }, { lastUsedAt: { $lt: new Date(Date.now() - LAST_USED_THROTTLE_MS) } }],
+    },
+    { $set: { lastUsedAt: new Date(), lastUsedIp: ip ?? null } },
+  );
+
+  return {
+    userId: key.userId.toString(),
+    apiKeyId: key._id.toString(),
+    scopes: key.scopes ?? [...API_KEY_SCOPES],
+  };
+}
@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Types } from "mongoose";
+
+vi.mock("@/lib/db", () => ({ connectDB: vi.fn(() => Promise.resolve()) }));
+
+const mockCreate = vi.fn();
+const mockDeleteOne = vi.fn();
+const mockFindOne = vi.fn();
+const mockUpdateMany = vi.fn();
+vi.mock("@/lib/models/pending-payment", () => ({
+  PendingPayment: { updateMany: mockUpdateMany },
+}));
+
+vi.mock("@/lib/models/idempotency-key", () => ({
+  IdempotencyKey: {
+    create: mockCreate,
+    deleteOne: mockDeleteOne,
+    findOne: mockFindOne,
+  },
+  IdempotencyKeyDTO: {
+    parse: (doc: unknown) => doc,
+  },
+}));
+
+const USER_ID = "507f1f77bcf86cd799439012";
+const REQUEST = { method: "GET", url: "https://api.example.com/v1/data" };
+
+function duplicateKeyError() {
+  return Object.assign(new Error("E11000 duplicate key"), { code: 11000 });
+}
+
+describe("claimIdempotencyKey", () => {
+  beforeEach(() => {
+    mockCreate.mockReset();
+    mockDeleteOne.mockReset();
+    mockFindOne.mockReset();
+    mockUpdateMany.mockReset();
+  });
+
+  it("claims a new key, scoped to the user", async () => {
+    const { claimIdempotencyKey } = await import("@/lib/data/idempotency");
+    mockCreate.mockResolvedValue({});
+
+    const claim = await claimIdempotencyKey(USER_ID, "key-1", REQUEST);
+
+    expect(claim).toEqual({ claimed: true });
+    const doc = mockCreate.mock.calls[0][0];
+    expect(doc.userId).toBeInstanceOf(Types.ObjectId);
+    expect(doc.key).toBe("key-1");
+    expect(doc.expiresAt.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it("detaches a pending payment left by an expired use of the key", async () => {
+    const { claimIdempotencyKey } = await import("@/lib/data/idempotency");
+    mockCreate.mockResolvedValue({});
+
+    await claimIdempotencyKey(USER_ID, "key-1", REQUEST);
+
+    const [filter, update] = mockUpdateMany.mock.calls[0];
+    expect(filter).toEqual({ userId: expect.any(Types.ObjectId), idempotencyKey: "key-1" });
+    expect(update).toEqual({ $unset: { idempotencyKey: 1 } });
+  });
+
+  it("hashes every argument that changes the payment", async () => {
+    const { claimIdempotencyKey } = await import("@/lib/data/idempotency");
+    mockCreate.mockResolvedValue({});
+    const variants = [
+      REQUEST,
+      { ...REQUEST, headers: { Accept: "text/csv" } },
+      { ...REQUEST, chain: "arbitrum" },
+      { ...REQUEST, maxAmount: 0.05 },
+      { ...REQUEST, maxAmount: { amountRaw: "50000", asset: "0xusdc" } },
+      { ...REQUEST, grantId: "grant-1" },
+    ];
+
+    for (const request of variants) await claimIdempotencyKey(USER_ID, "key-1", request);
+
+    const hashes = mockCreate.mock.calls.map(([doc]) => doc.requestHash);
+    expect(new Set(hashes).size).toBe(variants.length);
+  });
+
+  it("ignores header name case and order", async () => {
+    const { claimIdempotencyKey } = await import("@/lib/data/idempotency");
+    mockCreate.mockResolvedValue({});
+
+    await claimIdempotencyKey(USER_ID, "key-1", { ...REQUEST, headers: { Accept: "a", "X-Id": "1" } });
+    await claimIdempotencyKey(USER_ID, "key-1", { ...REQUEST, headers: { "x-id": "1", accept: "a" } });
+
+    expect(mockCreate.mock.calls[0][0].requestHash).toBe(mockCreate.mock.calls[1][0].requestHash);
+  });
+
+  it("replays the recorded outcome for a repeated request", async () => {
+    const { claimIdempotencyKey } = await import("@/lib/data/idempotency");
+    mockCreate.mockResolvedValueOnce({});
+    await claimIdempotencyKey(USER_ID, "key-1", REQUEST);
+    const requestHash = mockCreate.mock.calls[0][0].requestHash;
+
+    mockCreate.mockRejectedValueOnce(duplicateKeyError());
+    const record = { requestHash, status: "pending_approval", response: "Payment ID: abc", isError: false };
+    mockFindOne.mockReturnValue({ lean: () => Promise.resolve(record) });
+
+    const claim = await claimIdempotencyKey(USER_ID, "key-1", REQUEST);
+
+    expect(claim).toEqual({ claimed: false, reason: "replay", record });
+  });
+
+  it("reports a key still in progress", async () => {
+    const { claimIdempotencyKey } = await import("@/lib/data/idempotency");
+    mockCreate.mockResolvedValueOnce({});
+    await claimIdempotencyKey(USER_ID, "key-1", REQUEST);
+    const requestHash = mockCreate.mock.calls[0][0].requestHash;
+
+    mockCreate.mockRejectedValueOnce(duplicateKeyError());
+    mockFindOne.mockReturnValue({ lean: () => Promise.resolve({ requestHash, status: "in_progress" }) });
+
+    const claim = await claimIdempotencyKey(USER_ID, "key-1", REQUEST);
+
+    expect(claim).toEqual({ claimed: false, reason: "in_progress" });
+  });
+
+  it("refuses to reuse a key for a different request", async () => {
+    const { claimIdempotencyKey } = await import("@/lib/data/idempotency");
+    mockCreate.mockRejectedValue(duplicateKeyError());
+    mockFindOne.mockReturnValue({
+      lean: () => Promise.resolve({ requestHash: "other", status: "completed", response: "{}" }),
+    });
+
+    const claim = await claimIdempotencyKey(USER_ID, "key-1", { ...REQUEST, method: "POST" });
+
+    expect(claim).toEqual({ claimed: false, reason: "mismatch" });
+  });
+});
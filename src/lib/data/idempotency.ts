@@ -0,0 +1,130 @@
+import { createHash } from "crypto";
+import { Types } from "mongoose";
+import {
+  IdempotencyKey,
+  IdempotencyKeyDTO,
+  type IdempotencyOutcomeInput,
+} from "@/lib/models/idempotency-key";
+import { PendingPayment } from "@/lib/models/pending-payment";
+import { connectDB } from "@/lib/db";
+
+/** How long a key's outcome is replayed before the key can be reused. */
+export const IDEMPOTENCY_KEY_RETENTION_HOURS = 24;
+
+/** The x402_pay arguments that decide what a call pays for and how. */
+export interface IdempotentRequest {
+  method: string;
+  url: string;
+  body?: string;
+  headers?: Record<string, string>;
+  chain?: string;
+  maxAmount?: number | { amountRaw: string; asset: string };
+  grantId?: string;
+}
+
+/** SHA-256 of the parts of a request that must match for a key to be replayed. */
+function hashRequest(request: IdempotentRequest): string {
+  // Header names are case-insensitive and their order carries no meaning
+  const headers = request.headers
+    ? Object.entries(request.headers)
+        .map(([name, value]) => [name.toLowerCase(), value])
+        .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    : null;
+  return createHash("sha256")
+    .update(
+      JSON.stringify([
+        request.method,
+        request.url,
+        request.body ?? null,
+        headers,
+        request.chain ?? null,
+        request.maxAmount ?? null,
+        request.grantId ?? null,
+      ]),
+    )
+    .digest("hex");
+}
+
+export type IdempotencyClaim =
+  | { claimed: true }
+  | { claimed: false; reason: "in_progress" }
+  | { claimed: false; reason: "mismatch" }
+  | { claimed: false; reason: "replay"; record: IdempotencyKeyDTO };
+
+/**
+ * Claim an idempotency key for a request. The first caller claims it and
+ * should run the request, then record the outcome. Later callers within the
+ * retention window get the recorded outcome to replay, or learn that the
+ * original call is still running or the key was used for another request.
+ */
+export async function claimIdempotencyKey(
+  userId: string,
+  key: string,
+  request: IdempotentRequest,
+): Promise<IdempotencyClaim> {
+  await connectDB();
+  const userObjectId = new Types.ObjectId(userId);
+  const requestHash = hashRequest(request);
+
+  // The TTL monitor only runs periodically, so clear an expired key ourselves
+  await IdempotencyKey.deleteOne({ userId: userObjectId, key, expiresAt: { $lte: new Date() } });
+
+  try {
+    await IdempotencyKey.create({
+      userId: userObjectId,
+      key,
+      requestHash,
+      expiresAt: new Date(Date.now() + IDEMPOTENCY_KEY_RETENTION_HOURS * 60 * 60 * 1000),
+    });
+    // Any earlier use of the key has expired, so its pending payment must no
+    // longer absorb the one this call may create
+    await PendingPayment.updateMany(
+      { userId: userObjectId, idempotencyKey: key },
+      { $unset: { idempotencyKey: 1 } },
+    );
+    return { claimed: true };
+  } catch (err: unknown) {
+    const isDuplicateKeyError =
+      err &&
+      typeof err === "object" &&
+      "code" in err &&
+      (err as { code: number }).code === 11000;
+    if (!isDuplicateKeyError) throw err;
+  }
+
+  const existing = await IdempotencyKey.findOne({ userId: userObjectId, key }).lean();
+  if (!existing) {
+    // Expired and removed between our insert and lookup — treat as in flight
+    return { claimed: false, reason: "in_progress" };
+  }
+  if (existing.requestHash !== requestHash) {
+    return { claimed: false, reason: "mismatch" };
+  }
+  if (existing.status === "in_progress") {
+    return { claimed: false, reason: "in_progress" };
+  }
+  return { claimed: false, reason: "replay", record: IdempotencyKeyDTO.parse(existing) };
+}
+
+/**
+ * Record the outcome of a claimed key so retries replay it.
+ */
+export async function completeIdempotencyKey(
+  userId: string,
+  key: string,
+  outcome: IdempotencyOutcomeInput,
+): Promise<void> {
+  await connectDB();
+  await IdempotencyKey.updateOne(
+    { userId: new Types.ObjectId(userId), key, status: "in_progress" },
+    {
+      $set: {
+        status: outcome.status,
+        response: outcome.response,
+        ...(outcome.attachments && { attachments: outcome.attachments }),
+        isError: outcome.isError,
+        ...(outcome.pendingPaymentId && { pendingPaymentId: new Types.ObjectId(outcome.pendingPaymentId) }),
+      },
+    },
+  );
+}
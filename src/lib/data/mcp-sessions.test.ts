@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Types } from "mongoose";
+
+vi.mock("@/lib/db", () => ({ connectDB: vi.fn(() => Promise.resolve()) }));
+
+const mockSessionFindOneAndUpdate = vi.fn();
+const mockSessionFind = vi.fn();
+const mockSessionUpdateOne = vi.fn();
+vi.mock("@/lib/models/mcp-session", () => ({
+  McpSession: {
+    findOneAndUpdate: mockSessionFindOneAndUpdate,
+    find: mockSessionFind,
+    updateOne: mockSessionUpdateOne,
+  },
+  McpSessionDTO: { parse: (doc: unknown) => doc },
+}));
+
+const mockNotificationCreate = vi.fn();
+const mockNotificationInsertMany = vi.fn();
+const mockNotificationFindOneAndDelete = vi.fn();
+vi.mock("@/lib/models/mcp-notification", () => ({
+  McpNotification: {
+    create: mockNotificationCreate,
+    insertMany: mockNotificationInsertMany,
+    findOneAndDelete: mockNotificationFindOneAndDelete,
+  },
+}));
+
+const USER_ID = new Types.ObjectId();
+
+function lean(result: unknown) {
+  return { lean: () => Promise.resolve(result) };
+}
+
+describe("resumeMcpSession", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("only resumes an unexpired session of the same credential and extends it", async () => {
+    const { resumeMcpSession } = await import("@/lib/data/mcp-sessions");
+    mockSessionFindOneAndUpdate.mockReturnValue(lean({ sessionId: "s-1", userId: USER_ID, credentialId: "key-1" }));
+
+    const session = await resumeMcpSession("s-1", "key-1");
+
+    expect(session).toMatchObject({ sessionId: "s-1" });
+    const [filter, update] = mockSessionFindOneAndUpdate.mock.calls[0];
+    expect(filter).toMatchObject({ sessionId: "s-1", credentialId: "key-1" });
+    expect(update.$set.expiresAt.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it("returns null for another credential's session", async () => {
+    const { resumeMcpSession } = await import("@/lib/data/mcp-sessions");
+    mockSessionFindOneAndUpdate.mockReturnValue(lean(null));
+
+    expect(await resumeMcpSession("s-1", "key-2")).toBeNull();
+  });
+});
+
+describe("notifyCredentialMcpSessions", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("queues the notification for each of the credential's sessions", async () => {
+    const { notifyCredentialMcpSessions, TOOLS_LIST_CHANGED_NOTIFICATION } = await import("@/lib/data/mcp-sessions");
+    mockSessionFind.mockReturnValue({ select: () => lean([{ sessionId: "s-1" }, { sessionId: "s-2" }]) });
+
+    await notifyCredentialMcpSessions("key-1", TOOLS_LIST_CHANGED_NOTIFICATION);
+
+    const docs = mockNotificationInsertMany.mock.calls[0][0];
+    expect(docs.map((d: { sessionId: string }) => d.sessionId)).toEqual(["s-1", "s-2"]);
+    expect(docs[0].method).toBe("notifications/tools/list_changed");
+  });
+
+  it("writes nothing when the credential has no sessions", async () => {
+    const { notifyCredentialMcpSessions, TOOLS_LIST_CHANGED_NOTIFICATION } = await import("@/lib/data/mcp-sessions");
+    mockSessionFind.mockReturnValue({ select: () => lean([]) });
+
+    await notifyCredentialMcpSessions("key-1", TOOLS_LIST_CHANGED_NOTIFICATION);
+
+    expect(mockNotificationInsertMany).not.toHaveBeenCalled();
+  });
+});
+
+describe("takeMcpSessionNotifications", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("claims queued notifications one at a time until the outbox is empty", async () => {
+    const { takeMcpSessionNotifications } = await import("@/lib/data/mcp-sessions");
+    mockNotificationFindOneAndDelete
+      .mockReturnValueOnce(lean({ method: "notifications/message", params: { level: "info", data: { status: "approved" } } }))
+      .mockReturnValueOnce(lean({ method: "notifications/tools/list_changed", params: null }))
+      .mockReturnValueOnce(lean(null));
+
+    const notifications = await takeMcpSessionNotifications("s-1");
+
+    expect(notifications).toEqual([
+      { method: "notifications/message", params: { level: "info", data: { status: "approved" } } },
+      { method: "notifications/tools/list_changed" },
+    ]);
+    expect(mockNotificationFindOneAndDelete).toHaveBeenCalledWith({ sessionId: "s-1" }, { sort: { createdAt: 1 } });
+  });
+});
+
+describe("updateMcpSessionDirectoryVersion", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("queues tools/list_changed only when the version actually changed", async () => {
+    const { updateMcpSessionDirectoryVersion } = await import("@/lib/data/mcp-sessions");
+    mockSessionUpdateOne.mockResolvedValueOnce({ modifiedCount: 1 }).mockResolvedValueOnce({ modifiedCount: 0 });
+
+    await updateMcpSessionDirectoryVersion("s-1", "v2");
+    await updateMcpSessionDirectoryVersion("s-1", "v2");
+
+    expect(mockNotificationCreate).toHaveBeenCalledTimes(1);
+    expect(mockNotificationCreate.mock.calls[0][0]).toMatchObject({
+      sessionId: "s-1",
+      method: "notifications/tools/list_changed",
+    });
+  });
+});
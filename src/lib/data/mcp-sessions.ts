@@ -0,0 +1,179 @@
+import { Types } from "mongoose";
+import { McpSession, McpSessionDTO } from "@/lib/models/mcp-session";
+import { McpNotification } from "@/lib/models/mcp-notification";
+import { McpClientResponse } from "@/lib/models/mcp-client-response";
+import { connectDB } from "@/lib/db";
+
+/** Sessions (and their queued notifications) expire after this long without a request. */
+const MCP_SESSION_IDLE_TTL_HOURS = 24;
+
+/** Most notifications delivered per outbox read, so one busy session can't hog a stream. */
+const MAX_NOTIFICATIONS_PER_TAKE = 50;
+
+/** Client replies are only useful while a request is waiting for them. */
+const CLIENT_RESPONSE_TTL_MINUTES = 10;
+
+/** A server-to-client JSON-RPC notification, queued for delivery over a session's SSE stream. */
+export interface McpSessionNotification {
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+/** Tells clients to re-fetch tools/list, e.g. after the credential's scopes change. */
+export const TOOLS_LIST_CHANGED_NOTIFICATION: McpSessionNotification = {
+  method: "notifications/tools/list_changed",
+};
+
+function idleExpiry(): Date {
+  return new Date(Date.now() + MCP_SESSION_IDLE_TTL_HOURS * 60 * 60 * 1000);
+}
+
+/**
+ * Record a session after the client's initialize request.
+ */
+export async function createMcpSession(data: {
+  sessionId: string;
+  userId: string;
+  credentialId: string;
+  directoryVersion: string;
+  initializeParams: Record<string, unknown> | null;
+}): Promise<McpSessionDTO> {
+  await connectDB();
+  const now = new Date();
+  const doc = await McpSession.create({
+    sessionId: data.sessionId,
+    userId: new Types.ObjectId(data.userId),
+    credentialId: data.credentialId,
+    directoryVersion: data.directoryVersion,
+    initializeParams: data.initializeParams,
+    lastSeenAt: now,
+    expiresAt: idleExpiry(),
+  });
+  return McpSessionDTO.parse(doc.toObject());
+}
+
+/**
+ * Look up a session for a follow-up request and extend its idle expiry.
+ * Returns null if the session is unknown, expired, or belongs to another
+ * credential, so a leaked session ID is useless without its credential.
+ */
+export async function resumeMcpSession(sessionId: string, credentialId: string): Promise<McpSessionDTO | null> {
+  await connectDB();
+  const now = new Date();
+  const doc = await McpSession.findOneAndUpdate(
+    { sessionId, credentialId, expiresAt: { $gt: now } },
+    { $set: { lastSeenAt: now, expiresAt: idleExpiry() } },
+    { returnDocument: "after" },
+  ).lean();
+  return doc ? McpSessionDTO.parse(doc) : null;
+}
+
+/**
+ * Record that the session's client is now seeing a different merchant
+ * directory and queue a tools/list_changed notification for it.
+ */
+export async function updateMcpSessionDirectoryVersion(sessionId: string, directoryVersion: string): Promise<void> {
+  await connectDB();
+  const updated = await McpSession.updateOne(
+    { sessionId, directoryVersion: { $ne: directoryVersion } },
+    { $set: { directoryVersion } },
+  );
+  // Only the request that changed the version queues the notification
+  if (updated.modifiedCount > 0) {
+    await notifyMcpSession(sessionId, TOOLS_LIST_CHANGED_NOTIFICATION);
+  }
+}
+
+/**
+ * End a session (client DELETE) and drop its undelivered notifications.
+ */
+export async function deleteMcpSession(sessionId: string): Promise<void> {
+  await connectDB();
+  await McpSession.deleteOne({ sessionId });
+  await McpNotification.deleteMany({ sessionId });
+  await McpClientResponse.deleteMany({ sessionId });
+}
+
+/**
+ * Queue a notification for one session. Delivered the next time the
+ * session's SSE stream polls the outbox.
+ */
+export async function notifyMcpSession(sessionId: string, notification: McpSessionNotification): Promise<void> {
+  await connectDB();
+  await McpNotification.create({
+    sessionId,
+    method: notification.method,
+    params: notification.params ?? null,
+    expiresAt: idleExpiry(),
+  });
+}
+
+/**
+ * Queue a notification for every open session of a credential (an API key
+ * ID or "oauth:<grantId>").
+ */
+export async function notifyCredentialMcpSessions(
+  credentialId: string,
+  notification: McpSessionNotification,
+): Promise<void> {
+  await connectDB();
+  const sessions = await McpSession.find({ credentialId, expiresAt: { $gt: new Date() } })
+    .select("sessionId")
+    .lean();
+  if (sessions.length === 0) return;
+
+  const expiresAt = idleExpiry();
+  await McpNotification.insertMany(
+    sessions.map((s) => ({
+      sessionId: s.sessionId,
+      method: notification.method,
+      params: notification.params ?? null,
+      expiresAt,
+    })),
+  );
+}
+
+/**
+ * Remove and return a session's queued notifications, oldest first. Each one
+ * is claimed atomically, so two streams for the same session never both
+ * deliver it.
+ */
+export async function takeMcpSessionNotifications(sessionId: string): Promise<McpSessionNotification[]> {
+  await connectDB();
+  const taken: McpSessionNotification[] = [];
+  while (taken.length < MAX_NOTIFICATIONS_PER_TAKE) {
+    const doc = await McpNotification.findOneAndDelete({ sessionId }, { sort: { createdAt: 1 } }).lean();
+    if (!doc) break;
+    taken.push({ method: doc.method, ...(doc.params && { params: doc.params }) });
+  }
+  return taken;
+}
+
+/**
+ * Store the client's replies to server-to-client requests, keyed by the
+ * request ID, for whichever instance is waiting on them.
+ */
+export async function storeMcpClientResponses(
+  sessionId: string,
+  responses: Array<{ requestId: string; message: Record<string, unknown> }>,
+): Promise<void> {
+  await connectDB();
+  const expiresAt = new Date(Date.now() + CLIENT_RESPONSE_TTL_MINUTES * 60 * 1000);
+  await McpClientResponse.insertMany(
+    responses.map((r) => ({ sessionId, requestId: r.requestId, message: r.message, expiresAt })),
+  );
+}
+
+/**
+ * Remove and return the stored replies to the given requests of a session.
+ */
+export async function takeMcpClientResponses(
+  sessionId: string,
+  requestIds: string[],
+): Promise<Array<{ requestId: string; message: Record<string, unknown> }>> {
+  await connectDB();
+  const docs = await McpClientResponse.find({ sessionId, requestId: { $in: requestIds } }).lean();
+  if (docs.length === 0) return [];
+  await McpClientResponse.deleteMany({ _id: { $in: docs.map((d) => d._id) } });
+  return docs.map((d) => ({ requestId: d.requestId, message: d.message }));
+}
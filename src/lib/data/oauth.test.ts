@@ -0,0 +1,266 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { createHash } from "crypto";
+import { Types } from "mongoose";
+
+vi.mock("@/lib/db", () => ({ connectDB: vi.fn(() => Promise.resolve()) }));
+
+const mockCodeFindOneAndDelete = vi.fn();
+vi.mock("@/lib/models/oauth-authorization-code", () => ({
+  OAuthAuthorizationCode: {
+    findOneAndDelete: mockCodeFindOneAndDelete,
+  },
+}));
+
+const mockGrantCreate = vi.fn();
+const mockGrantFindOne = vi.fn();
+const mockGrantFindOneAndUpdate = vi.fn();
+const mockGrantUpdateOne = vi.fn();
+const mockGrantUpdateMany = vi.fn();
+const mockGrantFindById = vi.fn();
+vi.mock("@/lib/models/oauth-grant", () => ({
+  OAuthGrant: {
+    create: mockGrantCreate,
+    findOne: mockGrantFindOne,
+    findOneAndUpdate: mockGrantFindOneAndUpdate,
+    updateOne: mockGrantUpdateOne,
+    updateMany: mockGrantUpdateMany,
+    findById: mockGrantFindById,
+  },
+  OAuthGrantDTO: { parse: (doc: unknown) => doc },
+}));
+
+vi.mock("@/lib/models/oauth-client", () => ({
+  OAuthClient: {},
+  OAuthClientDTO: { parse: (doc: unknown) => doc },
+}));
+
+const mockNotifyCredentialMcpSessions = vi.fn();
+vi.mock("@/lib/data/mcp-sessions", () => ({
+  notifyCredentialMcpSessions: mockNotifyCredentialMcpSessions,
+  TOOLS_LIST_CHANGED_NOTIFICATION: { method: "notifications/tools/list_changed" },
+}));
+
+const USER_ID = new Types.ObjectId();
+const GRANT_ID = new Types.ObjectId();
+const VERIFIER = "a".repeat(43);
+const CHALLENGE = createHash("sha256").update(VERIFIER).digest("base64url");
+const REDIRECT_URI = "http://localhost:3334/callback";
+
+function authorizationCode(overrides: Record<string, unknown> = {}) {
+  return {
+    clientId: "client-1",
+    userId: USER_ID,
+    redirectUri: REDIRECT_URI,
+    codeChallenge: CHALLENGE,
+    scopes: ["read", "discover"],
+    resource: null,
+    expiresAt: new Date(Date.now() + 60_000),
+    ...overrides,
+  };
+}
+
+function lean(doc: unknown) {
+  return { lean: () => Promise.resolve(doc) };
+}
+
+function selectLean(doc: unknown) {
+  return { select: () => lean(doc) };
+}
+
+function sortSelectLean(doc: unknown) {
+  return { sort: () => selectLean(doc) };
+}
+
+describe("exchangeAuthorizationCode", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("issues tokens when the code_verifier matches the challenge", async () => {
+    const { exchangeAuthorizationCode, OAUTH_ACCESS_TOKEN_PREFIX } = await import("@/lib/data/oauth");
+    mockCodeFindOneAndDelete.mockReturnValue(lean(authorizationCode()));
+    mockGrantFindOne.mockReturnValue(sortSelectLean(null));
+
+    const result = await exchangeAuthorizationCode({
+      code: "code",
+      clientId: "client-1",
+      redirectUri: REDIRECT_URI,
+      codeVerifier: VERIFIER,
+    });
+
+    expect(result.status).toBe("issued");
+    if (result.status !== "issued") return;
+    expect(result.tokens.access_token.startsWith(OAUTH_ACCESS_TOKEN_PREFIX)).toBe(true);
+    expect(result.tokens.scope).toBe("read discover");
+    const grant = mockGrantCreate.mock.calls[0][0];
+    expect(grant.userId).toBe(USER_ID);
+    expect(grant.accessTokenHash).not.toContain(result.tokens.access_token);
+  });
+
+  it("keeps the spending limits the user set for the client when it re-authorizes", async () => {
+    const { exchangeAuthorizationCode } = await import("@/lib/data/oauth");
+    mockCodeFindOneAndDelete.mockReturnValue(lean(authorizationCode()));
+    mockGrantFindOne.mockReturnValue(sortSelectLean({ dailyBudget: 5, monthlyBudget: null, maxPerRequest: 0.5 }));
+
+    await exchangeAuthorizationCode({
+      code: "code",
+      clientId: "client-1",
+      redirectUri: REDIRECT_URI,
+      codeVerifier: VERIFIER,
+    });
+
+    expect(mockGrantFindOne.mock.calls[0][0]).toMatchObject({ userId: USER_ID, clientId: "client-1" });
+    expect(mockGrantCreate.mock.calls[0][0]).toMatchObject({ dailyBudget: 5, monthlyBudget: null, maxPerRequest: 0.5 });
+  });
+
+  it("refuses a wrong code_verifier", async () => {
+    const { exchangeAuthorizationCode } = await import("@/lib/data/oauth");
+    mockCodeFindOneAndDelete.mockReturnValue(lean(authorizationCode()));
+
+    const result = await exchangeAuthorizationCode({
+      code: "code",
+      clientId: "client-1",
+      redirectUri: REDIRECT_URI,
+      codeVerifier: "b".repeat(43),
+    });
+
+    expect(result).toMatchObject({ status: "invalid_grant" });
+    expect(mockGrantCreate).not.toHaveBeenCalled();
+  });
+
+  it("refuses a code presented by another client or redirect URI", async () => {
+    const { exchangeAuthorizationCode } = await import("@/lib/data/oauth");
+    mockCodeFindOneAndDelete.mockReturnValue(lean(authorizationCode()));
+    const otherClient = await exchangeAuthorizationCode({
+      code: "code", clientId: "client-2", redirectUri: REDIRECT_URI, codeVerifier: VERIFIER,
+    });
+
+    mockCodeFindOneAndDelete.mockReturnValue(lean(authorizationCode()));
+    const otherRedirect = await exchangeAuthorizationCode({
+      code: "code", clientId: "client-1", redirectUri: "http://localhost:9999/callback", codeVerifier: VERIFIER,
+    });
+
+    expect(otherClient).toMatchObject({ status: "invalid_grant" });
+    expect(otherRedirect).toMatchObject({ status: "invalid_grant" });
+  });
+});
+
+describe("refreshAccessToken", () => {
+  const grant = {
+    _id: GRANT_ID,
+    clientId: "client-1",
+    scopes: ["read", "discover"],
+    refreshTokenExpiresAt: new Date(Date.now() + 60_000),
+    revokedAt: null,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("rotates both tokens and may narrow the scopes", async () => {
+    const { refreshAccessToken } = await import("@/lib/data/oauth");
+    mockGrantFindOne.mockReturnValue(selectLean(grant));
+    mockGrantFindOneAndUpdate.mockReturnValue(lean(grant));
+
+    const result = await refreshAccessToken({ refreshToken: "brvrt_old", clientId: "client-1", scopes: ["read"] });
+
+    expect(result.status).toBe("issued");
+    if (result.status !== "issued") return;
+    expect(result.tokens.refresh_token).not.toBe("brvrt_old");
+    expect(result.tokens.scope).toBe("read");
+    const update = mockGrantFindOneAndUpdate.mock.calls[0][1];
+    expect(update.$set.scopes).toEqual(["read"]);
+    expect(mockNotifyCredentialMcpSessions).toHaveBeenCalledWith(`oauth:${GRANT_ID}`, {
+      method: "notifications/tools/list_changed",
+    });
+  });
+
+  it("refuses to widen the scopes", async () => {
+    const { refreshAccessToken } = await import("@/lib/data/oauth");
+    mockGrantFindOne.mockReturnValue(selectLean(grant));
+
+    const result = await refreshAccessToken({ refreshToken: "brvrt_old", clientId: "client-1", scopes: ["read", "pay"] });
+
+    expect(result).toMatchObject({ status: "invalid_grant" });
+    expect(mockGrantFindOneAndUpdate).not.toHaveBeenCalled();
+  });
+});
+
+describe("getUserByAccessToken", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("resolves an unexpired token to its user and scopes", async () => {
+    const { getUserByAccessToken } = await import("@/lib/data/oauth");
+    mockGrantFindOne.mockReturnValue(selectLean({
+      _id: GRANT_ID,
+      userId: USER_ID,
+      clientId: "client-1",
+      scopes: ["read"],
+      resource: null,
+      accessTokenExpiresAt: new Date(Date.now() + 60_000),
+      revokedAt: null,
+    }));
+
+    const identity = await getUserByAccessToken("brvat_token");
+
+    expect(identity).toEqual({
+      userId: USER_ID.toString(),
+      grantId: GRANT_ID.toString(),
+      clientId: "client-1",
+      scopes: ["read"],
+      resource: null,
+    });
+  });
+
+  it("rejects an expired token", async () => {
+    const { getUserByAccessToken } = await import("@/lib/data/oauth");
+    mockGrantFindOne.mockReturnValue(selectLean({
+      _id: GRANT_ID,
+      userId: USER_ID,
+      scopes: ["read"],
+      accessTokenExpiresAt: new Date(Date.now() - 1000),
+      revokedAt: null,
+    }));
+
+    expect(await getUserByAccessToken("brvat_token")).toBeNull();
+    expect(mockGrantUpdateOne).not.toHaveBeenCalled();
+  });
+});
+
+describe("updateOAuthConnectionBudget", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("sets the limits on every grant the user gave the same client", async () => {
+    const { updateOAuthConnectionBudget } = await import("@/lib/data/oauth");
+    mockGrantFindOne.mockReturnValue(selectLean({ _id: GRANT_ID, clientId: "client-1" }));
+    mockGrantFindById.mockReturnValue(lean({ _id: GRANT_ID, clientId: "client-1", dailyBudget: 5 }));
+    const budget = { dailyBudget: 5, monthlyBudget: null, maxPerRequest: null };
+
+    const updated = await updateOAuthConnectionBudget(USER_ID.toString(), GRANT_ID.toString(), budget);
+
+    expect(mockGrantFindOne.mock.calls[0][0]).toMatchObject({ _id: GRANT_ID.toString(), revokedAt: null });
+    const [filter, update] = mockGrantUpdateMany.mock.calls[0];
+    expect(filter).toEqual({ userId: USER_ID, clientId: "client-1" });
+    expect(update).toEqual({ $set: budget });
+    expect(updated).toMatchObject({ dailyBudget: 5 });
+  });
+
+  it("returns null for a revoked or unknown grant", async () => {
+    const { updateOAuthConnectionBudget } = await import("@/lib/data/oauth");
+    mockGrantFindOne.mockReturnValue(selectLean(null));
+
+    const updated = await updateOAuthConnectionBudget(USER_ID.toString(), GRANT_ID.toString(), {
+      dailyBudget: 5,
+      monthlyBudget: null,
+      maxPerRequest: null,
+    });
+
+    expect(updated).toBeNull();
+    expect(mockGrantUpdateMany).not.toHaveBeenCalled();
+  });
+});
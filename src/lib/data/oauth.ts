@@ -0,0 +1,349 @@
+import { randomBytes, createHash, randomUUID } from "crypto";
+import { Types } from "mongoose";
+import type { OAuthTokens } from "@modelcontextprotocol/sdk/shared/auth.js";
+import {
+  OAuthClient,
+  OAuthClientDTO,
+  type OAuthClientRegistrationInput,
+} from "@/lib/models/oauth-client";
+import { OAuthAuthorizationCode } from "@/lib/models/oauth-authorization-code";
+import { OAuthGrant, OAuthGrantDTO } from "@/lib/models/oauth-grant";
+import type { ApiKeyBudgetInput } from "@/lib/models/api-key";
+import type { ApiKeyScope } from "@/lib/mcp/tool-registry";
+import { notifyCredentialMcpSessions, TOOLS_LIST_CHANGED_NOTIFICATION } from "@/lib/data/mcp-sessions";
+import { connectDB } from "@/lib/db";
+
+/** Prefix of OAuth access tokens, so the MCP route can tell them from API keys. */
+export const OAUTH_ACCESS_TOKEN_PREFIX = "brvat_";
+const OAUTH_REFRESH_TOKEN_PREFIX = "brvrt_";
+
+/** Access tokens are short-lived; clients refresh them. */
+export const OAUTH_ACCESS_TOKEN_TTL_SECONDS = 60 * 60;
+const OAUTH_REFRESH_TOKEN_TTL_DAYS = 30;
+const OAUTH_AUTHORIZATION_CODE_TTL_SECONDS = 10 * 60;
+
+/** Minimum time between last-used updates for the same grant. */
+const LAST_USED_THROTTLE_MS = 60_000;
+
+const PKCE_VERIFIER_RE = /^[A-Za-z0-9\-._~]{43,128}$/;
+
+function hashToken(raw: string): string {
+  return createHash("sha256").update(raw).digest("hex");
+}
+
+function generateToken(prefix: string): string {
+  return prefix + randomBytes(32).toString("hex");
+}
+
+/** Whether a PKCE code_verifier matches an S256 code_challenge (RFC 7636). */
+function verifyPkce(codeVerifier: string, codeChallenge: string): boolean {
+  if (!PKCE_VERIFIER_RE.test(codeVerifier)) return false;
+  const computed = createHash("sha256").update(codeVerifier).digest("base64url");
+  return computed === codeChallenge;
+}
+
+/** Result of a token request: new tokens, or why the grant was refused. */
+export type OAuthTokenResult =
+  | { status: "issued"; tokens: OAuthTokens }
+  | { status: "invalid_grant"; reason: string };
+
+/** The user and grant an OAuth access token authenticates as. */
+export interface OAuthIdentity {
+  userId: string;
+  grantId: string;
+  clientId: string;
+  scopes: ApiKeyScope[];
+  resource: string | null;
+}
+
+/** A grant shown in the dashboard, with the client's display name. */
+export type OAuthConnection = OAuthGrantDTO & { clientName: string | null };
+
+/**
+ * Register a public OAuth client (RFC 7591). Clients authenticate with PKCE
+ * instead of a secret, so none is issued.
+ */
+export async function registerOAuthClient(input: OAuthClientRegistrationInput): Promise<OAuthClientDTO> {
+  await connectDB();
+  const doc = await OAuthClient.create({
+    clientId: randomUUID(),
+    clientName: input.clientName,
+    clientUri: input.clientUri,
+    redirectUris: input.redirectUris,
+  });
+  return OAuthClientDTO.parse(doc.toObject());
+}
+
+/**
+ * Get a registered OAuth client by its client_id, or null if unknown.
+ */
+export async function getOAuthClient(clientId: string): Promise<OAuthClientDTO | null> {
+  await connectDB();
+  const doc = await OAuthClient.findOne({ clientId }).lean();
+  return doc ? OAuthClientDTO.parse(doc) : null;
+}
+
+/**
+ * Issue a single-use authorization code after the user approves a client.
+ * Returns the raw code; only its hash is stored.
+ */
+export async function createAuthorizationCode(
+  userId: string,
+  request: {
+    clientId: string;
+    redirectUri: string;
+    codeChallenge: string;
+    scopes: ApiKeyScope[];
+    resource: string | null;
+  },
+): Promise<string> {
+  await connectDB();
+  const code = randomBytes(32).toString("hex");
+  await OAuthAuthorizationCode.create({
+    codeHash: hashToken(code),
+    clientId: request.clientId,
+    userId: new Types.ObjectId(userId),
+    redirectUri: request.redirectUri,
+    codeChallenge: request.codeChallenge,
+    scopes: request.scopes,
+    resource: request.resource,
+    expiresAt: new Date(Date.now() + OAUTH_AUTHORIZATION_CODE_TTL_SECONDS * 1000),
+  });
+  return code;
+}
+
+/** Fresh access and refresh tokens with their hashes and expiries. */
+function generateTokenPair() {
+  const accessToken = generateToken(OAUTH_ACCESS_TOKEN_PREFIX);
+  const refreshToken = generateToken(OAUTH_REFRESH_TOKEN_PREFIX);
+  return {
+    accessToken,
+    refreshToken,
+    hashes: {
+      accessTokenHash: hashToken(accessToken),
+      accessTokenExpiresAt: new Date(Date.now() + OAUTH_ACCESS_TOKEN_TTL_SECONDS * 1000),
+      refreshTokenHash: hashToken(refreshToken),
+      refreshTokenExpiresAt: new Date(Date.now() + OAUTH_REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000),
+    },
+  };
+}
+
+function toTokens(accessToken: string, refreshToken: string, scopes: ApiKeyScope[]): OAuthTokens {
+  return {
+    access_token: accessToken,
+    token_type: "Bearer",
+    expires_in: OAUTH_ACCESS_TOKEN_TTL_SECONDS,
+    refresh_token: refreshToken,
+    scope: scopes.join(" "),
+  };
+}
+
+/**
+ * Exchange an authorization code for tokens (authorization_code grant).
+ * The code is consumed whether or not the exchange succeeds, so a stolen
+ * code cannot be retried with guessed verifiers.
+ */
+export async function exchangeAuthorizationCode(request: {
+  code: string;
+  clientId: string;
+  redirectUri: string;
+  codeVerifier: string;
+}): Promise<OAuthTokenResult> {
+  await connectDB();
+  const code = await OAuthAuthorizationCode.findOneAndDelete({ codeHash: hashToken(request.code) }).lean();
+  if (!code || code.expiresAt < new Date()) {
+    return { status: "invalid_grant", reason: "Authorization code is invalid or expired" };
+  }
+  if (code.clientId !== request.clientId) {
+    return { status: "invalid_grant", reason: "Authorization code was issued to another client" };
+  }
+  if (code.redirectUri !== request.redirectUri) {
+    return { status: "invalid_grant", reason: "redirect_uri does not match the authorization request" };
+  }
+  if (!verifyPkce(request.codeVerifier, code.codeChallenge)) {
+    return { status: "invalid_grant", reason: "code_verifier does not match the code_challenge" };
+  }
+
+  const { accessToken, refreshToken, hashes } = generateTokenPair();
+  // Re-authorizing a client keeps the spending limits the user set for it
+  const budget = await getOAuthClientBudget(code.userId.toString(), code.clientId);
+  await OAuthGrant.create({
+    userId: code.userId,
+    clientId: code.clientId,
+    scopes: code.scopes,
+    resource: code.resource,
+    ...budget,
+    ...hashes,
+  });
+
+  return { status: "issued", tokens: toTokens(accessToken, refreshToken, code.scopes) };
+}
+
+/**
+ * Rotate a grant's tokens (refresh_token grant). The presented refresh token
+ * stops working. `scopes`, if given, may only narrow the grant; the grant's
+ * stateful MCP sessions are then told to re-list tools.
+ */
+export async function refreshAccessToken(request: {
+  refreshToken: string;
+  clientId: string;
+  scopes?: ApiKeyScope[];
+}): Promise<OAuthTokenResult> {
+  await connectDB();
+  const grant = await OAuthGrant.findOne({ refreshTokenHash: hashToken(request.refreshToken) })
+    .select("clientId scopes refreshTokenExpiresAt revokedAt")
+    .lean();
+  if (!grant || grant.revokedAt || grant.refreshTokenExpiresAt < new Date()) {
+    return { status: "invalid_grant", reason: "Refresh token is invalid, expired, or revoked" };
+  }
+  if (grant.clientId !== request.clientId) {
+    return { status: "invalid_grant", reason: "Refresh token was issued to another client" };
+  }
+  const scopes = request.scopes ?? grant.scopes;
+  if (scopes.some((scope) => !grant.scopes.includes(scope))) {
+    return { status: "invalid_grant", reason: "Requested scope exceeds the original grant" };
+  }
+
+  const { accessToken, refreshToken, hashes } = generateTokenPair();
+  // Match on the old hash so two concurrent refreshes cannot both succeed
+  const updated = await OAuthGrant.findOneAndUpdate(
+    { _id: grant._id, refreshTokenHash: hashToken(request.refreshToken), revokedAt: null },
+    { $set: { ...hashes, scopes } },
+    { returnDocument: "after" },
+  ).lean();
+  if (!updated) {
+    return { status: "invalid_grant", reason: "Refresh token is invalid, expired, or revoked" };
+  }
+  if (scopes.length < grant.scopes.length) {
+    await notifyCredentialMcpSessions(`oauth:${grant._id.toString()}`, TOOLS_LIST_CHANGED_NOTIFICATION);
+  }
+
+  return { status: "issued", tokens: toTokens(accessToken, refreshToken, scopes) };
+}
+
+/**
+ * Look up the grant behind a raw OAuth access token, recording when it was
+ * last used. Returns null if the token is unknown, expired, or revoked.
+ */
+export async function getUserByAccessToken(rawToken: string): Promise<OAuthIdentity | null> {
+  await connectDB();
+  const grant = await OAuthGrant.findOne({ accessTokenHash: hashToken(rawToken) })
+    .select("_id userId clientId scopes resource accessTokenExpiresAt revokedAt")
+    .lean();
+  if (!grant || grant.revokedAt || grant.accessTokenExpiresAt < new Date()) {
+    return null;
+  }
+
+  // Throttled so busy agents don't write on every request
+  await OAuthGrant.updateOne(
+    {
+      _id: grant._id,
+      $or: [{ lastUsedAt: null }, { lastUsedAt: { $lt: new Date(Date.now() - LAST_USED_THROTTLE_MS) } }],
+    },
+    { $set: { lastUsedAt: new Date() } },
+  );
+
+  return {
+    userId: grant.userId.toString(),
+    grantId: grant._id.toString(),
+    clientId: grant.clientId,
+    scopes: grant.scopes,
+    resource: grant.resource ?? null,
+  };
+}
+
+/**
+ * Revoke the grant a token belongs to (RFC 7009). Either token type is
+ * accepted. Unknown tokens are ignored, as the RFC requires.
+ */
+export async function revokeOAuthToken(rawToken: string, clientId: string): Promise<void> {
+  await connectDB();
+  const hash = hashToken(rawToken);
+  await OAuthGrant.updateOne(
+    { clientId, revokedAt: null, $or: [{ accessTokenHash: hash }, { refreshTokenHash: hash }] },
+    { $set: { revokedAt: new Date() } },
+  );
+}
+
+/**
+ * Get the user's unrevoked OAuth grants, newest first, with client names.
+ */
+export async function getOAuthConnections(userId: string): Promise<OAuthConnection[]> {
+  await connectDB();
+  const grants = await OAuthGrant.find({ userId: new Types.ObjectId(userId), revokedAt: null })
+    .sort({ createdAt: -1 })
+    .lean();
+  if (grants.length === 0) return [];
+
+  const clients = await OAuthClient.find({ clientId: { $in: grants.map((g) => g.clientId) } })
+    .select("clientId clientName")
+    .lean();
+  const names = new Map(clients.map((c) => [c.clientId, c.clientName ?? null]));
+
+  return grants.map((grant) => ({
+    ...OAuthGrantDTO.parse(grant),
+    clientName: names.get(grant.clientId) ?? null,
+  }));
+}
+
+/**
+ * Disconnect an OAuth client from the dashboard. Its tokens stop working
+ * immediately. Returns null if the grant does not exist or is already revoked.
+ */
+export async function revokeOAuthConnection(userId: string, grantId: string): Promise<OAuthGrantDTO | null> {
+  await connectDB();
+  const doc = await OAuthGrant.findOneAndUpdate(
+    { _id: grantId, userId: new Types.ObjectId(userId), revokedAt: null },
+    { $set: { revokedAt: new Date() } },
+    { returnDocument: "after" },
+  ).lean();
+  return doc ? OAuthGrantDTO.parse(doc) : null;
+}
+
+/**
+ * Set the spending limits of the OAuth client behind an unrevoked grant.
+ * They apply on top of the account-wide budget, to every grant the user gave
+ * that client. Returns null if the grant does not exist or is revoked.
+ */
+export async function updateOAuthConnectionBudget(
+  userId: string,
+  grantId: string,
+  budget: ApiKeyBudgetInput,
+): Promise<OAuthGrantDTO | null> {
+  await connectDB();
+  const userObjectId = new Types.ObjectId(userId);
+  const grant = await OAuthGrant.findOne({ _id: grantId, userId: userObjectId, revokedAt: null })
+    .select("clientId")
+    .lean();
+  if (!grant) return null;
+
+  await OAuthGrant.updateMany(
+    { userId: userObjectId, clientId: grant.clientId },
+    {
+      $set: {
+        dailyBudget: budget.dailyBudget,
+        monthlyBudget: budget.monthlyBudget,
+        maxPerRequest: budget.maxPerRequest,
+      },
+    },
+  );
+  const updated = await OAuthGrant.findById(grant._id).lean();
+  return updated ? OAuthGrantDTO.parse(updated) : null;
+}
+
+/**
+ * Get the spending limits a user set for an OAuth client (USD, null = no
+ * limit), from their newest grant to it. Returns all nulls if there is none.
+ */
+export async function getOAuthClientBudget(userId: string, clientId: string): Promise<ApiKeyBudgetInput> {
+  await connectDB();
+  const grant = await OAuthGrant.findOne({ userId: new Types.ObjectId(userId), clientId })
+    .sort({ createdAt: -1 })
+    .select("dailyBudget monthlyBudget maxPerRequest")
+    .lean();
+  return {
+    dailyBudget: grant?.dailyBudget ?? null,
+    monthlyBudget: grant?.monthlyBudget ?? null,
+    maxPerRequest: grant?.maxPerRequest ?? null,
+  };
+}
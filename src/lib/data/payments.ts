@@ -6,6 +6,7 @@ import {
   type PendingPaymentFailInput,
 } from "@/lib/models/pending-payment";
 import { createTransaction } from "@/lib/data/transactions";
+import { notifyMcpSession } from "@/lib/data/mcp-sessions";
 import { getChainById, getDefaultChainConfig } from "@/lib/chain-config";
 import { formatAmountForDisplay } from "@/lib/x402/display";
 import { logger } from "@/lib/logger";
@@ -67,16 +68,48 @@ export async function getPendingPayment(paymentId: string, userId: string): Prom
 /**
  * Create a new pending payment record.
  * Store raw amount and asset from the 402 requirement; amount (number) is optional for legacy.
+ * With an idempotency key, returns the existing payment for that key instead
+ * of creating a duplicate.
  */
 export async function createPendingPayment(data: PendingPaymentCreateInput): Promise<PendingPaymentDTO> {
   await connectDB();
+  try {
+    return await insertPendingPayment(data);
+  } catch (err: unknown) {
+    const isDuplicateKeyError =
+      err &&
+      typeof err === "object" &&
+      "code" in err &&
+      (err as { code: number }).code === 11000;
+    if (!isDuplicateKeyError || !data.idempotencyKey) throw err;
+
+    const existing = await PendingPayment.findOne({
+      userId: new Types.ObjectId(data.userId),
+      idempotencyKey: data.idempotencyKey,
+    }).lean();
+    if (!existing) throw err;
+    return PendingPaymentDTO.parse(existing);
+  }
+}
+
+async function insertPendingPayment(data: PendingPaymentCreateInput): Promise<PendingPaymentDTO> {
   const doc = await PendingPayment.create({
     userId: new Types.ObjectId(data.userId),
+    ...(data.policyId && { policyId: new Types.ObjectId(data.policyId) }),
+    ...(data.apiKeyId && { apiKeyId: new Types.ObjectId(data.apiKeyId) }),
+    ...(data.oauthClientId && { oauthClientId: data.oauthClientId }),
     url: data.url,
     method: data.method ?? "GET",
     amount: data.amount ?? 0,
     ...(data.amountRaw !== undefined && data.amountRaw !== "" && { amountRaw: data.amountRaw }),
     ...(data.asset !== undefined && data.asset !== "" && { asset: data.asset }),
+    ...(data.reason && { reason: data.reason }),
+    ...(data.previousAmount !== undefined && { previousAmount: data.previousAmount }),
+    ...(data.idempotencyKey && { idempotencyKey: data.idempotencyKey }),
+    ...(data.mcpSessionId && { mcpSessionId: data.mcpSessionId }),
+    ...(data.purpose && { purpose: data.purpose }),
+    ...(data.taskId && { taskId: data.taskId }),
+    ...(data.tags && { tags: data.tags }),
     chainId: data.chainId,
     paymentRequirements: data.paymentRequirements,
     expiresAt: data.expiresAt,
@@ -86,6 +119,47 @@ export async function createPendingPayment(data: PendingPaymentCreateInput): Pro
   return PendingPaymentDTO.parse(doc.toObject());
 }
 
+const PAYMENT_STATUS_HINTS: Record<string, string> = {
+  approved: "The user approved the payment. It is being submitted.",
+  rejected: "The user rejected the payment.",
+  completed: "The payment completed. Use x402_get_result to fetch the response.",
+  failed: "The payment failed. Use x402_get_result for details.",
+  expired: "The payment expired before the user approved it.",
+};
+
+/**
+ * Queue a notification for the MCP session that created the payment, if it
+ * was created in a stateful session. A failure is logged rather than thrown:
+ * the status change has already been committed.
+ */
+async function notifyPaymentSession(payment: PendingPaymentDTO): Promise<PendingPaymentDTO> {
+  if (!payment.mcpSessionId) return payment;
+  try {
+    await notifyMcpSession(payment.mcpSessionId, {
+      method: "notifications/message",
+      params: {
+        level: "info",
+        logger: "brevet.payments",
+        data: {
+          type: "pending_payment_update",
+          paymentId: payment._id,
+          status: payment.status,
+          url: payment.url,
+          message: PAYMENT_STATUS_HINTS[payment.status] ?? `Payment status is now ${payment.status}.`,
+        },
+      },
+    });
+  } catch (error) {
+    logger.warn("Failed to queue MCP payment notification", {
+      paymentId: payment._id,
+      userId: payment.userId,
+      action: "mcp_notification_failed",
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+  return payment;
+}
+
 /**
  * Mark a pending payment as completed and store response data.
  * Only succeeds if the payment is currently "approved" (atomic precondition).
@@ -104,6 +178,9 @@ export async function completePendingPayment(
       $set: {
         status: "completed",
         responsePayload: data.responsePayload,
+        responseEncoding: data.responseEncoding ?? "utf8",
+        responseContentType: data.responseContentType ?? null,
+        responseBodyId: data.responseBodyId ? new Types.ObjectId(data.responseBodyId) : null,
         responseStatus: data.responseStatus,
         txHash: data.txHash ?? null,
         completedAt: new Date(),
@@ -111,7 +188,7 @@ export async function completePendingPayment(
     },
     { returnDocument: "after" },
   ).lean();
-  return doc ? PendingPaymentDTO.parse(doc) : null;
+  return doc ? notifyPaymentSession(PendingPaymentDTO.parse(doc)) : null;
 }
 
 /**
@@ -132,13 +209,16 @@ export async function failPendingPayment(
       $set: {
         status: "failed",
         responsePayload: data.responsePayload ?? data.error ?? null,
+        responseEncoding: data.responseEncoding ?? "utf8",
+        responseContentType: data.responseContentType ?? null,
+        responseBodyId: data.responseBodyId ? new Types.ObjectId(data.responseBodyId) : null,
         responseStatus: data.responseStatus ?? null,
         completedAt: new Date(),
       },
     },
     { returnDocument: "after" },
   ).lean();
-  return doc ? PendingPaymentDTO.parse(doc) : null;
+  return doc ? notifyPaymentSession(PendingPaymentDTO.parse(doc)) : null;
 }
 
 /**
@@ -154,7 +234,7 @@ export async function approvePendingPayment(paymentId: string, userId: string, s
     { $set: { status: "approved", signature } },
     { returnDocument: "after" },
   ).lean();
-  return doc ? PendingPaymentDTO.parse(doc) : null;
+  return doc ? notifyPaymentSession(PendingPaymentDTO.parse(doc)) : null;
 }
 
 /**
@@ -171,7 +251,7 @@ export async function rejectPendingPayment(paymentId: string, userId: string): P
     { $set: { status: "rejected" } },
     { returnDocument: "after" },
   ).lean();
-  return doc ? PendingPaymentDTO.parse(doc) : null;
+  return doc ? notifyPaymentSession(PendingPaymentDTO.parse(doc)) : null;
 }
 
 /**
@@ -189,7 +269,7 @@ async function expirePendingPayment(paymentId: string, userId: string): Promise<
     { $set: { status: "expired" } },
     { returnDocument: "after" },
   ).lean();
-  return doc ? PendingPaymentDTO.parse(doc) : null;
+  return doc ? notifyPaymentSession(PendingPaymentDTO.parse(doc)) : null;
 }
 
 /**
@@ -226,12 +306,31 @@ export async function expirePaymentWithAudit(
     chainId: chainIdForTx,
     status: "expired",
     userId: expired.userId,
+    apiKeyId: expired.apiKeyId,
+    oauthClientId: expired.oauthClientId,
     errorMessage,
+    purpose: expired.purpose,
+    taskId: expired.taskId,
+    tags: expired.tags,
   });
 
   return expired;
 }
 
+/**
+ * Expire a stateful MCP session's overdue pending payments, so the session is
+ * notified even if nobody opens the dashboard or calls x402_check_pending.
+ */
+export async function expireSessionPayments(sessionId: string): Promise<void> {
+  await connectDB();
+  const overdue = await PendingPayment.find({ mcpSessionId: sessionId, status: "pending", expiresAt: { $lte: new Date() } })
+    .select("_id userId")
+    .lean();
+  for (const payment of overdue) {
+    await expirePaymentWithAudit(payment._id.toString(), payment.userId.toString());
+  }
+}
+
 /**
  * Get the chainId of the most recent actionable (pending or expired) payment.
  * Used by auth-aware-providers to auto-switch to the chain with pending work.
@@ -3,12 +3,18 @@ import { Types } from "mongoose";
 
 vi.mock("@/lib/db", () => ({ connectDB: vi.fn(() => Promise.resolve()) }));
 
+const mockFind = vi.fn();
 const mockFindOne = vi.fn();
 const mockFindOneAndUpdate = vi.fn();
+const mockCreate = vi.fn();
+const mockUpdateMany = vi.fn();
 vi.mock("@/lib/models/endpoint-policy", () => ({
   EndpointPolicy: {
+    find: mockFind,
     findOne: mockFindOne,
     findOneAndUpdate: mockFindOneAndUpdate,
+    create: mockCreate,
+    updateMany: mockUpdateMany,
   },
   EndpointPolicyDTO: {
     parse: (doc: unknown) => doc,
@@ -68,3 +74,83 @@ describe("policies data layer — user scoping", () => {
     expect(filter.chainId).toBe(8453);
   });
 });
+
+describe("policies data layer — chain scope conflicts", () => {
+  const userId = "507f1f77bcf86cd799439012";
+
+  beforeEach(() => {
+    mockFind.mockReset();
+    mockFindOne.mockReset();
+    mockCreate.mockReset();
+    mockUpdateMany.mockReset();
+    mockCreate.mockImplementation((doc: Record<string, unknown>) =>
+      Promise.resolve({ toObject: () => ({ _id: new Types.ObjectId(), ...doc }) }),
+    );
+  });
+
+  it("createPolicy only treats multi-chain policies with overlapping chains as conflicts", async () => {
+    const { createPolicy } = await import("@/lib/data/policies");
+    mockFindOne.mockReturnValue({ lean: () => Promise.resolve(null) });
+
+    await createPolicy(userId, {
+      endpointPattern: "https://api.example.com",
+      chainId: null,
+      chainIds: [84532, 8453],
+      methods: [],
+    });
+
+    const filter = mockFindOne.mock.calls[0][0];
+    expect(filter.chainId).toBeNull();
+    expect(filter.chainIds).toEqual({ $in: [8453, 84532, null, []] });
+    expect(mockCreate).toHaveBeenCalledTimes(1);
+  });
+
+  it("createPolicy treats every multi-chain policy as a conflict for an all-chains policy", async () => {
+    const { createPolicy } = await import("@/lib/data/policies");
+    mockFindOne.mockReturnValue({ lean: () => Promise.resolve({ _id: new Types.ObjectId() }) });
+
+    const result = await createPolicy(userId, {
+      endpointPattern: "https://api.example.com",
+      chainId: null,
+      chainIds: [],
+      methods: [],
+    });
+
+    const filter = mockFindOne.mock.calls[0][0];
+    expect(filter.chainId).toBeNull();
+    expect(filter).not.toHaveProperty("chainIds");
+    expect(result).toBeNull();
+    expect(mockCreate).not.toHaveBeenCalled();
+  });
+
+  it("mergePerChainPolicies records the merged policies so their history still counts", async () => {
+    const { mergePerChainPolicies } = await import("@/lib/data/policies");
+    const base = {
+      userId: new Types.ObjectId(userId),
+      endpointPattern: "https://api.example.com",
+      methods: [],
+      autoSign: true,
+      status: "active",
+      maxPerDay: 10,
+    };
+    const perChain = [
+      { ...base, _id: new Types.ObjectId(), chainId: 84532 },
+      { ...base, _id: new Types.ObjectId(), chainId: 8453 },
+    ];
+    mockFind.mockReturnValue({ lean: () => Promise.resolve(perChain) });
+    mockFindOne.mockReturnValue({ lean: () => Promise.resolve(null) });
+    mockUpdateMany.mockResolvedValue({ modifiedCount: 2 });
+
+    const result = await mergePerChainPolicies(userId);
+
+    expect(mockFindOne.mock.calls[0][0].chainIds).toEqual({ $in: [8453, 84532, null, []] });
+    expect(mockCreate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        chainId: null,
+        chainIds: [8453, 84532],
+        mergedFrom: perChain.map((p) => p._id),
+      }),
+    );
+    expect(result.archived).toBe(2);
+  });
+});
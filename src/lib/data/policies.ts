@@ -6,9 +6,27 @@ import {
 } from "@/lib/models/endpoint-policy";
 import { Types } from "mongoose";
 import { connectDB } from "@/lib/db";
+import { isStructuredPattern, validateStructuredPattern } from "@/lib/endpoint-pattern";
+import { isChainSupported } from "@/lib/chain-config";
+
+/**
+ * Query fragment matching policies that apply to `chainId`: chain-specific
+ * policies for that chain, plus multi-chain policies whose chain set
+ * includes it or is empty (every enabled chain).
+ */
+export function chainScopeFilter(chainId: number) {
+  return {
+    $or: [
+      { chainId },
+      { chainId: null, chainIds: chainId },
+      { chainId: null, chainIds: { $size: 0 } },
+    ],
+  };
+}
 
 /**
  * Get endpoint policies for a user, optionally filtered by status and/or chainId.
+ * Filtering by chainId includes multi-chain policies that apply to that chain.
  */
 export async function getPolicies(userId: string, status?: string, options?: { chainId?: number }) {
   await connectDB();
@@ -17,7 +35,7 @@ export async function getPolicies(userId: string, status?: string, options?: { c
     filter.status = status;
   }
   if (options?.chainId !== undefined) {
-    filter.chainId = options.chainId;
+    Object.assign(filter, chainScopeFilter(options.chainId));
   }
   const docs = await EndpointPolicy.find(filter)
     .sort({ createdAt: -1 })
@@ -43,9 +61,14 @@ export async function getPolicy(policyId: string, userId: string) {
 
 /**
  * Validate that an endpoint pattern is a well-formed URL with at least scheme + host.
+ * Patterns using wildcard or path-parameter syntax are checked against the
+ * endpoint pattern language instead (see @/lib/endpoint-pattern).
  * Returns an error message if invalid, or null if valid.
  */
 export function validateEndpointPattern(pattern: string): string | null {
+  if (isStructuredPattern(pattern)) {
+    return validateStructuredPattern(pattern);
+  }
   try {
     const parsed = new URL(pattern);
     if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
@@ -61,8 +84,54 @@ export function validateEndpointPattern(pattern: string): string | null {
 }
 
 /**
- * Create a new endpoint policy. Returns null if a policy for this endpoint pattern already exists.
- * Throws if the endpoint pattern is not a valid URL with scheme + host.
+ * Validate a multi-chain policy's chain set. Returns an error message, or null if valid.
+ */
+function validateChainIds(chainIds: number[]): string | null {
+  const unsupported = chainIds.filter((id) => !isChainSupported(id));
+  return unsupported.length > 0 ? `Unsupported chain IDs: ${unsupported.join(", ")}` : null;
+}
+
+/** Lowercase and deduplicate pinned addresses so comparisons are case-insensitive. */
+function normalizeAddresses(addresses: string[]): string[] {
+  return [...new Set(addresses.map((a) => a.toLowerCase()))];
+}
+
+/** Deduplicate and sort a policy's HTTP methods so equal sets compare equal. */
+function normalizeMethods(methods: string[]): string[] {
+  return [...new Set(methods.map((m) => m.toUpperCase()))].sort();
+}
+
+/**
+ * Query fragment matching policies whose method set overlaps `methods`.
+ * An empty list means "every method" and only overlaps other every-method
+ * policies, mirroring the unique index on (userId, endpointPattern, chainId, methods).
+ * Documents created before method-aware policies have no `methods` field.
+ */
+export function methodOverlapFilter(methods: string[]) {
+  return methods.length > 0
+    ? { methods: { $in: methods } }
+    : { methods: { $in: [null, []] } };
+}
+
+/**
+ * Query fragment matching policies whose chain scope clashes with a policy's:
+ * the same chain for a chain-specific policy, or an overlapping chain set for
+ * a multi-chain one (an empty set covers every chain, so it overlaps any).
+ * Chain-specific and multi-chain policies never clash; the chain-specific one
+ * takes precedence when matching.
+ */
+function chainConflictFilter(chainId: number | null, chainIds: number[]) {
+  if (chainId !== null) return { chainId };
+  return chainIds.length > 0
+    ? { chainId: null, chainIds: { $in: [...chainIds, null, []] } }
+    : { chainId: null };
+}
+
+/**
+ * Create a new endpoint policy. Returns null if a policy for this endpoint
+ * pattern with an overlapping chain scope and set of HTTP methods already exists.
+ * Throws if the endpoint pattern is not a valid URL with scheme + host, or if
+ * the chain set is invalid.
  */
 export async function createPolicy(userId: string, data: EndpointPolicyCreateInput) {
   const patternError = validateEndpointPattern(data.endpointPattern);
@@ -70,13 +139,24 @@ export async function createPolicy(userId: string, data: EndpointPolicyCreateInp
     throw new Error(patternError);
   }
 
+  const chainIds = [...new Set(data.chainIds ?? [])].sort((a, b) => a - b);
+  if (data.chainId !== null && chainIds.length > 0) {
+    throw new Error("Chain-specific policies cannot also list chainIds");
+  }
+  const chainError = validateChainIds(chainIds);
+  if (chainError) {
+    throw new Error(chainError);
+  }
+
   await connectDB();
   const userObjectId = new Types.ObjectId(userId);
+  const methods = normalizeMethods(data.methods ?? []);
 
   const existing = await EndpointPolicy.findOne({
     userId: userObjectId,
     endpointPattern: data.endpointPattern,
-    chainId: data.chainId,
+    ...chainConflictFilter(data.chainId, chainIds),
+    ...methodOverlapFilter(methods),
   }).lean();
 
   if (existing) {
@@ -87,7 +167,18 @@ export async function createPolicy(userId: string, data: EndpointPolicyCreateInp
     userId: userObjectId,
     endpointPattern: data.endpointPattern,
     chainId: data.chainId,
+    chainIds,
+    methods,
     ...(data.autoSign !== undefined && { autoSign: data.autoSign }),
+    ...(data.maxPerRequest !== undefined && { maxPerRequest: data.maxPerRequest }),
+    ...(data.maxPerHour !== undefined && { maxPerHour: data.maxPerHour }),
+    ...(data.maxPerDay !== undefined && { maxPerDay: data.maxPerDay }),
+    ...(data.maxInChatApproval !== undefined && { maxInChatApproval: data.maxInChatApproval }),
+    ...(data.maxPriceIncreasePercent !== undefined && { maxPriceIncreasePercent: data.maxPriceIncreasePercent }),
+    ...(data.maxPriceIncreaseUsd !== undefined && { maxPriceIncreaseUsd: data.maxPriceIncreaseUsd }),
+    ...(data.priceIncreaseAction !== undefined && { priceIncreaseAction: data.priceIncreaseAction }),
+    ...(data.allowedPayTo !== undefined && { allowedPayTo: normalizeAddresses(data.allowedPayTo) }),
+    ...(data.allowedAssets !== undefined && { allowedAssets: normalizeAddresses(data.allowedAssets) }),
     ...(data.status !== undefined && { status: data.status }),
   });
   const lean = doc.toObject();
@@ -97,21 +188,47 @@ export async function createPolicy(userId: string, data: EndpointPolicyCreateInp
 /**
  * Update an endpoint policy. Returns the updated policy.
  * Only updates if the policy belongs to the given user.
- * Checks for endpointPattern conflicts if the pattern is being changed.
+ * Checks for conflicts if the pattern or HTTP methods are being changed.
+ * Throws if the new endpoint pattern or chain set is invalid, or if a chain
+ * set is given for a chain-specific policy.
  * Returns null if a conflict exists or the policy is not found for this user.
  */
 export async function updatePolicy(policyId: string, userId: string, data: EndpointPolicyUpdateInput) {
   await connectDB();
   const userObjectId = new Types.ObjectId(userId);
   const scopedFilter = { _id: policyId, userId: userObjectId };
+  const methods = data.methods !== undefined ? normalizeMethods(data.methods) : undefined;
+  const chainIds = data.chainIds !== undefined
+    ? [...new Set(data.chainIds)].sort((a, b) => a - b)
+    : undefined;
 
   if (data.endpointPattern !== undefined) {
+    const patternError = validateEndpointPattern(data.endpointPattern);
+    if (patternError) {
+      throw new Error(patternError);
+    }
+  }
+
+  if (chainIds !== undefined) {
+    const chainError = validateChainIds(chainIds);
+    if (chainError) {
+      throw new Error(chainError);
+    }
     const existing = await EndpointPolicy.findOne(scopedFilter).lean();
-    if (existing && data.endpointPattern !== existing.endpointPattern) {
+    if (existing && existing.chainId !== null) {
+      throw new Error("Only multi-chain policies have a chain set");
+    }
+  }
+
+  if (data.endpointPattern !== undefined || methods !== undefined || chainIds !== undefined) {
+    const existing = await EndpointPolicy.findOne(scopedFilter).lean();
+    if (existing) {
       const conflict = await EndpointPolicy.findOne({
+        _id: { $ne: existing._id },
         userId: userObjectId,
-        endpointPattern: data.endpointPattern,
-        chainId: existing.chainId,
+        endpointPattern: data.endpointPattern ?? existing.endpointPattern,
+        ...chainConflictFilter(existing.chainId, chainIds ?? existing.chainIds ?? []),
+        ...methodOverlapFilter(methods ?? existing.methods ?? []),
       }).lean();
       if (conflict) {
         return null;
@@ -121,7 +238,18 @@ export async function updatePolicy(policyId: string, userId: string, data: Endpo
 
   const updateData: Record<string, unknown> = {};
   if (data.endpointPattern !== undefined) updateData.endpointPattern = data.endpointPattern;
+  if (methods !== undefined) updateData.methods = methods;
+  if (chainIds !== undefined) updateData.chainIds = chainIds;
   if (data.autoSign !== undefined) updateData.autoSign = data.autoSign;
+  if (data.maxPerRequest !== undefined) updateData.maxPerRequest = data.maxPerRequest;
+  if (data.maxPerHour !== undefined) updateData.maxPerHour = data.maxPerHour;
+  if (data.maxPerDay !== undefined) updateData.maxPerDay = data.maxPerDay;
+  if (data.maxInChatApproval !== undefined) updateData.maxInChatApproval = data.maxInChatApproval;
+  if (data.maxPriceIncreasePercent !== undefined) updateData.maxPriceIncreasePercent = data.maxPriceIncreasePercent;
+  if (data.maxPriceIncreaseUsd !== undefined) updateData.maxPriceIncreaseUsd = data.maxPriceIncreaseUsd;
+  if (data.priceIncreaseAction !== undefined) updateData.priceIncreaseAction = data.priceIncreaseAction;
+  if (data.allowedPayTo !== undefined) updateData.allowedPayTo = normalizeAddresses(data.allowedPayTo);
+  if (data.allowedAssets !== undefined) updateData.allowedAssets = normalizeAddresses(data.allowedAssets);
   if (data.status !== undefined) updateData.status = data.status;
 
   const doc = await EndpointPolicy.findOneAndUpdate(
@@ -137,13 +265,30 @@ export async function updatePolicy(policyId: string, userId: string, data: Endpo
 
 /**
  * Activate a policy (set status to "active").
+ * With `pinFirstSeenPayTo`, the recipient captured when the draft was created
+ * becomes the policy's only allowed payTo address.
  * Requires userId for defense-in-depth ownership verification.
  */
-export async function activatePolicy(policyId: string, userId: string) {
+export async function activatePolicy(
+  policyId: string,
+  userId: string,
+  options?: { pinFirstSeenPayTo?: boolean },
+) {
   await connectDB();
+  const scopedFilter = { _id: policyId, userId: new Types.ObjectId(userId) };
+  const update: Record<string, unknown> = { status: "active" };
+
+  if (options?.pinFirstSeenPayTo) {
+    const existing = await EndpointPolicy.findOne(scopedFilter).lean();
+    if (!existing?.firstSeenPayTo) {
+      throw new Error("This policy has no recipient to pin");
+    }
+    update.allowedPayTo = [existing.firstSeenPayTo];
+  }
+
   const doc = await EndpointPolicy.findOneAndUpdate(
-    { _id: policyId, userId: new Types.ObjectId(userId) },
-    { $set: { status: "active" } },
+    scopedFilter,
+    { $set: update },
     { returnDocument: "after" },
   ).lean();
 
@@ -206,8 +351,9 @@ export async function unarchivePolicy(policyId: string, userId: string) {
 /**
  * Ensure an active auto-sign policy exists for the given URL's origin on the
  * specified chain. Atomic upsert: creates the policy if missing, activates and
- * enables autoSign if it already exists (even as draft/archived).
- * Safe with the unique index on (userId, endpointPattern, chainId).
+ * enables autoSign if it already exists (even as draft/archived). Targets the
+ * policy covering every HTTP method, leaving method-specific policies alone.
+ * Safe with the unique index on (userId, endpointPattern, chainId, methods).
  */
 export async function ensureAutoSignPolicy(userId: string, url: string, chainId: number) {
   const origin = new URL(url).origin;
@@ -220,7 +366,7 @@ export async function ensureAutoSignPolicy(userId: string, url: string, chainId:
   const userObjectId = new Types.ObjectId(userId);
 
   const doc = await EndpointPolicy.findOneAndUpdate(
-    { userId: userObjectId, endpointPattern: origin, chainId },
+    { userId: userObjectId, endpointPattern: origin, chainId, ...methodOverlapFilter([]) },
     {
       $set: { autoSign: true, status: "active", archivedAt: null },
       $setOnInsert: { endpointPattern: origin, userId: userObjectId, chainId },
@@ -230,3 +376,112 @@ export async function ensureAutoSignPolicy(userId: string, url: string, chainId:
 
   return EndpointPolicyDTO.parse(doc);
 }
+
+/** Settings that must be identical for per-chain policies to be merged. */
+function mergeKey(policy: {
+  endpointPattern: string;
+  methods?: string[] | null;
+  autoSign: boolean;
+  status: string;
+  maxPerRequest?: number | null;
+  maxPerHour?: number | null;
+  maxPerDay?: number | null;
+  maxInChatApproval?: number | null;
+  maxPriceIncreasePercent?: number | null;
+  maxPriceIncreaseUsd?: number | null;
+  priceIncreaseAction?: string | null;
+  allowedPayTo?: string[] | null;
+  allowedAssets?: string[] | null;
+}): string {
+  return JSON.stringify([
+    policy.endpointPattern,
+    normalizeMethods(policy.methods ?? []),
+    policy.autoSign,
+    policy.status,
+    policy.maxPerRequest ?? null,
+    policy.maxPerHour ?? null,
+    policy.maxPerDay ?? null,
+    policy.maxInChatApproval ?? null,
+    policy.maxPriceIncreasePercent ?? null,
+    policy.maxPriceIncreaseUsd ?? null,
+    policy.priceIncreaseAction ?? "manual_approval",
+    [...(policy.allowedPayTo ?? [])].sort(),
+    [...(policy.allowedAssets ?? [])].sort(),
+  ]);
+}
+
+/**
+ * Migrate a user's per-chain policies to multi-chain policies.
+ * Non-archived chain-specific policies with identical settings (pattern,
+ * methods, auto-sign, status, spending caps, in-chat approval tier,
+ * price-increase limits and pinned recipients/assets) on two or more chains are replaced by a single
+ * policy scoped to those chains; the originals are archived so their
+ * transaction history is kept. Groups that would conflict with an existing
+ * multi-chain policy are left untouched.
+ *
+ * The merged policy lists the originals in `mergedFrom`, so their recent
+ * spend still counts toward its hourly and daily caps and their last accepted
+ * prices toward its price-increase checks.
+ */
+export async function mergePerChainPolicies(userId: string) {
+  await connectDB();
+  const userObjectId = new Types.ObjectId(userId);
+
+  const policies = await EndpointPolicy.find({
+    userId: userObjectId,
+    chainId: { $ne: null },
+    status: { $ne: "archived" },
+  }).lean();
+
+  const groups = new Map<string, typeof policies>();
+  for (const policy of policies) {
+    const key = mergeKey(policy);
+    groups.set(key, [...(groups.get(key) ?? []), policy]);
+  }
+
+  const merged: ReturnType<typeof EndpointPolicyDTO.parse>[] = [];
+  let archived = 0;
+  for (const group of groups.values()) {
+    if (group.length < 2) continue;
+    const [first] = group;
+    const methods = normalizeMethods(first.methods ?? []);
+    const chainIds = group.map((p) => p.chainId as number).sort((a, b) => a - b);
+
+    const conflict = await EndpointPolicy.findOne({
+      userId: userObjectId,
+      endpointPattern: first.endpointPattern,
+      ...chainConflictFilter(null, chainIds),
+      ...methodOverlapFilter(methods),
+    }).lean();
+    if (conflict) continue;
+
+    const doc = await EndpointPolicy.create({
+      userId: userObjectId,
+      endpointPattern: first.endpointPattern,
+      chainId: null,
+      chainIds,
+      mergedFrom: group.map((p) => p._id),
+      methods,
+      autoSign: first.autoSign,
+      maxPerRequest: first.maxPerRequest ?? null,
+      maxPerHour: first.maxPerHour ?? null,
+      maxPerDay: first.maxPerDay ?? null,
+      maxInChatApproval: first.maxInChatApproval ?? null,
+      maxPriceIncreasePercent: first.maxPriceIncreasePercent ?? null,
+      maxPriceIncreaseUsd: first.maxPriceIncreaseUsd ?? null,
+      priceIncreaseAction: first.priceIncreaseAction ?? "manual_approval",
+      allowedPayTo: first.allowedPayTo ?? [],
+      allowedAssets: first.allowedAssets ?? [],
+      status: first.status,
+    });
+    merged.push(EndpointPolicyDTO.parse(doc.toObject()));
+
+    const result = await EndpointPolicy.updateMany(
+      { _id: { $in: group.map((p) => p._id) }, userId: userObjectId },
+      { $set: { status: "archived", archivedAt: new Date() } },
+    );
+    archived += result.modifiedCount;
+  }
+
+  return { merged, archived };
+}
@@ -0,0 +1,113 @@
+import mongoose, { Types } from "mongoose";
+import { connectDB } from "@/lib/db";
+import { logger } from "@/lib/logger";
+import {
+  getResponseBudget,
+  RESPONSE_ENCODINGS,
+  type ResponseBody,
+  type ResponseEncoding,
+} from "@/lib/x402/response-body";
+
+const BUCKET_NAME = "responsebodies";
+
+interface ResponseBodyMetadata {
+  userId: Types.ObjectId;
+  encoding: ResponseEncoding;
+  contentType: string | null;
+}
+
+/** How a response body is kept on a transaction or pending payment. */
+export interface StoredResponseFields {
+  responsePayload: string | null;
+  responseEncoding?: ResponseEncoding;
+  responseContentType?: string | null;
+  /** Set when the full body lives in GridFS and `responsePayload` is only a preview. */
+  responseBodyId?: string;
+}
+
+async function getBucket() {
+  await connectDB();
+  const db = mongoose.connection.db;
+  if (!db) throw new Error("Database connection is not ready");
+  return new mongoose.mongo.GridFSBucket(db, { bucketName: BUCKET_NAME });
+}
+
+/**
+ * Save a response body to GridFS, which has no document size limit, and
+ * return its ID. Binary bodies are stored as their decoded bytes.
+ */
+export async function storeResponseBody(userId: string, body: ResponseBody): Promise<string> {
+  const bucket = await getBucket();
+  const metadata: ResponseBodyMetadata = {
+    userId: new Types.ObjectId(userId),
+    encoding: body.encoding,
+    contentType: body.contentType,
+  };
+  const upload = bucket.openUploadStream("response", { metadata });
+  const bytes = Buffer.from(body.payload, body.encoding === "base64" ? "base64" : "utf8");
+  await new Promise<void>((resolve, reject) => {
+    upload.once("finish", () => resolve());
+    upload.once("error", reject);
+    upload.end(bytes);
+  });
+  return upload.id.toString();
+}
+
+/**
+ * Load a stored response body, scoped to its owner. Returns null if it does
+ * not exist, belongs to someone else, or the ID is malformed.
+ */
+export async function getStoredResponseBody(bodyId: string, userId: string): Promise<ResponseBody | null> {
+  if (!Types.ObjectId.isValid(bodyId)) return null;
+  const bucket = await getBucket();
+  const [file] = await bucket
+    .find({ _id: new Types.ObjectId(bodyId), "metadata.userId": new Types.ObjectId(userId) })
+    .limit(1)
+    .toArray();
+  if (!file) return null;
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of bucket.openDownloadStream(file._id)) {
+    chunks.push(chunk as Buffer);
+  }
+  const bytes = Buffer.concat(chunks);
+  const metadata = file.metadata as ResponseBodyMetadata;
+  const encoding = RESPONSE_ENCODINGS.includes(metadata.encoding) ? metadata.encoding : "utf8";
+  return {
+    payload: bytes.toString(encoding === "base64" ? "base64" : "utf8"),
+    encoding,
+    contentType: metadata.contentType ?? null,
+  };
+}
+
+/**
+ * Decide how to keep a paid response body. Bodies within the response budget
+ * stay inline on the document. Larger ones go to GridFS; the document keeps a
+ * text preview (nothing for binary bodies) and the GridFS ID.
+ */
+export async function prepareResponseForStorage(
+  userId: string,
+  body: ResponseBody | null,
+): Promise<StoredResponseFields> {
+  if (!body) return { responsePayload: null };
+  const fields = { responseEncoding: body.encoding, responseContentType: body.contentType };
+  const budget = getResponseBudget();
+  if (body.payload.length <= budget) {
+    return { responsePayload: body.payload, ...fields };
+  }
+
+  const preview = body.encoding === "utf8" ? body.payload.slice(0, budget) : null;
+  try {
+    const responseBodyId = await storeResponseBody(userId, body);
+    return { responsePayload: preview, ...fields, responseBodyId };
+  } catch (error) {
+    // The payment already happened, so keep what fits rather than failing it
+    logger.error("Failed to store large response body", {
+      userId,
+      action: "response_body_store_failed",
+      size: body.payload.length,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return { responsePayload: preview, ...fields };
+  }
+}
@@ -0,0 +1,59 @@
+import { Types } from "mongoose";
+import { connectDB } from "@/lib/db";
+import { SpendReservation } from "@/lib/models/spend-reservation";
+
+/**
+ * How long a reservation holds its amount. Covers signing and the paid
+ * request; a payment that takes longer is recorded as a transaction anyway.
+ */
+const RESERVATION_TTL_MS = 10 * 60 * 1000;
+
+/** The limits a payment counts toward, identified by their owners. */
+export interface SpendReservationScope {
+  userId: string;
+  policyId?: string;
+  apiKeyId?: string;
+  oauthClientId?: string;
+}
+
+/** Hold `amount` USD against the limits in `scope`. Returns the reservation ID. */
+export async function createSpendReservation(scope: SpendReservationScope, amount: number): Promise<string> {
+  await connectDB();
+  const doc = await SpendReservation.create({
+    userId: new Types.ObjectId(scope.userId),
+    policyId: scope.policyId ? new Types.ObjectId(scope.policyId) : null,
+    apiKeyId: scope.apiKeyId ? new Types.ObjectId(scope.apiKeyId) : null,
+    oauthClientId: scope.oauthClientId ?? null,
+    amount,
+    expiresAt: new Date(Date.now() + RESERVATION_TTL_MS),
+  });
+  return doc._id.toString();
+}
+
+export async function deleteSpendReservation(reservationId: string): Promise<void> {
+  await connectDB();
+  await SpendReservation.deleteOne({ _id: new Types.ObjectId(reservationId) });
+}
+
+/**
+ * Sum the USD amount held by live reservations matching every field of
+ * `match` (e.g. one policy, or one user's OAuth client), other than
+ * `excludeId` (the caller's own).
+ */
+export async function getReservedSpend(
+  match: Partial<SpendReservationScope>,
+  excludeId?: string,
+): Promise<number> {
+  await connectDB();
+  const filter: Record<string, unknown> = { expiresAt: { $gt: new Date() } };
+  if (match.userId) filter.userId = new Types.ObjectId(match.userId);
+  if (match.policyId) filter.policyId = new Types.ObjectId(match.policyId);
+  if (match.apiKeyId) filter.apiKeyId = new Types.ObjectId(match.apiKeyId);
+  if (match.oauthClientId) filter.oauthClientId = match.oauthClientId;
+  if (excludeId) filter._id = { $ne: new Types.ObjectId(excludeId) };
+  const [result] = await SpendReservation.aggregate<{ total: number }>([
+    { $match: filter },
+    { $group: { _id: null, total: { $sum: "$amount" } } },
+  ]);
+  return result?.total ?? 0;
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Types } from "mongoose";
+
+vi.mock("@/lib/db", () => ({ connectDB: vi.fn(() => Promise.resolve()) }));
+
+const mockFindOneAndUpdate = vi.fn();
+const mockFindOne = vi.fn();
+vi.mock("@/lib/models/spending-grant", () => ({
+  SpendingGrant: {
+    findOneAndUpdate: mockFindOneAndUpdate,
+    findOne: mockFindOne,
+  },
+  SpendingGrantDTO: { parse: (doc: unknown) => doc },
+}));
+
+const USER_ID = new Types.ObjectId().toString();
+const API_KEY_ID = new Types.ObjectId().toString();
+const GRANT_ID = new Types.ObjectId().toString();
+
+function lean(result: unknown) {
+  return { lean: () => Promise.resolve(result) };
+}
+
+function grant(overrides: Record<string, unknown> = {}) {
+  return {
+    _id: GRANT_ID,
+    status: "active",
+    amountUsd: 3,
+    spentUsd: 2.9,
+    expiresAt: new Date(Date.now() + 60_000).toISOString(),
+    ...overrides,
+  };
+}
+
+describe("reserveSpendingGrant", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("atomically takes the amount from an active grant of the calling key", async () => {
+    const { reserveSpendingGrant } = await import("@/lib/data/spending-grants");
+    mockFindOneAndUpdate.mockReturnValue(lean(grant({ spentUsd: 1 })));
+
+    const result = await reserveSpendingGrant(GRANT_ID, USER_ID, API_KEY_ID, 0.5);
+
+    expect(result.status).toBe("available");
+    const [filter, update] = mockFindOneAndUpdate.mock.calls[0];
+    expect(filter).toMatchObject({ status: "active", apiKeyId: new Types.ObjectId(API_KEY_ID) });
+    expect(filter.$expr).toEqual({ $lte: [{ $add: ["$spentUsd", 0.5] }, "$amountUsd"] });
+    expect(update).toEqual({ $inc: { spentUsd: 0.5 } });
+  });
+
+  it("explains that the grant has too little left", async () => {
+    const { reserveSpendingGrant } = await import("@/lib/data/spending-grants");
+    mockFindOneAndUpdate.mockReturnValue(lean(null));
+    mockFindOne.mockReturnValue(lean(grant()));
+
+    const result = await reserveSpendingGrant(GRANT_ID, USER_ID, API_KEY_ID, 0.5);
+
+    expect(result).toEqual({
+      status: "unavailable",
+      reason: "Payment of $0.5 exceeds the grant's remaining $0.1",
+    });
+  });
+
+  it("explains that the grant still awaits approval", async () => {
+    const { reserveSpendingGrant } = await import("@/lib/data/spending-grants");
+    mockFindOneAndUpdate.mockReturnValue(lean(null));
+    mockFindOne.mockReturnValue(lean(grant({ status: "pending", spentUsd: 0 })));
+
+    const result = await reserveSpendingGrant(GRANT_ID, USER_ID, undefined, 0.5);
+
+    expect(result.status === "unavailable" && result.reason).toContain("awaiting the user's approval");
+    expect(mockFindOne.mock.calls[0][0]).toMatchObject({ apiKeyId: null });
+  });
+
+  it("treats a malformed grant ID as not found without querying", async () => {
+    const { reserveSpendingGrant } = await import("@/lib/data/spending-grants");
+
+    const result = await reserveSpendingGrant("not-an-id", USER_ID, API_KEY_ID, 0.5);
+
+    expect(result).toEqual({ status: "unavailable", reason: "Spending grant not found" });
+    expect(mockFindOneAndUpdate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,209 @@
+import { Types } from "mongoose";
+import {
+  SpendingGrant,
+  SpendingGrantDTO,
+  type SpendingGrantCreateInput,
+} from "@/lib/models/spending-grant";
+import { formatUsd } from "@/lib/x402/display";
+import { connectDB } from "@/lib/db";
+
+/** How long the user has to approve a grant request. */
+const SPENDING_GRANT_APPROVAL_WINDOW_MINUTES = 30;
+
+/** Whether a grant can pay for a payment, and why not if it can't. */
+export type SpendingGrantCheck =
+  | { status: "available"; grant: SpendingGrantDTO }
+  | { status: "unavailable"; reason: string };
+
+type GrantFilterFields = { _id: Types.ObjectId; userId: Types.ObjectId; apiKeyId?: Types.ObjectId | null };
+
+/**
+ * Filter for a grant the caller may spend. Grants requested with an API key
+ * are only usable by that key; an invalid ID matches nothing.
+ */
+function spendableGrantFilter(grantId: string, userId: string, apiKeyId: string | undefined): GrantFilterFields | null {
+  if (!Types.ObjectId.isValid(grantId)) return null;
+  return {
+    _id: new Types.ObjectId(grantId),
+    userId: new Types.ObjectId(userId),
+    apiKeyId: apiKeyId ? new Types.ObjectId(apiKeyId) : null,
+  };
+}
+
+/** Explain why a grant cannot cover a payment of `amountUsd`. */
+function unavailableReason(grant: SpendingGrantDTO | null, amountUsd: number): string {
+  if (!grant) return "Spending grant not found";
+  const expired = new Date(grant.expiresAt) <= new Date();
+  switch (grant.status) {
+    case "pending":
+      return expired
+        ? "Spending grant request expired before the user approved it"
+        : "Spending grant is still awaiting the user's approval in the dashboard";
+    case "rejected":
+      return "Spending grant was rejected by the user";
+    case "revoked":
+      return "Spending grant was revoked by the user";
+  }
+  if (expired) return `Spending grant expired at ${grant.expiresAt}`;
+  const remaining = Math.max(0, grant.amountUsd - grant.spentUsd);
+  return `Payment of ${formatUsd(amountUsd)} exceeds the grant's remaining ${formatUsd(remaining)}`;
+}
+
+/**
+ * Record an agent's request for a grant. It stays pending until the user
+ * approves it, and lapses if they don't within the approval window.
+ */
+export async function createSpendingGrant(data: SpendingGrantCreateInput): Promise<SpendingGrantDTO> {
+  await connectDB();
+  const doc = await SpendingGrant.create({
+    userId: new Types.ObjectId(data.userId),
+    ...(data.apiKeyId && { apiKeyId: new Types.ObjectId(data.apiKeyId) }),
+    purpose: data.purpose,
+    amountUsd: data.amountUsd,
+    durationSeconds: data.durationSeconds,
+    expiresAt: new Date(Date.now() + SPENDING_GRANT_APPROVAL_WINDOW_MINUTES * 60 * 1000),
+  });
+  return SpendingGrantDTO.parse(doc.toObject());
+}
+
+/**
+ * Get the user's grants that still matter: pending requests awaiting
+ * approval and active grants that have not expired, newest first.
+ */
+export async function getSpendingGrants(userId: string): Promise<SpendingGrantDTO[]> {
+  await connectDB();
+  const docs = await SpendingGrant.find({
+    userId: new Types.ObjectId(userId),
+    status: { $in: ["pending", "active"] },
+    expiresAt: { $gt: new Date() },
+  })
+    .sort({ createdAt: -1 })
+    .lean();
+  return docs.map((doc) => SpendingGrantDTO.parse(doc));
+}
+
+/**
+ * Find a single grant by ID, scoped to the given user.
+ */
+export async function getSpendingGrant(grantId: string, userId: string): Promise<SpendingGrantDTO | null> {
+  if (!Types.ObjectId.isValid(grantId)) return null;
+  await connectDB();
+  const doc = await SpendingGrant.findOne({ _id: grantId, userId: new Types.ObjectId(userId) }).lean();
+  return doc ? SpendingGrantDTO.parse(doc) : null;
+}
+
+/**
+ * Activate a pending grant after the user signed it. The grant's duration
+ * starts now. Returns null if the grant is not pending or its request
+ * has lapsed.
+ */
+export async function approveSpendingGrant(
+  grantId: string,
+  userId: string,
+  signature: string,
+): Promise<SpendingGrantDTO | null> {
+  const grant = await getSpendingGrant(grantId, userId);
+  if (!grant || grant.status !== "pending") return null;
+
+  const now = new Date();
+  const doc = await SpendingGrant.findOneAndUpdate(
+    { _id: grantId, userId: new Types.ObjectId(userId), status: "pending", expiresAt: { $gt: now } },
+    {
+      $set: {
+        status: "active",
+        signature,
+        approvedAt: now,
+        expiresAt: new Date(now.getTime() + grant.durationSeconds * 1000),
+      },
+    },
+    { returnDocument: "after" },
+  ).lean();
+  return doc ? SpendingGrantDTO.parse(doc) : null;
+}
+
+/**
+ * Reject a pending grant request. Returns null if it is no longer pending.
+ */
+export async function rejectSpendingGrant(grantId: string, userId: string): Promise<SpendingGrantDTO | null> {
+  await connectDB();
+  const doc = await SpendingGrant.findOneAndUpdate(
+    { _id: grantId, userId: new Types.ObjectId(userId), status: "pending" },
+    { $set: { status: "rejected" } },
+    { returnDocument: "after" },
+  ).lean();
+  return doc ? SpendingGrantDTO.parse(doc) : null;
+}
+
+/**
+ * End an active grant early; later payments naming it need approval again.
+ * Returns null if it is not active.
+ */
+export async function revokeSpendingGrant(grantId: string, userId: string): Promise<SpendingGrantDTO | null> {
+  await connectDB();
+  const doc = await SpendingGrant.findOneAndUpdate(
+    { _id: grantId, userId: new Types.ObjectId(userId), status: "active" },
+    { $set: { status: "revoked" } },
+    { returnDocument: "after" },
+  ).lean();
+  return doc ? SpendingGrantDTO.parse(doc) : null;
+}
+
+/**
+ * Check, without spending anything, whether a grant could cover a payment.
+ * Used by quotes.
+ */
+export async function checkSpendingGrant(
+  grantId: string,
+  userId: string,
+  apiKeyId: string | undefined,
+  amountUsd: number,
+): Promise<SpendingGrantCheck> {
+  await connectDB();
+  const filter = spendableGrantFilter(grantId, userId, apiKeyId);
+  const doc = filter ? await SpendingGrant.findOne(filter).lean() : null;
+  const grant = doc ? SpendingGrantDTO.parse(doc) : null;
+  const usable =
+    grant?.status === "active" &&
+    new Date(grant.expiresAt) > new Date() &&
+    grant.spentUsd + amountUsd <= grant.amountUsd;
+  return usable ? { status: "available", grant } : { status: "unavailable", reason: unavailableReason(grant, amountUsd) };
+}
+
+/**
+ * Atomically take `amountUsd` from an active grant's remaining amount, so
+ * concurrent payments cannot overspend it. Release the amount again with
+ * releaseSpendingGrant if the payment is not made.
+ */
+export async function reserveSpendingGrant(
+  grantId: string,
+  userId: string,
+  apiKeyId: string | undefined,
+  amountUsd: number,
+): Promise<SpendingGrantCheck> {
+  await connectDB();
+  const filter = spendableGrantFilter(grantId, userId, apiKeyId);
+  if (!filter) return { status: "unavailable", reason: unavailableReason(null, amountUsd) };
+
+  const doc = await SpendingGrant.findOneAndUpdate(
+    {
+      ...filter,
+      status: "active",
+      expiresAt: { $gt: new Date() },
+      $expr: { $lte: [{ $add: ["$spentUsd", amountUsd] }, "$amountUsd"] },
+    },
+    { $inc: { spentUsd: amountUsd } },
+    { returnDocument: "after" },
+  ).lean();
+  if (doc) return { status: "available", grant: SpendingGrantDTO.parse(doc) };
+
+  const current = await SpendingGrant.findOne(filter).lean();
+  return { status: "unavailable", reason: unavailableReason(current ? SpendingGrantDTO.parse(current) : null, amountUsd) };
+}
+
+/**
+ * Return a reserved amount to a grant after a payment that was not made.
+ */
+export async function releaseSpendingGrant(grantId: string, amountUsd: number): Promise<void> {
+  await connectDB();
+  await SpendingGrant.updateOne({ _id: grantId }, { $inc: { spentUsd: -amountUsd } });
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Types } from "mongoose";
+
+vi.mock("@/lib/db", () => ({ connectDB: vi.fn(() => Promise.resolve()) }));
+
+const mockFind = vi.fn();
+const mockAggregate = vi.fn();
+vi.mock("@/lib/models/transaction", () => ({
+  Transaction: { find: mockFind, aggregate: mockAggregate },
+  TransactionDTO: { parse: (doc: unknown) => doc },
+}));
+
+const USER_ID = new Types.ObjectId().toString();
+
+function query(result: unknown[]) {
+  const chain = {
+    sort: () => chain,
+    limit: () => chain,
+    lean: () => Promise.resolve(result),
+  };
+  return chain;
+}
+
+describe("getSpendingHistory", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockFind.mockReturnValue(query([]));
+  });
+
+  it("filters by task ID and a normalized tag", async () => {
+    const { getSpendingHistory } = await import("@/lib/data/transactions");
+
+    await getSpendingHistory(USER_ID, { tag: "  Research ", taskId: "task-42" });
+
+    expect(mockFind.mock.calls[0][0]).toEqual({
+      userId: new Types.ObjectId(USER_ID),
+      tags: "research",
+      taskId: "task-42",
+    });
+  });
+
+  it("leaves metadata out of the filter when not asked for", async () => {
+    const { getSpendingHistory } = await import("@/lib/data/transactions");
+
+    await getSpendingHistory(USER_ID, { tag: "", chainId: 8453 });
+
+    expect(mockFind.mock.calls[0][0]).toEqual({
+      userId: new Types.ObjectId(USER_ID),
+      chainId: 8453,
+    });
+  });
+});
+
+describe("getUserSpendSince", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockAggregate.mockResolvedValue([{ total: 3.5 }]);
+  });
+
+  it("counts payments that settled on-chain even if the paid request then failed", async () => {
+    const { getUserSpendSince } = await import("@/lib/data/transactions");
+    const since = new Date("2026-01-01T00:00:00Z");
+
+    expect(await getUserSpendSince(USER_ID, since)).toBe(3.5);
+
+    // A "failed" transaction with a txHash (the server returned non-ok after
+    // settlement) matches the second branch, so it counts toward budgets
+    const [{ $match: match }] = mockAggregate.mock.calls[0][0];
+    expect(match).toEqual({
+      userId: new Types.ObjectId(USER_ID),
+      createdAt: { $gte: since },
+      type: "payment",
+      $or: [{ status: "completed" }, { txHash: { $ne: null } }],
+    });
+  });
+});
@@ -1,6 +1,7 @@
 import { Transaction, TransactionDTO, type TransactionCreateInput } from "@/lib/models/transaction";
 import { Types } from "mongoose";
 import { connectDB } from "@/lib/db";
+import { normalizeTag } from "@/lib/payment-metadata";
 
 /**
  * Get recent transactions for a user, limited to a specified count.
@@ -18,12 +19,29 @@ export async function getRecentTransactions(userId: string, limit: number = 5, o
   return docs.map((doc) => TransactionDTO.parse(doc));
 }
 
+/** Filters on the payment metadata agents pass to x402_pay. */
+export interface TransactionMetadataFilter {
+  /** Only transactions carrying this tag. */
+  tag?: string;
+  /** Only transactions made for this task. */
+  taskId?: string;
+}
+
+function applyMetadataFilter(filter: Record<string, unknown>, options?: TransactionMetadataFilter): void {
+  if (options?.tag) {
+    filter.tags = normalizeTag(options.tag);
+  }
+  if (options?.taskId) {
+    filter.taskId = options.taskId;
+  }
+}
+
 /**
- * Get transactions for a user with optional date range filtering.
+ * Get transactions for a user with optional date range, tag and task filtering.
  */
 export async function getTransactions(
   userId: string,
-  options?: { since?: Date; until?: Date; chainId?: number },
+  options?: { since?: Date; until?: Date; chainId?: number } & TransactionMetadataFilter,
 ): Promise<TransactionDTO[]> {
   await connectDB();
   const filter: Record<string, unknown> = { userId: new Types.ObjectId(userId) };
@@ -38,6 +56,7 @@ export async function getTransactions(
   if (options?.chainId !== undefined) {
     filter.chainId = options.chainId;
   }
+  applyMetadataFilter(filter, options);
 
   const docs = await Transaction.find(filter)
     .sort({ createdAt: -1 })
@@ -46,11 +65,12 @@ export async function getTransactions(
 }
 
 /**
- * Get spending history for MCP tools (optionally filtered by date, limited to 100).
+ * Get spending history for MCP tools (optionally filtered by date, chain, tag
+ * or task, limited to 100).
  */
 export async function getSpendingHistory(
   userId: string,
-  options?: { since?: Date; chainId?: number },
+  options?: { since?: Date; chainId?: number } & TransactionMetadataFilter,
 ): Promise<TransactionDTO[]> {
   await connectDB();
   const filter: Record<string, unknown> = { userId: new Types.ObjectId(userId) };
@@ -60,6 +80,7 @@ export async function getSpendingHistory(
   if (options?.chainId !== undefined) {
     filter.chainId = options.chainId;
   }
+  applyMetadataFilter(filter, options);
 
   const docs = await Transaction.find(filter)
     .sort({ createdAt: -1 })
@@ -68,6 +89,107 @@ export async function getSpendingHistory(
   return docs.map((doc) => TransactionDTO.parse(doc));
 }
 
+/**
+ * Sum the USD amount of payments matching `match` that cost money: completed
+ * ones, and any that settled on-chain (have a txHash) even though the paid
+ * request then failed.
+ */
+async function sumSettledSpend(match: Record<string, unknown>): Promise<number> {
+  await connectDB();
+  const [result] = await Transaction.aggregate<{ total: number }>([
+    { $match: { ...match, type: "payment", $or: [{ status: "completed" }, { txHash: { $ne: null } }] } },
+    { $group: { _id: null, total: { $sum: "$amount" } } },
+  ]);
+  return result?.total ?? 0;
+}
+
+/**
+ * Sum the USD amount of settled payments made under any of `policyIds` (a
+ * policy and the ones merged into it) since `since`. Used by the policy
+ * engine to enforce hourly and daily spending caps.
+ */
+export async function getPolicySpendSince(policyIds: string[], since: Date): Promise<number> {
+  return sumSettledSpend({
+    policyId: { $in: policyIds.map((id) => new Types.ObjectId(id)) },
+    createdAt: { $gte: since },
+  });
+}
+
+/**
+ * Sum the USD amount of settled payments made by a user across all chains
+ * since `since`. Used to enforce the account-wide spending budget.
+ */
+export async function getUserSpendSince(userId: string, since: Date): Promise<number> {
+  return sumSettledSpend({
+    userId: new Types.ObjectId(userId),
+    createdAt: { $gte: since },
+  });
+}
+
+/**
+ * Sum the USD amount of settled payments made with an API key across all
+ * chains since `since`. Used to enforce the key's own spending budget.
+ */
+export async function getApiKeySpendSince(apiKeyId: string, since: Date): Promise<number> {
+  return sumSettledSpend({
+    apiKeyId: new Types.ObjectId(apiKeyId),
+    createdAt: { $gte: since },
+  });
+}
+
+/**
+ * Sum the USD amount of settled payments a user's agents made through an
+ * OAuth client across all chains since `since`. Used to enforce the client's
+ * own spending budget.
+ */
+export async function getOAuthClientSpendSince(userId: string, clientId: string, since: Date): Promise<number> {
+  return sumSettledSpend({
+    userId: new Types.ObjectId(userId),
+    oauthClientId: clientId,
+    createdAt: { $gte: since },
+  });
+}
+
+/**
+ * Sum the USD amount of settled payments signed by the session key on a
+ * chain since `since`, whether auto-signed or confirmed in chat. Used to
+ * enforce the session key's daily spend limit.
+ */
+export async function getAutoSignSpendSince(userId: string, chainId: number, since: Date): Promise<number> {
+  return sumSettledSpend({
+    userId: new Types.ObjectId(userId),
+    chainId,
+    signingStrategy: { $in: ["auto_sign", "in_chat_approval"] },
+    createdAt: { $gte: since },
+  });
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Get the USD amount of the most recent completed payment made under any of
+ * `policyIds` (a policy and the ones merged into it) to `endpoint`, or null
+ * if there is none. Query strings and fragments are
+ * ignored so the same resource with different parameters shares a price.
+ * Used by the policy engine to detect price increases.
+ */
+export async function getLastAcceptedPrice(policyIds: string[], endpoint: string): Promise<number | null> {
+  await connectDB();
+  const path = endpoint.split(/[?#]/)[0];
+  const doc = await Transaction.findOne({
+    policyId: { $in: policyIds.map((id) => new Types.ObjectId(id)) },
+    endpoint: new RegExp(`^${escapeRegExp(path)}(?:[?#]|$)`),
+    type: "payment",
+    status: "completed",
+  })
+    .sort({ createdAt: -1 })
+    .select("amount")
+    .lean();
+  return doc?.amount ?? null;
+}
+
 /**
  * Create a new transaction record.
  */
@@ -86,10 +208,21 @@ export async function createTransaction(data: TransactionCreateInput): Promise<T
     chainId: data.chainId,
     status: data.status,
     type: data.type ?? "payment",
+    signingStrategy: data.signingStrategy ?? undefined,
     userId: new Types.ObjectId(data.userId),
+    policyId: data.policyId ? new Types.ObjectId(data.policyId) : undefined,
+    apiKeyId: data.apiKeyId ? new Types.ObjectId(data.apiKeyId) : undefined,
+    oauthClientId: data.oauthClientId ?? undefined,
+    grantId: data.grantId ? new Types.ObjectId(data.grantId) : undefined,
     responsePayload: data.responsePayload ?? undefined,
+    responseEncoding: data.responseEncoding ?? undefined,
+    responseContentType: data.responseContentType ?? undefined,
+    responseBodyId: data.responseBodyId ? new Types.ObjectId(data.responseBodyId) : undefined,
     errorMessage: data.errorMessage ?? undefined,
     responseStatus: data.responseStatus ?? undefined,
+    purpose: data.purpose ?? undefined,
+    taskId: data.taskId ?? undefined,
+    tags: data.tags ?? undefined,
   });
   return TransactionDTO.parse(doc.toObject());
 }
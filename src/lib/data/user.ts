@@ -1,5 +1,5 @@
 import { cache } from "react";
-import { User } from "@/lib/models/user";
+import { User, type UserBudgetInput } from "@/lib/models/user";
 import { CHAIN_CONFIGS } from "@/lib/chain-config";
 import { Types } from "mongoose";
 import { connectDB } from "@/lib/db";
@@ -59,3 +59,81 @@ export async function isChainEnabledForUser(
   const chains = await getUserEnabledChains(userId);
   return chains.includes(chainId);
 }
+
+/**
+ * Get the account-wide spending budget for a user (USD, null = no limit).
+ */
+export async function getUserBudget(userId: string): Promise<UserBudgetInput> {
+  await connectDB();
+  const user = await User.findById(new Types.ObjectId(userId))
+    .select("dailyBudget monthlyBudget")
+    .lean();
+  return {
+    dailyBudget: user?.dailyBudget ?? null,
+    monthlyBudget: user?.monthlyBudget ?? null,
+  };
+}
+
+/**
+ * Set the account-wide spending budget for a user.
+ * Throws if the user is not found.
+ */
+export async function setUserBudget(
+  userId: string,
+  budget: UserBudgetInput,
+): Promise<UserBudgetInput> {
+  await connectDB();
+  const doc = await User.findByIdAndUpdate(
+    new Types.ObjectId(userId),
+    { $set: { dailyBudget: budget.dailyBudget, monthlyBudget: budget.monthlyBudget } },
+    { returnDocument: "after" },
+  )
+    .select("dailyBudget monthlyBudget")
+    .lean();
+
+  if (!doc) {
+    throw new Error(`User not found: ${userId}`);
+  }
+
+  return {
+    dailyBudget: doc.dailyBudget ?? null,
+    monthlyBudget: doc.monthlyBudget ?? null,
+  };
+}
+
+/**
+ * Get the account-wide recipient denylist (lowercased payTo addresses).
+ */
+export async function getRecipientDenylist(userId: string): Promise<string[]> {
+  await connectDB();
+  const user = await User.findById(new Types.ObjectId(userId))
+    .select("deniedPayTo")
+    .lean();
+  return user?.deniedPayTo ?? [];
+}
+
+/**
+ * Replace the account-wide recipient denylist. Addresses are stored lowercased.
+ * Throws if the user is not found.
+ */
+export async function setRecipientDenylist(
+  userId: string,
+  addresses: string[],
+): Promise<string[]> {
+  const deniedPayTo = [...new Set(addresses.map((a) => a.toLowerCase()))];
+
+  await connectDB();
+  const doc = await User.findByIdAndUpdate(
+    new Types.ObjectId(userId),
+    { $set: { deniedPayTo } },
+    { returnDocument: "after" },
+  )
+    .select("deniedPayTo")
+    .lean();
+
+  if (!doc) {
+    throw new Error(`User not found: ${userId}`);
+  }
+
+  return doc.deniedPayTo ?? [];
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Types } from "mongoose";
+
+vi.mock("@/lib/db", () => ({ connectDB: vi.fn(() => Promise.resolve()) }));
+
+const mockFindByIdAndUpdate = vi.fn();
+vi.mock("@/lib/models/user", () => ({
+  User: {
+    findByIdAndUpdate: mockFindByIdAndUpdate,
+  },
+}));
+
+const USER_ID = new Types.ObjectId().toString();
+
+function chainable(result: () => Promise<unknown>) {
+  return { select: () => ({ lean: result }) };
+}
+
+describe("regenerateHumanHash", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("stores a new four-word hash for the user", async () => {
+    const { regenerateHumanHash } = await import("@/lib/data/wallet");
+    mockFindByIdAndUpdate.mockReturnValue(chainable(() => Promise.resolve({ _id: USER_ID })));
+
+    const hash = await regenerateHumanHash(USER_ID);
+
+    expect(hash).toMatch(/^[a-z]+(_[a-z]+){3}$/);
+    expect(mockFindByIdAndUpdate.mock.calls[0][1]).toEqual({ $set: { humanHash: hash } });
+  });
+
+  it("retries with a different hash when one is already taken", async () => {
+    const { regenerateHumanHash } = await import("@/lib/data/wallet");
+    mockFindByIdAndUpdate
+      .mockReturnValueOnce(chainable(() => Promise.reject(Object.assign(new Error("dup"), { code: 11000 }))))
+      .mockReturnValueOnce(chainable(() => Promise.resolve({ _id: USER_ID })));
+
+    const hash = await regenerateHumanHash(USER_ID);
+
+    expect(mockFindByIdAndUpdate).toHaveBeenCalledTimes(2);
+    expect(mockFindByIdAndUpdate.mock.calls[1][1]).toEqual({ $set: { humanHash: hash } });
+  });
+
+  it("throws when the user does not exist", async () => {
+    const { regenerateHumanHash } = await import("@/lib/data/wallet");
+    mockFindByIdAndUpdate.mockReturnValue(chainable(() => Promise.resolve(null)));
+
+    await expect(regenerateHumanHash(USER_ID)).rejects.toThrow("User not found");
+  });
+});
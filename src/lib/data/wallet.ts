@@ -1,7 +1,11 @@
+import { randomBytes } from "crypto";
 import { Types } from "mongoose";
 import { User } from "@/lib/models/user";
 import { connectDB } from "@/lib/db";
-import { humanHash } from "@/lib/human-hash";
+import { humanHash, humanHashFromBytes } from "@/lib/human-hash";
+
+/** Attempts at finding an unused humanHash before giving up. */
+const HUMAN_HASH_MAX_ATTEMPTS = 5;
 
 /**
  * Find or create a user by wallet address.
@@ -50,3 +54,42 @@ export async function getUserHumanHash(userId: string): Promise<string | null> {
   if (!user) return null;
   return user.humanHash ?? null;
 }
+
+/**
+ * Replace a user's humanHash with a random one, so MCP URLs containing the
+ * old hash stop working. API keys are unaffected but must be used with the
+ * new URL. Returns the new humanHash.
+ * Throws if the user is not found.
+ */
+export async function regenerateHumanHash(userId: string): Promise<string> {
+  await connectDB();
+
+  for (let attempt = 0; attempt < HUMAN_HASH_MAX_ATTEMPTS; attempt++) {
+    const hash = humanHashFromBytes(randomBytes(12));
+    try {
+      const user = await User.findByIdAndUpdate(
+        new Types.ObjectId(userId),
+        { $set: { humanHash: hash } },
+        { returnDocument: "after" },
+      )
+        .select("humanHash")
+        .lean();
+      if (!user) {
+        throw new Error(`User not found: ${userId}`);
+      }
+      return hash;
+    } catch (err: unknown) {
+      // Another user already has this hash; try a different one
+      const isDuplicateKeyError =
+        err &&
+        typeof err === "object" &&
+        "code" in err &&
+        (err as { code: number }).code === 11000;
+      if (!isDuplicateKeyError) {
+        throw err;
+      }
+    }
+  }
+
+  throw new Error("Could not generate a unique MCP URL. Please try again.");
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import {
+  matchEndpointPattern,
+  compareSpecificity,
+  validateStructuredPattern,
+} from "@/lib/endpoint-pattern";
+
+function rank(patterns: string[], endpoint: string): string[] {
+  return patterns
+    .flatMap((pattern) => {
+      const result = matchEndpointPattern(pattern, endpoint);
+      return result.matched ? [{ pattern, specificity: result.specificity }] : [];
+    })
+    .sort(compareSpecificity)
+    .map((m) => m.pattern);
+}
+
+describe("matchEndpointPattern", () => {
+  it("keeps literal prefix matching at URL boundaries", () => {
+    expect(matchEndpointPattern("https://api.example.com", "https://api.example.com/v1").matched).toBe(true);
+    expect(matchEndpointPattern("https://api", "https://api-evil.com/v1").matched).toBe(false);
+  });
+
+  it("matches any subdomain depth with a host wildcard but not the bare domain", () => {
+    const pattern = "https://*.zapper.xyz";
+    expect(matchEndpointPattern(pattern, "https://api.zapper.xyz/v2").matched).toBe(true);
+    expect(matchEndpointPattern(pattern, "https://a.b.zapper.xyz").matched).toBe(true);
+    expect(matchEndpointPattern(pattern, "https://zapper.xyz").matched).toBe(false);
+    expect(matchEndpointPattern(pattern, "https://evilzapper.xyz").matched).toBe(false);
+  });
+
+  it("does not let userinfo satisfy the host check", () => {
+    const result = matchEndpointPattern("https://*.example.com/v1/*", "https://api.example.com@evil.com/v1/x");
+    expect(result.matched).toBe(false);
+  });
+
+  it("matches single segments, globstars and captures params", () => {
+    const result = matchEndpointPattern(
+      "https://api.example.com/v1/{id}/**/report",
+      "https://api.example.com/v1/123/a/b/report?format=json",
+    );
+    expect(result.matched).toBe(true);
+    if (result.matched) {
+      expect(result.params).toEqual({ id: "123" });
+    }
+    expect(matchEndpointPattern("https://api.example.com/v1/*/x", "https://api.example.com/v1/x").matched).toBe(false);
+  });
+
+  it("rejects mismatched ports and schemes", () => {
+    expect(matchEndpointPattern("https://api.example.com/*", "https://api.example.com:8443/a").matched).toBe(false);
+    expect(matchEndpointPattern("https://api.example.com/*", "http://api.example.com/a").matched).toBe(false);
+  });
+});
+
+describe("validateStructuredPattern", () => {
+  it("accepts well-formed patterns", () => {
+    expect(validateStructuredPattern("https://*.example.com/v1/{id}/**")).toBeNull();
+  });
+
+  it.each([
+    "https://*.com",
+    "https://api.*.example.com",
+    "https://api.example.com/v1*",
+    "https://api.example.com/{id}/{id}",
+    "https://api.example.com/*?q=1",
+    "https://user@*.example.com",
+  ])("rejects %s", (pattern) => {
+    expect(validateStructuredPattern(pattern)).not.toBeNull();
+  });
+});
+
+describe("compareSpecificity", () => {
+  it("ranks exact hosts above wildcards, then literal segments above wildcards and globs", () => {
+    const endpoint = "https://api.example.com/v1/users/42";
+    expect(
+      rank(
+        [
+          "https://*.example.com",
+          "https://api.example.com/**",
+          "https://api.example.com/v1/*/42",
+          "https://api.example.com/v1/users/{id}",
+          "https://api.example.com/v1",
+        ],
+        endpoint,
+      ),
+    ).toEqual([
+      "https://api.example.com/v1/users/{id}",
+      "https://api.example.com/v1/*/42",
+      "https://api.example.com/v1",
+      "https://api.example.com/**",
+      "https://*.example.com",
+    ]);
+  });
+});
@@ -0,0 +1,312 @@
+/**
+ * Endpoint pattern language for EndpointPolicy.
+ *
+ * Client-safe: pure string logic, no DB or env access.
+ *
+ * Syntax (scheme is always literal, http or https):
+ * - Literal URL prefix, e.g. "https://api.example.com/v1". Matches the URL
+ *   itself and anything below it at a URL boundary (/, ?, #). This is the
+ *   original matching behaviour and is kept unchanged.
+ * - Host wildcard: a single leading "*." label, e.g. "https://*.zapper.xyz".
+ *   Matches any subdomain depth (api.zapper.xyz, a.b.zapper.xyz) but never
+ *   the bare domain, and requires at least two literal labels after it so a
+ *   pattern cannot cover a whole TLD.
+ * - Path segment "*": exactly one non-empty segment.
+ * - Path segment "**": zero or more segments.
+ * - Path segment "{name}": exactly one non-empty segment, captured as a parameter.
+ *
+ * Structured patterns (any of the above wildcards) match path segments as a
+ * prefix, like literal patterns do: "https://api.example.com/v1/{id}" also
+ * matches "/v1/123/report". Query strings and fragments are ignored.
+ */
+
+/** HTTP methods a policy can be restricted to. */
+export const HTTP_METHODS = ["GET", "POST", "PUT", "DELETE", "PATCH"] as const;
+export type HttpMethod = (typeof HTTP_METHODS)[number];
+
+type SegmentToken =
+  | { kind: "literal"; value: string }
+  | { kind: "wildcard" }
+  | { kind: "globstar" }
+  | { kind: "param"; name: string };
+
+interface ParsedPattern {
+  scheme: string;
+  /** Literal host labels after an optional leading wildcard, lowercased. */
+  hostSuffix: string;
+  hostWildcard: boolean;
+  port: string;
+  segments: SegmentToken[];
+}
+
+/** Specificity of a pattern; higher values win, compared field by field. */
+export interface PatternSpecificity {
+  exactHost: number;
+  hostLabels: number;
+  literalSegments: number;
+  singleSegments: number;
+  globstars: number;
+  length: number;
+}
+
+export type PatternMatchResult =
+  | { matched: true; reason: string; params: Record<string, string>; specificity: PatternSpecificity }
+  | { matched: false; reason: string };
+
+const PATTERN_RE = /^(https?):\/\/([^/?#]+)(\/[^?#]*)?$/i;
+const PARAM_RE = /^\{([A-Za-z_][A-Za-z0-9_]*)\}$/;
+const HOST_LABEL_RE = /^[a-z0-9-]+$/;
+const DEFAULT_PORTS: Record<string, string> = { http: "80", https: "443" };
+
+/** Whether a pattern uses wildcard or path-parameter syntax. */
+export function isStructuredPattern(pattern: string): boolean {
+  return /[*{}]/.test(pattern);
+}
+
+function splitPath(path: string): string[] {
+  return path.split("/").filter((s) => s !== "");
+}
+
+/**
+ * Parse a structured pattern. Throws with a user-facing message if invalid.
+ */
+function parseStructuredPattern(pattern: string): ParsedPattern {
+  const match = pattern.match(PATTERN_RE);
+  if (!match) {
+    throw new Error(
+      "Wildcard patterns must look like scheme://host/path without a query or fragment (e.g., https://*.example.com/v1/*)",
+    );
+  }
+  const scheme = match[1].toLowerCase();
+  const authority = match[2].toLowerCase();
+  const path = match[3] ?? "";
+
+  if (authority.includes("@")) {
+    throw new Error("Endpoint pattern must not include credentials");
+  }
+
+  const portMatch = authority.match(/^(.*?)(?::(\d+))?$/);
+  const host = portMatch?.[1] ?? authority;
+  const port = portMatch?.[2] ?? DEFAULT_PORTS[scheme];
+
+  const labels = host.split(".");
+  const hostWildcard = labels[0] === "*";
+  const literalLabels = hostWildcard ? labels.slice(1) : labels;
+  if (literalLabels.some((l) => !HOST_LABEL_RE.test(l))) {
+    throw new Error(
+      'Host wildcards are only allowed as a single leading "*." label (e.g., https://*.example.com)',
+    );
+  }
+  if (hostWildcard && literalLabels.length < 2) {
+    throw new Error("Host wildcard must be followed by at least two labels (e.g., *.example.com)");
+  }
+
+  const segments: SegmentToken[] = splitPath(path).map((segment) => {
+    if (segment === "*") return { kind: "wildcard" };
+    if (segment === "**") return { kind: "globstar" };
+    const param = segment.match(PARAM_RE);
+    if (param) return { kind: "param", name: param[1] };
+    if (/[*{}]/.test(segment)) {
+      throw new Error(
+        `Invalid path segment "${segment}": use "*", "**" or "{name}" as a whole segment`,
+      );
+    }
+    return { kind: "literal", value: segment };
+  });
+
+  const paramNames = segments.flatMap((s) => (s.kind === "param" ? [s.name] : []));
+  if (new Set(paramNames).size !== paramNames.length) {
+    throw new Error("Path parameter names must be unique");
+  }
+
+  return { scheme, hostSuffix: literalLabels.join("."), hostWildcard, port, segments };
+}
+
+/**
+ * Validate a structured pattern. Returns an error message, or null if valid.
+ */
+export function validateStructuredPattern(pattern: string): string | null {
+  try {
+    parseStructuredPattern(pattern);
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err.message : "Invalid endpoint pattern";
+  }
+}
+
+/**
+ * Match path segments with backtracking for "**". Returns captured params,
+ * or null if the pattern does not match a prefix of `actual`.
+ */
+function matchSegments(
+  tokens: SegmentToken[],
+  actual: string[],
+): Record<string, string> | null {
+  if (tokens.length === 0) return {};
+  const [token, ...rest] = tokens;
+
+  if (token.kind === "globstar") {
+    for (let skip = 0; skip <= actual.length; skip++) {
+      const result = matchSegments(rest, actual.slice(skip));
+      if (result) return result;
+    }
+    return null;
+  }
+
+  if (actual.length === 0) return null;
+  const [segment, ...remaining] = actual;
+
+  if (token.kind === "literal" && token.value !== segment) return null;
+
+  const result = matchSegments(rest, remaining);
+  if (!result) return null;
+  if (token.kind === "param") {
+    return { [token.name]: decodeSegment(segment), ...result };
+  }
+  return result;
+}
+
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+function matchStructured(pattern: string, endpoint: string): PatternMatchResult {
+  let parsed: ParsedPattern;
+  try {
+    parsed = parseStructuredPattern(pattern);
+  } catch (err) {
+    return { matched: false, reason: err instanceof Error ? err.message : "Invalid pattern" };
+  }
+
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return { matched: false, reason: "URL is not valid" };
+  }
+
+  const scheme = url.protocol.replace(/:$/, "");
+  if (scheme !== parsed.scheme) {
+    return { matched: false, reason: `Scheme "${scheme}" does not match "${parsed.scheme}"` };
+  }
+
+  // Compare against the parsed hostname so userinfo tricks
+  // (https://api.example.com@evil.com) cannot satisfy the host check.
+  const hostname = url.hostname.toLowerCase();
+  if (parsed.hostWildcard) {
+    if (!hostname.endsWith(`.${parsed.hostSuffix}`)) {
+      return { matched: false, reason: `Host "${hostname}" is not a subdomain of "${parsed.hostSuffix}"` };
+    }
+  } else if (hostname !== parsed.hostSuffix) {
+    return { matched: false, reason: `Host "${hostname}" does not match "${parsed.hostSuffix}"` };
+  }
+
+  const port = url.port || DEFAULT_PORTS[scheme];
+  if (port !== parsed.port) {
+    return { matched: false, reason: `Port ${port} does not match ${parsed.port}` };
+  }
+
+  const params = matchSegments(parsed.segments, splitPath(url.pathname));
+  if (!params) {
+    return { matched: false, reason: `Path "${url.pathname}" does not match the pattern path` };
+  }
+
+  const hostDescription = parsed.hostWildcard
+    ? `host matches subdomain wildcard *.${parsed.hostSuffix}`
+    : "host matches exactly";
+  const paramDescription = Object.keys(params).length > 0
+    ? `, params ${Object.entries(params).map(([k, v]) => `${k}=${v}`).join(", ")}`
+    : "";
+
+  return {
+    matched: true,
+    reason: `${hostDescription}, path matches${paramDescription}`,
+    params,
+    specificity: {
+      exactHost: parsed.hostWildcard ? 0 : 1,
+      hostLabels: parsed.hostSuffix.split(".").length,
+      literalSegments: parsed.segments.filter((s) => s.kind === "literal").length,
+      singleSegments: parsed.segments.filter((s) => s.kind === "wildcard" || s.kind === "param").length,
+      globstars: parsed.segments.filter((s) => s.kind === "globstar").length,
+      length: pattern.length,
+    },
+  };
+}
+
+function matchLiteralPrefix(pattern: string, endpoint: string): PatternMatchResult {
+  if (!endpoint.startsWith(pattern)) {
+    return { matched: false, reason: "URL does not start with the pattern" };
+  }
+  // Verify the character after the pattern is a URL boundary (/, ?, #, or end-of-string)
+  // to prevent cross-domain matches (e.g., pattern "https://api" matching "https://api-evil.com")
+  const nextChar = endpoint[pattern.length];
+  const patternEndsWithBoundary =
+    pattern.endsWith("/") ||
+    pattern.endsWith("?") ||
+    pattern.endsWith("#");
+  if (!patternEndsWithBoundary && nextChar !== undefined && nextChar !== "/" && nextChar !== "?" && nextChar !== "#") {
+    return { matched: false, reason: `Pattern prefix is followed by "${nextChar}", which is not a URL boundary` };
+  }
+
+  let hostLabels = 0;
+  let literalSegments = 0;
+  try {
+    const parsed = new URL(pattern);
+    hostLabels = parsed.hostname.split(".").length;
+    literalSegments = splitPath(parsed.pathname).length;
+  } catch {
+    // Legacy patterns are validated as URLs on create; fall back to length only
+  }
+
+  return {
+    matched: true,
+    reason: nextChar === undefined ? "URL matches the pattern exactly" : "URL starts with the pattern at a URL boundary",
+    params: {},
+    specificity: {
+      exactHost: 1,
+      hostLabels,
+      literalSegments,
+      singleSegments: 0,
+      globstars: 0,
+      length: pattern.length,
+    },
+  };
+}
+
+/**
+ * Match an endpoint URL against a pattern, explaining the outcome.
+ */
+export function matchEndpointPattern(pattern: string, endpoint: string): PatternMatchResult {
+  return isStructuredPattern(pattern)
+    ? matchStructured(pattern, endpoint)
+    : matchLiteralPrefix(pattern, endpoint);
+}
+
+const SPECIFICITY_ORDER: Array<{ key: keyof PatternSpecificity; higherWins: boolean }> = [
+  { key: "exactHost", higherWins: true },
+  { key: "hostLabels", higherWins: true },
+  { key: "literalSegments", higherWins: true },
+  { key: "singleSegments", higherWins: true },
+  { key: "globstars", higherWins: false },
+  { key: "length", higherWins: true },
+];
+
+/**
+ * Compare two matches by specificity. Returns a negative number if `a` is
+ * more specific than `b`, positive if less, and falls back to comparing the
+ * pattern strings so ordering is always deterministic.
+ */
+export function compareSpecificity(
+  a: { pattern: string; specificity: PatternSpecificity },
+  b: { pattern: string; specificity: PatternSpecificity },
+): number {
+  for (const { key, higherWins } of SPECIFICITY_ORDER) {
+    const diff = a.specificity[key] - b.specificity[key];
+    if (diff !== 0) return higherWins ? -diff : diff;
+  }
+  return a.pattern < b.pattern ? -1 : a.pattern > b.pattern ? 1 : 0;
+}
@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { selectJsonPath, validateJsonPath } from "@/lib/json-path";
+
+const DOC = {
+  store: {
+    name: "Corner shop",
+    "opening-hours": "9-5",
+    "odd key": true,
+    books: [
+      { title: "A", price: 8 },
+      { title: "B", price: 12 },
+      { title: "C", price: 5 },
+    ],
+    bike: { price: 20 },
+  },
+};
+
+describe("selectJsonPath", () => {
+  it("returns the value itself for a definite path", () => {
+    expect(selectJsonPath(DOC, "$.store.name")).toBe("Corner shop");
+    expect(selectJsonPath(DOC, "$.store['odd key']")).toBe(true);
+    expect(selectJsonPath(DOC, "$.store.books[-1].title")).toBe("C");
+    expect(selectJsonPath(DOC, "$")).toEqual(DOC);
+  });
+
+  it("returns an array of matches for wildcards, slices and unions", () => {
+    expect(selectJsonPath(DOC, "$.store.books[*].price")).toEqual([8, 12, 5]);
+    expect(selectJsonPath(DOC, "$.store.books[0:2].title")).toEqual(["A", "B"]);
+    expect(selectJsonPath(DOC, "$.store.books[::-1].title")).toEqual(["C", "B", "A"]);
+    expect(selectJsonPath(DOC, "$.store['name','opening-hours']")).toEqual(["Corner shop", "9-5"]);
+    expect(selectJsonPath(DOC, "$.store.books[0,2].title")).toEqual(["A", "C"]);
+  });
+
+  it("searches descendants with ..", () => {
+    expect(selectJsonPath(DOC, "$..price")).toEqual([8, 12, 5, 20]);
+    expect(selectJsonPath(DOC, "$..missing")).toEqual([]);
+  });
+
+  it("throws when a definite path matches nothing", () => {
+    expect(() => selectJsonPath(DOC, "$.store.missing")).toThrow('JSONPath "$.store.missing" matched nothing in the response');
+    expect(() => selectJsonPath(DOC, "$.store.books[5]")).toThrow("matched nothing");
+  });
+});
+
+describe("validateJsonPath", () => {
+  it("accepts supported syntax", () => {
+    expect(validateJsonPath("$.items[*]['id','name']")).toBeNull();
+    expect(validateJsonPath("$..prices[1:]")).toBeNull();
+  });
+
+  it("explains what is wrong with invalid paths", () => {
+    expect(validateJsonPath("items[0]")).toBe('JSONPath "items[0]" must start with "$"');
+    expect(validateJsonPath("$.items[?(@.price < 10)]")).toMatch(/Filter expressions are not supported/);
+    expect(validateJsonPath("$.items[0")).toMatch(/Unclosed "\["/);
+    expect(validateJsonPath("$.items[::0]")).toMatch(/step must not be 0/);
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * JSONPath subset for selecting fields from paid JSON responses, so agents
+ * only receive the parts they need.
+ *
+ * Client-safe: pure logic, no DB or env access.
+ *
+ * Syntax (RFC 9535 subset):
+ * - "$" is the root and every path starts with it.
+ * - ".name" or "['name']" selects a member; "[0]" selects an element,
+ *   negative indices count from the end.
+ * - "*" or "[*]" selects every member or element.
+ * - "[start:end:step]" slices an array.
+ * - "['a','b']" or "[0,2]" selects several at once.
+ * - "..name" (or "..*", "..[0]") searches all descendants.
+ *
+ * Filter expressions ("[?(...)]") are not supported.
+ *
+ * A definite path (only single names and indices) returns the value itself
+ * and fails if nothing is there. Any other path returns an array of matches,
+ * which may be empty.
+ */
+
+type Selector =
+  | { kind: "name"; name: string }
+  | { kind: "index"; index: number }
+  | { kind: "wildcard" }
+  | { kind: "slice"; start?: number; end?: number; step: number };
+
+interface Segment {
+  descendant: boolean;
+  selectors: Selector[];
+}
+
+const NAME_RE = /^[A-Za-z_$][\w$-]*/;
+const INDEX_RE = /^-?\d+$/;
+const SLICE_RE = /^(-?\d+)?:(-?\d+)?(?::(-?\d+)?)?$/;
+
+function parseBracket(content: string, path: string): Selector[] {
+  const selectors: Selector[] = [];
+  let rest = content.trim();
+  while (rest.length > 0) {
+    let selector: Selector;
+    const quote = rest[0];
+    if (quote === "'" || quote === '"') {
+      let end = 1;
+      let name = "";
+      while (end < rest.length && rest[end] !== quote) {
+        if (rest[end] === "\\" && end + 1 < rest.length) end++;
+        name += rest[end];
+        end++;
+      }
+      if (end >= rest.length) throw new Error(`Unterminated string in JSONPath "${path}"`);
+      selector = { kind: "name", name };
+      rest = rest.slice(end + 1).trim();
+    } else {
+      const comma = rest.indexOf(",");
+      const token = (comma === -1 ? rest : rest.slice(0, comma)).trim();
+      rest = comma === -1 ? "" : rest.slice(comma);
+      if (token === "*") {
+        selector = { kind: "wildcard" };
+      } else if (INDEX_RE.test(token)) {
+        selector = { kind: "index", index: Number(token) };
+      } else if (SLICE_RE.test(token)) {
+        const [, start, end, step] = token.match(SLICE_RE)!;
+        const stepValue = step !== undefined ? Number(step) : 1;
+        if (stepValue === 0) throw new Error(`Slice step must not be 0 in JSONPath "${path}"`);
+        selector = {
+          kind: "slice",
+          start: start !== undefined ? Number(start) : undefined,
+          end: end !== undefined ? Number(end) : undefined,
+          step: stepValue,
+        };
+      } else if (token.startsWith("?")) {
+        throw new Error(`Filter expressions are not supported in JSONPath "${path}"`);
+      } else {
+        throw new Error(`Invalid selector "[${token}]" in JSONPath "${path}"`);
+      }
+    }
+    selectors.push(selector);
+    if (rest.startsWith(",")) {
+      rest = rest.slice(1).trim();
+      if (rest.length === 0) throw new Error(`Trailing comma in JSONPath "${path}"`);
+    } else if (rest.length > 0) {
+      throw new Error(`Expected "," or "]" in JSONPath "${path}"`);
+    }
+  }
+  if (selectors.length === 0) throw new Error(`Empty brackets in JSONPath "${path}"`);
+  return selectors;
+}
+
+/** Find the "]" closing a bracket that opens at `start`, skipping quoted strings. */
+function findBracketEnd(path: string, start: number): number {
+  let quote: string | null = null;
+  for (let i = start + 1; i < path.length; i++) {
+    const char = path[i];
+    if (quote) {
+      if (char === "\\") i++;
+      else if (char === quote) quote = null;
+    } else if (char === "'" || char === '"') {
+      quote = char;
+    } else if (char === "]") {
+      return i;
+    }
+  }
+  throw new Error(`Unclosed "[" in JSONPath "${path}"`);
+}
+
+function parseJsonPath(path: string): Segment[] {
+  const trimmed = path.trim();
+  if (!trimmed.startsWith("$")) {
+    throw new Error(`JSONPath "${path}" must start with "$"`);
+  }
+
+  const segments: Segment[] = [];
+  let i = 1;
+  while (i < trimmed.length) {
+    let descendant = false;
+    if (trimmed.startsWith("..", i)) {
+      descendant = true;
+      i += 2;
+    } else if (trimmed[i] === ".") {
+      i += 1;
+    } else if (trimmed[i] !== "[") {
+      throw new Error(`Unexpected "${trimmed[i]}" at position ${i} in JSONPath "${path}"`);
+    }
+
+    if (trimmed[i] === "[") {
+      const end = findBracketEnd(trimmed, i);
+      segments.push({ descendant, selectors: parseBracket(trimmed.slice(i + 1, end), path) });
+      i = end + 1;
+    } else if (trimmed[i] === "*") {
+      segments.push({ descendant, selectors: [{ kind: "wildcard" }] });
+      i += 1;
+    } else {
+      const name = trimmed.slice(i).match(NAME_RE)?.[0];
+      if (!name) throw new Error(`Expected a member name at position ${i} in JSONPath "${path}"`);
+      segments.push({ descendant, selectors: [{ kind: "name", name }] });
+      i += name.length;
+    }
+  }
+  return segments;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+/** The value and all of its descendants, parents first. */
+function descendantsOrSelf(value: unknown): unknown[] {
+  const nodes: unknown[] = [value];
+  const children = Array.isArray(value) ? value : isObject(value) ? Object.values(value) : [];
+  for (const child of children) nodes.push(...descendantsOrSelf(child));
+  return nodes;
+}
+
+function sliceIndices(length: number, { start, end, step }: Extract<Selector, { kind: "slice" }>): number[] {
+  const normalize = (index: number) => (index < 0 ? Math.max(length + index, -1) : Math.min(index, length));
+  const indices: number[] = [];
+  if (step > 0) {
+    const from = Math.max(normalize(start ?? 0), 0);
+    const to = normalize(end ?? length);
+    for (let i = from; i < to; i += step) indices.push(i);
+  } else {
+    const from = Math.min(normalize(start ?? length - 1), length - 1);
+    const to = end !== undefined ? normalize(end) : -1;
+    for (let i = from; i > to; i += step) indices.push(i);
+  }
+  return indices;
+}
+
+function applySelector(value: unknown, selector: Selector): unknown[] {
+  switch (selector.kind) {
+    case "name":
+      return isObject(value) && Object.hasOwn(value, selector.name) ? [value[selector.name]] : [];
+    case "index": {
+      if (!Array.isArray(value)) return [];
+      const index = selector.index < 0 ? value.length + selector.index : selector.index;
+      return index >= 0 && index < value.length ? [value[index]] : [];
+    }
+    case "wildcard":
+      return Array.isArray(value) ? [...value] : isObject(value) ? Object.values(value) : [];
+    case "slice":
+      return Array.isArray(value) ? sliceIndices(value.length, selector).map((i) => value[i]) : [];
+  }
+}
+
+/**
+ * Check a JSONPath's syntax. Returns a user-facing error, or null if valid.
+ */
+export function validateJsonPath(path: string): string | null {
+  try {
+    parseJsonPath(path);
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err.message : "Invalid JSONPath";
+  }
+}
+
+/**
+ * Select from a parsed JSON document with a JSONPath. Throws on invalid
+ * syntax and when a definite path matches nothing.
+ */
+export function selectJsonPath(document: unknown, path: string): unknown {
+  const segments = parseJsonPath(path);
+  let nodes: unknown[] = [document];
+  for (const segment of segments) {
+    const candidates = segment.descendant ? nodes.flatMap(descendantsOrSelf) : nodes;
+    nodes = candidates.flatMap((node) => segment.selectors.flatMap((selector) => applySelector(node, selector)));
+  }
+
+  const isDefinite = segments.every(
+    (segment) =>
+      !segment.descendant &&
+      segment.selectors.length === 1 &&
+      (segment.selectors[0].kind === "name" || segment.selectors[0].kind === "index"),
+  );
+  if (!isDefinite) return nodes;
+  if (nodes.length === 0) throw new Error(`JSONPath "${path}" matched nothing in the response`);
+  return nodes[0];
+}
@@ -0,0 +1,50 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/lib/smart-account-constants", () => ({ SESSION_KEY_DEFAULT_EXPIRY_DAYS: 30 }));
+
+function createMockServer() {
+  const names: string[] = [];
+  return {
+    names,
+    registerTool(name: string) {
+      names.push(name);
+    },
+  };
+}
+
+describe("registerTools", () => {
+  it("registers every tool when no scopes are given", async () => {
+    const { registerTools } = await import("./register-tools");
+    const { MCP_TOOL_NAMES } = await import("./tool-registry");
+    const server = createMockServer();
+
+    registerTools(server as never, "user");
+
+    expect(server.names).toEqual(MCP_TOOL_NAMES);
+  });
+
+  it("registers only the tools in the key's scopes", async () => {
+    const { registerTools } = await import("./register-tools");
+    const server = createMockServer();
+
+    registerTools(server as never, "user", "key", ["read"]);
+
+    expect(server.names).toEqual([
+      "x402_check_balance",
+      "x402_spending_history",
+      "x402_check_pending",
+      "x402_get_result",
+      "x402_wait_for_payment",
+    ]);
+  });
+
+  it("never exposes x402_pay to a discovery-only key", async () => {
+    const { registerTools } = await import("./register-tools");
+    const server = createMockServer();
+
+    registerTools(server as never, "user", "key", ["discover"]);
+
+    expect(server.names).not.toContain("x402_pay");
+    expect(server.names).toContain("x402_browse_directory");
+  });
+});
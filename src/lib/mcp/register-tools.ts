@@ -1,23 +1,48 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { registerX402Pay } from "./tools/x402-pay";
+import { registerX402RequestGrant } from "./tools/x402-request-grant";
+import { registerX402Quote } from "./tools/x402-quote";
 import { registerX402CheckBalance } from "./tools/x402-check-balance";
 import { registerX402SpendingHistory } from "./tools/x402-spending-history";
 import { registerX402CheckPending } from "./tools/x402-check-pending";
 import { registerX402GetResult } from "./tools/x402-get-result";
+import { registerX402WaitForPayment } from "./tools/x402-wait-for-payment";
 import { registerX402Discover } from "./tools/x402-discover";
 import { registerX402BrowseDirectory } from "./tools/x402-browse-directory";
-import { MCP_TOOL_NAMES } from "./tool-registry";
+import { API_KEY_SCOPES, getToolsForScopes, type ApiKeyScope, type McpToolName } from "./tool-registry";
 
-export function registerTools(server: McpServer, userId: string): void {
-  registerX402Pay(server, userId);
-  registerX402CheckBalance(server, userId);
-  registerX402SpendingHistory(server, userId);
-  registerX402CheckPending(server, userId);
-  registerX402GetResult(server, userId);
-  registerX402Discover(server, userId);
-  registerX402BrowseDirectory(server, userId);
+type ToolRegistrar = (server: McpServer, userId: string, apiKeyId?: string, oauthClientId?: string) => void;
 
-  // Runtime assertion: verify every tool in the registry was actually registered
+const TOOL_REGISTRARS: Record<McpToolName, ToolRegistrar> = {
+  x402_pay: registerX402Pay,
+  x402_request_grant: registerX402RequestGrant,
+  x402_quote: registerX402Quote,
+  x402_check_balance: registerX402CheckBalance,
+  x402_spending_history: registerX402SpendingHistory,
+  x402_check_pending: registerX402CheckPending,
+  x402_get_result: registerX402GetResult,
+  x402_wait_for_payment: registerX402WaitForPayment,
+  x402_discover: registerX402Discover,
+  x402_browse_directory: registerX402BrowseDirectory,
+};
+
+/**
+ * Register the tools an API key may use. Tools outside the key's scopes are
+ * not registered at all, so agents never see them in tools/list.
+ */
+export function registerTools(
+  server: McpServer,
+  userId: string,
+  apiKeyId?: string,
+  scopes: readonly ApiKeyScope[] = API_KEY_SCOPES,
+  oauthClientId?: string,
+): void {
+  const tools = getToolsForScopes(scopes);
+  for (const tool of tools) {
+    TOOL_REGISTRARS[tool.name as McpToolName](server, userId, apiKeyId, oauthClientId);
+  }
+
+  // Runtime assertion: verify every permitted tool in the registry was actually registered
   // Only runs when using the real McpServer SDK (not mock servers in tests)
   const registeredTools = (
     server as unknown as { _registeredTools?: Record<string, unknown> }
@@ -25,7 +50,7 @@ export function registerTools(server: McpServer, userId: string): void {
 
   if (registeredTools) {
     const registeredNames = new Set(Object.keys(registeredTools));
-    for (const name of MCP_TOOL_NAMES) {
+    for (const { name } of tools) {
       if (!registeredNames.has(name)) {
         throw new Error(
           `MCP tool registry/implementation mismatch: "${name}" is in the registry but was not registered on the server`,
@@ -0,0 +1,174 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { ToolResult } from "./shared";
+
+const mockStoreResponseBody = vi.fn();
+vi.mock("@/lib/data/response-bodies", () => ({
+  storeResponseBody: (...args: unknown[]) => mockStoreResponseBody(...args),
+}));
+vi.mock("@/lib/data/user", () => ({
+  isChainEnabledForUser: vi.fn(),
+  getUserEnabledChains: vi.fn(),
+}));
+
+const ITEMS = { items: [{ name: "a/b", price: 1 }, { name: "c", price: 2 }] };
+
+function text(payload: string, contentType = "application/json") {
+  return { payload, encoding: "utf8" as const, contentType };
+}
+
+function parse(result: ToolResult) {
+  return JSON.parse(result.content[0].text);
+}
+
+describe("renderResponseBody", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv("MCP_RESPONSE_MAX_CHARS", "20");
+    mockStoreResponseBody.mockResolvedValue("body-1");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("returns a body within the budget whole", async () => {
+    const { renderResponseBody } = await import("./response-paging");
+
+    const result = await renderResponseBody("user", { success: true }, text('{"ok":true}'), "https://api.example.com");
+
+    expect(parse(result)).toEqual({ success: true, data: { ok: true } });
+    expect(mockStoreResponseBody).not.toHaveBeenCalled();
+  });
+
+  it("stores a larger body and returns a preview with a resultId", async () => {
+    const { renderResponseBody } = await import("./response-paging");
+    const body = text(JSON.stringify(ITEMS));
+
+    const result = await renderResponseBody("user", { success: true }, body, "https://api.example.com");
+
+    expect(mockStoreResponseBody).toHaveBeenCalledWith("user", body);
+    expect(parse(result)).toMatchObject({
+      success: true,
+      truncated: true,
+      resultId: "body-1",
+      totalLength: body.payload.length,
+      preview: body.payload.slice(0, 20),
+    });
+  });
+
+  it("reuses a body stored when the payment was recorded", async () => {
+    const { renderResponseBody } = await import("./response-paging");
+
+    const result = await renderResponseBody("user", {}, text(JSON.stringify(ITEMS)), "https://api.example.com", "stored-1");
+
+    expect(mockStoreResponseBody).not.toHaveBeenCalled();
+    expect(parse(result).resultId).toBe("stored-1");
+  });
+
+  it("returns an image whose base64 fits the budget whole", async () => {
+    vi.stubEnv("MCP_RESPONSE_MAX_CHARS", "200");
+    const { renderResponseBody } = await import("./response-paging");
+    const payload = Buffer.alloc(100, 7).toString("base64");
+
+    const result = await renderResponseBody(
+      "user",
+      { success: true },
+      { payload, encoding: "base64", contentType: "image/png" },
+      "https://api.example.com",
+    );
+
+    expect(parse(result)).toEqual({ success: true, contentType: "image/png", size: 100 });
+    expect(result.content[1]).toEqual({ type: "image", data: payload, mimeType: "image/png" });
+    expect(mockStoreResponseBody).not.toHaveBeenCalled();
+  });
+
+  it("stores an image whose base64 is over the budget", async () => {
+    const { renderResponseBody } = await import("./response-paging");
+    const body = { payload: Buffer.alloc(100, 7).toString("base64"), encoding: "base64" as const, contentType: "image/png" };
+
+    const result = await renderResponseBody("user", { success: true }, body, "https://api.example.com");
+
+    expect(mockStoreResponseBody).toHaveBeenCalledWith("user", body);
+    expect(result.content).toHaveLength(1);
+    expect(parse(result)).toMatchObject({ truncated: true, resultId: "body-1", totalSize: 100 });
+    expect(parse(result).message).toContain("20-character budget");
+  });
+});
+
+describe("pageResponseBody", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("pages through text by offset and length", async () => {
+    const { pageResponseBody } = await import("./response-paging");
+
+    const result = pageResponseBody(text("abcdefghij", "text/plain"), { offset: 4, length: 3 });
+
+    expect(parse(result)).toEqual({ offset: 4, length: 3, totalLength: 10, nextOffset: 7, data: "efg" });
+  });
+
+  it("caps a page at the response budget", async () => {
+    vi.stubEnv("MCP_RESPONSE_MAX_CHARS", "4");
+    const { pageResponseBody } = await import("./response-paging");
+
+    const result = pageResponseBody(text("abcdefghij", "text/plain"), { offset: 8, length: 100 });
+
+    expect(parse(result)).toMatchObject({ length: 2, nextOffset: null, data: "ij" });
+  });
+
+  it("selects a value with a JSON pointer", async () => {
+    const { pageResponseBody } = await import("./response-paging");
+
+    const result = pageResponseBody(text(JSON.stringify(ITEMS)), { pointer: "/items/1" });
+
+    expect(parse(result)).toEqual({ pointer: "/items/1", data: { name: "c", price: 2 } });
+  });
+
+  it("reports a pointer that matches nothing", async () => {
+    const { pageResponseBody } = await import("./response-paging");
+
+    const result = pageResponseBody(text(JSON.stringify(ITEMS)), { pointer: "/items/5" });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Nothing found at JSON pointer "/items/5"');
+  });
+
+  it("pages binary bodies by bytes", async () => {
+    const { pageResponseBody } = await import("./response-paging");
+    const body = { payload: Buffer.from([1, 2, 3, 4, 5]).toString("base64"), encoding: "base64" as const, contentType: "application/pdf" };
+
+    const result = pageResponseBody(body, { offset: 1, length: 2 });
+
+    expect(parse(result)).toMatchObject({ offset: 1, length: 2, totalSize: 5, nextOffset: 3, data: Buffer.from([2, 3]).toString("base64") });
+  });
+});
+
+describe("applySelect", () => {
+  it("returns the selection as a JSON body", async () => {
+    const { applySelect } = await import("./response-paging");
+
+    const selected = applySelect(text(JSON.stringify(ITEMS), "application/json; charset=utf-8"), "$.items[*].price");
+
+    expect(selected).toEqual({ payload: "[1,2]", encoding: "utf8", contentType: "application/json" });
+  });
+
+  it("rejects bodies that are not JSON", async () => {
+    const { applySelect } = await import("./response-paging");
+
+    expect(() => applySelect(text("plain", "text/plain"), "$.a")).toThrow("this response is not valid JSON");
+    expect(() => applySelect({ payload: "iVBORw==", encoding: "base64", contentType: "image/png" }, "$.a")).toThrow(
+      "this response is binary (image/png)",
+    );
+  });
+});
+
+describe("resolveJsonPointer", () => {
+  it("unescapes ~1 and ~0 in segments", async () => {
+    const { resolveJsonPointer } = await import("./response-paging");
+
+    expect(resolveJsonPointer({ "a/b": { "m~n": 1 } }, "/a~1b/m~0n")).toBe(1);
+    expect(resolveJsonPointer(ITEMS, "")).toBe(ITEMS);
+    expect(() => resolveJsonPointer(ITEMS, "items")).toThrow("must be empty or start with");
+  });
+});
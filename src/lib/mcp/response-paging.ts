@@ -0,0 +1,153 @@
+import { storeResponseBody } from "@/lib/data/response-bodies";
+import { selectJsonPath } from "@/lib/json-path";
+import { base64ByteLength, getResponseBudget, type ResponseBody } from "@/lib/x402/response-body";
+import { jsonContent, responseContent, textContent, type ToolResult } from "./shared";
+
+/** Which part of a stored body to return from x402_get_result. */
+export interface ResponsePage {
+  /** RFC 6901 JSON pointer into a JSON body, e.g. "/items/0/name". */
+  pointer?: string;
+  /** Start of the page: characters for text, bytes for binary bodies. */
+  offset?: number;
+  /** Size of the page, in the same unit as `offset`. Capped by the response budget. */
+  length?: number;
+}
+
+/**
+ * Render a response body within the response budget, measured in characters
+ * of the payload as returned: the text, or the base64 of a binary body. A
+ * body that fits is returned whole. A larger one is stored (unless it already
+ * was, as `storedBodyId`) and replaced by a preview and a `resultId` that
+ * x402_get_result pages through.
+ */
+export async function renderResponseBody(
+  userId: string,
+  summary: Record<string, unknown>,
+  body: ResponseBody,
+  uri: string,
+  storedBodyId?: string | null,
+): Promise<ToolResult> {
+  const budget = getResponseBudget();
+  if (body.payload.length <= budget) {
+    return responseContent(summary, body, uri);
+  }
+
+  const resultId = storedBodyId ?? await storeResponseBody(userId, body);
+  const isText = body.encoding === "utf8";
+  return jsonContent({
+    ...summary,
+    truncated: true,
+    resultId,
+    contentType: body.contentType,
+    ...(isText
+      ? { totalLength: body.payload.length, preview: body.payload.slice(0, budget) }
+      : { totalSize: base64ByteLength(body.payload) }),
+    message: isText
+      ? `The response is larger than the ${budget}-character budget, so only the start is shown. Call x402_get_result with this resultId and offset/length (characters) or a JSON pointer to read the rest.`
+      : `The response's base64 is larger than the ${budget}-character budget. Call x402_get_result with this resultId and offset/length (bytes) to read it in pages that each fit the budget.`,
+  });
+}
+
+/**
+ * Apply a JSONPath `select` expression to a JSON body and return the
+ * selection as a new JSON body, so only the selected fields reach the agent.
+ * Throws when the body is not JSON or the path is invalid or matches nothing.
+ */
+export function applySelect(body: ResponseBody, select: string): ResponseBody {
+  if (body.encoding === "base64") {
+    throw new Error(`select only applies to JSON responses; this response is binary (${body.contentType ?? "application/octet-stream"})`);
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body.payload);
+  } catch {
+    throw new Error("select only applies to JSON responses; this response is not valid JSON");
+  }
+  return {
+    payload: JSON.stringify(selectJsonPath(parsed, select)),
+    encoding: "utf8",
+    contentType: "application/json",
+  };
+}
+
+/**
+ * Resolve an RFC 6901 JSON pointer. Returns undefined if any segment is
+ * missing.
+ */
+export function resolveJsonPointer(value: unknown, pointer: string): unknown {
+  if (pointer === "") return value;
+  if (!pointer.startsWith("/")) {
+    throw new Error(`Invalid JSON pointer "${pointer}": it must be empty or start with "/"`);
+  }
+  let current = value;
+  for (const raw of pointer.slice(1).split("/")) {
+    const segment = raw.replace(/~1/g, "/").replace(/~0/g, "~");
+    if (Array.isArray(current)) {
+      if (!/^(0|[1-9]\d*)$/.test(segment)) return undefined;
+      current = current[Number(segment)];
+    } else if (current !== null && typeof current === "object" && Object.hasOwn(current, segment)) {
+      current = (current as Record<string, unknown>)[segment];
+    } else {
+      return undefined;
+    }
+  }
+  return current;
+}
+
+/**
+ * Return one page of a stored body. A pointer selects a value from a JSON
+ * body first; offset/length then page through that value's JSON text, or
+ * through the whole body without a pointer.
+ */
+export function pageResponseBody(body: ResponseBody, page: ResponsePage): ToolResult {
+  const budget = getResponseBudget();
+  const offset = page.offset ?? 0;
+
+  if (body.encoding === "base64") {
+    if (page.pointer !== undefined) {
+      return textContent("Error: JSON pointers only apply to JSON responses; this response is binary", true);
+    }
+    const bytes = Buffer.from(body.payload, "base64");
+    const maxBytes = Math.floor((budget * 3) / 4);
+    const chunk = bytes.subarray(offset, offset + Math.min(page.length ?? maxBytes, maxBytes));
+    const end = offset + chunk.length;
+    return jsonContent({
+      contentType: body.contentType,
+      encoding: "base64",
+      offset,
+      length: chunk.length,
+      totalSize: bytes.length,
+      nextOffset: end < bytes.length ? end : null,
+      data: chunk.toString("base64"),
+    });
+  }
+
+  let text = body.payload;
+  if (page.pointer !== undefined) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(body.payload);
+    } catch {
+      return textContent("Error: JSON pointers only apply to JSON responses; this response is not valid JSON", true);
+    }
+    const selected = resolveJsonPointer(parsed, page.pointer);
+    if (selected === undefined) {
+      return textContent(`Error: Nothing found at JSON pointer "${page.pointer}"`, true);
+    }
+    text = JSON.stringify(selected);
+    if (page.offset === undefined && page.length === undefined && text.length <= budget) {
+      return jsonContent({ pointer: page.pointer, data: selected });
+    }
+  }
+
+  const chunk = text.slice(offset, offset + Math.min(page.length ?? budget, budget));
+  const end = offset + chunk.length;
+  return jsonContent({
+    ...(page.pointer !== undefined && { pointer: page.pointer }),
+    offset,
+    length: chunk.length,
+    totalLength: text.length,
+    nextOffset: end < text.length ? end : null,
+    data: chunk,
+  });
+}
@@ -1,13 +1,23 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { registerTools } from "./register-tools";
+import type { ApiKeyScope } from "./tool-registry";
 
-export function createMcpServer(userId: string): McpServer {
-  const server = new McpServer({
-    name: "brevet",
-    version: "0.1.0",
-  });
+export function createMcpServer(
+  userId: string,
+  apiKeyId?: string,
+  scopes?: readonly ApiKeyScope[],
+  oauthClientId?: string,
+): McpServer {
+  const server = new McpServer(
+    {
+      name: "brevet",
+      version: "0.1.0",
+    },
+    // Payment status updates are sent as logging notifications in stateful sessions
+    { capabilities: { logging: {} } },
+  );
 
-  registerTools(server, userId);
+  registerTools(server, userId, apiKeyId, scopes, oauthClientId);
 
   return server;
 }
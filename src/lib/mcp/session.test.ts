@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { LATEST_PROTOCOL_VERSION } from "@modelcontextprotocol/sdk/types.js";
+
+const mockResumeMcpSession = vi.fn();
+vi.mock("@/lib/data/mcp-sessions", () => ({
+  createMcpSession: vi.fn(),
+  deleteMcpSession: vi.fn(),
+  resumeMcpSession: (...args: unknown[]) => mockResumeMcpSession(...args),
+  storeMcpClientResponses: vi.fn(),
+  takeMcpClientResponses: vi.fn(() => Promise.resolve([])),
+  takeMcpSessionNotifications: vi.fn(() => Promise.resolve([])),
+  updateMcpSessionDirectoryVersion: vi.fn(),
+}));
+vi.mock("@/lib/data/payments", () => ({ expireSessionPayments: vi.fn() }));
+vi.mock("@/lib/merchants", () => ({ getDirectoryVersion: () => "v1" }));
+vi.mock("@/lib/logger", () => ({
+  logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+const SESSION_ID = "session-1";
+
+/** A server with one tool that reports what the SDK knows about the client. */
+function createServer() {
+  const server = new McpServer({ name: "test", version: "0.0.0" });
+  server.registerTool("whoami", { description: "Report the client" }, () => ({
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify({
+          capabilities: server.server.getClientCapabilities() ?? null,
+          clientInfo: server.server.getClientVersion() ?? null,
+        }),
+      },
+    ],
+  }));
+  return server;
+}
+
+function toolCall(sessionId: string) {
+  return new Request("https://brevet.example/api/mcp/abc", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "application/json, text/event-stream",
+      "Mcp-Session-Id": sessionId,
+      "Mcp-Protocol-Version": LATEST_PROTOCOL_VERSION,
+    },
+    body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/call", params: { name: "whoami", arguments: {} } }),
+  });
+}
+
+/** The JSON-RPC message in an SSE response body. */
+async function readSseMessage(response: Response) {
+  const data = (await response.text()).split("\n").find((line) => line.startsWith("data: "));
+  return JSON.parse(data!.slice("data: ".length));
+}
+
+describe("handleStatefulMcpRequest — resuming a session", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("restores the initialized state and client capabilities on a fresh server", async () => {
+    const { handleStatefulMcpRequest } = await import("./session");
+    mockResumeMcpSession.mockResolvedValue({
+      sessionId: SESSION_ID,
+      credentialId: "key-1",
+      directoryVersion: "v1",
+      initializeParams: {
+        protocolVersion: LATEST_PROTOCOL_VERSION,
+        capabilities: { elicitation: { form: {} } },
+        clientInfo: { name: "agent", version: "1.2.3" },
+      },
+    });
+
+    const response = await handleStatefulMcpRequest(
+      toolCall(SESSION_ID),
+      { userId: "user-1", credentialId: "key-1" },
+      createServer,
+    );
+
+    expect(response.status).toBe(200);
+    const message = await readSseMessage(response);
+    expect(JSON.parse(message.result.content[0].text)).toEqual({
+      capabilities: { elicitation: { form: {} } },
+      clientInfo: { name: "agent", version: "1.2.3" },
+    });
+  });
+
+  it("answers 404 for an unknown session", async () => {
+    const { handleStatefulMcpRequest } = await import("./session");
+    mockResumeMcpSession.mockResolvedValue(null);
+
+    const response = await handleStatefulMcpRequest(
+      toolCall("missing"),
+      { userId: "user-1", credentialId: "key-1" },
+      createServer,
+    );
+
+    expect(response.status).toBe(404);
+  });
+});
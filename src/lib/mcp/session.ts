@@ -0,0 +1,300 @@
+/**
+ * Optional stateful MCP sessions (MCP_STATEFUL_SESSIONS=true).
+ *
+ * Sessions live in MongoDB rather than in memory, so any serverless instance
+ * can serve any request: each request builds a fresh server and transport and
+ * rebinds it to the stored session. Server-to-client notifications are queued
+ * in an outbox and delivered by whichever instance holds the session's GET
+ * SSE stream. Delivery is at most once; agents that miss a notification can
+ * still call x402_check_pending.
+ *
+ * Server-to-client requests (elicitations) work the other way round: the
+ * client POSTs its reply separately, so replies go through a MongoDB inbox to
+ * the instance whose tool call is waiting for them.
+ */
+import { randomUUID } from "crypto";
+import { setTimeout as sleep } from "timers/promises";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { WebStandardStreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/webStandardStreamableHttp.js";
+import {
+  InitializeRequestSchema,
+  LATEST_PROTOCOL_VERSION,
+  isJSONRPCErrorResponse,
+  isJSONRPCNotification,
+  isJSONRPCRequest,
+  isJSONRPCResultResponse,
+  type JSONRPCMessage,
+  type RequestId,
+  type ServerNotification,
+} from "@modelcontextprotocol/sdk/types.js";
+import {
+  createMcpSession,
+  deleteMcpSession,
+  resumeMcpSession,
+  storeMcpClientResponses,
+  takeMcpClientResponses,
+  takeMcpSessionNotifications,
+  updateMcpSessionDirectoryVersion,
+} from "@/lib/data/mcp-sessions";
+import type { McpSessionDTO } from "@/lib/models/mcp-session";
+import { expireSessionPayments } from "@/lib/data/payments";
+import { getDirectoryVersion } from "@/lib/merchants";
+import { logger } from "@/lib/logger";
+
+/** How often an open SSE stream checks the session's notification outbox. */
+const NOTIFICATION_POLL_INTERVAL_MS = 2_000;
+
+/**
+ * SSE streams are closed after this long so the function invocation can end;
+ * clients reconnect with a new GET, which may land on another instance.
+ */
+const NOTIFICATION_STREAM_MAX_MS = 50_000;
+
+/** How often a tool call waiting on a client reply checks the inbox. */
+const CLIENT_RESPONSE_POLL_INTERVAL_MS = 1_000;
+
+/** Stop waiting for a client reply after this long, even if the request was never cancelled. */
+const CLIENT_RESPONSE_MAX_WAIT_MS = 2 * 60_000;
+
+/** Replayed for a session whose initialize params were not recorded: no client capabilities. */
+const RESUME_INITIALIZE_FALLBACK = {
+  protocolVersion: LATEST_PROTOCOL_VERSION,
+  capabilities: {},
+  clientInfo: { name: "unknown", version: "0" },
+};
+
+export function isStatefulMcpEnabled(): boolean {
+  return process.env.MCP_STATEFUL_SESSIONS === "true";
+}
+
+/** 404 for an unknown or expired session; the client must initialize a new one. */
+function sessionNotFound(): Response {
+  return new Response(
+    JSON.stringify({
+      jsonrpc: "2.0",
+      error: { code: -32001, message: "Session not found" },
+      id: null,
+    }),
+    { status: 404, headers: { "Content-Type": "application/json" } },
+  );
+}
+
+/** The POST body's JSON-RPC messages, or null if it is not a JSON POST. */
+async function readMessages(request: Request): Promise<unknown[] | null> {
+  if (request.method !== "POST") return null;
+  try {
+    const body: unknown = await request.clone().json();
+    return Array.isArray(body) ? body : [body];
+  } catch {
+    return null; // Let the transport report malformed JSON
+  }
+}
+
+/** The params of an initialize request, normalized by the SDK schema. */
+async function readInitializeParams(request: Request): Promise<Record<string, unknown> | null> {
+  const messages = await readMessages(request);
+  const initialize = messages?.length === 1 ? InitializeRequestSchema.safeParse(messages[0]) : null;
+  return initialize?.success ? initialize.data.params : null;
+}
+
+/**
+ * Store a POST that only carries replies to server-to-client requests for
+ * the waiting tool call and acknowledge it. Returns null for any other request.
+ */
+async function relayClientResponses(request: Request, sessionId: string): Promise<Response | null> {
+  const messages = await readMessages(request);
+  if (!messages || messages.length === 0) return null;
+  if (!messages.every((m) => isJSONRPCResultResponse(m) || isJSONRPCErrorResponse(m))) return null;
+
+  await storeMcpClientResponses(
+    sessionId,
+    messages.map((message) => ({
+      requestId: String((message as { id: RequestId }).id),
+      message: message as Record<string, unknown>,
+    })),
+  );
+  return new Response(null, { status: 202 });
+}
+
+/**
+ * Deliver replies to this server's requests from the MongoDB inbox. Outgoing
+ * request IDs are replaced with random ones, since every per-request server
+ * numbers its requests from zero, and mapped back when the reply arrives.
+ */
+function receiveClientResponses(transport: WebStandardStreamableHTTPServerTransport, sessionId: string): void {
+  const send = transport.send.bind(transport);
+  const waiting = new Map<string, { originalId: RequestId; deadline: number }>();
+  let polling = false;
+
+  const poll = async () => {
+    polling = true;
+    try {
+      while (waiting.size > 0) {
+        await sleep(CLIENT_RESPONSE_POLL_INTERVAL_MS);
+        for (const [relayId, { deadline }] of waiting) {
+          if (Date.now() > deadline) waiting.delete(relayId);
+        }
+        if (waiting.size === 0) break;
+
+        const responses = await takeMcpClientResponses(sessionId, [...waiting.keys()]);
+        for (const { requestId, message } of responses) {
+          const entry = waiting.get(requestId);
+          waiting.delete(requestId);
+          if (entry) transport.onmessage?.({ ...message, id: entry.originalId } as JSONRPCMessage);
+        }
+      }
+    } finally {
+      polling = false;
+    }
+  };
+
+  transport.send = async (message, options) => {
+    if (isJSONRPCRequest(message)) {
+      const relayId = randomUUID();
+      waiting.set(relayId, { originalId: message.id, deadline: Date.now() + CLIENT_RESPONSE_MAX_WAIT_MS });
+      if (!polling) {
+        poll().catch((error) => {
+          logger.error("MCP client response relay failed", {
+            sessionId,
+            action: "mcp_client_response_relay_failed",
+            error: error instanceof Error ? error.message : String(error),
+          });
+        });
+      }
+      return send({ ...message, id: relayId }, options);
+    }
+
+    // A timed-out or aborted request: stop waiting and cancel it under the ID the client saw
+    if (isJSONRPCNotification(message) && message.method === "notifications/cancelled") {
+      for (const [relayId, { originalId }] of waiting) {
+        if (originalId === message.params?.requestId) {
+          waiting.delete(relayId);
+          return send({ ...message, params: { ...message.params, requestId: relayId } }, options);
+        }
+      }
+    }
+    return send(message, options);
+  };
+}
+
+/**
+ * Connect a server to a transport bound to an existing session. The session
+ * was initialized by an earlier request, possibly on another instance; the
+ * SDK only tracks that (and the client's capabilities) in memory. Replaying
+ * the stored initialize request through the new transport restores both
+ * through the SDK's own initialize handling.
+ */
+async function resumeTransport(server: McpServer, session: McpSessionDTO): Promise<WebStandardStreamableHTTPServerTransport> {
+  const transport = new WebStandardStreamableHTTPServerTransport({
+    sessionIdGenerator: () => session.sessionId,
+    onsessionclosed: deleteMcpSession,
+  });
+  await server.connect(transport);
+
+  const replay = await transport.handleRequest(
+    new Request("http://localhost/mcp", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "application/json, text/event-stream" },
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        id: "session-resume",
+        method: "initialize",
+        params: session.initializeParams ?? RESUME_INITIALIZE_FALLBACK,
+      }),
+    }),
+  );
+  // The initialize response is written to the replay's stream; drain it so
+  // the session is fully set up before the real request is handled
+  await replay.text();
+  if (!replay.ok) {
+    throw new Error(`Could not resume MCP session: initialize replay returned ${replay.status}`);
+  }
+  return transport;
+}
+
+/**
+ * Deliver the session's queued notifications over an open GET SSE stream
+ * until the client disconnects or the stream's time is up. Also expires the
+ * session's overdue payments so their notifications go out without anyone
+ * polling. Runs in the background; the caller returns the stream response.
+ */
+function streamSessionNotifications(
+  server: McpServer,
+  transport: WebStandardStreamableHTTPServerTransport,
+  sessionId: string,
+  signal: AbortSignal,
+): void {
+  const deadline = Date.now() + NOTIFICATION_STREAM_MAX_MS;
+
+  const deliver = async () => {
+    while (!signal.aborted && Date.now() < deadline) {
+      await expireSessionPayments(sessionId);
+      const notifications = await takeMcpSessionNotifications(sessionId);
+      for (const notification of notifications) {
+        await server.server.notification(notification as ServerNotification);
+      }
+      await sleep(NOTIFICATION_POLL_INTERVAL_MS);
+    }
+  };
+
+  deliver()
+    .catch((error) => {
+      logger.error("MCP notification stream failed", {
+        sessionId,
+        action: "mcp_notification_stream_failed",
+        error: error instanceof Error ? error.message : String(error),
+      });
+    })
+    .finally(() => transport.closeStandaloneSSEStream());
+}
+
+/**
+ * Handle a request in stateful mode. Without an Mcp-Session-Id the request
+ * must be an initialize, which records a new session. With one, the session
+ * must exist and belong to the same credential.
+ */
+export async function handleStatefulMcpRequest(
+  request: Request,
+  caller: { userId: string; credentialId: string },
+  createServer: () => McpServer,
+): Promise<Response> {
+  const sessionId = request.headers.get("mcp-session-id");
+  if (!sessionId) {
+    const initializeParams = await readInitializeParams(request);
+    const transport = new WebStandardStreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: async (id) => {
+        await createMcpSession({
+          sessionId: id,
+          userId: caller.userId,
+          credentialId: caller.credentialId,
+          directoryVersion: getDirectoryVersion(),
+          initializeParams,
+        });
+      },
+    });
+    await createServer().connect(transport);
+    return transport.handleRequest(request);
+  }
+
+  const session = await resumeMcpSession(sessionId, caller.credentialId);
+  if (!session) return sessionNotFound();
+
+  const relayed = await relayClientResponses(request, sessionId);
+  if (relayed) return relayed;
+
+  const directoryVersion = getDirectoryVersion();
+  if (session.directoryVersion !== directoryVersion) {
+    await updateMcpSessionDirectoryVersion(sessionId, directoryVersion);
+  }
+
+  const server = createServer();
+  const transport = await resumeTransport(server, session);
+  receiveClientResponses(transport, sessionId);
+
+  const response = await transport.handleRequest(request);
+  if (request.method === "GET" && response.ok) {
+    streamSessionNotifications(server, transport, sessionId, request.signal);
+  }
+  return response;
+}
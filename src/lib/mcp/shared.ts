@@ -1,5 +1,11 @@
 import { resolveChain, getAllChains, getChainById } from "@/lib/chain-config";
 import { isChainEnabledForUser, getUserEnabledChains } from "@/lib/data/user";
+import {
+  base64ByteLength,
+  getMediaType,
+  parseTextBody,
+  type ResponseBody,
+} from "@/lib/x402/response-body";
 
 export function resolveChainParam(chain: string): number {
   const config = resolveChain(chain);
@@ -25,8 +31,19 @@ export async function validateChainEnabled(userId: string, chainId: number): Pro
 
 export { getUserEnabledChains };
 
+export type TextContent = { type: "text"; text: string };
+
+/** Binary content returned alongside the text of a tool result. */
+export type BinaryContent =
+  | { type: "image"; data: string; mimeType: string }
+  | { type: "resource"; resource: { uri: string; mimeType: string; blob: string } };
+
+/**
+ * A tool result. The first block is always text, so it can be replayed and
+ * logged; binary response bodies follow it as image or resource blocks.
+ */
 export type ToolResult = {
-  content: Array<{ type: "text"; text: string }>;
+  content: [TextContent, ...BinaryContent[]];
   isError?: boolean;
 };
 
@@ -41,6 +58,39 @@ export function jsonContent(obj: unknown, isError?: boolean): ToolResult {
   return textContent(JSON.stringify(obj, null, 2), isError);
 }
 
+/**
+ * A binary response body as MCP content: images as image content, anything
+ * else as an embedded resource identified by the URL it came from.
+ */
+export function binaryContent(base64: string, contentType: string | null, uri: string): BinaryContent {
+  const mimeType = getMediaType(contentType) || "application/octet-stream";
+  if (mimeType.startsWith("image/")) {
+    return { type: "image", data: base64, mimeType };
+  }
+  return { type: "resource", resource: { uri, mimeType, blob: base64 } };
+}
+
+/**
+ * Render a response body: JSON and text go into `summary` as `data`, binary
+ * bodies follow the summary as their own content block.
+ */
+export function responseContent(
+  summary: Record<string, unknown>,
+  body: ResponseBody,
+  uri: string,
+): ToolResult {
+  if (body.encoding === "base64") {
+    const result = jsonContent({
+      ...summary,
+      contentType: body.contentType,
+      size: base64ByteLength(body.payload),
+    });
+    result.content.push(binaryContent(body.payload, body.contentType, uri));
+    return result;
+  }
+  return jsonContent({ ...summary, data: parseTextBody(body.payload, body.contentType) });
+}
+
 export function toolError(
   error: unknown,
   fallback = "Operation failed",
@@ -1,34 +1,81 @@
+/**
+ * What an API key may do. Each MCP tool belongs to exactly one scope, and a
+ * key only exposes the tools in its scopes.
+ */
+export const API_KEY_SCOPES = ["read", "discover", "pay"] as const;
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export const API_KEY_SCOPE_LABELS: Record<ApiKeyScope, string> = {
+  read: "Read balances, history and payment results",
+  discover: "Discover endpoints and quote prices",
+  pay: "Make payments",
+};
+
 export interface McpToolDescriptor {
   name: string;
   summary: string;
+  scope: ApiKeyScope;
 }
 
 export const MCP_TOOLS = [
-  { name: "x402_pay", summary: "Make payments to x402-protected APIs" },
+  { name: "x402_pay", summary: "Make payments to x402-protected APIs", scope: "pay" },
+  {
+    name: "x402_request_grant",
+    summary: "Request a task-scoped spending grant",
+    scope: "pay",
+  },
+  {
+    name: "x402_quote",
+    summary: "Preview price and policy decision without paying",
+    scope: "discover",
+  },
   {
     name: "x402_check_balance",
     summary: "Check smart account USDC balance",
+    scope: "read",
   },
   {
     name: "x402_spending_history",
     summary: "Query transaction history",
+    scope: "read",
   },
   {
     name: "x402_check_pending",
     summary: "Check pending payment status",
+    scope: "read",
   },
   {
     name: "x402_get_result",
     summary: "Retrieve completed payment results",
+    scope: "read",
+  },
+  {
+    name: "x402_wait_for_payment",
+    summary: "Wait for a pending payment to finish",
+    scope: "read",
   },
   {
     name: "x402_discover",
     summary: "Search for available x402 endpoints",
+    scope: "discover",
   },
   {
     name: "x402_browse_directory",
     summary: "Browse the curated merchant directory",
+    scope: "discover",
   },
 ] as const satisfies readonly McpToolDescriptor[];
 
+export type McpToolName = (typeof MCP_TOOLS)[number]["name"];
+
 export const MCP_TOOL_NAMES = MCP_TOOLS.map((t) => t.name);
+
+/** The tools a key with `scopes` may use, in registry order. */
+export function getToolsForScopes(scopes: readonly ApiKeyScope[]): McpToolDescriptor[] {
+  return MCP_TOOLS.filter((tool) => scopes.includes(tool.scope));
+}
+
+/** The scope a tool belongs to, or undefined if it is not a known tool. */
+export function getToolScope(name: string): ApiKeyScope | undefined {
+  return MCP_TOOLS.find((tool) => tool.name === name)?.scope;
+}
@@ -2,17 +2,20 @@ import { z } from "zod/v4";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { getSmartAccountBalance, getAllSmartAccounts } from "@/lib/data/smart-account";
 import { getChainById } from "@/lib/chain-config";
+import { getApiKeyBudgetStatus, getBudgetStatus, getOAuthClientBudgetStatus } from "@/lib/budget";
 import { resolveChainParam, validateChainEnabled, getUserEnabledChains, textContent, jsonContent, toolError } from "../shared";
 
 export function registerX402CheckBalance(
   server: McpServer,
   userId: string,
+  apiKeyId?: string,
+  oauthClientId?: string,
 ): void {
   server.registerTool(
     "x402_check_balance",
     {
       description:
-        "Check the user's smart account USDC balance. If no chain is specified, returns balances across ALL chains where the user has a smart account. If a chain is specified, returns only that chain's balance. Chains without a smart account are indicated.",
+        "Check the user's smart account USDC balance. If no chain is specified, returns balances across ALL chains where the user has a smart account. If a chain is specified, returns only that chain's balance. Chains without a smart account are indicated. Also returns the remaining account-wide spending budget (daily and monthly, in USD, across all chains) and the calling API key's or app's own remaining budget and per-request cap; a null period or cap means no limit is set.",
       inputSchema: {
         chain: z
           .string()
@@ -49,6 +52,9 @@ export function registerX402CheckBalance(
             chainId,
             smartAccountAddress: result.address,
             usdcBalance: result.balance,
+            budget: await getBudgetStatus(userId),
+            apiKeyBudget: apiKeyId ? await getApiKeyBudgetStatus(apiKeyId) : null,
+            appBudget: oauthClientId ? await getOAuthClientBudgetStatus(userId, oauthClientId) : null,
           });
         }
 
@@ -86,7 +92,13 @@ export function registerX402CheckBalance(
           }),
         );
 
-        return jsonContent({ balances });
+        const [budget, apiKeyBudget, appBudget] = await Promise.all([
+          getBudgetStatus(userId),
+          apiKeyId ? getApiKeyBudgetStatus(apiKeyId) : null,
+          oauthClientId ? getOAuthClientBudgetStatus(userId, oauthClientId) : null,
+        ]);
+
+        return jsonContent({ balances, budget, apiKeyBudget, appBudget });
       } catch (error) {
         return toolError(error, "Failed to check balance");
       }
@@ -4,7 +4,126 @@ import {
   getPendingPayment,
   expirePaymentWithAudit,
 } from "@/lib/data/payments";
-import { textContent, jsonContent, toolError } from "../shared";
+import { getStoredResponseBody } from "@/lib/data/response-bodies";
+import type { PendingPaymentDTO } from "@/lib/models/pending-payment";
+import type { ResponseBody } from "@/lib/x402/response-body";
+import { textContent, jsonContent, toolError, type ToolResult } from "../shared";
+import { applySelect, pageResponseBody, renderResponseBody } from "../response-paging";
+
+/**
+ * The full response body of a completed payment: from GridFS when it was
+ * too large to keep on the document, inline otherwise.
+ */
+async function getPaymentResponseBody(payment: PendingPaymentDTO, userId: string): Promise<ResponseBody> {
+  const stored = payment.responseBodyId ? await getStoredResponseBody(payment.responseBodyId, userId) : null;
+  return stored ?? {
+    payload: payment.responsePayload ?? "",
+    encoding: payment.responseEncoding,
+    contentType: payment.responseContentType,
+  };
+}
+
+/**
+ * Apply a select expression, turning a failed selection into a tool error.
+ * The payment stays completed and the full body stays stored either way.
+ */
+function selectOrError(body: ResponseBody, select: string): { body: ResponseBody } | { error: ToolResult } {
+  try {
+    return { body: applySelect(body, select) };
+  } catch (error) {
+    return { error: textContent(`Error: Could not apply select: ${(error as Error).message}`, true) };
+  }
+}
+
+/**
+ * Render a payment's current outcome: the response data once completed, or
+ * its status otherwise. Expires the payment if its approval window passed.
+ * Shared by x402_get_result and x402_wait_for_payment.
+ */
+export async function getPaymentResult(paymentId: string, userId: string): Promise<ToolResult> {
+  const payment = await getPendingPayment(paymentId, userId);
+
+  if (!payment) {
+    return textContent("Error: Payment not found", true);
+  }
+
+  if (payment.status === "completed") {
+    return renderResponseBody(
+      userId,
+      {
+        status: "completed",
+        responseStatus: payment.responseStatus,
+        txHash: payment.txHash,
+      },
+      await getPaymentResponseBody(payment, userId),
+      payment.url,
+      payment.responseBodyId,
+    );
+  }
+
+  if (payment.status === "pending") {
+    if (Date.now() > new Date(payment.expiresAt).getTime()) {
+      await expirePaymentWithAudit(paymentId, userId);
+      return jsonContent({
+        status: "expired",
+        message:
+          "Payment approval has expired. Initiate a new payment with x402_pay.",
+      });
+    }
+
+    const timeRemainingSeconds = Math.max(
+      0,
+      Math.floor(
+        (new Date(payment.expiresAt).getTime() - Date.now()) / 1000,
+      ),
+    );
+
+    return jsonContent({
+      status: "awaiting_signature",
+      message:
+        "Payment not yet signed. Ask the user to approve it in the dashboard.",
+      timeRemainingSeconds,
+    });
+  }
+
+  if (payment.status === "approved") {
+    return jsonContent({
+      status: "processing",
+      message:
+        "Payment is signed and being processed. Try again shortly.",
+    });
+  }
+
+  if (payment.status === "failed") {
+    return jsonContent({
+      status: "failed",
+      responseStatus: payment.responseStatus,
+      error: payment.responseEncoding === "base64"
+        ? `Server returned a binary ${payment.responseContentType ?? "application/octet-stream"} body`
+        : payment.responsePayload,
+    });
+  }
+
+  if (payment.status === "rejected") {
+    return jsonContent({
+      status: "rejected",
+      message: "Payment was rejected by the user.",
+    });
+  }
+
+  if (payment.status === "expired") {
+    return jsonContent({
+      status: "expired",
+      message:
+        "Payment approval has expired. Initiate a new payment with x402_pay.",
+    });
+  }
+
+  return jsonContent({
+    status: payment.status,
+    message: "Unknown payment status",
+  });
+}
 
 export function registerX402GetResult(
   server: McpServer,
@@ -14,100 +133,78 @@ export function registerX402GetResult(
     "x402_get_result",
     {
       description:
-        "Retrieves the result of a previously initiated x402 payment. Call this after the user confirms they have signed the payment in the dashboard. Returns the protected resource data if payment is complete, or the current status if still pending.",
+        "Retrieves the result of a previously initiated x402 payment. Call this after the user confirms they have signed the payment in the dashboard. Returns the protected resource data if payment is complete (images as image content, other binary data as an embedded resource), or the current status if still pending. Responses over the response budget are truncated; pass the resultId (or paymentId) with offset/length or a JSON pointer to read them in pages. Pass select with a JSONPath expression to return only part of a JSON response.",
       inputSchema: {
         paymentId: z
           .string()
           .max(64)
-          .describe("The payment ID returned by x402_pay"),
+          .optional()
+          .describe("The payment ID returned by x402_pay for a payment that needed approval"),
+        resultId: z
+          .string()
+          .max(64)
+          .optional()
+          .describe("The resultId returned with a truncated response"),
+        offset: z
+          .number()
+          .int()
+          .min(0)
+          .optional()
+          .describe("Where to start reading: characters for text responses, bytes for binary ones. Defaults to 0."),
+        length: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe("How much to read, in the same unit as offset. Capped by the response budget."),
+        pointer: z
+          .string()
+          .max(1024)
+          .optional()
+          .describe('JSON pointer (RFC 6901) selecting part of a JSON response, e.g. "/items/0". offset and length then page through the selected value.'),
+        select: z
+          .string()
+          .max(1024)
+          .optional()
+          .describe('JSONPath expression applied to a JSON response before it is returned or paged, e.g. "$.items[*].price". Filter expressions are not supported.'),
       },
     },
-    async ({ paymentId }) => {
+    async ({ paymentId, resultId, offset, length, pointer, select }) => {
       try {
-        const payment = await getPendingPayment(paymentId, userId);
-
-        if (!payment) {
-          return textContent("Error: Payment not found", true);
+        if (paymentId && resultId) {
+          return textContent("Error: Pass either paymentId or resultId, not both", true);
         }
+        const page = { offset, length, pointer };
+        const isPaging = offset !== undefined || length !== undefined || pointer !== undefined;
 
-        if (payment.status === "completed") {
-          let data: unknown = payment.responsePayload;
-          if (typeof payment.responsePayload === "string") {
-            try {
-              data = JSON.parse(payment.responsePayload);
-            } catch {
-              // Not JSON, keep as text
-            }
-          }
-
-          return jsonContent({
-            status: "completed",
-            responseStatus: payment.responseStatus,
-            data,
-            txHash: payment.txHash,
-          });
+        if (resultId) {
+          const body = await getStoredResponseBody(resultId, userId);
+          if (!body) return textContent("Error: Result not found", true);
+          if (select === undefined) return pageResponseBody(body, page);
+          const selected = selectOrError(body, select);
+          return "error" in selected ? selected.error : pageResponseBody(selected.body, page);
         }
 
-        if (payment.status === "pending") {
-          if (Date.now() > new Date(payment.expiresAt).getTime()) {
-            await expirePaymentWithAudit(paymentId, userId);
-            return jsonContent({
-              status: "expired",
-              message:
-                "Payment approval has expired. Initiate a new payment with x402_pay.",
-            });
-          }
-
-          const timeRemainingSeconds = Math.max(
-            0,
-            Math.floor(
-              (new Date(payment.expiresAt).getTime() - Date.now()) / 1000,
-            ),
-          );
-
-          return jsonContent({
-            status: "awaiting_signature",
-            message:
-              "Payment not yet signed. Ask the user to approve it in the dashboard.",
-            timeRemainingSeconds,
-          });
-        }
+        if (!paymentId) return textContent("Error: Pass paymentId or resultId", true);
+        if (!isPaging && select === undefined) return await getPaymentResult(paymentId, userId);
 
-        if (payment.status === "approved") {
-          return jsonContent({
-            status: "processing",
-            message:
-              "Payment is signed and being processed. Try again shortly.",
-          });
-        }
-
-        if (payment.status === "failed") {
-          return jsonContent({
-            status: "failed",
-            responseStatus: payment.responseStatus,
-            error: payment.responsePayload,
-          });
-        }
-
-        if (payment.status === "rejected") {
-          return jsonContent({
-            status: "rejected",
-            message: "Payment was rejected by the user.",
-          });
-        }
-
-        if (payment.status === "expired") {
-          return jsonContent({
-            status: "expired",
-            message:
-              "Payment approval has expired. Initiate a new payment with x402_pay.",
-          });
+        const payment = await getPendingPayment(paymentId, userId);
+        if (!payment) return textContent("Error: Payment not found", true);
+        if (payment.status !== "completed") {
+          return textContent(`Error: Payment is ${payment.status}; only completed payments have a response to ${isPaging ? "page through" : "select from"}`, true);
         }
+        const body = await getPaymentResponseBody(payment, userId);
+        if (select === undefined) return pageResponseBody(body, page);
 
-        return jsonContent({
-          status: payment.status,
-          message: "Unknown payment status",
-        });
+        const selected = selectOrError(body, select);
+        if ("error" in selected) return selected.error;
+        if (isPaging) return pageResponseBody(selected.body, page);
+        return renderResponseBody(
+          userId,
+          { status: "completed", responseStatus: payment.responseStatus, txHash: payment.txHash, select },
+          selected.body,
+          payment.url,
+        );
       } catch (error) {
         return toolError(error, "Failed to retrieve payment result");
       }
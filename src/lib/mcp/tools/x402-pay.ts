@@ -1,121 +1,417 @@
 import { z } from "zod/v4";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { executePayment } from "@/lib/x402/payment";
+import type { RequestId } from "@modelcontextprotocol/sdk/types.js";
+import { executePayment, type PaymentRequestOptions } from "@/lib/x402/payment";
 import { createPendingPayment } from "@/lib/data/payments";
 import { formatAmountForDisplay } from "@/lib/x402/display";
-import { resolveChainParam, validateChainEnabled, textContent, jsonContent, toolError } from "../shared";
+import { readResponseBody, type ResponseBody } from "@/lib/x402/response-body";
+import { getChainById } from "@/lib/chain-config";
+import { storeResponseBody } from "@/lib/data/response-bodies";
+import { validateJsonPath } from "@/lib/json-path";
+import { claimIdempotencyKey, completeIdempotencyKey, IDEMPOTENCY_KEY_RETENTION_HOURS } from "@/lib/data/idempotency";
+import { logger } from "@/lib/logger";
+import {
+  MAX_PURPOSE_LENGTH,
+  MAX_TAGS,
+  MAX_TAG_LENGTH,
+  MAX_TASK_ID_LENGTH,
+  normalizeTags,
+  type PaymentMetadata,
+} from "@/lib/payment-metadata";
+import {
+  resolveChainParam,
+  validateChainEnabled,
+  textContent,
+  jsonContent,
+  toolError,
+  type ToolResult,
+} from "../shared";
+import { applySelect, renderResponseBody } from "../response-paging";
 
-export function registerX402Pay(server: McpServer, userId: string): void {
+const payInputSchema = {
+  url: z.string().max(2048).url().describe("The URL to request"),
+  method: z
+    .enum(["GET", "POST", "PUT", "DELETE", "PATCH"])
+    .optional()
+    .describe(
+      "HTTP method to use for the request. Defaults to GET. The x402 payment flow works with any method — the same method, body, and headers are used for both the initial request and the paid retry.",
+    ),
+  body: z
+    .string()
+    .max(1_048_576)
+    .optional()
+    .describe("Request body (for POST, PUT, PATCH). Sent on both the initial and paid retry requests."),
+  headers: z
+    .record(z.string().max(256), z.string().max(8192))
+    .optional()
+    .describe("Additional HTTP headers to include in the request."),
+  chain: z
+    .string()
+    .max(64)
+    .optional()
+    .describe(
+      'Chain to pay on. Use a name ("ethereum", "base", "arbitrum", "optimism", "polygon", "sepolia", "base-sepolia", "arbitrum-sepolia", "op-sepolia", "polygon-amoy") or a numeric chain ID ("42161"). If omitted, the gateway auto-selects the best chain.',
+    ),
+  maxAmount: z
+    .union([
+      z.number().positive().describe("Maximum price in USD, e.g. 0.05"),
+      z.object({
+        amountRaw: z
+          .string()
+          .max(78)
+          .regex(/^\d+$/, "amountRaw must be a non-negative integer string")
+          .describe("Maximum price in the asset's smallest unit, e.g. \"50000\" for 0.05 USDC"),
+        asset: z.string().max(64).describe("Token contract address the raw amount is denominated in"),
+      }),
+    ])
+    .optional()
+    .describe(
+      "The most you are willing to pay for this call. If the endpoint's price is higher, nothing is signed or queued for approval and a max_amount_exceeded error with the actual price is returned.",
+    ),
+  grantId: z
+    .string()
+    .max(64)
+    .optional()
+    .describe(
+      "ID of an approved spending grant from x402_request_grant. Payments that would otherwise wait for the user's approval are auto-signed against the grant's remaining amount. If the grant is pending, exhausted or expired, the payment is rejected with a grant_unavailable error.",
+    ),
+  purpose: z
+    .string()
+    .max(MAX_PURPOSE_LENGTH)
+    .optional()
+    .describe(
+      "Why you are making this payment, e.g. \"Fetch EV charging prices for the market research report\". Shown to the user when they review the payment.",
+    ),
+  taskId: z
+    .string()
+    .max(MAX_TASK_ID_LENGTH)
+    .optional()
+    .describe("ID of the task this payment belongs to, so its spend can be filtered in x402_spending_history."),
+  tags: z
+    .array(z.string().max(MAX_TAG_LENGTH))
+    .max(MAX_TAGS)
+    .optional()
+    .describe("Free-form labels for grouping spend, e.g. [\"research\", \"pricing\"]. Stored lowercased."),
+  select: z
+    .string()
+    .max(1024)
+    .optional()
+    .describe(
+      'JSONPath expression applied to a JSON response before it is returned, e.g. "$.items[*].price" or "$[\'name\',\'id\']". Only the selection is returned; the full response is still recorded. Filter expressions are not supported.',
+    ),
+  idempotencyKey: z
+    .string()
+    .min(1)
+    .max(255)
+    .optional()
+    .describe(
+      `Unique key for this payment, e.g. a UUID. Retrying with the same key and request within ${IDEMPOTENCY_KEY_RETENTION_HOURS} hours returns the original outcome (the response, the same pending payment ID, or the same rejection) instead of paying again.`,
+    ),
+};
+
+type PayArgs = z.infer<z.ZodObject<typeof payInputSchema>>;
+
+/** How long the user has to answer an in-chat confirmation before the payment goes to the dashboard. */
+const IN_CHAT_CONFIRMATION_TIMEOUT_MS = 50_000;
+
+/** Where the call came from, beyond its arguments. */
+interface PayContext {
+  idempotencyKey?: string;
+  /** Set for stateful sessions, which are notified when a pending payment changes status. */
+  mcpSessionId?: string;
+  confirmInChat?: PaymentRequestOptions["confirmInChat"];
+}
+
+/**
+ * Ask the user to confirm a payment through MCP elicitation, if the client
+ * supports form elicitation. Returns undefined otherwise, so payments that
+ * need approval go to the dashboard as before.
+ */
+function createInChatConfirmation(
+  server: McpServer,
+  extra: { requestId: RequestId; signal: AbortSignal },
+): PaymentRequestOptions["confirmInChat"] {
+  if (!server.server.getClientCapabilities()?.elicitation?.form) return undefined;
+
+  return async ({ url, amountRaw, asset, payTo, chainId, reason }) => {
+    const { displayAmount, symbol } = formatAmountForDisplay(amountRaw, asset, chainId);
+    const amountLabel = displayAmount !== "—" ? `${displayAmount} ${symbol}` : `${amountRaw} units of ${asset}`;
+    const chainName = getChainById(chainId)?.displayName ?? `Chain ${chainId}`;
+    const reasonNote = reason ? `\nReason for review: ${reason}` : "";
+    try {
+      const result = await server.server.elicitInput(
+        {
+          mode: "form",
+          message: `Confirm payment of ${amountLabel} to ${new URL(url).host} on ${chainName}.\nRecipient (payTo): ${payTo}\nURL: ${url}${reasonNote}`,
+          requestedSchema: {
+            type: "object",
+            properties: {
+              confirm: {
+                type: "boolean",
+                title: "Pay now",
+                description: `Pay ${amountLabel} from your Brevet smart account`,
+              },
+            },
+            required: ["confirm"],
+          },
+        },
+        { relatedRequestId: extra.requestId, signal: extra.signal, timeout: IN_CHAT_CONFIRMATION_TIMEOUT_MS },
+      );
+      if (result.action === "accept") return result.content?.confirm === true ? "confirmed" : "declined";
+      if (result.action === "decline") return "declined";
+      return "unavailable";
+    } catch (error) {
+      logger.warn("In-chat payment confirmation failed", {
+        url,
+        action: "in_chat_confirmation_failed",
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return "unavailable";
+    }
+  };
+}
+
+/**
+ * Run the payment flow and render the tool response. Returns the pending
+ * payment ID alongside the response when the payment awaits approval, and
+ * whether the payment went through, which an error result alone does not
+ * tell when only the selection failed.
+ */
+async function pay(
+  userId: string,
+  apiKeyId: string | undefined,
+  oauthClientId: string | undefined,
+  { url, method, body, headers, chain, maxAmount, grantId, purpose, taskId, tags, select }: PayArgs,
+  { idempotencyKey, mcpSessionId, confirmInChat }: PayContext = {},
+): Promise<{ result: ToolResult; pendingPaymentId?: string; paid?: boolean }> {
+  try {
+    // Reject a malformed selection before paying, not after
+    const selectError = select !== undefined ? validateJsonPath(select) : null;
+    if (selectError) {
+      return { result: textContent(`Error: Invalid select: ${selectError}`, true) };
+    }
+
+    let chainId: number | undefined;
+    if (chain) {
+      try {
+        chainId = resolveChainParam(chain);
+        await validateChainEnabled(userId, chainId);
+      } catch (e) {
+        return { result: textContent(`Error: ${(e as Error).message}`, true) };
+      }
+    }
+
+    const metadata: PaymentMetadata = {
+      purpose: purpose?.trim() || undefined,
+      taskId: taskId?.trim() || undefined,
+      tags: tags && normalizeTags(tags),
+    };
+    const result = await executePayment(
+      url,
+      userId,
+      {
+        method: method ?? "GET",
+        body,
+        headers,
+        maxAmount: typeof maxAmount === "number" ? { usd: maxAmount } : maxAmount,
+        confirmInChat,
+        grantId,
+        metadata,
+      },
+      chainId,
+      apiKeyId,
+      oauthClientId,
+    );
+
+    if (result.status === "pending_approval") {
+      const expiresAt = new Date(Date.now() + result.maxTimeoutSeconds * 1000);
+      const pendingPayment = await createPendingPayment({
+        userId,
+        url,
+        method: method ?? "GET",
+        policyId: result.policyId,
+        apiKeyId,
+        oauthClientId,
+        amountRaw: result.amountRaw,
+        asset: result.asset,
+        reason: result.reason,
+        previousAmount: result.previousAmount,
+        chainId: result.chainId,
+        paymentRequirements: result.paymentRequirements,
+        expiresAt,
+        body,
+        headers,
+        idempotencyKey,
+        mcpSessionId,
+        ...metadata,
+      });
+
+      const displayChainId = result.chainId ?? 8453;
+      const { displayAmount, symbol } = formatAmountForDisplay(
+        result.amountRaw,
+        result.asset,
+        displayChainId,
+      );
+      const amountLabel = displayAmount !== "—" ? `${displayAmount} ${symbol}` : "unknown amount";
+      const timeoutMinutes = Math.ceil(result.maxTimeoutSeconds / 60);
+
+      const reasonNote = result.reason ? ` Reason: ${result.reason}.` : "";
+      const statusNote = mcpSessionId
+        ? "A pending_payment_update notification will be sent on this session when the status changes. You can also use x402_wait_for_payment to wait for the outcome."
+        : "Use x402_wait_for_payment to wait for the outcome, or x402_check_pending to check the status.";
+
+      return {
+        result: textContent(
+          `Payment of ${amountLabel} requires user approval.${reasonNote} Payment ID: ${pendingPayment._id}. The user has been notified and has ${timeoutMinutes} minutes to approve. ${statusNote}`,
+        ),
+        pendingPaymentId: pendingPayment._id,
+      };
+    }
+
+    if (result.status === "rejected" && result.code === "grant_unavailable") {
+      return {
+        result: jsonContent({ success: false, error: result.code, message: result.error, grantId }, true),
+      };
+    }
+
+    if (result.status === "rejected" && result.code === "max_amount_exceeded") {
+      return {
+        result: jsonContent(
+          {
+            success: false,
+            error: result.code,
+            message: result.error,
+            price: result.price,
+            maxAmount,
+          },
+          true,
+        ),
+      };
+    }
+
+    if (!result.success) {
+      return { result: textContent(`Payment failed: ${result.error}`, true) };
+    }
+
+    const summary = {
+      success: true,
+      status: result.response?.status,
+      ...(result.settlement && {
+        settlement: {
+          transaction: result.settlement.transaction,
+          network: result.settlement.network,
+          success: result.settlement.success,
+          payer: result.settlement.payer,
+        },
+      }),
+    };
+    if (!result.response) {
+      return { result: jsonContent({ ...summary, data: null }), paid: true };
+    }
+    const responseBody = await readResponseBody(result.response);
+    if (select === undefined) {
+      return { result: await renderResponseBody(userId, summary, responseBody, url, result.responseBodyId), paid: true };
+    }
+
+    let selected: ResponseBody;
+    try {
+      selected = applySelect(responseBody, select);
+    } catch (error) {
+      const resultId = result.responseBodyId ?? await storeResponseBody(userId, responseBody);
+      return {
+        result: jsonContent(
+          {
+            ...summary,
+            success: false,
+            error: "select_failed",
+            paymentCompleted: true,
+            message: `${(error as Error).message}. The payment went through and the full response was recorded; read it with x402_get_result and this resultId.`,
+            resultId,
+          },
+          true,
+        ),
+        paid: true,
+      };
+    }
+    return { result: await renderResponseBody(userId, { ...summary, select }, selected, url), paid: true };
+  } catch (error) {
+    return { result: toolError(error, "Payment processing failed") };
+  }
+}
+
+export function registerX402Pay(
+  server: McpServer,
+  userId: string,
+  apiKeyId?: string,
+  oauthClientId?: string,
+): void {
   server.registerTool(
     "x402_pay",
     {
       description:
-        "Make an HTTP request to an x402-protected URL. If the server responds with HTTP 402 (Payment Required), automatically handle the payment flow using the user's smart account and session key, then retry the request with payment proof. Each endpoint has its own policy controlling whether the session key auto-signs or WalletConnect manual approval is used. Non-402 responses are returned directly. Supports multiple chains (Ethereum, Base, Arbitrum, Optimism, Polygon + testnets). If no chain is specified, the gateway auto-selects the best chain based on the endpoint's accepted networks and the user's balances.",
-      inputSchema: {
-        url: z.string().max(2048).url().describe("The URL to request"),
-        method: z
-          .enum(["GET", "POST", "PUT", "DELETE", "PATCH"])
-          .optional()
-          .describe(
-            "HTTP method to use for the request. Defaults to GET. The x402 payment flow works with any method — the same method, body, and headers are used for both the initial request and the paid retry.",
-          ),
-        body: z
-          .string()
-          .max(1_048_576)
-          .optional()
-          .describe("Request body (for POST, PUT, PATCH). Sent on both the initial and paid retry requests."),
-        headers: z
-          .record(z.string().max(256), z.string().max(8192))
-          .optional()
-          .describe("Additional HTTP headers to include in the request."),
-        chain: z
-          .string()
-          .max(64)
-          .optional()
-          .describe(
-            'Chain to pay on. Use a name ("ethereum", "base", "arbitrum", "optimism", "polygon", "sepolia", "base-sepolia", "arbitrum-sepolia", "op-sepolia", "polygon-amoy") or a numeric chain ID ("42161"). If omitted, the gateway auto-selects the best chain.',
-          ),
-      },
+        "Make an HTTP request to an x402-protected URL. If the server responds with HTTP 402 (Payment Required), automatically handle the payment flow using the user's smart account and session key, then retry the request with payment proof. Each endpoint has its own policy controlling whether the session key auto-signs, the user confirms in this chat (for clients that support MCP elicitation, up to the policy's in-chat limit), or WalletConnect manual approval is used. Pass a grantId from x402_request_grant to pay from a task budget the user approved up front. Describe why you are paying with purpose, taskId and tags so the user can review and filter your spending. Non-402 responses are returned directly. JSON and text bodies are returned as data; images come back as image content and other binary bodies as an embedded resource with their MIME type. Pass select with a JSONPath expression to get only the fields you need from a JSON response; the full response is still recorded, and x402_get_result accepts select too. Responses larger than the response budget are truncated to a preview with a resultId; page through them with x402_get_result. Supports multiple chains (Ethereum, Base, Arbitrum, Optimism, Polygon + testnets). If no chain is specified, the gateway auto-selects the best chain based on the endpoint's accepted networks and the user's balances.",
+      inputSchema: payInputSchema,
     },
-    async ({ url, method, body, headers, chain }) => {
+    async (args, extra) => {
+      const { idempotencyKey } = args;
+      const context: PayContext = {
+        idempotencyKey,
+        mcpSessionId: extra.sessionId,
+        confirmInChat: createInChatConfirmation(server, extra),
+      };
+      if (!idempotencyKey) {
+        return (await pay(userId, apiKeyId, oauthClientId, args, context)).result;
+      }
+
       try {
-        let chainId: number | undefined;
-        if (chain) {
-          try {
-            chainId = resolveChainParam(chain);
-            await validateChainEnabled(userId, chainId);
-          } catch (e) {
-            return textContent(`Error: ${(e as Error).message}`, true);
+        const claim = await claimIdempotencyKey(userId, idempotencyKey, {
+          method: args.method ?? "GET",
+          url: args.url,
+          body: args.body,
+          headers: args.headers,
+          chain: args.chain,
+          maxAmount: args.maxAmount,
+          grantId: args.grantId,
+        });
+        if (!claim.claimed) {
+          if (claim.reason === "mismatch") {
+            return textContent(
+              "Error: This idempotency key was already used for a different request. Use a new key for a new payment.",
+              true,
+            );
           }
-        }
-
-        const result = await executePayment(
-          url,
-          userId,
-          { method: method ?? "GET", body, headers },
-          chainId,
-        );
-
-        if (result.status === "pending_approval") {
-          const expiresAt = new Date(Date.now() + result.maxTimeoutSeconds * 1000);
-          const pendingPayment = await createPendingPayment({
-            userId,
-            url,
-            method: method ?? "GET",
-            amountRaw: result.amountRaw,
-            asset: result.asset,
-            chainId: result.chainId,
-            paymentRequirements: result.paymentRequirements,
-            expiresAt,
-            body,
-            headers,
-          });
-
-          const displayChainId = result.chainId ?? 8453;
-          const { displayAmount, symbol } = formatAmountForDisplay(
-            result.amountRaw,
-            result.asset,
-            displayChainId,
-          );
-          const amountLabel = displayAmount !== "—" ? `${displayAmount} ${symbol}` : "unknown amount";
-          const timeoutMinutes = Math.ceil(result.maxTimeoutSeconds / 60);
-
-          return textContent(
-            `Payment of ${amountLabel} requires user approval. Payment ID: ${pendingPayment._id}. The user has been notified and has ${timeoutMinutes} minutes to approve. Use x402_check_pending to check the status.`,
-          );
-        }
-
-        if (!result.success) {
-          return textContent(`Payment failed: ${result.error}`, true);
-        }
-
-        let responseData: unknown = null;
-        if (result.response) {
-          const contentType =
-            result.response.headers.get("content-type") ?? "";
-          if (contentType.includes("application/json")) {
-            responseData = await result.response.json();
-          } else {
-            responseData = await result.response.text();
+          if (claim.reason === "in_progress") {
+            return textContent(
+              "Error: A payment with this idempotency key is still in progress. Retry the same call shortly to get its result.",
+              true,
+            );
           }
+          return {
+            content: [
+              { type: "text" as const, text: claim.record.response ?? "" },
+              ...(claim.record.attachments ? JSON.parse(claim.record.attachments) : []),
+            ],
+            ...(claim.record.isError && { isError: true }),
+          };
         }
+      } catch (error) {
+        return toolError(error, "Payment processing failed");
+      }
 
-        return jsonContent({
-          success: true,
-          status: result.response?.status,
-          data: responseData,
-          ...(result.settlement && {
-            settlement: {
-              transaction: result.settlement.transaction,
-              network: result.settlement.network,
-              success: result.settlement.success,
-              payer: result.settlement.payer,
-            },
-          }),
+      const { result, pendingPaymentId, paid } = await pay(userId, apiKeyId, oauthClientId, args, context);
+      try {
+        await completeIdempotencyKey(userId, idempotencyKey, {
+          status: pendingPaymentId ? "pending_approval" : result.isError && !paid ? "rejected" : "completed",
+          response: result.content[0].text,
+          attachments: result.content.length > 1 ? JSON.stringify(result.content.slice(1)) : undefined,
+          isError: result.isError ?? false,
+          pendingPaymentId,
         });
       } catch (error) {
-        return toolError(error, "Payment processing failed");
+        // The call itself finished; retries will see the key as in progress
+        logger.error("Failed to record idempotency outcome", { userId, url: args.url, action: "idempotency_record_failed", error: error instanceof Error ? error.message : String(error) });
       }
+      return result;
     },
   );
 }
@@ -0,0 +1,68 @@
+import { z } from "zod/v4";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { quotePayment } from "@/lib/x402/payment";
+import { resolveChainParam, validateChainEnabled, textContent, jsonContent, toolError } from "../shared";
+
+export function registerX402Quote(
+  server: McpServer,
+  userId: string,
+  apiKeyId?: string,
+  oauthClientId?: string,
+): void {
+  server.registerTool(
+    "x402_quote",
+    {
+      description:
+        "Preview what x402_pay would do for a request without paying. Sends the initial request, parses the endpoint's payment requirements, and reports the price, asset, accepted networks, the chain that would be selected, and the policy decision (auto_sign, manual_approval, or rejected). Runs the same checks as x402_pay but never signs, creates a draft policy, or records a transaction. Note that the initial request itself is still sent to the endpoint.",
+      inputSchema: {
+        url: z.string().max(2048).url().describe("The URL to quote"),
+        method: z
+          .enum(["GET", "POST", "PUT", "DELETE", "PATCH"])
+          .optional()
+          .describe("HTTP method to use for the request. Defaults to GET. Policies can differ per method."),
+        body: z
+          .string()
+          .max(1_048_576)
+          .optional()
+          .describe("Request body (for POST, PUT, PATCH), sent on the initial request."),
+        headers: z
+          .record(z.string().max(256), z.string().max(8192))
+          .optional()
+          .describe("Additional HTTP headers to include in the request."),
+        chain: z
+          .string()
+          .max(64)
+          .optional()
+          .describe(
+            'Chain to quote on. Use a name ("base", "arbitrum", ...) or a numeric chain ID. If omitted, reports the chain x402_pay would auto-select.',
+          ),
+      },
+    },
+    async ({ url, method, body, headers, chain }) => {
+      try {
+        let chainId: number | undefined;
+        if (chain) {
+          try {
+            chainId = resolveChainParam(chain);
+            await validateChainEnabled(userId, chainId);
+          } catch (e) {
+            return textContent(`Error: ${(e as Error).message}`, true);
+          }
+        }
+
+        const quote = await quotePayment(
+          url,
+          userId,
+          { method: method ?? "GET", body, headers },
+          chainId,
+          apiKeyId,
+          oauthClientId,
+        );
+
+        return jsonContent(quote);
+      } catch (error) {
+        return toolError(error, "Quote failed");
+      }
+    },
+  );
+}
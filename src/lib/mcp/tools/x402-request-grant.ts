@@ -0,0 +1,67 @@
+import { z } from "zod/v4";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { createSpendingGrant } from "@/lib/data/spending-grants";
+import { formatGrantDuration } from "@/lib/spending-grants";
+import { formatUsd } from "@/lib/x402/display";
+import { jsonContent, toolError } from "../shared";
+
+/** The most a single grant may cover. */
+const MAX_GRANT_USD = 1_000;
+/** Grants last at most a week; longer tasks ask again. */
+const MAX_GRANT_DURATION_MINUTES = 7 * 24 * 60;
+
+export function registerX402RequestGrant(
+  server: McpServer,
+  userId: string,
+  apiKeyId?: string,
+): void {
+  server.registerTool(
+    "x402_request_grant",
+    {
+      description:
+        "Ask the user for a spending budget for a task, e.g. up to $3 for market research over 2 hours, instead of having them approve payments one at a time. The request appears in the Brevet dashboard, where the user approves it with a wallet signature. Once approved, pass the returned grantId to x402_pay: payments that would otherwise wait for approval are auto-signed against the remaining amount until it is spent or the grant expires. Spending caps, budgets and price-increase checks still apply. Until the user approves, x402_pay with the grant returns a grant_unavailable error.",
+      inputSchema: {
+        purpose: z
+          .string()
+          .min(1)
+          .max(200)
+          .describe("What the budget is for, shown to the user, e.g. \"Market research on EV charging prices\""),
+        amountUsd: z
+          .number()
+          .positive()
+          .max(MAX_GRANT_USD)
+          .describe("The most the task may spend in total, in USD"),
+        durationMinutes: z
+          .number()
+          .int()
+          .min(1)
+          .max(MAX_GRANT_DURATION_MINUTES)
+          .describe("How long the grant lasts once approved, in minutes"),
+      },
+    },
+    async ({ purpose, amountUsd, durationMinutes }) => {
+      try {
+        const grant = await createSpendingGrant({
+          userId,
+          apiKeyId,
+          purpose,
+          amountUsd,
+          durationSeconds: durationMinutes * 60,
+        });
+        const approvalMinutes = Math.ceil((new Date(grant.expiresAt).getTime() - Date.now()) / 60_000);
+
+        return jsonContent({
+          grantId: grant._id,
+          status: grant.status,
+          purpose: grant.purpose,
+          amountUsd: grant.amountUsd,
+          duration: formatGrantDuration(grant.durationSeconds),
+          approvalExpiresAt: grant.expiresAt,
+          message: `Spending grant of up to ${formatUsd(grant.amountUsd)} requested. The user has ${approvalMinutes} minutes to approve it in the dashboard. Then pass grantId to x402_pay.`,
+        });
+      } catch (error) {
+        return toolError(error, "Failed to request spending grant");
+      }
+    },
+  );
+}
@@ -1,6 +1,7 @@
 import { z } from "zod/v4";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { getSpendingHistory } from "@/lib/data/transactions";
+import { MAX_TAG_LENGTH, MAX_TASK_ID_LENGTH } from "@/lib/payment-metadata";
 import { resolveChainParam, validateChainEnabled, textContent, jsonContent, toolError } from "../shared";
 
 export function registerX402SpendingHistory(
@@ -11,7 +12,7 @@ export function registerX402SpendingHistory(
     "x402_spending_history",
     {
       description:
-        "Query the user's x402 payment transaction history, optionally filtered by a start date and/or chain.",
+        "Query the user's x402 payment transaction history, optionally filtered by a start date, chain, tag or task ID. Each transaction includes the purpose, taskId and tags passed to x402_pay.",
       inputSchema: {
         since: z
           .string()
@@ -27,9 +28,19 @@ export function registerX402SpendingHistory(
           .describe(
             'Chain to filter transactions by. Use a name ("ethereum", "base", "arbitrum", "optimism", "polygon") or a numeric chain ID. If omitted, returns transactions across all chains.',
           ),
+        tag: z
+          .string()
+          .max(MAX_TAG_LENGTH)
+          .optional()
+          .describe("Only return transactions carrying this tag (case-insensitive)"),
+        taskId: z
+          .string()
+          .max(MAX_TASK_ID_LENGTH)
+          .optional()
+          .describe("Only return transactions made for this task ID"),
       },
     },
-    async ({ since, chain }) => {
+    async ({ since, chain, tag, taskId }) => {
       try {
         let chainId: number | undefined;
         if (chain) {
@@ -44,6 +55,8 @@ export function registerX402SpendingHistory(
         const transactions = await getSpendingHistory(userId, {
           ...(since && { since: new Date(since) }),
           ...(chainId !== undefined && { chainId }),
+          tag,
+          taskId,
         });
 
         return jsonContent({
@@ -58,6 +71,9 @@ export function registerX402SpendingHistory(
             txHash: tx.txHash,
             network: tx.network,
             status: tx.status,
+            purpose: tx.purpose,
+            taskId: tx.taskId,
+            tags: tx.tags,
             createdAt: tx.createdAt,
           })),
         });
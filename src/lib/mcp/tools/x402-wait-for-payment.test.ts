@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const mockGetPendingPayment = vi.fn();
+vi.mock("@/lib/data/payments", () => ({
+  getPendingPayment: mockGetPendingPayment,
+  expirePaymentWithAudit: vi.fn(),
+}));
+
+const mockWaitForPaymentStatusChange = vi.fn();
+vi.mock("@/lib/payment-events", () => ({
+  waitForPaymentStatusChange: mockWaitForPaymentStatusChange,
+}));
+
+/** Wait out the timeout without a change, as when no change stream event arrives. */
+function waitWithoutChange(_paymentId: string, timeoutMs: number) {
+  return new Promise((resolve) => setTimeout(() => resolve(null), timeoutMs));
+}
+
+// Minimal mock for McpServer
+type ToolHandler = (
+  params: Record<string, unknown>,
+  extra: { signal: AbortSignal },
+) => Promise<{
+  content: Array<{ type: string; text: string; data?: string; mimeType?: string }>;
+  isError?: boolean;
+}>;
+
+function createMockServer() {
+  const tools = new Map<string, { handler: ToolHandler }>();
+  return {
+    registerTool(name: string, _config: unknown, handler: ToolHandler) {
+      tools.set(name, { handler });
+    },
+    call(name: string, params: Record<string, unknown>, signal = new AbortController().signal) {
+      const tool = tools.get(name);
+      if (!tool) throw new Error(`Tool ${name} not registered`);
+      return tool.handler(params, { signal });
+    },
+  };
+}
+
+function payment(status: string, overrides: Record<string, unknown> = {}) {
+  return {
+    _id: "pay-1",
+    status,
+    expiresAt: new Date(Date.now() + 60_000).toISOString(),
+    responsePayload: null,
+    responseStatus: null,
+    txHash: null,
+    ...overrides,
+  };
+}
+
+describe("x402_wait_for_payment", () => {
+  let server: ReturnType<typeof createMockServer>;
+
+  beforeEach(async () => {
+    mockGetPendingPayment.mockReset();
+    mockWaitForPaymentStatusChange.mockReset();
+    mockWaitForPaymentStatusChange.mockImplementation(waitWithoutChange);
+    server = createMockServer();
+
+    const { registerX402WaitForPayment } = await import("./x402-wait-for-payment");
+    registerX402WaitForPayment(server as never, "test-user-id");
+  });
+
+  it("returns the result right away when the payment is already final", async () => {
+    mockGetPendingPayment.mockResolvedValue(
+      payment("completed", { responsePayload: '{"temp":21}', responseStatus: 200, txHash: "0xabc" }),
+    );
+
+    const result = await server.call("x402_wait_for_payment", { paymentId: "pay-1" });
+
+    expect(JSON.parse(result.content[0].text)).toMatchObject({ status: "completed", data: { temp: 21 } });
+  });
+
+  it("returns a binary image body as image content", async () => {
+    mockGetPendingPayment.mockResolvedValue(
+      payment("completed", {
+        url: "https://api.example.com/render",
+        responsePayload: "iVBORw0KGgo=",
+        responseEncoding: "base64",
+        responseContentType: "image/png",
+        responseStatus: 200,
+      }),
+    );
+
+    const result = await server.call("x402_wait_for_payment", { paymentId: "pay-1" });
+
+    expect(JSON.parse(result.content[0].text)).toMatchObject({ status: "completed", contentType: "image/png", size: 8 });
+    expect(result.content[1]).toEqual({ type: "image", data: "iVBORw0KGgo=", mimeType: "image/png" });
+  });
+
+  it("wakes as soon as the payment's status changes", async () => {
+    let current = payment("pending");
+    mockGetPendingPayment.mockImplementation(() => Promise.resolve(current));
+    mockWaitForPaymentStatusChange.mockImplementation(async () => {
+      current = payment("rejected");
+      return "rejected";
+    });
+
+    const result = await server.call("x402_wait_for_payment", { paymentId: "pay-1", timeoutSeconds: 30 });
+
+    expect(mockWaitForPaymentStatusChange).toHaveBeenCalledOnce();
+    expect(JSON.parse(result.content[0].text)).toMatchObject({ status: "rejected" });
+  });
+
+  it("re-reads the payment once in a while when no change arrives", async () => {
+    vi.useFakeTimers();
+    try {
+      let current = payment("pending");
+      mockGetPendingPayment.mockImplementation(() => Promise.resolve(current));
+
+      const waiting = server.call("x402_wait_for_payment", { paymentId: "pay-1", timeoutSeconds: 30 });
+      await vi.advanceTimersByTimeAsync(10);
+      current = payment("rejected");
+      await vi.advanceTimersByTimeAsync(20_000);
+
+      const result = await waiting;
+      expect(JSON.parse(result.content[0].text)).toMatchObject({ status: "rejected" });
+      expect(mockWaitForPaymentStatusChange).toHaveBeenCalledWith("pay-1", 20_000, expect.anything());
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("returns the current status when the timeout passes first", async () => {
+    mockGetPendingPayment.mockResolvedValue(payment("pending"));
+
+    const result = await server.call("x402_wait_for_payment", { paymentId: "pay-1", timeoutSeconds: 1 });
+
+    expect(JSON.parse(result.content[0].text)).toMatchObject({ status: "awaiting_signature" });
+  });
+
+  it("reports an unknown payment", async () => {
+    mockGetPendingPayment.mockResolvedValue(null);
+
+    const result = await server.call("x402_wait_for_payment", { paymentId: "missing" });
+
+    expect(result.isError).toBe(true);
+  });
+});
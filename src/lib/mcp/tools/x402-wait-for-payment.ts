@@ -0,0 +1,76 @@
+import { z } from "zod/v4";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { getPendingPayment } from "@/lib/data/payments";
+import { waitForPaymentStatusChange } from "@/lib/payment-events";
+import { getPaymentResult } from "./x402-get-result";
+import { textContent, toolError } from "../shared";
+
+const DEFAULT_WAIT_SECONDS = 30;
+/** Keeps a single call well inside serverless function time limits. */
+const MAX_WAIT_SECONDS = 55;
+
+/**
+ * How long a waiting call goes without re-reading the payment. Status
+ * changes wake it through a change stream; this re-read only covers a
+ * change made before the stream opened, or a server without change streams.
+ */
+const FALLBACK_RECHECK_MS = 20_000;
+
+/** Statuses a payment can still leave on its own; every other status is final. */
+const WAITING_STATUSES = ["pending", "approved"];
+
+export function registerX402WaitForPayment(
+  server: McpServer,
+  userId: string,
+): void {
+  server.registerTool(
+    "x402_wait_for_payment",
+    {
+      description:
+        "Wait for a payment that requires user approval to finish, instead of calling x402_check_pending repeatedly. Blocks until the payment is completed, failed, rejected or expired, or until the timeout passes, then returns the same result as x402_get_result (including the response data once completed). If the timeout passes first, the current status is returned; call again to keep waiting.",
+      inputSchema: {
+        paymentId: z
+          .string()
+          .max(64)
+          .describe("The pending payment ID returned by x402_pay"),
+        timeoutSeconds: z
+          .number()
+          .int()
+          .min(1)
+          .max(MAX_WAIT_SECONDS)
+          .optional()
+          .describe(`How long to wait at most, in seconds. Defaults to ${DEFAULT_WAIT_SECONDS}.`),
+      },
+    },
+    async ({ paymentId, timeoutSeconds }, extra) => {
+      try {
+        const deadline = Date.now() + (timeoutSeconds ?? DEFAULT_WAIT_SECONDS) * 1000;
+        let payment = await getPendingPayment(paymentId, userId);
+        if (!payment) {
+          return textContent("Error: Payment not found", true);
+        }
+
+        while (WAITING_STATUSES.includes(payment.status)) {
+          const now = Date.now();
+          // An unapproved payment stops waiting at its approval deadline;
+          // getPaymentResult then expires it
+          const expiresAt = payment.status === "pending" ? new Date(payment.expiresAt).getTime() : Infinity;
+          const wakeAt = Math.min(deadline, expiresAt, now + FALLBACK_RECHECK_MS);
+          if (now >= deadline || now >= expiresAt) break;
+
+          await waitForPaymentStatusChange(paymentId, wakeAt - now, extra.signal);
+          if (extra.signal.aborted) break;
+
+          payment = await getPendingPayment(paymentId, userId);
+          if (!payment) {
+            return textContent("Error: Payment not found", true);
+          }
+        }
+
+        return await getPaymentResult(paymentId, userId);
+      } catch (error) {
+        return toolError(error, "Failed to wait for payment");
+      }
+    },
+  );
+}
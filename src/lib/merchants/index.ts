@@ -1,3 +1,4 @@
+import { createHash } from "node:crypto";
 import fs from "node:fs";
 import path from "node:path";
 import { MerchantEntrySchema } from "./types";
@@ -98,3 +99,11 @@ export function getCategories(): string[] {
   }
   return Array.from(categories).sort();
 }
+
+/**
+ * Short fingerprint of the merchant directory. The data files only change on
+ * deploy, so stateful MCP sessions compare this to notice a new directory.
+ */
+export function getDirectoryVersion(): string {
+  return createHash("sha256").update(JSON.stringify(loadMerchants())).digest("hex").slice(0, 16);
+}
@@ -0,0 +1,31 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("@/lib/db", () => ({ connectDB: vi.fn(() => Promise.resolve()) }));
+vi.mock("@/lib/logger", () => ({
+  logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+const mockSyncIndexes = vi.fn();
+vi.mock("@/lib/models/endpoint-policy", () => ({
+  EndpointPolicy: { syncIndexes: mockSyncIndexes },
+}));
+
+describe("runMigrations", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("drops the endpoint policy index that predates method-aware policies", async () => {
+    mockSyncIndexes.mockResolvedValue(["userId_1_endpointPattern_1_chainId_1"]);
+    const { runMigrations } = await import("./migrations");
+    const { logger } = await import("@/lib/logger");
+
+    await runMigrations();
+
+    expect(mockSyncIndexes).toHaveBeenCalled();
+    expect(logger.info).toHaveBeenCalledWith(
+      "Dropped stale endpoint policy indexes",
+      expect.objectContaining({ indexes: ["userId_1_endpointPattern_1_chainId_1"] }),
+    );
+  });
+});
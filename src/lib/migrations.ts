@@ -0,0 +1,20 @@
+import { connectDB } from "@/lib/db";
+import { logger } from "@/lib/logger";
+import { EndpointPolicy } from "@/lib/models/endpoint-policy";
+
+/**
+ * Bring existing databases in line with the current schema. Runs on every
+ * server start (see src/instrumentation.ts), so each step must be idempotent.
+ */
+export async function runMigrations(): Promise<void> {
+  await connectDB();
+
+  // Method-aware policies replaced the unique userId_1_endpointPattern_1_chainId_1
+  // index, and multi-chain policies are no longer part of the unique index.
+  // syncIndexes drops indexes the schema no longer declares, or declares with
+  // different options, and builds the current ones.
+  const dropped = await EndpointPolicy.syncIndexes();
+  if (dropped.length > 0) {
+    logger.info("Dropped stale endpoint policy indexes", { action: "migration_indexes_dropped", indexes: dropped });
+  }
+}
@@ -0,0 +1,90 @@
+import mongoose, { Schema, Document, Model, Types } from "mongoose";
+import { z } from "zod/v4";
+import { API_KEY_SCOPES, type ApiKeyScope } from "@/lib/mcp/tool-registry";
+
+type ApiKeyDoc = Document & {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  label: string;
+  keyHash: string;   // sensitive -- excluded from DTO
+  keyPrefix: string;
+  scopes: ApiKeyScope[];
+  dailyBudget: number | null;
+  monthlyBudget: number | null;
+  maxPerRequest: number | null;
+  lastUsedAt: Date | null;
+  lastUsedIp: string | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+};
+
+export const ApiKeyDTO = z.object({
+  _id: z.instanceof(Types.ObjectId).transform((v) => v.toString()),
+  userId: z.instanceof(Types.ObjectId).transform((v) => v.toString()),
+  label: z.string(),
+  keyPrefix: z.string(),
+  // Keys created before scopes existed keep full access
+  scopes: z.array(z.enum(API_KEY_SCOPES)).nullish().transform((v) => v ?? [...API_KEY_SCOPES]),
+  dailyBudget: z.number().nullish().transform((v) => v ?? null),
+  monthlyBudget: z.number().nullish().transform((v) => v ?? null),
+  maxPerRequest: z.number().nullish().transform((v) => v ?? null),
+  lastUsedAt: z.instanceof(Date).nullish().transform((v) => v?.toISOString() ?? null),
+  lastUsedIp: z.string().nullish().transform((v) => v ?? null),
+  revokedAt: z.instanceof(Date).nullish().transform((v) => v?.toISOString() ?? null),
+  createdAt: z.instanceof(Date).transform((v) => v.toISOString()),
+});
+
+export type ApiKeyDTO = z.output<typeof ApiKeyDTO>;
+
+const ApiKeyScopes = z
+  .array(z.enum(API_KEY_SCOPES))
+  .min(1, "Select at least one scope")
+  .transform((scopes) => API_KEY_SCOPES.filter((s) => scopes.includes(s)));
+
+/** Input for creating an API key. */
+export const ApiKeyCreateInput = z.object({
+  label: z.string().trim().min(1, "Label is required").max(64, "Label must be at most 64 characters"),
+  scopes: ApiKeyScopes,
+});
+export type ApiKeyCreateInput = z.output<typeof ApiKeyCreateInput>;
+
+/** Input for changing which tools an API key exposes. */
+export const ApiKeyScopesInput = z.object({
+  scopes: ApiKeyScopes,
+});
+export type ApiKeyScopesInput = z.output<typeof ApiKeyScopesInput>;
+
+/** Input for an API key's own spending limits (USD; null clears a limit). */
+export const ApiKeyBudgetInput = z.object({
+  dailyBudget: z.number().positive().nullable(),
+  monthlyBudget: z.number().positive().nullable(),
+  maxPerRequest: z.number().positive().nullable(),
+});
+export type ApiKeyBudgetInput = z.output<typeof ApiKeyBudgetInput>;
+
+const apiKeySchema = new Schema<ApiKeyDoc>(
+  {
+    userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    label: { type: String, required: true },
+    keyHash: { type: String, required: true },
+    keyPrefix: { type: String, required: true },
+    scopes: { type: [String], enum: API_KEY_SCOPES, default: () => [...API_KEY_SCOPES] },
+    dailyBudget: { type: Number, default: null },
+    monthlyBudget: { type: Number, default: null },
+    maxPerRequest: { type: Number, default: null },
+    lastUsedAt: { type: Date, default: null },
+    lastUsedIp: { type: String, default: null },
+    revokedAt: { type: Date, default: null },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    collection: "apikeys",
+  }
+);
+
+apiKeySchema.index({ keyHash: 1 }, { unique: true });
+apiKeySchema.index({ userId: 1, createdAt: -1 });
+
+export const ApiKey: Model<ApiKeyDoc> =
+  mongoose.models.ApiKey ||
+  mongoose.model<ApiKeyDoc>("ApiKey", apiKeySchema);
@@ -1,12 +1,28 @@
 import mongoose, { Schema, Document, Model, Types } from "mongoose";
 import { z } from "zod/v4";
+import { HTTP_METHODS } from "@/lib/endpoint-pattern";
 
 type EndpointPolicyDoc = Document & {
   _id: Types.ObjectId;
   userId: Types.ObjectId;
   endpointPattern: string;
+  methods: string[];
+  triggerMethod: string | null;
   autoSign: boolean;
-  chainId: number;
+  maxPerRequest: number | null;
+  maxPerHour: number | null;
+  maxPerDay: number | null;
+  maxInChatApproval: number | null;
+  maxPriceIncreasePercent: number | null;
+  maxPriceIncreaseUsd: number | null;
+  priceIncreaseAction: string;
+  allowedPayTo: string[];
+  allowedAssets: string[];
+  firstSeenPayTo: string | null;
+  chainId: number | null;
+  chainIds: number[];
+  /** Per-chain policies merged into this one; their spend and prices still count. */
+  mergedFrom: Types.ObjectId[];
   status: string;
   archivedAt: Date | null;
   createdAt: Date;
@@ -17,8 +33,21 @@ export const EndpointPolicyDTO = z.object({
   _id: z.instanceof(Types.ObjectId).transform((v) => v.toString()),
   userId: z.instanceof(Types.ObjectId).transform((v) => v.toString()),
   endpointPattern: z.string(),
+  methods: z.array(z.string()).nullish().transform((v) => v ?? []),
+  triggerMethod: z.string().nullish().transform((v) => v ?? null),
   autoSign: z.boolean(),
-  chainId: z.number(),
+  maxPerRequest: z.number().nullish().transform((v) => v ?? null),
+  maxPerHour: z.number().nullish().transform((v) => v ?? null),
+  maxPerDay: z.number().nullish().transform((v) => v ?? null),
+  maxInChatApproval: z.number().nullish().transform((v) => v ?? null),
+  maxPriceIncreasePercent: z.number().nullish().transform((v) => v ?? null),
+  maxPriceIncreaseUsd: z.number().nullish().transform((v) => v ?? null),
+  priceIncreaseAction: z.string().nullish().transform((v) => v ?? "manual_approval"),
+  allowedPayTo: z.array(z.string()).nullish().transform((v) => v ?? []),
+  allowedAssets: z.array(z.string()).nullish().transform((v) => v ?? []),
+  firstSeenPayTo: z.string().nullish().transform((v) => v ?? null),
+  chainId: z.number().nullable(),
+  chainIds: z.array(z.number()).nullish().transform((v) => v ?? []),
   status: z.string(),
   archivedAt: z.instanceof(Date).nullable().transform((v) => v?.toISOString() ?? null),
   createdAt: z.instanceof(Date).transform((v) => v.toISOString()),
@@ -27,11 +56,46 @@ export const EndpointPolicyDTO = z.object({
 
 export type EndpointPolicyDTO = z.output<typeof EndpointPolicyDTO>;
 
-/** Input for creating an endpoint policy (userId passed separately in data layer). */
+/** Optional USD spending cap; null clears the cap. */
+const SpendingCap = z.number().positive().nullable().optional();
+
+/** HTTP methods the policy applies to; an empty list means every method. */
+const PolicyMethods = z.array(z.enum(HTTP_METHODS)).optional();
+
+/** Allowed increase over the last accepted price; null disables the check. */
+const PriceIncreaseLimit = z.number().nonnegative().nullable().optional();
+
+/** What to do when an endpoint's price rises beyond the allowed increase. */
+const PriceIncreaseAction = z.enum(["manual_approval", "reject"]).optional();
+
+/** Pinned recipient or asset addresses; an empty list allows any. */
+const AddressList = z
+  .array(z.string().regex(/^0x[0-9a-fA-F]{40}$/, "Addresses must be 0x-prefixed 20-byte hex"))
+  .optional();
+
+/** Chains a multi-chain policy applies to; an empty list means every enabled chain. */
+const PolicyChainIds = z.array(z.number().int().positive()).optional();
+
+/**
+ * Input for creating an endpoint policy (userId passed separately in data layer).
+ * A numeric chainId creates a chain-specific policy; null creates a
+ * multi-chain policy scoped by chainIds.
+ */
 export const EndpointPolicyCreateInput = z.object({
   endpointPattern: z.string(),
-  chainId: z.number(),
+  chainId: z.number().nullable(),
+  chainIds: PolicyChainIds,
+  methods: PolicyMethods,
   autoSign: z.boolean().optional(),
+  maxPerRequest: SpendingCap,
+  maxPerHour: SpendingCap,
+  maxPerDay: SpendingCap,
+  maxInChatApproval: SpendingCap,
+  maxPriceIncreasePercent: PriceIncreaseLimit,
+  maxPriceIncreaseUsd: PriceIncreaseLimit,
+  priceIncreaseAction: PriceIncreaseAction,
+  allowedPayTo: AddressList,
+  allowedAssets: AddressList,
   status: z.string().optional(),
 });
 export type EndpointPolicyCreateInput = z.output<typeof EndpointPolicyCreateInput>;
@@ -39,7 +103,18 @@ export type EndpointPolicyCreateInput = z.output<typeof EndpointPolicyCreateInpu
 /** Input for updating an endpoint policy (partial). */
 export const EndpointPolicyUpdateInput = z.object({
   endpointPattern: z.string().optional(),
+  chainIds: PolicyChainIds,
+  methods: PolicyMethods,
   autoSign: z.boolean().optional(),
+  maxPerRequest: SpendingCap,
+  maxPerHour: SpendingCap,
+  maxPerDay: SpendingCap,
+  maxInChatApproval: SpendingCap,
+  maxPriceIncreasePercent: PriceIncreaseLimit,
+  maxPriceIncreaseUsd: PriceIncreaseLimit,
+  priceIncreaseAction: PriceIncreaseAction,
+  allowedPayTo: AddressList,
+  allowedAssets: AddressList,
   status: z.string().optional(),
 });
 export type EndpointPolicyUpdateInput = z.output<typeof EndpointPolicyUpdateInput>;
@@ -47,9 +122,26 @@ export type EndpointPolicyUpdateInput = z.output<typeof EndpointPolicyUpdateInpu
 const endpointPolicySchema = new Schema<EndpointPolicyDoc>(
   {
     endpointPattern: { type: String, required: true },
+    methods: { type: [String], default: [] },
+    triggerMethod: { type: String, default: null },
     autoSign: { type: Boolean, default: false },
+    maxPerRequest: { type: Number, default: null },
+    maxPerHour: { type: Number, default: null },
+    maxPerDay: { type: Number, default: null },
+    // Payments needing approval up to this USD amount may be confirmed in the
+    // agent's chat (MCP elicitation) instead of with a wallet signature
+    maxInChatApproval: { type: Number, default: null },
+    maxPriceIncreasePercent: { type: Number, default: null },
+    maxPriceIncreaseUsd: { type: Number, default: null },
+    priceIncreaseAction: { type: String, default: "manual_approval" },
+    allowedPayTo: { type: [String], default: [] },
+    allowedAssets: { type: [String], default: [] },
+    firstSeenPayTo: { type: String, default: null },
     status: { type: String, default: "active" },
-    chainId: { type: Number, required: true },
+    // null for multi-chain policies, which are scoped by chainIds instead
+    chainId: { type: Number, default: null },
+    chainIds: { type: [Number], default: [] },
+    mergedFrom: { type: [Schema.Types.ObjectId], default: [] },
     userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
     archivedAt: { type: Date, default: null },
   },
@@ -59,9 +151,15 @@ const endpointPolicySchema = new Schema<EndpointPolicyDoc>(
   }
 );
 
+// `methods` is an array, so this is a multikey index: two policies for the
+// same pattern may coexist only if their method sets do not overlap.
+// runMigrations drops the userId_1_endpointPattern_1_chainId_1 index it replaced.
+// Multi-chain policies (chainId null) are left out: their scope is the
+// chainIds array, and MongoDB cannot index two arrays together, so the data
+// layer checks their chain and method sets for overlap instead.
 endpointPolicySchema.index(
-  { userId: 1, endpointPattern: 1, chainId: 1 },
-  { unique: true }
+  { userId: 1, endpointPattern: 1, chainId: 1, methods: 1 },
+  { unique: true, partialFilterExpression: { chainId: { $type: "number" } } }
 );
 
 export const EndpointPolicy: Model<EndpointPolicyDoc> =
@@ -0,0 +1,77 @@
+import mongoose, { Schema, Document, Model, Types } from "mongoose";
+import { z } from "zod/v4";
+
+export const IDEMPOTENCY_STATUSES = ["in_progress", "completed", "pending_approval", "rejected"] as const;
+export type IdempotencyStatus = (typeof IDEMPOTENCY_STATUSES)[number];
+
+type IdempotencyKeyDoc = Document & {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  key: string;
+  /**
+   * SHA-256 of the request the key was first used for: method, URL, body,
+   * headers, chain, price cap and grant.
+   */
+  requestHash: string;
+  status: IdempotencyStatus;
+  /** Tool response text returned for the original call, replayed on retries. */
+  response: string | null;
+  /** JSON of the image and resource blocks that followed the response text, if any. */
+  attachments: string | null;
+  isError: boolean;
+  pendingPaymentId: Types.ObjectId | null;
+  expiresAt: Date;
+  createdAt: Date;
+};
+
+export const IdempotencyKeyDTO = z.object({
+  _id: z.instanceof(Types.ObjectId).transform((v) => v.toString()),
+  userId: z.instanceof(Types.ObjectId).transform((v) => v.toString()),
+  key: z.string(),
+  requestHash: z.string(),
+  status: z.enum(IDEMPOTENCY_STATUSES),
+  response: z.string().nullable(),
+  attachments: z.string().nullish().transform((v) => v ?? null),
+  isError: z.boolean(),
+  pendingPaymentId: z.instanceof(Types.ObjectId).nullish().transform((v) => v?.toString() ?? null),
+  expiresAt: z.instanceof(Date).transform((v) => v.toISOString()),
+  createdAt: z.instanceof(Date).transform((v) => v.toISOString()),
+});
+
+export type IdempotencyKeyDTO = z.output<typeof IdempotencyKeyDTO>;
+
+/** Input for recording the outcome of a call made with an idempotency key. */
+export const IdempotencyOutcomeInput = z.object({
+  status: z.enum(["completed", "pending_approval", "rejected"]),
+  response: z.string(),
+  attachments: z.string().optional(),
+  isError: z.boolean(),
+  pendingPaymentId: z.string().optional(),
+});
+export type IdempotencyOutcomeInput = z.output<typeof IdempotencyOutcomeInput>;
+
+const idempotencyKeySchema = new Schema<IdempotencyKeyDoc>(
+  {
+    userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    key: { type: String, required: true },
+    requestHash: { type: String, required: true },
+    status: { type: String, enum: IDEMPOTENCY_STATUSES, default: "in_progress" },
+    response: { type: String, default: null },
+    attachments: { type: String, default: null },
+    isError: { type: Boolean, default: false },
+    pendingPaymentId: { type: Schema.Types.ObjectId, ref: "PendingPayment", default: null },
+    expiresAt: { type: Date, required: true },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    collection: "idempotencykeys",
+  }
+);
+
+idempotencyKeySchema.index({ userId: 1, key: 1 }, { unique: true });
+// MongoDB removes keys once their retention window has passed
+idempotencyKeySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const IdempotencyKey: Model<IdempotencyKeyDoc> =
+  mongoose.models.IdempotencyKey ||
+  mongoose.model<IdempotencyKeyDoc>("IdempotencyKey", idempotencyKeySchema);
@@ -0,0 +1,38 @@
+import mongoose, { Schema, Document, Model, Types } from "mongoose";
+
+type McpClientResponseDoc = Document & {
+  _id: Types.ObjectId;
+  sessionId: string;
+  /** ID of the server-to-client request (e.g. an elicitation) being answered. */
+  requestId: string;
+  /** The client's JSON-RPC response message. */
+  message: Record<string, unknown>;
+  expiresAt: Date;
+  createdAt: Date;
+};
+
+/**
+ * Inbox of client replies to server-to-client requests. The reply arrives in
+ * its own POST, possibly on another serverless instance than the tool call
+ * waiting for it, so it is handed over through MongoDB.
+ */
+const mcpClientResponseSchema = new Schema<McpClientResponseDoc>(
+  {
+    sessionId: { type: String, required: true },
+    requestId: { type: String, required: true },
+    message: { type: Schema.Types.Mixed, required: true },
+    expiresAt: { type: Date, required: true },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    collection: "mcpclientresponses",
+  }
+);
+
+mcpClientResponseSchema.index({ sessionId: 1, requestId: 1 });
+// Replies nobody is waiting for any more are dropped
+mcpClientResponseSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const McpClientResponse: Model<McpClientResponseDoc> =
+  mongoose.models.McpClientResponse ||
+  mongoose.model<McpClientResponseDoc>("McpClientResponse", mcpClientResponseSchema);
@@ -0,0 +1,38 @@
+import mongoose, { Schema, Document, Model, Types } from "mongoose";
+
+type McpNotificationDoc = Document & {
+  _id: Types.ObjectId;
+  /** The MCP session the notification is queued for. */
+  sessionId: string;
+  /** JSON-RPC notification method, e.g. "notifications/message". */
+  method: string;
+  params: Record<string, unknown> | null;
+  expiresAt: Date;
+  createdAt: Date;
+};
+
+/**
+ * Outbox of server-to-client notifications. Whichever serverless instance
+ * holds the session's SSE stream delivers and deletes them, so events raised
+ * on any instance (e.g. a dashboard approval) reach the agent.
+ */
+const mcpNotificationSchema = new Schema<McpNotificationDoc>(
+  {
+    sessionId: { type: String, required: true },
+    method: { type: String, required: true },
+    params: { type: Schema.Types.Mixed, default: null },
+    expiresAt: { type: Date, required: true },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    collection: "mcpnotifications",
+  }
+);
+
+mcpNotificationSchema.index({ sessionId: 1, createdAt: 1 });
+// Undelivered notifications are dropped once their session could have expired
+mcpNotificationSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const McpNotification: Model<McpNotificationDoc> =
+  mongoose.models.McpNotification ||
+  mongoose.model<McpNotificationDoc>("McpNotification", mcpNotificationSchema);
@@ -0,0 +1,56 @@
+import mongoose, { Schema, Document, Model, Types } from "mongoose";
+import { z } from "zod/v4";
+
+type McpSessionDoc = Document & {
+  _id: Types.ObjectId;
+  /** The Mcp-Session-Id issued to the client on initialize. */
+  sessionId: string;
+  userId: Types.ObjectId;
+  /** API key ID or "oauth:<grantId>"; only this credential may use the session. */
+  credentialId: string;
+  /** Merchant directory fingerprint the client last saw, to detect changes across deploys. */
+  directoryVersion: string | null;
+  /** The params of the client's initialize request, replayed on every request. */
+  initializeParams: Record<string, unknown> | null;
+  lastSeenAt: Date;
+  expiresAt: Date;
+  createdAt: Date;
+};
+
+export const McpSessionDTO = z.object({
+  _id: z.instanceof(Types.ObjectId).transform((v) => v.toString()),
+  sessionId: z.string(),
+  userId: z.instanceof(Types.ObjectId).transform((v) => v.toString()),
+  credentialId: z.string(),
+  directoryVersion: z.string().nullish().transform((v) => v ?? null),
+  initializeParams: z.record(z.string(), z.unknown()).nullish().transform((v) => v ?? null),
+  lastSeenAt: z.instanceof(Date).transform((v) => v.toISOString()),
+  expiresAt: z.instanceof(Date).transform((v) => v.toISOString()),
+  createdAt: z.instanceof(Date).transform((v) => v.toISOString()),
+});
+
+export type McpSessionDTO = z.output<typeof McpSessionDTO>;
+
+const mcpSessionSchema = new Schema<McpSessionDoc>(
+  {
+    sessionId: { type: String, required: true, unique: true },
+    userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    credentialId: { type: String, required: true },
+    directoryVersion: { type: String, default: null },
+    initializeParams: { type: Schema.Types.Mixed, default: null },
+    lastSeenAt: { type: Date, required: true },
+    expiresAt: { type: Date, required: true },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    collection: "mcpsessions",
+  }
+);
+
+mcpSessionSchema.index({ credentialId: 1 });
+// MongoDB removes sessions once they have been idle past their expiry
+mcpSessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const McpSession: Model<McpSessionDoc> =
+  mongoose.models.McpSession ||
+  mongoose.model<McpSessionDoc>("McpSession", mcpSessionSchema);
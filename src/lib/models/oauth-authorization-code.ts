@@ -0,0 +1,42 @@
+import mongoose, { Schema, Document, Model, Types } from "mongoose";
+import { API_KEY_SCOPES, type ApiKeyScope } from "@/lib/mcp/tool-registry";
+
+type OAuthAuthorizationCodeDoc = Document & {
+  _id: Types.ObjectId;
+  codeHash: string;
+  clientId: string;
+  userId: Types.ObjectId;
+  redirectUri: string;
+  /** PKCE S256 challenge the token request's code_verifier must match. */
+  codeChallenge: string;
+  scopes: ApiKeyScope[];
+  /** RFC 8707 resource the tokens are bound to, or null if none was requested. */
+  resource: string | null;
+  expiresAt: Date;
+  createdAt: Date;
+};
+
+const oauthAuthorizationCodeSchema = new Schema<OAuthAuthorizationCodeDoc>(
+  {
+    codeHash: { type: String, required: true },
+    clientId: { type: String, required: true },
+    userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    redirectUri: { type: String, required: true },
+    codeChallenge: { type: String, required: true },
+    scopes: { type: [String], enum: API_KEY_SCOPES, required: true },
+    resource: { type: String, default: null },
+    expiresAt: { type: Date, required: true },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    collection: "oauthauthorizationcodes",
+  }
+);
+
+oauthAuthorizationCodeSchema.index({ codeHash: 1 }, { unique: true });
+// MongoDB removes codes that were never exchanged
+oauthAuthorizationCodeSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const OAuthAuthorizationCode: Model<OAuthAuthorizationCodeDoc> =
+  mongoose.models.OAuthAuthorizationCode ||
+  mongoose.model<OAuthAuthorizationCodeDoc>("OAuthAuthorizationCode", oauthAuthorizationCodeSchema);
@@ -0,0 +1,73 @@
+import mongoose, { Schema, Document, Model, Types } from "mongoose";
+import { z } from "zod/v4";
+
+type OAuthClientDoc = Document & {
+  _id: Types.ObjectId;
+  clientId: string;
+  clientName: string | null;
+  clientUri: string | null;
+  redirectUris: string[];
+  createdAt: Date;
+};
+
+export const OAuthClientDTO = z.object({
+  _id: z.instanceof(Types.ObjectId).transform((v) => v.toString()),
+  clientId: z.string(),
+  clientName: z.string().nullish().transform((v) => v ?? null),
+  clientUri: z.string().nullish().transform((v) => v ?? null),
+  redirectUris: z.array(z.string()),
+  createdAt: z.instanceof(Date).transform((v) => v.toISOString()),
+});
+
+export type OAuthClientDTO = z.output<typeof OAuthClientDTO>;
+
+/** Schemes a redirect URI must never use; they could run code in the browser. */
+const UNSAFE_REDIRECT_SCHEMES = ["javascript:", "data:", "vbscript:", "file:", "blob:"];
+
+/**
+ * A redirect URI allowed by OAuth 2.1: https, http on a loopback address for
+ * native apps, or a private-use scheme (e.g. cursor://). No fragments.
+ */
+export const OAuthRedirectUri = z
+  .string()
+  .max(2048)
+  .refine((value) => {
+    let url: URL;
+    try {
+      url = new URL(value);
+    } catch {
+      return false;
+    }
+    if (url.hash || UNSAFE_REDIRECT_SCHEMES.includes(url.protocol)) return false;
+    if (url.protocol === "http:") {
+      return ["localhost", "127.0.0.1", "[::1]"].includes(url.hostname);
+    }
+    return true;
+  }, "Redirect URIs must use https, http on a loopback address, or a private-use scheme, without a fragment");
+
+/** Input for dynamic client registration (RFC 7591), after mapping from snake_case. */
+export const OAuthClientRegistrationInput = z.object({
+  clientName: z.string().trim().max(128).nullable(),
+  clientUri: z.url().max(2048).nullable(),
+  redirectUris: z.array(OAuthRedirectUri).min(1, "At least one redirect URI is required").max(10),
+});
+export type OAuthClientRegistrationInput = z.output<typeof OAuthClientRegistrationInput>;
+
+const oauthClientSchema = new Schema<OAuthClientDoc>(
+  {
+    clientId: { type: String, required: true },
+    clientName: { type: String, default: null },
+    clientUri: { type: String, default: null },
+    redirectUris: { type: [String], required: true },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    collection: "oauthclients",
+  }
+);
+
+oauthClientSchema.index({ clientId: 1 }, { unique: true });
+
+export const OAuthClient: Model<OAuthClientDoc> =
+  mongoose.models.OAuthClient ||
+  mongoose.model<OAuthClientDoc>("OAuthClient", oauthClientSchema);
@@ -0,0 +1,76 @@
+import mongoose, { Schema, Document, Model, Types } from "mongoose";
+import { z } from "zod/v4";
+import { API_KEY_SCOPES, type ApiKeyScope } from "@/lib/mcp/tool-registry";
+
+/**
+ * One authorization a user gave an OAuth client. Holds the current access
+ * and refresh token hashes; both are replaced on every refresh. The spending
+ * limits apply to the client across all of the user's grants to it.
+ */
+type OAuthGrantDoc = Document & {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  clientId: string;
+  scopes: ApiKeyScope[];
+  resource: string | null;
+  dailyBudget: number | null;
+  monthlyBudget: number | null;
+  maxPerRequest: number | null;
+  accessTokenHash: string;   // sensitive -- excluded from DTO
+  accessTokenExpiresAt: Date;
+  refreshTokenHash: string;  // sensitive -- excluded from DTO
+  refreshTokenExpiresAt: Date;
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+};
+
+export const OAuthGrantDTO = z.object({
+  _id: z.instanceof(Types.ObjectId).transform((v) => v.toString()),
+  userId: z.instanceof(Types.ObjectId).transform((v) => v.toString()),
+  clientId: z.string(),
+  scopes: z.array(z.enum(API_KEY_SCOPES)),
+  resource: z.string().nullish().transform((v) => v ?? null),
+  dailyBudget: z.number().nullish().transform((v) => v ?? null),
+  monthlyBudget: z.number().nullish().transform((v) => v ?? null),
+  maxPerRequest: z.number().nullish().transform((v) => v ?? null),
+  refreshTokenExpiresAt: z.instanceof(Date).transform((v) => v.toISOString()),
+  lastUsedAt: z.instanceof(Date).nullish().transform((v) => v?.toISOString() ?? null),
+  revokedAt: z.instanceof(Date).nullish().transform((v) => v?.toISOString() ?? null),
+  createdAt: z.instanceof(Date).transform((v) => v.toISOString()),
+});
+
+export type OAuthGrantDTO = z.output<typeof OAuthGrantDTO>;
+
+const oauthGrantSchema = new Schema<OAuthGrantDoc>(
+  {
+    userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    clientId: { type: String, required: true },
+    scopes: { type: [String], enum: API_KEY_SCOPES, required: true },
+    resource: { type: String, default: null },
+    dailyBudget: { type: Number, default: null },
+    monthlyBudget: { type: Number, default: null },
+    maxPerRequest: { type: Number, default: null },
+    accessTokenHash: { type: String, required: true },
+    accessTokenExpiresAt: { type: Date, required: true },
+    refreshTokenHash: { type: String, required: true },
+    refreshTokenExpiresAt: { type: Date, required: true },
+    lastUsedAt: { type: Date, default: null },
+    revokedAt: { type: Date, default: null },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    collection: "oauthgrants",
+  }
+);
+
+oauthGrantSchema.index({ accessTokenHash: 1 }, { unique: true });
+oauthGrantSchema.index({ refreshTokenHash: 1 }, { unique: true });
+oauthGrantSchema.index({ userId: 1, createdAt: -1 });
+oauthGrantSchema.index({ userId: 1, clientId: 1, createdAt: -1 });
+// MongoDB removes grants once they can no longer be refreshed
+oauthGrantSchema.index({ refreshTokenExpiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const OAuthGrant: Model<OAuthGrantDoc> =
+  mongoose.models.OAuthGrant ||
+  mongoose.model<OAuthGrantDoc>("OAuthGrant", oauthGrantSchema);
@@ -1,14 +1,25 @@
 import mongoose, { Schema, Document, Model, Types } from "mongoose";
 import { z } from "zod/v4";
+import { RESPONSE_ENCODINGS, type ResponseEncoding } from "@/lib/x402/response-body";
 
 type PendingPaymentDoc = Document & {
   _id: Types.ObjectId;
   userId: Types.ObjectId;
+  policyId: Types.ObjectId | null;
+  apiKeyId: Types.ObjectId | null;
+  oauthClientId: string | null;
   url: string;
   method: string;
   amount?: number;
   amountRaw: string | null;
   asset: string | null;
+  reason: string | null;
+  previousAmount: number | null;
+  idempotencyKey: string | null;
+  mcpSessionId: string | null;
+  purpose: string | null;
+  taskId: string | null;
+  tags: string[];
   chainId: number;
   paymentRequirements: string;
   status: string;
@@ -16,6 +27,9 @@ type PendingPaymentDoc = Document & {
   requestBody: string | null;
   requestHeaders: string | null;
   responsePayload: string | null;
+  responseEncoding: ResponseEncoding | null;
+  responseContentType: string | null;
+  responseBodyId: Types.ObjectId | null;
   responseStatus: number | null;
   txHash: string | null;
   completedAt: Date | null;
@@ -26,11 +40,21 @@ type PendingPaymentDoc = Document & {
 export const PendingPaymentDTO = z.object({
   _id: z.instanceof(Types.ObjectId).transform((v) => v.toString()),
   userId: z.instanceof(Types.ObjectId).transform((v) => v.toString()),
+  policyId: z.instanceof(Types.ObjectId).nullish().transform((v) => v?.toString() ?? null),
+  apiKeyId: z.instanceof(Types.ObjectId).nullish().transform((v) => v?.toString() ?? null),
+  oauthClientId: z.string().nullish().transform((v) => v ?? null),
   url: z.string(),
   method: z.string(),
   amount: z.number().optional(),
   amountRaw: z.string().nullish().transform((v) => v ?? null),
   asset: z.string().nullish().transform((v) => v ?? null),
+  reason: z.string().nullish().transform((v) => v ?? null),
+  previousAmount: z.number().nullish().transform((v) => v ?? null),
+  idempotencyKey: z.string().nullish().transform((v) => v ?? null),
+  mcpSessionId: z.string().nullish().transform((v) => v ?? null),
+  purpose: z.string().nullish().transform((v) => v ?? null),
+  taskId: z.string().nullish().transform((v) => v ?? null),
+  tags: z.array(z.string()).nullish().transform((v) => v ?? []),
   chainId: z.number(),
   paymentRequirements: z.string(),
   status: z.string(),
@@ -38,6 +62,9 @@ export const PendingPaymentDTO = z.object({
   requestBody: z.string().nullable(),
   requestHeaders: z.string().nullable(),
   responsePayload: z.string().nullable(),
+  responseEncoding: z.enum(RESPONSE_ENCODINGS).nullish().transform((v) => v ?? "utf8"),
+  responseContentType: z.string().nullish().transform((v) => v ?? null),
+  responseBodyId: z.instanceof(Types.ObjectId).nullish().transform((v) => v?.toString() ?? null),
   responseStatus: z.number().nullable(),
   txHash: z.string().nullable(),
   completedAt: z.instanceof(Date).nullable().transform((v) => v?.toISOString() ?? null),
@@ -55,9 +82,19 @@ export const PendingPaymentCreateInput = z.object({
   paymentRequirements: z.string(),
   expiresAt: z.date(),
   method: z.string().optional(),
+  policyId: z.string().optional(),
+  apiKeyId: z.string().optional(),
+  oauthClientId: z.string().optional(),
   amount: z.number().optional(),
   amountRaw: z.string().optional(),
   asset: z.string().optional(),
+  reason: z.string().optional(),
+  previousAmount: z.number().optional(),
+  idempotencyKey: z.string().optional(),
+  mcpSessionId: z.string().optional(),
+  purpose: z.string().optional(),
+  taskId: z.string().optional(),
+  tags: z.array(z.string()).optional(),
   body: z.string().optional(),
   headers: z.record(z.string(), z.string()).optional(),
 });
@@ -66,6 +103,9 @@ export type PendingPaymentCreateInput = z.output<typeof PendingPaymentCreateInpu
 /** Input for completing a pending payment. */
 export const PendingPaymentCompleteInput = z.object({
   responsePayload: z.string(),
+  responseEncoding: z.enum(RESPONSE_ENCODINGS).optional(),
+  responseContentType: z.string().nullable().optional(),
+  responseBodyId: z.string().optional(),
   responseStatus: z.number(),
   txHash: z.string().optional(),
 });
@@ -74,6 +114,9 @@ export type PendingPaymentCompleteInput = z.output<typeof PendingPaymentComplete
 /** Input for failing a pending payment. */
 export const PendingPaymentFailInput = z.object({
   responsePayload: z.string().optional(),
+  responseEncoding: z.enum(RESPONSE_ENCODINGS).optional(),
+  responseContentType: z.string().nullable().optional(),
+  responseBodyId: z.string().optional(),
   responseStatus: z.number().optional(),
   error: z.string().optional(),
 });
@@ -82,11 +125,25 @@ export type PendingPaymentFailInput = z.output<typeof PendingPaymentFailInput>;
 const pendingPaymentSchema = new Schema<PendingPaymentDoc>(
   {
     userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    policyId: { type: Schema.Types.ObjectId, ref: "EndpointPolicy", default: null },
+    // The API key of the agent that initiated the payment, if any
+    apiKeyId: { type: Schema.Types.ObjectId, ref: "ApiKey", default: null },
+    // The OAuth client of the agent that initiated the payment, if any
+    oauthClientId: { type: String, default: null },
     url: { type: String, required: true },
     method: { type: String, default: "GET" },
     amount: { type: Number, default: 0 },
     amountRaw: { type: String, default: null },
     asset: { type: String, default: null },
+    reason: { type: String, default: null },
+    previousAmount: { type: Number, default: null },
+    idempotencyKey: { type: String, default: null },
+    // The stateful MCP session that created the payment, notified on status changes
+    mcpSessionId: { type: String, default: null },
+    // Why the agent paid, as it told x402_pay; copied to the transaction
+    purpose: { type: String, default: null },
+    taskId: { type: String, default: null },
+    tags: { type: [String], default: [] },
     chainId: { type: Number, required: true },
     paymentRequirements: { type: String, required: true },
     status: { type: String, default: "pending" },
@@ -94,6 +151,12 @@ const pendingPaymentSchema = new Schema<PendingPaymentDoc>(
     requestBody: { type: String, default: null },
     requestHeaders: { type: String, default: null },
     responsePayload: { type: String, default: null },
+    // Binary bodies are stored base64-encoded so they survive intact
+    responseEncoding: { type: String, enum: RESPONSE_ENCODINGS, default: null },
+    responseContentType: { type: String, default: null },
+    // GridFS file with the full body when it exceeds the response budget;
+    // responsePayload then holds only a preview
+    responseBodyId: { type: Schema.Types.ObjectId, default: null },
     responseStatus: { type: Number, default: null },
     txHash: { type: String, default: null },
     completedAt: { type: Date, default: null },
@@ -111,6 +174,19 @@ pendingPaymentSchema.index({ chainId: 1 });
 // Compound index for getPendingPayments / getPendingCount queries that filter
 // on userId + status + chainId + expiresAt together.
 pendingPaymentSchema.index({ userId: 1, status: 1, chainId: 1, expiresAt: -1 });
+// One approval card per idempotency key, so agent retries don't duplicate it.
+// The key is unset once it expires (see claimIdempotencyKey), so reusing it
+// after the retention window creates a new card.
+pendingPaymentSchema.index(
+  { userId: 1, idempotencyKey: 1 },
+  { unique: true, partialFilterExpression: { idempotencyKey: { $type: "string" } } },
+);
+
+// Finds a session's overdue payments while its notification stream is open
+pendingPaymentSchema.index(
+  { mcpSessionId: 1, status: 1 },
+  { partialFilterExpression: { mcpSessionId: { $type: "string" } } },
+);
 
 export const PendingPayment: Model<PendingPaymentDoc> =
   mongoose.models.PendingPayment ||
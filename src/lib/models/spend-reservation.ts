@@ -0,0 +1,47 @@
+import mongoose, { Schema, Document, Model, Types } from "mongoose";
+
+/**
+ * An amount held while a payment is signed and sent, against every limit the
+ * payment counts toward: its endpoint policy's hourly and daily caps, the
+ * account-wide budget, and the calling API key's or OAuth client's budget.
+ * Limit checks count live reservations alongside recorded transactions, so
+ * concurrent payments cannot each pass a check and together overspend.
+ * Deleted once the transaction is recorded; `expiresAt` bounds how long a
+ * crashed payment holds its amount.
+ */
+type SpendReservationDoc = Document & {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  policyId: Types.ObjectId | null;
+  apiKeyId: Types.ObjectId | null;
+  oauthClientId: string | null;
+  amount: number;
+  expiresAt: Date;
+  createdAt: Date;
+};
+
+const spendReservationSchema = new Schema<SpendReservationDoc>(
+  {
+    userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    // Set when the payment is signed under a policy whose caps it counts toward
+    policyId: { type: Schema.Types.ObjectId, ref: "EndpointPolicy", default: null },
+    apiKeyId: { type: Schema.Types.ObjectId, ref: "ApiKey", default: null },
+    oauthClientId: { type: String, default: null },
+    amount: { type: Number, required: true },
+    expiresAt: { type: Date, required: true },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    collection: "spendreservations",
+  }
+);
+
+spendReservationSchema.index({ userId: 1, expiresAt: 1 });
+spendReservationSchema.index({ policyId: 1, expiresAt: 1 });
+spendReservationSchema.index({ apiKeyId: 1, expiresAt: 1 });
+// MongoDB removes reservations left behind by payments that never finished
+spendReservationSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const SpendReservation: Model<SpendReservationDoc> =
+  mongoose.models.SpendReservation ||
+  mongoose.model<SpendReservationDoc>("SpendReservation", spendReservationSchema);
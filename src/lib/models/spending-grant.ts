@@ -0,0 +1,83 @@
+import mongoose, { Schema, Document, Model, Types } from "mongoose";
+import { z } from "zod/v4";
+
+export const SPENDING_GRANT_STATUSES = ["pending", "active", "rejected", "revoked"] as const;
+export type SpendingGrantStatus = (typeof SPENDING_GRANT_STATUSES)[number];
+
+/**
+ * A task-scoped budget an agent asked for with x402_request_grant. Once the
+ * user approves it with a wallet signature, x402_pay calls that name the
+ * grant auto-sign against its remaining amount until it expires.
+ *
+ * `expiresAt` is the approval deadline while the grant is pending, and the
+ * end of the grant (approval time + duration) once it is active. Expiry is
+ * not a status: a grant past `expiresAt` is simply no longer usable.
+ */
+type SpendingGrantDoc = Document & {
+  _id: Types.ObjectId;
+  userId: Types.ObjectId;
+  apiKeyId: Types.ObjectId | null;
+  purpose: string;
+  amountUsd: number;
+  spentUsd: number;
+  durationSeconds: number;
+  status: SpendingGrantStatus;
+  signature: string | null;
+  approvedAt: Date | null;
+  expiresAt: Date;
+  createdAt: Date;
+};
+
+export const SpendingGrantDTO = z.object({
+  _id: z.instanceof(Types.ObjectId).transform((v) => v.toString()),
+  userId: z.instanceof(Types.ObjectId).transform((v) => v.toString()),
+  apiKeyId: z.instanceof(Types.ObjectId).nullish().transform((v) => v?.toString() ?? null),
+  purpose: z.string(),
+  amountUsd: z.number(),
+  spentUsd: z.number(),
+  durationSeconds: z.number(),
+  status: z.enum(SPENDING_GRANT_STATUSES),
+  approvedAt: z.instanceof(Date).nullish().transform((v) => v?.toISOString() ?? null),
+  expiresAt: z.instanceof(Date).transform((v) => v.toISOString()),
+  createdAt: z.instanceof(Date).transform((v) => v.toISOString()),
+});
+
+export type SpendingGrantDTO = z.output<typeof SpendingGrantDTO>;
+
+/** Input for requesting a grant. */
+export const SpendingGrantCreateInput = z.object({
+  userId: z.string(),
+  apiKeyId: z.string().optional(),
+  purpose: z.string().trim().min(1).max(200),
+  amountUsd: z.number().positive(),
+  durationSeconds: z.number().int().positive(),
+});
+export type SpendingGrantCreateInput = z.output<typeof SpendingGrantCreateInput>;
+
+const spendingGrantSchema = new Schema<SpendingGrantDoc>(
+  {
+    userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    // The API key of the agent that requested the grant; only it may spend it.
+    // Null for OAuth clients, which share the user's grants.
+    apiKeyId: { type: Schema.Types.ObjectId, ref: "ApiKey", default: null },
+    purpose: { type: String, required: true },
+    amountUsd: { type: Number, required: true },
+    spentUsd: { type: Number, default: 0 },
+    durationSeconds: { type: Number, required: true },
+    status: { type: String, enum: SPENDING_GRANT_STATUSES, default: "pending" },
+    signature: { type: String, default: null },
+    approvedAt: { type: Date, default: null },
+    expiresAt: { type: Date, required: true },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    collection: "spendinggrants",
+  }
+);
+
+// Dashboard list of actionable and active grants
+spendingGrantSchema.index({ userId: 1, status: 1, expiresAt: -1 });
+
+export const SpendingGrant: Model<SpendingGrantDoc> =
+  mongoose.models.SpendingGrant ||
+  mongoose.model<SpendingGrantDoc>("SpendingGrant", spendingGrantSchema);
@@ -1,9 +1,14 @@
 import mongoose, { Schema, Document, Model, Types } from "mongoose";
 import { z } from "zod/v4";
+import { RESPONSE_ENCODINGS, type ResponseEncoding } from "@/lib/x402/response-body";
 
 type TransactionDoc = Document & {
   _id: Types.ObjectId;
   userId: Types.ObjectId;
+  policyId: Types.ObjectId | null;
+  apiKeyId: Types.ObjectId | null;
+  oauthClientId: string | null;
+  grantId: Types.ObjectId | null;
   amount: number;
   endpoint: string;
   payTo: string | null;
@@ -16,15 +21,26 @@ type TransactionDoc = Document & {
   chainId: number;
   status: string;
   type: string;
+  signingStrategy: string | null;
   responsePayload: string | null;
+  responseEncoding: ResponseEncoding | null;
+  responseContentType: string | null;
+  responseBodyId: Types.ObjectId | null;
   errorMessage: string | null;
   responseStatus: number | null;
+  purpose: string | null;
+  taskId: string | null;
+  tags: string[];
   createdAt: Date;
 };
 
 export const TransactionDTO = z.object({
   _id: z.instanceof(Types.ObjectId).transform((v) => v.toString()),
   userId: z.instanceof(Types.ObjectId).transform((v) => v.toString()),
+  policyId: z.instanceof(Types.ObjectId).nullish().transform((v) => v?.toString() ?? null),
+  apiKeyId: z.instanceof(Types.ObjectId).nullish().transform((v) => v?.toString() ?? null),
+  oauthClientId: z.string().nullish().transform((v) => v ?? null),
+  grantId: z.instanceof(Types.ObjectId).nullish().transform((v) => v?.toString() ?? null),
   amount: z.number(),
   endpoint: z.string(),
   payTo: z.string().nullable(),
@@ -37,9 +53,16 @@ export const TransactionDTO = z.object({
   chainId: z.number(),
   status: z.string(),
   type: z.string(),
+  signingStrategy: z.string().nullish().transform((v) => v ?? null),
   responsePayload: z.string().nullable(),
+  responseEncoding: z.enum(RESPONSE_ENCODINGS).nullish().transform((v) => v ?? "utf8"),
+  responseContentType: z.string().nullish().transform((v) => v ?? null),
+  responseBodyId: z.instanceof(Types.ObjectId).nullish().transform((v) => v?.toString() ?? null),
   errorMessage: z.string().nullable(),
   responseStatus: z.number().nullable(),
+  purpose: z.string().nullish().transform((v) => v ?? null),
+  taskId: z.string().nullish().transform((v) => v ?? null),
+  tags: z.array(z.string()).nullish().transform((v) => v ?? []),
   createdAt: z.instanceof(Date).transform((v) => v.toISOString()),
 });
 
@@ -53,6 +76,10 @@ export const TransactionCreateInput = z.object({
   network: z.string(),
   chainId: z.number(),
   status: z.string(),
+  policyId: z.string().nullable().optional(),
+  apiKeyId: z.string().nullable().optional(),
+  oauthClientId: z.string().nullable().optional(),
+  grantId: z.string().nullable().optional(),
   payTo: z.string().nullable().optional(),
   asset: z.string().nullable().optional(),
   scheme: z.string().nullable().optional(),
@@ -60,9 +87,16 @@ export const TransactionCreateInput = z.object({
   extra: z.record(z.string(), z.unknown()).nullable().optional(),
   txHash: z.string().nullable().optional(),
   type: z.string().optional(),
+  signingStrategy: z.enum(["auto_sign", "in_chat_approval", "manual_approval"]).optional(),
   responsePayload: z.string().nullable().optional(),
+  responseEncoding: z.enum(RESPONSE_ENCODINGS).optional(),
+  responseContentType: z.string().nullable().optional(),
+  responseBodyId: z.string().optional(),
   errorMessage: z.string().nullable().optional(),
   responseStatus: z.number().nullable().optional(),
+  purpose: z.string().nullable().optional(),
+  taskId: z.string().nullable().optional(),
+  tags: z.array(z.string()).optional(),
 });
 export type TransactionCreateInput = z.output<typeof TransactionCreateInput>;
 
@@ -70,6 +104,13 @@ export type TransactionCreateInput = z.output<typeof TransactionCreateInput>;
 const transactionSchema = new Schema<TransactionDoc>(
   {
     userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    policyId: { type: Schema.Types.ObjectId, ref: "EndpointPolicy", default: null },
+    // The API key of the agent that initiated the payment, if any
+    apiKeyId: { type: Schema.Types.ObjectId, ref: "ApiKey", default: null },
+    // The OAuth client of the agent that initiated the payment, if any
+    oauthClientId: { type: String, default: null },
+    // The spending grant the payment was auto-signed against, if any
+    grantId: { type: Schema.Types.ObjectId, ref: "SpendingGrant", default: null },
     amount: { type: Number, required: true },
     endpoint: { type: String, required: true },
     payTo: { type: String, default: null },
@@ -82,9 +123,20 @@ const transactionSchema = new Schema<TransactionDoc>(
     chainId: { type: Number, required: true },
     status: { type: String, default: "pending" },
     type: { type: String, default: "payment" },
+    signingStrategy: { type: String, default: null },
     responsePayload: { type: String, default: null },
+    // Binary bodies are stored base64-encoded so they survive intact
+    responseEncoding: { type: String, enum: RESPONSE_ENCODINGS, default: null },
+    responseContentType: { type: String, default: null },
+    // GridFS file with the full body when it exceeds the response budget;
+    // responsePayload then holds only a preview
+    responseBodyId: { type: Schema.Types.ObjectId, default: null },
     errorMessage: { type: String, default: null },
     responseStatus: { type: Number, default: null },
+    // Why the agent paid, as it told x402_pay
+    purpose: { type: String, default: null },
+    taskId: { type: String, default: null },
+    tags: { type: [String], default: [] },
   },
   {
     timestamps: { createdAt: true, updatedAt: false },
@@ -94,6 +146,17 @@ const transactionSchema = new Schema<TransactionDoc>(
 
 transactionSchema.index({ userId: 1 });
 transactionSchema.index({ chainId: 1 });
+// Supports per-policy spending-cap sums over a recent time window.
+transactionSchema.index({ policyId: 1, status: 1, createdAt: -1 });
+// Supports summing today's auto-signed spend per chain (session key daily limit).
+transactionSchema.index({ userId: 1, chainId: 1, signingStrategy: 1, createdAt: -1 });
+// Supports per-API-key budget sums.
+transactionSchema.index({ apiKeyId: 1, status: 1, createdAt: -1 });
+// Supports per-OAuth-client budget sums.
+transactionSchema.index({ userId: 1, oauthClientId: 1, createdAt: -1 });
+// Supports filtering history by tag or task.
+transactionSchema.index({ userId: 1, tags: 1, createdAt: -1 });
+transactionSchema.index({ userId: 1, taskId: 1, createdAt: -1 });
 
 export const Transaction: Model<TransactionDoc> =
   mongoose.models.Transaction ||
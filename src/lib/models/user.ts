@@ -6,9 +6,13 @@ type UserDoc = Document & {
   email: string | null;
   walletAddress: string | null;
   humanHash: string | null;
+  // Legacy single key -- migrated to the ApiKey collection on first use
   apiKeyHash: string | null;   // sensitive -- excluded from DTO
   apiKeyPrefix: string | null;
   enabledChains: number[];
+  dailyBudget: number | null;
+  monthlyBudget: number | null;
+  deniedPayTo: string[];
   createdAt: Date;
   updatedAt: Date;
 };
@@ -20,12 +24,30 @@ export const UserDTO = z.object({
   humanHash: z.string().nullable(),
   apiKeyPrefix: z.string().nullable(),
   enabledChains: z.array(z.number()),
+  dailyBudget: z.number().nullish().transform((v) => v ?? null),
+  monthlyBudget: z.number().nullish().transform((v) => v ?? null),
+  deniedPayTo: z.array(z.string()).nullish().transform((v) => v ?? []),
   createdAt: z.instanceof(Date).transform((v) => v.toISOString()),
   updatedAt: z.instanceof(Date).transform((v) => v.toISOString()),
 });
 
 export type UserDTO = z.output<typeof UserDTO>;
 
+/** Input for updating the account-wide spending budget (USD; null clears a limit). */
+export const UserBudgetInput = z.object({
+  dailyBudget: z.number().positive().nullable(),
+  monthlyBudget: z.number().positive().nullable(),
+});
+export type UserBudgetInput = z.output<typeof UserBudgetInput>;
+
+/** Input for replacing the account-wide recipient denylist. */
+export const UserRecipientDenylistInput = z.object({
+  deniedPayTo: z.array(
+    z.string().regex(/^0x[0-9a-fA-F]{40}$/, "Addresses must be 0x-prefixed 20-byte hex"),
+  ),
+});
+export type UserRecipientDenylistInput = z.output<typeof UserRecipientDenylistInput>;
+
 const userSchema = new Schema<UserDoc>(
   {
     email: { type: String, default: null },
@@ -34,6 +56,9 @@ const userSchema = new Schema<UserDoc>(
     apiKeyHash: { type: String, default: null },
     apiKeyPrefix: { type: String, default: null },
     enabledChains: { type: [Number], default: [] },
+    dailyBudget: { type: Number, default: null },
+    monthlyBudget: { type: Number, default: null },
+    deniedPayTo: { type: [String], default: [] },
   },
   {
     timestamps: true,
@@ -0,0 +1,171 @@
+/**
+ * OAuth 2.1 authorization for the MCP endpoint, per the MCP authorization spec.
+ *
+ * Brevet is both the authorization server and the protected resource:
+ * - Protected resource metadata (RFC 9728) points agents at this server.
+ * - Clients register dynamically (RFC 7591) as public clients and use the
+ *   authorization-code grant with PKCE S256; there are no client secrets.
+ * - The user approves a client on /oauth/authorize after SIWE login.
+ * - Access tokens are opaque, short-lived, and bound to the user, the granted
+ *   scopes (the same read/discover/pay scopes as API keys) and, if the client
+ *   sent one, the RFC 8707 resource.
+ */
+import type {
+  OAuthMetadata,
+  OAuthProtectedResourceMetadata,
+} from "@modelcontextprotocol/sdk/shared/auth.js";
+import { getOAuthClient } from "@/lib/data/oauth";
+import { API_KEY_SCOPES, type ApiKeyScope } from "@/lib/mcp/tool-registry";
+
+export const OAUTH_AUTHORIZE_PATH = "/oauth/authorize";
+export const OAUTH_TOKEN_PATH = "/api/oauth/token";
+export const OAUTH_REGISTER_PATH = "/api/oauth/register";
+export const OAUTH_REVOKE_PATH = "/api/oauth/revoke";
+export const PROTECTED_RESOURCE_METADATA_PATH = "/.well-known/oauth-protected-resource";
+
+/** A validated authorization request, ready to show on the consent screen. */
+export interface AuthorizationRequest {
+  clientId: string;
+  clientName: string | null;
+  redirectUri: string;
+  state: string | null;
+  codeChallenge: string;
+  scopes: ApiKeyScope[];
+  resource: string | null;
+}
+
+/**
+ * Outcome of validating an authorization request. Errors before the client
+ * and redirect URI are trusted must be shown to the user ("invalid"); later
+ * errors are returned to the client through its redirect URI.
+ */
+export type AuthorizationRequestResult =
+  | { status: "valid"; request: AuthorizationRequest }
+  | { status: "invalid"; error: string }
+  | { status: "redirect"; redirectUrl: string };
+
+/**
+ * Parse a space-separated OAuth scope parameter. An omitted or empty scope
+ * grants every scope, like a new API key. Returns null if any scope is unknown.
+ */
+export function parseScope(scope: string | null | undefined): ApiKeyScope[] | null {
+  const requested = (scope ?? "").split(" ").filter(Boolean);
+  if (requested.length === 0) return [...API_KEY_SCOPES];
+  if (requested.some((s) => !(API_KEY_SCOPES as readonly string[]).includes(s))) return null;
+  return API_KEY_SCOPES.filter((s) => requested.includes(s));
+}
+
+/** Append query parameters to a client's redirect URI. */
+export function buildRedirectUrl(redirectUri: string, params: Record<string, string | null>): string {
+  const url = new URL(redirectUri);
+  for (const [key, value] of Object.entries(params)) {
+    if (value != null) url.searchParams.set(key, value);
+  }
+  return url.toString();
+}
+
+/**
+ * Validate an authorization request's query parameters. Used both to render
+ * the consent screen and again when the user approves, so a tampered form
+ * cannot change what was approved.
+ */
+export async function validateAuthorizationRequest(
+  params: URLSearchParams,
+): Promise<AuthorizationRequestResult> {
+  const clientId = params.get("client_id");
+  if (!clientId) return { status: "invalid", error: "Missing client_id" };
+
+  const client = await getOAuthClient(clientId);
+  if (!client) return { status: "invalid", error: "Unknown client. Register the client before authorizing." };
+
+  const redirectUri = params.get("redirect_uri");
+  if (!redirectUri || !client.redirectUris.includes(redirectUri)) {
+    return { status: "invalid", error: "redirect_uri is not registered for this client" };
+  }
+
+  const state = params.get("state");
+  const fail = (error: string, description: string): AuthorizationRequestResult => ({
+    status: "redirect",
+    redirectUrl: buildRedirectUrl(redirectUri, { error, error_description: description, state }),
+  });
+
+  if (params.get("response_type") !== "code") {
+    return fail("unsupported_response_type", "Only response_type=code is supported");
+  }
+
+  const codeChallenge = params.get("code_challenge");
+  if (!codeChallenge || !/^[A-Za-z0-9_-]{43}$/.test(codeChallenge)) {
+    return fail("invalid_request", "A PKCE code_challenge is required");
+  }
+  if (params.get("code_challenge_method") !== "S256") {
+    return fail("invalid_request", "code_challenge_method must be S256");
+  }
+
+  const scopes = parseScope(params.get("scope"));
+  if (!scopes) {
+    return fail("invalid_scope", `Supported scopes: ${API_KEY_SCOPES.join(", ")}`);
+  }
+
+  const resource = params.get("resource");
+  if (resource) {
+    try {
+      if (new URL(resource).hash) throw new Error("fragment");
+    } catch {
+      return fail("invalid_target", "resource must be an absolute URL without a fragment");
+    }
+  }
+
+  return {
+    status: "valid",
+    request: {
+      clientId,
+      clientName: client.clientName,
+      redirectUri,
+      state,
+      codeChallenge,
+      scopes,
+      resource: resource || null,
+    },
+  };
+}
+
+/** Authorization server metadata (RFC 8414). */
+export function getAuthorizationServerMetadata(origin: string): OAuthMetadata {
+  return {
+    issuer: origin,
+    authorization_endpoint: `${origin}${OAUTH_AUTHORIZE_PATH}`,
+    token_endpoint: `${origin}${OAUTH_TOKEN_PATH}`,
+    registration_endpoint: `${origin}${OAUTH_REGISTER_PATH}`,
+    revocation_endpoint: `${origin}${OAUTH_REVOKE_PATH}`,
+    scopes_supported: [...API_KEY_SCOPES],
+    response_types_supported: ["code"],
+    grant_types_supported: ["authorization_code", "refresh_token"],
+    token_endpoint_auth_methods_supported: ["none"],
+    revocation_endpoint_auth_methods_supported: ["none"],
+    code_challenge_methods_supported: ["S256"],
+  };
+}
+
+/** Protected resource metadata (RFC 9728) for an MCP endpoint path. */
+export function getProtectedResourceMetadata(origin: string, resourcePath: string): OAuthProtectedResourceMetadata {
+  return {
+    resource: `${origin}${resourcePath}`,
+    authorization_servers: [origin],
+    scopes_supported: [...API_KEY_SCOPES],
+    bearer_methods_supported: ["header"],
+    resource_name: "Brevet MCP",
+  };
+}
+
+/** URL of the protected resource metadata for an MCP endpoint path. */
+export function getProtectedResourceMetadataUrl(origin: string, resourcePath: string): string {
+  return `${origin}${PROTECTED_RESOURCE_METADATA_PATH}${resourcePath}`;
+}
+
+/** An OAuth error response; token responses must never be cached. */
+export function oauthError(error: string, description: string, status = 400): Response {
+  return Response.json(
+    { error, error_description: description },
+    { status, headers: { "Cache-Control": "no-store" } },
+  );
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { EventEmitter } from "events";
+import { Types } from "mongoose";
+
+vi.mock("@/lib/db", () => ({ connectDB: vi.fn(() => Promise.resolve()) }));
+
+const mockWatch = vi.fn();
+vi.mock("@/lib/models/pending-payment", () => ({
+  PendingPayment: { watch: mockWatch },
+}));
+
+const PAYMENT_ID = new Types.ObjectId().toString();
+
+function createStream() {
+  return Object.assign(new EventEmitter(), { close: vi.fn(() => Promise.resolve()) });
+}
+
+describe("waitForPaymentStatusChange", () => {
+  let stream: ReturnType<typeof createStream>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    stream = createStream();
+    mockWatch.mockReturnValue(stream);
+  });
+
+  it("watches the payment's status and resolves with the new one", async () => {
+    const { waitForPaymentStatusChange } = await import("./payment-events");
+
+    const waiting = waitForPaymentStatusChange(PAYMENT_ID, 30_000);
+    await vi.waitFor(() => expect(mockWatch).toHaveBeenCalled());
+    stream.emit("change", { operationType: "update", updateDescription: { updatedFields: { status: "approved" } } });
+
+    expect(await waiting).toBe("approved");
+    expect(stream.close).toHaveBeenCalled();
+    const [[{ $match }]] = mockWatch.mock.calls[0];
+    expect($match["documentKey._id"].toString()).toBe(PAYMENT_ID);
+  });
+
+  it("resolves with null after the timeout and closes the stream", async () => {
+    const { waitForPaymentStatusChange } = await import("./payment-events");
+
+    expect(await waitForPaymentStatusChange(PAYMENT_ID, 10)).toBeNull();
+    expect(stream.close).toHaveBeenCalled();
+  });
+
+  it("waits out the timeout when the change stream fails", async () => {
+    const { waitForPaymentStatusChange } = await import("./payment-events");
+
+    const waiting = waitForPaymentStatusChange(PAYMENT_ID, 50);
+    await vi.waitFor(() => expect(mockWatch).toHaveBeenCalled());
+    stream.emit("error", new Error("The $changeStream stage is only supported on replica sets"));
+
+    expect(await waiting).toBeNull();
+  });
+
+  it("resolves with null when the call is aborted", async () => {
+    const { waitForPaymentStatusChange } = await import("./payment-events");
+    const controller = new AbortController();
+
+    const waiting = waitForPaymentStatusChange(PAYMENT_ID, 30_000, controller.signal);
+    await vi.waitFor(() => expect(mockWatch).toHaveBeenCalled());
+    controller.abort();
+
+    expect(await waiting).toBeNull();
+  });
+});
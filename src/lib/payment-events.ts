@@ -0,0 +1,74 @@
+/**
+ * Pending payment status changes, so a waiting agent (x402_wait_for_payment)
+ * wakes as soon as the dashboard approves, rejects or settles a payment.
+ * Changes are read from a MongoDB change stream on pendingpayments, so they
+ * reach the waiter whichever serverless instance made them. Change streams
+ * need a replica set (Atlas always runs one); on a standalone server the
+ * stream fails and waiters rely on re-reading the payment.
+ */
+import { Types } from "mongoose";
+import { connectDB } from "@/lib/db";
+import { PendingPayment } from "@/lib/models/pending-payment";
+import { logger } from "@/lib/logger";
+
+/** The parts of a change stream event read here. */
+interface PaymentChange {
+  operationType: string;
+  fullDocument?: { status?: string };
+  updateDescription?: { updatedFields?: { status?: string } };
+}
+
+/**
+ * Resolve with the new status when the payment changes status, or with null
+ * after `timeoutMs` or when `signal` aborts. A change stream that fails
+ * leaves the call waiting out `timeoutMs`.
+ */
+export async function waitForPaymentStatusChange(
+  paymentId: string,
+  timeoutMs: number,
+  signal?: AbortSignal,
+): Promise<string | null> {
+  await connectDB();
+  const stream = PendingPayment.watch<PaymentChange>([
+    {
+      $match: {
+        "documentKey._id": new Types.ObjectId(paymentId),
+        $or: [
+          { operationType: "replace" },
+          { operationType: "update", "updateDescription.updatedFields.status": { $exists: true } },
+        ],
+      },
+    },
+  ]);
+
+  return new Promise((resolve) => {
+    let settled = false;
+    const closeStream = () => {
+      stream.close().catch(() => {});
+    };
+    const finish = (status: string | null) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      closeStream();
+      signal?.removeEventListener("abort", onAbort);
+      resolve(status);
+    };
+    const onAbort = () => finish(null);
+
+    const timer = setTimeout(() => finish(null), timeoutMs);
+    stream.on("change", (change: PaymentChange) => {
+      finish(change.updateDescription?.updatedFields?.status ?? change.fullDocument?.status ?? null);
+    });
+    stream.on("error", (error: unknown) => {
+      logger.warn("Payment change stream failed; waiting for the re-read", {
+        paymentId,
+        action: "payment_change_stream_failed",
+        error: error instanceof Error ? error.message : String(error),
+      });
+      closeStream();
+    });
+    if (signal?.aborted) finish(null);
+    else signal?.addEventListener("abort", onAbort);
+  });
+}
@@ -0,0 +1,39 @@
+export const MAX_PURPOSE_LENGTH = 500;
+export const MAX_TASK_ID_LENGTH = 128;
+export const MAX_TAGS = 10;
+export const MAX_TAG_LENGTH = 50;
+
+/**
+ * Why an agent made a payment, as it described it to x402_pay. Stored on the
+ * pending payment and the transaction so the user can tell what each payment
+ * was for, and filter and group spend by task or tag.
+ */
+export interface PaymentMetadata {
+  purpose?: string;
+  taskId?: string;
+  tags?: string[];
+}
+
+/** Normalize a tag so the same tag always matches: trimmed and lowercased. */
+export function normalizeTag(tag: string): string {
+  return tag.trim().toLowerCase();
+}
+
+/** Normalize tags, dropping empties and duplicates. */
+export function normalizeTags(tags: string[]): string[] {
+  const normalized = tags.map(normalizeTag).filter((tag) => tag.length > 0);
+  return [...new Set(normalized)];
+}
+
+/** The metadata stored on a pending payment, in the form x402_pay accepts it. */
+export function toPaymentMetadata(stored: {
+  purpose: string | null;
+  taskId: string | null;
+  tags: string[];
+}): PaymentMetadata {
+  return {
+    purpose: stored.purpose ?? undefined,
+    taskId: stored.taskId ?? undefined,
+    tags: stored.tags.length > 0 ? stored.tags : undefined,
+  };
+}
@@ -0,0 +1,408 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Types } from "mongoose";
+
+vi.mock("@/lib/db", () => ({ connectDB: vi.fn(() => Promise.resolve()) }));
+
+const mockFind = vi.fn();
+const mockFindOne = vi.fn();
+const mockFindOneAndUpdate = vi.fn();
+const mockFindById = vi.fn();
+vi.mock("@/lib/models/endpoint-policy", () => ({
+  EndpointPolicy: {
+    find: mockFind,
+    findOne: mockFindOne,
+    findOneAndUpdate: mockFindOneAndUpdate,
+    findById: mockFindById,
+  },
+}));
+
+const mockGetPolicySpendSince = vi.fn();
+const mockGetLastAcceptedPrice = vi.fn();
+vi.mock("@/lib/data/transactions", () => ({
+  getPolicySpendSince: (...args: unknown[]) => mockGetPolicySpendSince(...args),
+  getLastAcceptedPrice: (...args: unknown[]) => mockGetLastAcceptedPrice(...args),
+}));
+
+const mockGetReservedSpend = vi.fn();
+vi.mock("@/lib/data/spend-reservations", () => ({
+  getReservedSpend: (...args: unknown[]) => mockGetReservedSpend(...args),
+}));
+
+const USER_ID = "507f1f77bcf86cd799439012";
+const CHAIN_ID = 8453;
+const ENDPOINT = "https://api.example.com/v1/data";
+
+function makePolicy(overrides: Record<string, unknown> = {}) {
+  return {
+    _id: new Types.ObjectId(),
+    endpointPattern: "https://api.example.com",
+    chainId: CHAIN_ID,
+    chainIds: [],
+    autoSign: true,
+    maxPerRequest: null,
+    maxPerHour: null,
+    maxPerDay: null,
+    ...overrides,
+  };
+}
+
+describe("checkPolicy — spending caps", () => {
+  beforeEach(() => {
+    mockFind.mockReset();
+    mockFindOneAndUpdate.mockReset();
+    mockGetPolicySpendSince.mockReset();
+    mockGetPolicySpendSince.mockResolvedValue(0);
+    mockGetReservedSpend.mockResolvedValue(0);
+  });
+
+  it("auto-signs when no caps are configured", async () => {
+    const { checkPolicy } = await import("@/lib/policy");
+    mockFind.mockResolvedValue([makePolicy()]);
+
+    const result = await checkPolicy(100, ENDPOINT, USER_ID, CHAIN_ID);
+
+    expect(result.action).toBe("auto_sign");
+    expect(mockGetPolicySpendSince).not.toHaveBeenCalled();
+  });
+
+  it("downgrades to manual approval when the per-request cap is exceeded", async () => {
+    const { checkPolicy } = await import("@/lib/policy");
+    mockFind.mockResolvedValue([makePolicy({ maxPerRequest: 1 })]);
+
+    const result = await checkPolicy(1.5, ENDPOINT, USER_ID, CHAIN_ID);
+
+    expect(result.action).toBe("manual_approval");
+    expect(result.reason).toContain("per-request limit of $1");
+  });
+
+  it("rejects when a cap is exceeded on a manual-approval policy", async () => {
+    const { checkPolicy } = await import("@/lib/policy");
+    mockFind.mockResolvedValue([makePolicy({ autoSign: false, maxPerRequest: 1 })]);
+
+    const result = await checkPolicy(2, ENDPOINT, USER_ID, CHAIN_ID);
+
+    expect(result.action).toBe("rejected");
+    expect(result.reason).toContain("per-request limit");
+  });
+
+  it("sums recent spend for the hourly cap", async () => {
+    const { checkPolicy } = await import("@/lib/policy");
+    const policy = makePolicy({ maxPerHour: 5 });
+    mockFind.mockResolvedValue([policy]);
+    mockGetPolicySpendSince.mockResolvedValue(4.5);
+
+    const result = await checkPolicy(1, ENDPOINT, USER_ID, CHAIN_ID);
+
+    expect(mockGetPolicySpendSince).toHaveBeenCalledWith([policy._id.toString()], expect.any(Date));
+    expect(result.action).toBe("manual_approval");
+    expect(result.reason).toContain("hourly limit of $5");
+    expect(result.reason).toContain("$4.5 already spent");
+  });
+
+  it("counts spend under the per-chain policies merged into this one", async () => {
+    const { checkPolicy } = await import("@/lib/policy");
+    const mergedId = new Types.ObjectId();
+    const policy = makePolicy({ maxPerDay: 10, mergedFrom: [mergedId] });
+    mockFind.mockResolvedValue([policy]);
+    mockGetPolicySpendSince.mockResolvedValue(9.5);
+
+    const result = await checkPolicy(1, ENDPOINT, USER_ID, CHAIN_ID);
+
+    expect(mockGetPolicySpendSince).toHaveBeenCalledWith(
+      [policy._id.toString(), mergedId.toString()],
+      expect.any(Date),
+    );
+    expect(result.action).toBe("manual_approval");
+  });
+
+  it("allows in-chat confirmation when the amount is within the policy's in-chat tier", async () => {
+    const { checkPolicy } = await import("@/lib/policy");
+    mockFind.mockResolvedValue([makePolicy({ autoSign: false, maxInChatApproval: 1 })]);
+
+    const small = await checkPolicy(0.5, ENDPOINT, USER_ID, CHAIN_ID);
+    const large = await checkPolicy(5, ENDPOINT, USER_ID, CHAIN_ID);
+
+    expect(small).toMatchObject({ action: "manual_approval", inChatApproval: true });
+    expect(large).toMatchObject({ action: "manual_approval", inChatApproval: false });
+  });
+
+  it("auto-signs when the payment fits within the daily cap", async () => {
+    const { checkPolicy } = await import("@/lib/policy");
+    mockFind.mockResolvedValue([makePolicy({ maxPerDay: 10 })]);
+    mockGetPolicySpendSince.mockResolvedValue(8);
+
+    const result = await checkPolicy(2, ENDPOINT, USER_ID, CHAIN_ID);
+
+    expect(result.action).toBe("auto_sign");
+  });
+});
+
+describe("checkReservedPolicyCaps", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetPolicySpendSince.mockResolvedValue(0);
+  });
+
+  it("counts other payments in flight, but not the caller's own, against the cap", async () => {
+    const { checkReservedPolicyCaps } = await import("@/lib/policy");
+    const policy = makePolicy({ maxPerHour: 5 });
+    mockFindById.mockReturnValue({ lean: () => Promise.resolve(policy) });
+    mockGetPolicySpendSince.mockResolvedValue(3);
+    mockGetReservedSpend.mockResolvedValue(1.5);
+
+    const reason = await checkReservedPolicyCaps(policy._id.toString(), 1, "reservation-1");
+
+    expect(mockGetReservedSpend).toHaveBeenCalledWith({ policyId: policy._id.toString() }, "reservation-1");
+    expect(reason).toContain("hourly limit of $5");
+  });
+
+  it("allows the payment when it fits alongside the payments in flight", async () => {
+    const { checkReservedPolicyCaps } = await import("@/lib/policy");
+    const policy = makePolicy({ maxPerDay: 10 });
+    mockFindById.mockReturnValue({ lean: () => Promise.resolve(policy) });
+    mockGetReservedSpend.mockResolvedValue(2);
+
+    expect(await checkReservedPolicyCaps(policy._id.toString(), 1, "reservation-1")).toBeNull();
+  });
+
+  it("allows the payment when the policy no longer exists", async () => {
+    const { checkReservedPolicyCaps } = await import("@/lib/policy");
+    mockFindById.mockReturnValue({ lean: () => Promise.resolve(null) });
+
+    expect(await checkReservedPolicyCaps(new Types.ObjectId().toString(), 1, "reservation-1")).toBeNull();
+    expect(mockGetReservedSpend).not.toHaveBeenCalled();
+  });
+});
+
+describe("checkPolicy — HTTP methods", () => {
+  beforeEach(() => {
+    mockFind.mockReset();
+    mockFindOneAndUpdate.mockReset();
+    mockGetPolicySpendSince.mockReset();
+    mockGetPolicySpendSince.mockResolvedValue(0);
+  });
+
+  it("prefers a method-specific policy over an any-method policy for the same pattern", async () => {
+    const { checkPolicy } = await import("@/lib/policy");
+    const anyMethod = makePolicy({ methods: [], autoSign: true });
+    const postOnly = makePolicy({ methods: ["POST"], autoSign: false });
+    mockFind.mockResolvedValue([anyMethod, postOnly]);
+
+    const post = await checkPolicy(1, ENDPOINT, USER_ID, CHAIN_ID, "POST");
+    const get = await checkPolicy(1, ENDPOINT, USER_ID, CHAIN_ID, "GET");
+
+    expect(post).toMatchObject({ action: "manual_approval", policyId: postOnly._id.toString() });
+    expect(get).toMatchObject({ action: "auto_sign", policyId: anyMethod._id.toString() });
+  });
+
+  it("records the triggering method on the draft when no policy covers the method", async () => {
+    const { checkPolicy } = await import("@/lib/policy");
+    mockFind.mockResolvedValue([makePolicy({ methods: ["GET"] })]);
+
+    const result = await checkPolicy(1, ENDPOINT, USER_ID, CHAIN_ID, "DELETE");
+
+    expect(result.action).toBe("rejected");
+    expect(mockFindOneAndUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({ endpointPattern: "https://api.example.com" }),
+      expect.objectContaining({ $set: expect.objectContaining({ status: "draft", triggerMethod: "DELETE" }) }),
+      expect.anything(),
+    );
+  });
+});
+
+describe("checkPolicy — chain scope", () => {
+  beforeEach(() => {
+    mockFind.mockReset();
+    mockFindOneAndUpdate.mockReset();
+    mockGetPolicySpendSince.mockReset();
+    mockGetPolicySpendSince.mockResolvedValue(0);
+  });
+
+  it("includes multi-chain policies in the lookup", async () => {
+    const { checkPolicy } = await import("@/lib/policy");
+    const allChains = makePolicy({ chainId: null, chainIds: [] });
+    mockFind.mockResolvedValue([allChains]);
+
+    const result = await checkPolicy(1, ENDPOINT, USER_ID, CHAIN_ID);
+
+    expect(result).toMatchObject({ action: "auto_sign", policyId: allChains._id.toString() });
+    expect(mockFind.mock.calls[0][0].$or).toEqual([
+      { chainId: CHAIN_ID },
+      { chainId: null, chainIds: CHAIN_ID },
+      { chainId: null, chainIds: { $size: 0 } },
+    ]);
+  });
+
+  it("prefers a chain-specific policy over a more specific multi-chain pattern", async () => {
+    const { checkPolicy } = await import("@/lib/policy");
+    const chainSpecific = makePolicy({ autoSign: false });
+    const chainSet = makePolicy({
+      endpointPattern: "https://api.example.com/v1/data",
+      chainId: null,
+      chainIds: [CHAIN_ID, 10],
+    });
+    mockFind.mockResolvedValue([chainSet, chainSpecific]);
+
+    const result = await checkPolicy(1, ENDPOINT, USER_ID, CHAIN_ID);
+
+    expect(result).toMatchObject({ action: "manual_approval", policyId: chainSpecific._id.toString() });
+  });
+});
+
+describe("checkPolicy — pinned recipients", () => {
+  const PAY_TO = "0x1111111111111111111111111111111111111111";
+  const USDC = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+
+  beforeEach(() => {
+    mockFind.mockReset();
+    mockFindOneAndUpdate.mockReset();
+    mockGetPolicySpendSince.mockReset();
+    mockGetPolicySpendSince.mockResolvedValue(0);
+  });
+
+  it("rejects a payTo that is not pinned on the policy, even with auto-sign", async () => {
+    const { checkPolicy } = await import("@/lib/policy");
+    mockFind.mockResolvedValue([makePolicy({ allowedPayTo: [PAY_TO] })]);
+
+    const result = await checkPolicy(1, ENDPOINT, USER_ID, CHAIN_ID, "GET", {
+      payTo: "0x2222222222222222222222222222222222222222",
+      asset: USDC,
+    });
+
+    expect(result.action).toBe("rejected");
+    expect(result.reason).toContain("allowed payTo addresses");
+  });
+
+  it("compares pinned addresses case-insensitively", async () => {
+    const { checkPolicy } = await import("@/lib/policy");
+    mockFind.mockResolvedValue([
+      makePolicy({ allowedPayTo: [PAY_TO], allowedAssets: [USDC.toLowerCase()] }),
+    ]);
+
+    const result = await checkPolicy(1, ENDPOINT, USER_ID, CHAIN_ID, "GET", { payTo: PAY_TO, asset: USDC });
+
+    expect(result.action).toBe("auto_sign");
+  });
+
+  it("captures the first-seen payTo on a new draft", async () => {
+    const { checkPolicy } = await import("@/lib/policy");
+    mockFind.mockResolvedValue([]);
+
+    await checkPolicy(1, ENDPOINT, USER_ID, CHAIN_ID, "GET", { payTo: PAY_TO, asset: USDC });
+
+    const update = mockFindOneAndUpdate.mock.calls[0][1];
+    expect(update.$setOnInsert.firstSeenPayTo).toBe(PAY_TO);
+  });
+});
+
+describe("checkPolicyPins", () => {
+  const recipient = {
+    payTo: "0x1111111111111111111111111111111111111111",
+    asset: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+  };
+
+  beforeEach(() => {
+    mockFindOne.mockReset();
+  });
+
+  it("rejects a recipient the policy's pins no longer allow", async () => {
+    const { checkPolicyPins } = await import("@/lib/policy");
+    const policy = makePolicy({ allowedPayTo: ["0x2222222222222222222222222222222222222222"] });
+    mockFindOne.mockReturnValue({ lean: () => Promise.resolve(policy) });
+
+    const reason = await checkPolicyPins(policy._id.toString(), USER_ID, recipient);
+
+    expect(mockFindOne.mock.calls[0][0].userId.toString()).toBe(USER_ID);
+    expect(reason).toContain("not in the policy's allowed payTo addresses");
+  });
+
+  it("allows the payment when the policy no longer exists", async () => {
+    const { checkPolicyPins } = await import("@/lib/policy");
+    mockFindOne.mockReturnValue({ lean: () => Promise.resolve(null) });
+
+    expect(await checkPolicyPins(new Types.ObjectId().toString(), USER_ID, recipient)).toBeNull();
+  });
+});
+
+describe("checkPolicy — price increases", () => {
+  beforeEach(() => {
+    mockFind.mockReset();
+    mockFindOneAndUpdate.mockReset();
+    mockGetPolicySpendSince.mockReset();
+    mockGetPolicySpendSince.mockResolvedValue(0);
+    mockGetLastAcceptedPrice.mockReset();
+  });
+
+  it("does not look up price history when no increase limit is set", async () => {
+    const { checkPolicy } = await import("@/lib/policy");
+    mockFind.mockResolvedValue([makePolicy()]);
+
+    await checkPolicy(5, ENDPOINT, USER_ID, CHAIN_ID);
+
+    expect(mockGetLastAcceptedPrice).not.toHaveBeenCalled();
+  });
+
+  it("downgrades to manual approval when the price rises beyond the percentage limit", async () => {
+    const { checkPolicy } = await import("@/lib/policy");
+    mockFind.mockResolvedValue([makePolicy({ maxPriceIncreasePercent: 50 })]);
+    mockGetLastAcceptedPrice.mockResolvedValue(0.001);
+
+    const result = await checkPolicy(5, ENDPOINT, USER_ID, CHAIN_ID);
+
+    expect(result.action).toBe("manual_approval");
+    expect(result.previousAmount).toBe(0.001);
+    expect(result.reason).toContain("Price increased from $0.001 to $5");
+  });
+
+  it("allows increases within the absolute limit", async () => {
+    const { checkPolicy } = await import("@/lib/policy");
+    mockFind.mockResolvedValue([makePolicy({ maxPriceIncreaseUsd: 0.5 })]);
+    mockGetLastAcceptedPrice.mockResolvedValue(1);
+
+    const result = await checkPolicy(1.4, ENDPOINT, USER_ID, CHAIN_ID);
+
+    expect(result.action).toBe("auto_sign");
+  });
+
+  it("rejects when the policy is configured to reject price increases", async () => {
+    const { checkPolicy } = await import("@/lib/policy");
+    mockFind.mockResolvedValue([
+      makePolicy({ maxPriceIncreaseUsd: 0.5, priceIncreaseAction: "reject" }),
+    ]);
+    mockGetLastAcceptedPrice.mockResolvedValue(1);
+
+    const result = await checkPolicy(2, ENDPOINT, USER_ID, CHAIN_ID);
+
+    expect(result.action).toBe("rejected");
+  });
+});
+
+describe("evaluatePolicy", () => {
+  beforeEach(() => {
+    mockFind.mockReset();
+    mockFindOneAndUpdate.mockReset();
+    mockGetPolicySpendSince.mockReset();
+    mockGetPolicySpendSince.mockResolvedValue(0);
+  });
+
+  it("rejects without creating a draft when no policy matches", async () => {
+    const { evaluatePolicy } = await import("@/lib/policy");
+    mockFind.mockResolvedValue([]);
+
+    const result = await evaluatePolicy(1, ENDPOINT, USER_ID, CHAIN_ID, "POST");
+
+    expect(result).toEqual({ action: "rejected", reason: `No active policy for POST "${ENDPOINT}".` });
+    expect(mockFindOneAndUpdate).not.toHaveBeenCalled();
+  });
+
+  it("returns the same decision as checkPolicy for a matching policy", async () => {
+    const { evaluatePolicy, checkPolicy } = await import("@/lib/policy");
+    mockFind.mockResolvedValue([makePolicy({ maxPerRequest: 1 })]);
+
+    const evaluated = await evaluatePolicy(2, ENDPOINT, USER_ID, CHAIN_ID);
+    const checked = await checkPolicy(2, ENDPOINT, USER_ID, CHAIN_ID);
+
+    expect(evaluated).toEqual(checked);
+    expect(evaluated.action).toBe("manual_approval");
+  });
+});
@@ -1,9 +1,26 @@
 import { connectDB } from "@/lib/db";
 import { EndpointPolicy } from "@/lib/models/endpoint-policy";
+import { getPolicySpendSince, getLastAcceptedPrice } from "@/lib/data/transactions";
+import { formatUsd } from "@/lib/x402/display";
+import { chainScopeFilter, methodOverlapFilter } from "@/lib/data/policies";
+import { getReservedSpend } from "@/lib/data/spend-reservations";
+import {
+  matchEndpointPattern,
+  compareSpecificity,
+  type HttpMethod,
+  type PatternMatchResult,
+  type PatternSpecificity,
+} from "@/lib/endpoint-pattern";
 import { Types } from "mongoose";
 
 export type PolicyAction = "auto_sign" | "manual_approval" | "rejected";
 
+/** The recipient and token of the payment requirement being checked. */
+export interface PaymentRecipient {
+  payTo: string;
+  asset: string;
+}
+
 export interface PolicyCheckResult {
   action: PolicyAction;
   reason?: string;
@@ -11,41 +28,171 @@ export interface PolicyCheckResult {
   policyId?: string;
   /** Whether the policy allows automatic signing. */
   autoSign?: boolean;
+  /** Last accepted USD price for the endpoint, set when a price increase triggered the result. */
+  previousAmount?: number;
+  /**
+   * For "manual_approval": whether the amount is within the policy's in-chat
+   * tier, so the user may confirm in the agent's chat (MCP elicitation)
+   * instead of signing with their wallet.
+   */
+  inChatApproval?: boolean;
+}
+
+interface RankedMatch {
+  /** 2 = chain-specific, 1 = explicit chain set, 0 = every enabled chain. */
+  chainScope: number;
+  pattern: string;
+  specificity: PatternSpecificity;
+  /** Whether the policy is restricted to specific HTTP methods. */
+  methodSpecific: boolean;
+}
+
+/**
+ * Match a policy against a request: the HTTP method must be one the policy
+ * covers (an empty method list covers every method), then the endpoint must
+ * match the policy's pattern.
+ */
+function matchPolicy(
+  policy: { endpointPattern: string; methods?: string[] | null },
+  endpoint: string,
+  method: string,
+): PatternMatchResult {
+  const methods = policy.methods ?? [];
+  if (methods.length > 0 && !methods.includes(method)) {
+    return { matched: false, reason: `Policy only applies to ${methods.join(", ")}` };
+  }
+  return matchEndpointPattern(policy.endpointPattern, endpoint);
+}
+
+function chainScopeRank(policy: { chainId: number | null; chainIds?: number[] | null }): number {
+  if (policy.chainId !== null) return 2;
+  return (policy.chainIds ?? []).length > 0 ? 1 : 0;
+}
+
+/**
+ * Rank matches: chain-specific policies take precedence over multi-chain
+ * ones, then pattern specificity decides; for the same pattern, a policy
+ * restricted to the request's method wins over one covering every method.
+ */
+function compareMatches(a: RankedMatch, b: RankedMatch): number {
+  return (
+    b.chainScope - a.chainScope ||
+    compareSpecificity(a, b) ||
+    Number(b.methodSpecific) - Number(a.methodSpecific)
+  );
 }
 
 /**
- * Find the best-matching EndpointPolicy for a given endpoint URL.
- * Matches by longest prefix: an EndpointPolicy with endpointPattern "https://api.example.com"
- * matches URLs like "https://api.example.com/foo/bar".
- * Only returns active policies for the specified chain.
+ * Find the best-matching EndpointPolicy for a given endpoint URL and HTTP method.
+ * Patterns are matched with the endpoint pattern language (literal prefixes,
+ * host wildcards, path globs and path parameters); when several match, the
+ * most specific one wins (see `compareMatches`).
+ * Only returns active policies that apply to the specified chain, either
+ * chain-specific or multi-chain.
  */
-async function findMatchingPolicy(userId: string, endpoint: string, chainId: number) {
+async function findMatchingPolicy(userId: string, endpoint: string, chainId: number, method: string) {
   const filter: Record<string, unknown> = {
     userId: new Types.ObjectId(userId),
     status: "active",
-    chainId,
+    ...chainScopeFilter(chainId),
   };
   const policies = await EndpointPolicy.find(filter);
 
-  let bestMatch: (typeof policies)[number] | null = null;
+  let bestMatch: (RankedMatch & { policy: (typeof policies)[number] }) | null = null;
   for (const policy of policies) {
-    if (endpoint.startsWith(policy.endpointPattern)) {
-      // Verify the character after the pattern is a URL boundary (/, ?, #, or end-of-string)
-      // to prevent cross-domain matches (e.g., pattern "https://api" matching "https://api-evil.com")
-      const nextChar = endpoint[policy.endpointPattern.length];
-      const patternEndsWithBoundary =
-        policy.endpointPattern.endsWith("/") ||
-        policy.endpointPattern.endsWith("?") ||
-        policy.endpointPattern.endsWith("#");
-      if (!patternEndsWithBoundary && nextChar !== undefined && nextChar !== "/" && nextChar !== "?" && nextChar !== "#") {
-        continue;
-      }
-      if (!bestMatch || policy.endpointPattern.length > bestMatch.endpointPattern.length) {
-        bestMatch = policy;
-      }
+    const result = matchPolicy(policy, endpoint, method);
+    if (!result.matched) continue;
+    const candidate = {
+      policy,
+      chainScope: chainScopeRank(policy),
+      pattern: policy.endpointPattern,
+      specificity: result.specificity,
+      methodSpecific: (policy.methods ?? []).length > 0,
+    };
+    if (!bestMatch || compareMatches(candidate, bestMatch) < 0) {
+      bestMatch = candidate;
     }
   }
-  return bestMatch;
+  return bestMatch?.policy ?? null;
+}
+
+export interface PolicyMatchCandidate {
+  policyId: string;
+  endpointPattern: string;
+  /** HTTP methods the policy covers; empty means every method. */
+  methods: string[];
+  /** The policy's chain, or null for a multi-chain policy. */
+  chainId: number | null;
+  /** Chains a multi-chain policy covers; empty means every enabled chain. */
+  chainIds: number[];
+  status: string;
+  autoSign: boolean;
+  matched: boolean;
+  reason: string;
+  params?: Record<string, string>;
+}
+
+export interface PolicyMatchExplanation {
+  /** The policy checkPolicy would use, or null if no active policy matches. */
+  selected: PolicyMatchCandidate | null;
+  /** Every non-archived policy applying to the chain, matches first in ranking order. */
+  candidates: PolicyMatchCandidate[];
+}
+
+/**
+ * Explain which policy would apply to a `method` request to `endpoint` and
+ * why, for the dashboard's "test this URL" tool. Uses the same matching and
+ * ranking as checkPolicy but also reports draft policies and non-matching
+ * patterns.
+ */
+export async function explainPolicyMatch(
+  userId: string,
+  endpoint: string,
+  chainId: number,
+  method: HttpMethod = "GET",
+): Promise<PolicyMatchExplanation> {
+  await connectDB();
+  const policies = await EndpointPolicy.find({
+    userId: new Types.ObjectId(userId),
+    status: { $ne: "archived" },
+    ...chainScopeFilter(chainId),
+  }).lean();
+
+  const matches: Array<RankedMatch & { candidate: PolicyMatchCandidate }> = [];
+  const misses: PolicyMatchCandidate[] = [];
+  for (const policy of policies) {
+    const result = matchPolicy(policy, endpoint, method);
+    const methods = policy.methods ?? [];
+    const candidate: PolicyMatchCandidate = {
+      policyId: policy._id.toString(),
+      endpointPattern: policy.endpointPattern,
+      methods,
+      chainId: policy.chainId,
+      chainIds: policy.chainIds ?? [],
+      status: policy.status,
+      autoSign: policy.autoSign,
+      matched: result.matched,
+      reason: result.reason,
+      ...(result.matched && Object.keys(result.params).length > 0 && { params: result.params }),
+    };
+    if (result.matched) {
+      matches.push({
+        candidate,
+        chainScope: chainScopeRank(policy),
+        pattern: policy.endpointPattern,
+        specificity: result.specificity,
+        methodSpecific: methods.length > 0,
+      });
+    } else {
+      misses.push(candidate);
+    }
+  }
+
+  matches.sort(compareMatches);
+  const ranked = matches.map((m) => m.candidate);
+  const selected = ranked.find((c) => c.status === "active") ?? null;
+
+  return { selected, candidates: [...ranked, ...misses] };
 }
 
 /**
@@ -62,42 +209,184 @@ function extractHost(url: string): string {
 }
 
 /**
- * Check whether a payment to `endpoint` is allowed under the user's
- * per-endpoint policies.
+ * Check a payment's recipient and asset against the addresses pinned on the
+ * policy. Returns a reason string on mismatch, or null if allowed (an empty
+ * list allows any address).
+ */
+function checkPinnedAddresses(
+  policy: { allowedPayTo?: string[] | null; allowedAssets?: string[] | null },
+  recipient: PaymentRecipient,
+): string | null {
+  const allowedPayTo = policy.allowedPayTo ?? [];
+  if (allowedPayTo.length > 0 && !allowedPayTo.includes(recipient.payTo.toLowerCase())) {
+    return `Recipient ${recipient.payTo} is not in the policy's allowed payTo addresses`;
+  }
+  const allowedAssets = policy.allowedAssets ?? [];
+  if (allowedAssets.length > 0 && !allowedAssets.includes(recipient.asset.toLowerCase())) {
+    return `Asset ${recipient.asset} is not in the policy's allowed assets`;
+  }
+  return null;
+}
+
+/**
+ * Compare a payment amount with the last price accepted for this endpoint
+ * under the policy. Returns the reason and previous price if the increase
+ * exceeds the policy's percentage or absolute limit (whichever is set), or
+ * null if there is no history or the price is within limits.
+ */
+async function checkPriceIncrease(
+  policy: {
+    _id: Types.ObjectId;
+    mergedFrom?: Types.ObjectId[];
+    maxPriceIncreasePercent?: number | null;
+    maxPriceIncreaseUsd?: number | null;
+  },
+  endpoint: string,
+  amount: number,
+): Promise<{ reason: string; previousAmount: number } | null> {
+  const { maxPriceIncreasePercent, maxPriceIncreaseUsd } = policy;
+  if (maxPriceIncreasePercent == null && maxPriceIncreaseUsd == null) return null;
+
+  const previousAmount = await getLastAcceptedPrice(historyPolicyIds(policy), endpoint);
+  if (previousAmount == null || amount <= previousAmount) return null;
+
+  const increase = amount - previousAmount;
+  const exceedsPercent =
+    maxPriceIncreasePercent != null && increase > (previousAmount * maxPriceIncreasePercent) / 100;
+  const exceedsUsd = maxPriceIncreaseUsd != null && increase > maxPriceIncreaseUsd;
+  if (!exceedsPercent && !exceedsUsd) return null;
+
+  const percent = previousAmount > 0 ? ` (+${Math.round((increase / previousAmount) * 100)}%)` : "";
+  return {
+    reason: `Price increased from ${formatUsd(previousAmount)} to ${formatUsd(amount)}${percent} since the last accepted payment`,
+    previousAmount,
+  };
+}
+
+/**
+ * A policy's id plus the ids of the per-chain policies merged into it, whose
+ * transactions still count toward its caps and price history.
+ */
+function historyPolicyIds(policy: { _id: Types.ObjectId; mergedFrom?: Types.ObjectId[] }): string[] {
+  return [policy._id, ...(policy.mergedFrom ?? [])].map((id) => id.toString());
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+type CappedPolicy = {
+  _id: Types.ObjectId;
+  mergedFrom?: Types.ObjectId[];
+  maxPerRequest: number | null;
+  maxPerHour: number | null;
+  maxPerDay: number | null;
+};
+
+/**
+ * Check a payment amount against the policy's spending caps.
+ * Hourly and daily caps are rolling windows over settled transactions
+ * recorded under this policy, plus the amounts reserved by payments still in
+ * flight (other than `reservationId`, the caller's own). Returns a reason
+ * string if any cap would be exceeded, or null if the payment fits within
+ * all caps.
+ */
+async function checkSpendingCaps(
+  policy: CappedPolicy,
+  amount: number,
+  reservationId?: string,
+): Promise<string | null> {
+  if (policy.maxPerRequest != null && amount > policy.maxPerRequest) {
+    return `Payment of ${formatUsd(amount)} exceeds the per-request limit of ${formatUsd(policy.maxPerRequest)}`;
+  }
+  if (policy.maxPerHour == null && policy.maxPerDay == null) return null;
+
+  const policyId = policy._id.toString();
+  const now = Date.now();
+  const reserved = await getReservedSpend({ policyId }, reservationId);
+  const windows = [
+    { cap: policy.maxPerHour, windowMs: HOUR_MS, label: "hourly" },
+    { cap: policy.maxPerDay, windowMs: DAY_MS, label: "daily" },
+  ];
+  for (const { cap, windowMs, label } of windows) {
+    if (cap == null) continue;
+    const spent = (await getPolicySpendSince(historyPolicyIds(policy), new Date(now - windowMs))) + reserved;
+    if (spent + amount > cap) {
+      return `Payment of ${formatUsd(amount)} would exceed the ${label} limit of ${formatUsd(cap)} (${formatUsd(spent)} already spent)`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check a policy's caps again once a payment's amount is reserved, counting
+ * every other payment in flight (see reserveSpend). Returns the reason a cap
+ * would be exceeded, or null if the payment fits or the policy is gone.
+ */
+export async function checkReservedPolicyCaps(
+  policyId: string,
+  amount: number,
+  reservationId: string,
+): Promise<string | null> {
+  await connectDB();
+  const policy = await EndpointPolicy.findById(policyId).lean<CappedPolicy>();
+  return policy ? checkSpendingCaps(policy, amount, reservationId) : null;
+}
+
+/**
+ * Check a payment's recipient against the current pins of the policy it was
+ * routed under. Used when a pending payment is approved, since the pins may
+ * have been tightened while it waited. Returns the reason on mismatch, or
+ * null if allowed or the policy no longer exists.
+ */
+export async function checkPolicyPins(
+  policyId: string,
+  userId: string,
+  recipient: PaymentRecipient,
+): Promise<string | null> {
+  await connectDB();
+  const policy = await EndpointPolicy.findOne({ _id: policyId, userId: new Types.ObjectId(userId) }).lean();
+  return policy ? checkPinnedAddresses(policy, recipient) : null;
+}
+
+/**
+ * Evaluate a `method` request to `endpoint` against the user's per-endpoint
+ * policies without writing anything. Used directly for quotes; checkPolicy
+ * adds draft creation on top.
  *
  * Flow:
- * 1. Find best-matching EndpointPolicy (longest prefix match, active only)
- * 2. No match → reject + auto-create a draft policy for the endpoint origin
- * 3. autoSign=true  → "auto_sign"
- * 4. autoSign=false → "manual_approval"
+ * 1. Find best-matching EndpointPolicy (chain-specific before multi-chain,
+ *    then most specific pattern match covering the method, active only)
+ * 2. No match → "rejected" without a policyId
+ * 3. payTo or asset not among the policy's pinned addresses → "rejected"
+ * 4. Price rose beyond the policy's allowed increase over the last accepted
+ *    price → priceIncreaseAction ("manual_approval" or "rejected")
+ * 5. Amount exceeds a spending cap (per-request, hourly, daily):
+ *    autoSign=true → "manual_approval", autoSign=false → "rejected"
+ * 6. autoSign=true  → "auto_sign"
+ * 7. autoSign=false → "manual_approval"
  *
- * Note: Amount-based checks (balance) are handled in executePayment.
+ * Every "manual_approval" result carries `inChatApproval`: whether the amount
+ * is within the policy's maxInChatApproval tier.
+ *
+ * Note: Balance checks are handled in executePayment.
  */
-export async function checkPolicy(
-  _amount: number,
+export async function evaluatePolicy(
+  amount: number,
   endpoint: string,
   userId: string,
   chainId: number,
+  method: HttpMethod = "GET",
+  recipient?: PaymentRecipient,
 ): Promise<PolicyCheckResult> {
   await connectDB();
 
-  const policy = await findMatchingPolicy(userId, endpoint, chainId);
+  const policy = await findMatchingPolicy(userId, endpoint, chainId, method);
 
   if (!policy) {
-    // Auto-create a draft policy so the user can review and activate it
-    const host = extractHost(endpoint);
-    const userObjectId = new Types.ObjectId(userId);
-
-    // Upsert: create a draft if none exists, or reactivate an archived policy
-    await EndpointPolicy.findOneAndUpdate(
-      { userId: userObjectId, endpointPattern: host, chainId },
-      { $set: { status: "draft", archivedAt: null }, $setOnInsert: { endpointPattern: host, userId: userObjectId, chainId } },
-      { upsert: true, returnDocument: "after" },
-    );
-
     return {
       action: "rejected",
-      reason: `No active policy for "${endpoint}". A draft policy has been created — activate it to allow payments.`,
+      reason: `No active policy for ${method} "${endpoint}".`,
     };
   }
 
@@ -105,10 +394,76 @@ export async function checkPolicy(
     policyId: policy._id.toString(),
     autoSign: policy.autoSign,
   };
+  const inChatApproval = policy.maxInChatApproval != null && amount <= policy.maxInChatApproval;
+
+  const pinReason = recipient ? checkPinnedAddresses(policy, recipient) : null;
+  if (pinReason) {
+    return { action: "rejected", reason: pinReason, ...result };
+  }
+
+  const priceIncrease = await checkPriceIncrease(policy, endpoint, amount);
+  if (priceIncrease) {
+    return policy.priceIncreaseAction === "reject"
+      ? { action: "rejected", ...priceIncrease, ...result }
+      : { action: "manual_approval", ...priceIncrease, ...result, inChatApproval };
+  }
+
+  const capReason = await checkSpendingCaps(policy, amount);
+  if (capReason) {
+    // A cap only removes auto-signing authority; the user can still approve
+    // explicitly. Policies that already require approval reject outright.
+    return policy.autoSign
+      ? { action: "manual_approval", reason: capReason, ...result, inChatApproval }
+      : { action: "rejected", reason: capReason, ...result };
+  }
 
   if (!policy.autoSign) {
-    return { action: "manual_approval", ...result };
+    return { action: "manual_approval", ...result, inChatApproval };
   }
 
   return { action: "auto_sign", ...result };
 }
+
+/**
+ * Check whether a `method` request to `endpoint` is allowed under the user's
+ * per-endpoint policies (see evaluatePolicy). When no policy matches, a
+ * draft policy is auto-created for the endpoint origin, recording the method
+ * and first-seen payTo that triggered it.
+ */
+export async function checkPolicy(
+  amount: number,
+  endpoint: string,
+  userId: string,
+  chainId: number,
+  method: HttpMethod = "GET",
+  recipient?: PaymentRecipient,
+): Promise<PolicyCheckResult> {
+  const result = await evaluatePolicy(amount, endpoint, userId, chainId, method, recipient);
+  if (result.policyId) return result;
+
+  // Auto-create a draft policy so the user can review and activate it
+  const host = extractHost(endpoint);
+  const userObjectId = new Types.ObjectId(userId);
+
+  // Upsert: create a draft if none exists, or reactivate an archived policy.
+  // The draft covers every method; triggerMethod and firstSeenPayTo tell
+  // the user which request prompted it and who it would have paid.
+  await EndpointPolicy.findOneAndUpdate(
+    { userId: userObjectId, endpointPattern: host, chainId, ...methodOverlapFilter([]) },
+    {
+      $set: { status: "draft", archivedAt: null, triggerMethod: method },
+      $setOnInsert: {
+        endpointPattern: host,
+        userId: userObjectId,
+        chainId,
+        ...(recipient && { firstSeenPayTo: recipient.payTo.toLowerCase() }),
+      },
+    },
+    { upsert: true, returnDocument: "after" },
+  );
+
+  return {
+    action: "rejected",
+    reason: `${result.reason} A draft policy has been created — activate it to allow payments.`,
+  };
+}
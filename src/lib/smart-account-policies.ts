@@ -9,6 +9,9 @@
  *   restricting what the session key can sign to USDC calls only.
  * - Gas policy (enforcePaymaster) is omitted: the bundler's paymaster sponsorship is handled
  *   at the infrastructure level and must not block the enable UserOp from going through.
+ * - No rate-limit or cumulative spending policy: x402 payments are ERC-1271 signatures checked
+ *   by `isValidSignature`, a view call, so stateful policies never record usage on that path.
+ *   The daily spend limit is enforced off-chain by the payment flow instead.
  */
 import {
   toCallPolicy,
@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const mockCreateSpendReservation = vi.fn();
+const mockDeleteSpendReservation = vi.fn();
+vi.mock("@/lib/data/spend-reservations", () => ({
+  createSpendReservation: (...args: unknown[]) => mockCreateSpendReservation(...args),
+  deleteSpendReservation: (...args: unknown[]) => mockDeleteSpendReservation(...args),
+}));
+
+const mockCheckBudget = vi.fn();
+const mockCheckApiKeyBudget = vi.fn();
+const mockCheckOAuthClientBudget = vi.fn();
+vi.mock("@/lib/budget", () => ({
+  checkBudget: (...args: unknown[]) => mockCheckBudget(...args),
+  checkApiKeyBudget: (...args: unknown[]) => mockCheckApiKeyBudget(...args),
+  checkOAuthClientBudget: (...args: unknown[]) => mockCheckOAuthClientBudget(...args),
+}));
+
+const mockCheckReservedPolicyCaps = vi.fn();
+vi.mock("@/lib/policy", () => ({
+  checkReservedPolicyCaps: (...args: unknown[]) => mockCheckReservedPolicyCaps(...args),
+}));
+
+describe("reserveSpend", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockCreateSpendReservation.mockResolvedValue("reservation-1");
+    mockCheckBudget.mockResolvedValue({ allowed: true });
+    mockCheckApiKeyBudget.mockResolvedValue({ allowed: true });
+    mockCheckOAuthClientBudget.mockResolvedValue({ allowed: true });
+    mockCheckReservedPolicyCaps.mockResolvedValue(null);
+  });
+
+  it("re-checks every limit in scope with the caller's reservation held", async () => {
+    const { reserveSpend } = await import("./spend-reservation");
+
+    const result = await reserveSpend({ userId: "user-1", policyId: "policy-1", apiKeyId: "key-1" }, 2);
+
+    expect(mockCreateSpendReservation).toHaveBeenCalledWith({ userId: "user-1", policyId: "policy-1", apiKeyId: "key-1" }, 2);
+    expect(mockCheckReservedPolicyCaps).toHaveBeenCalledWith("policy-1", 2, "reservation-1");
+    expect(mockCheckBudget).toHaveBeenCalledWith("user-1", 2, "reservation-1");
+    expect(mockCheckApiKeyBudget).toHaveBeenCalledWith("key-1", 2, "reservation-1");
+    expect(mockCheckOAuthClientBudget).not.toHaveBeenCalled();
+    expect(result).toEqual({ reserved: true, reservationId: "reservation-1" });
+  });
+
+  it("drops the reservation when payments in flight fill a budget", async () => {
+    mockCheckOAuthClientBudget.mockResolvedValue({ allowed: false, reason: "over this app's daily budget" });
+    const { reserveSpend } = await import("./spend-reservation");
+
+    const result = await reserveSpend({ userId: "user-1", oauthClientId: "client-1" }, 2);
+
+    expect(result).toEqual({
+      reserved: false,
+      limit: "oauth_client",
+      reason: "over this app's daily budget",
+      error: "App budget exceeded: over this app's daily budget",
+    });
+    expect(mockDeleteSpendReservation).toHaveBeenCalledWith("reservation-1");
+  });
+
+  it("reports a budget before a policy cap, since only a cap can be approved past", async () => {
+    mockCheckReservedPolicyCaps.mockResolvedValue("would exceed the hourly limit");
+    mockCheckBudget.mockResolvedValue({ allowed: false, reason: "over your daily budget" });
+    const { reserveSpend } = await import("./spend-reservation");
+
+    const result = await reserveSpend({ userId: "user-1", policyId: "policy-1" }, 2);
+
+    expect(result).toMatchObject({ reserved: false, limit: "account", error: "Budget exceeded: over your daily budget" });
+  });
+});
@@ -0,0 +1,59 @@
+import {
+  createSpendReservation,
+  deleteSpendReservation,
+  type SpendReservationScope,
+} from "@/lib/data/spend-reservations";
+import { checkApiKeyBudget, checkBudget, checkOAuthClientBudget, type BudgetCheckResult } from "@/lib/budget";
+import { checkReservedPolicyCaps } from "@/lib/policy";
+
+/** Which limit a reservation would exceed. */
+export type SpendLimit = "policy" | "account" | "api_key" | "oauth_client";
+
+/** Outcome of reserving a payment's amount against its limits. */
+export type SpendReservationResult =
+  | { reserved: true; reservationId: string }
+  | { reserved: false; limit: SpendLimit; reason: string; error: string };
+
+function budgetFailure(result: BudgetCheckResult, limit: SpendLimit, prefix: string): SpendReservationResult | null {
+  return result.allowed ? null : { reserved: false, limit, reason: result.reason, error: `${prefix}: ${result.reason}` };
+}
+
+/**
+ * Hold a payment's amount against every limit in `scope` until the payment
+ * is recorded, then check those limits again counting every other payment
+ * in flight. The checks made while planning a payment are reads, so
+ * concurrent payments could each pass them and together exceed a limit.
+ *
+ * The reservation is written before the re-check, so of two racing payments
+ * each sees the other's: at worst both stop, never both overspend. Release
+ * the reservation with releaseSpend once the transaction is recorded or the
+ * payment is abandoned.
+ */
+export async function reserveSpend(scope: SpendReservationScope, amount: number): Promise<SpendReservationResult> {
+  const reservationId = await createSpendReservation(scope, amount);
+
+  const [policyReason, accountResult, keyResult, clientResult] = await Promise.all([
+    scope.policyId ? checkReservedPolicyCaps(scope.policyId, amount, reservationId) : null,
+    checkBudget(scope.userId, amount, reservationId),
+    scope.apiKeyId ? checkApiKeyBudget(scope.apiKeyId, amount, reservationId) : null,
+    scope.oauthClientId ? checkOAuthClientBudget(scope.userId, scope.oauthClientId, amount, reservationId) : null,
+  ]);
+
+  const failure =
+    budgetFailure(accountResult, "account", "Budget exceeded") ??
+    (keyResult && budgetFailure(keyResult, "api_key", "API key budget exceeded")) ??
+    (clientResult && budgetFailure(clientResult, "oauth_client", "App budget exceeded")) ??
+    (policyReason
+      ? { reserved: false as const, limit: "policy" as const, reason: policyReason, error: `Policy denied: ${policyReason}` }
+      : null);
+  if (failure) {
+    await deleteSpendReservation(reservationId);
+    return failure;
+  }
+  return { reserved: true, reservationId };
+}
+
+/** Release a reservation taken by reserveSpend. */
+export async function releaseSpend(reservationId: string): Promise<void> {
+  await deleteSpendReservation(reservationId);
+}
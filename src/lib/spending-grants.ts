@@ -0,0 +1,38 @@
+import { formatUsd } from "@/lib/x402/display";
+
+/** The grant fields the approval message is built from. */
+export interface SpendingGrantTerms {
+  _id: string;
+  purpose: string;
+  amountUsd: number;
+  durationSeconds: number;
+}
+
+/** Format a grant duration, e.g. "2 hours" or "1 hour 30 minutes". */
+export function formatGrantDuration(seconds: number): string {
+  const totalMinutes = Math.round(seconds / 60);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  const parts = [
+    hours > 0 && `${hours} hour${hours !== 1 ? "s" : ""}`,
+    minutes > 0 && `${minutes} minute${minutes !== 1 ? "s" : ""}`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(" ") : "less than a minute";
+}
+
+/**
+ * The message the user signs to approve a grant. Built the same way in the
+ * browser and on the server, which verifies the signature against it.
+ */
+export function formatSpendingGrantMessage(grant: SpendingGrantTerms): string {
+  return [
+    "Approve Brevet spending grant",
+    "",
+    `Grant: ${grant._id}`,
+    `Purpose: ${grant.purpose}`,
+    `Amount: up to ${formatUsd(grant.amountUsd)}`,
+    `Valid for: ${formatGrantDuration(grant.durationSeconds)} after approval`,
+    "",
+    "Payments the agent makes with this grant are signed automatically by your session key until the amount is spent or the grant expires.",
+  ].join("\n");
+}
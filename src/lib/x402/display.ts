@@ -43,3 +43,11 @@ export function formatAmountForDisplay(
     return { displayAmount: "—", symbol };
   }
 }
+
+/**
+ * Format a USD amount for policy and budget messages (e.g. "$0.05").
+ * Trims floating-point noise without forcing a fixed number of decimals.
+ */
+export function formatUsd(value: number): string {
+  return `$${Number(value.toFixed(6))}`;
+}
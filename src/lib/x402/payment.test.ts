@@ -0,0 +1,443 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("@/lib/safe-fetch", () => ({
+  validateUrl: vi.fn(() => null),
+  safeFetch: vi.fn(),
+}));
+
+const mockParsePaymentRequired = vi.fn();
+vi.mock("./headers", () => ({
+  parsePaymentRequired: (...args: unknown[]) => mockParsePaymentRequired(...args),
+  extractSettleResponse: vi.fn(() => null),
+}));
+
+vi.mock("@/lib/data/transactions", () => ({ createTransaction: vi.fn() }));
+vi.mock("@/lib/data/smart-account", () => ({
+  getSmartAccount: vi.fn(),
+  getSmartAccountWithSessionKey: vi.fn(() => Promise.resolve({ sessionKeyStatus: "active" })),
+  updateSessionKeyStatus: vi.fn(),
+}));
+vi.mock("@/lib/encryption", () => ({ decryptPrivateKey: vi.fn(), getUsdcBalance: vi.fn() }));
+vi.mock("@/lib/smart-account", () => ({
+  createSmartAccountSignerFromSerialized: vi.fn(),
+  createSmartAccountSigner: vi.fn(),
+}));
+vi.mock("@/lib/data/user", () => ({
+  getUserEnabledChains: vi.fn(() => Promise.resolve([8453])),
+  getRecipientDenylist: vi.fn(() => Promise.resolve([])),
+  isChainEnabledForUser: vi.fn(() => Promise.resolve(true)),
+}));
+
+const mockCheckBudget = vi.fn();
+const mockCheckApiKeyBudget = vi.fn();
+const mockCheckOAuthClientBudget = vi.fn();
+vi.mock("@/lib/budget", () => ({
+  checkBudget: (...args: unknown[]) => mockCheckBudget(...args),
+  checkApiKeyBudget: (...args: unknown[]) => mockCheckApiKeyBudget(...args),
+  checkOAuthClientBudget: (...args: unknown[]) => mockCheckOAuthClientBudget(...args),
+  getSessionKeyDailyStatus: vi.fn(() => Promise.resolve(null)),
+}));
+
+const mockCheckPolicy = vi.fn();
+vi.mock("@/lib/policy", () => ({
+  checkPolicy: (...args: unknown[]) => mockCheckPolicy(...args),
+  evaluatePolicy: vi.fn(),
+}));
+
+const mockReserveSpend = vi.fn();
+const mockReleaseSpend = vi.fn();
+vi.mock("@/lib/spend-reservation", () => ({
+  reserveSpend: (...args: unknown[]) => mockReserveSpend(...args),
+  releaseSpend: (...args: unknown[]) => mockReleaseSpend(...args),
+}));
+
+const mockCheckSpendingGrant = vi.fn();
+const mockReserveSpendingGrant = vi.fn();
+vi.mock("@/lib/data/spending-grants", () => ({
+  checkSpendingGrant: (...args: unknown[]) => mockCheckSpendingGrant(...args),
+  reserveSpendingGrant: (...args: unknown[]) => mockReserveSpendingGrant(...args),
+  releaseSpendingGrant: vi.fn(),
+}));
+
+vi.mock("@/lib/smart-account-constants", () => ({ SESSION_KEY_DEFAULT_EXPIRY_DAYS: 30 }));
+
+vi.mock("@/lib/logger", () => ({
+  logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+const URL = "https://api.example.com/v1/data";
+const USDC = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+
+function requirement(amount: string) {
+  return {
+    scheme: "exact",
+    network: "eip155:8453",
+    amount,
+    asset: USDC,
+    payTo: "0x1111111111111111111111111111111111111111",
+    maxTimeoutSeconds: 60,
+    extra: {},
+  };
+}
+
+describe("executePayment — maxAmount", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const { safeFetch } = await import("@/lib/safe-fetch");
+    vi.mocked(safeFetch).mockResolvedValue(new Response(null, { status: 402 }));
+    mockParsePaymentRequired.mockReturnValue({ x402Version: 2, accepts: [requirement("50000")] });
+    mockCheckBudget.mockResolvedValue({ allowed: true });
+    mockCheckPolicy.mockResolvedValue({ action: "manual_approval" });
+  });
+
+  it("rejects with the actual price before the policy check when the USD cap is too low", async () => {
+    const { executePayment } = await import("./payment");
+
+    const result = await executePayment(URL, "user", { maxAmount: { usd: 0.01 } });
+
+    expect(result).toMatchObject({
+      status: "rejected",
+      code: "max_amount_exceeded",
+      price: { amountRaw: "50000", amountUsd: 0.05, asset: USDC, chainId: 8453 },
+    });
+    expect(mockCheckBudget).not.toHaveBeenCalled();
+    expect(mockCheckPolicy).not.toHaveBeenCalled();
+  });
+
+  it("compares raw caps in the asset's units", async () => {
+    const { executePayment } = await import("./payment");
+
+    const within = await executePayment(URL, "user", { maxAmount: { amountRaw: "50000", asset: USDC.toLowerCase() } });
+    const over = await executePayment(URL, "user", { maxAmount: { amountRaw: "49999", asset: USDC } });
+
+    expect(within.status).toBe("pending_approval");
+    expect(over).toMatchObject({ status: "rejected", code: "max_amount_exceeded" });
+  });
+
+  it("rejects a raw cap denominated in a different asset", async () => {
+    const { executePayment } = await import("./payment");
+
+    const result = await executePayment(URL, "user", {
+      maxAmount: { amountRaw: "1000000000", asset: "0x2222222222222222222222222222222222222222" },
+    });
+
+    expect(result).toMatchObject({ status: "rejected", code: "max_amount_exceeded" });
+    expect(result.error).toContain("denominated in");
+  });
+});
+
+describe("executePayment — API key budget", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const { safeFetch } = await import("@/lib/safe-fetch");
+    vi.mocked(safeFetch).mockResolvedValue(new Response(null, { status: 402 }));
+    mockParsePaymentRequired.mockReturnValue({ x402Version: 2, accepts: [requirement("50000")] });
+    mockCheckBudget.mockResolvedValue({ allowed: true });
+    mockCheckApiKeyBudget.mockResolvedValue({ allowed: true });
+    mockCheckPolicy.mockResolvedValue({ action: "manual_approval" });
+  });
+
+  it("rejects before the policy check when the calling key's budget is exhausted", async () => {
+    mockCheckApiKeyBudget.mockResolvedValue({ allowed: false, reason: "over the key's daily budget" });
+    const { executePayment } = await import("./payment");
+
+    const result = await executePayment(URL, "user", undefined, undefined, "key-1");
+
+    expect(mockCheckApiKeyBudget).toHaveBeenCalledWith("key-1", 0.05);
+    expect(result).toMatchObject({
+      status: "rejected",
+      error: "API key budget exceeded: over the key's daily budget",
+    });
+    expect(mockCheckPolicy).not.toHaveBeenCalled();
+  });
+
+  it("skips the key budget when the payment is not made with an API key", async () => {
+    const { executePayment } = await import("./payment");
+
+    const result = await executePayment(URL, "user");
+
+    expect(mockCheckApiKeyBudget).not.toHaveBeenCalled();
+    expect(result.status).toBe("pending_approval");
+  });
+});
+
+describe("executePayment — OAuth client budget", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const { safeFetch } = await import("@/lib/safe-fetch");
+    vi.mocked(safeFetch).mockResolvedValue(new Response(null, { status: 402 }));
+    mockParsePaymentRequired.mockReturnValue({ x402Version: 2, accepts: [requirement("50000")] });
+    mockCheckBudget.mockResolvedValue({ allowed: true });
+    mockCheckOAuthClientBudget.mockResolvedValue({ allowed: true });
+    mockCheckPolicy.mockResolvedValue({ action: "manual_approval" });
+  });
+
+  it("rejects before the policy check when the calling app's budget is exhausted", async () => {
+    mockCheckOAuthClientBudget.mockResolvedValue({ allowed: false, reason: "over this app's daily budget" });
+    const { executePayment } = await import("./payment");
+
+    const result = await executePayment(URL, "user", undefined, undefined, undefined, "client-1");
+
+    expect(mockCheckOAuthClientBudget).toHaveBeenCalledWith("user", "client-1", 0.05);
+    expect(result).toMatchObject({
+      status: "rejected",
+      error: "App budget exceeded: over this app's daily budget",
+    });
+    expect(mockCheckPolicy).not.toHaveBeenCalled();
+  });
+
+  it("skips the app budget when the payment is not made by an OAuth client", async () => {
+    const { executePayment } = await import("./payment");
+
+    const result = await executePayment(URL, "user");
+
+    expect(mockCheckOAuthClientBudget).not.toHaveBeenCalled();
+    expect(result.status).toBe("pending_approval");
+  });
+});
+
+describe("executePayment — in-chat confirmation", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const { safeFetch } = await import("@/lib/safe-fetch");
+    vi.mocked(safeFetch).mockResolvedValue(new Response(null, { status: 402 }));
+    mockParsePaymentRequired.mockReturnValue({ x402Version: 2, accepts: [requirement("50000")] });
+    mockCheckBudget.mockResolvedValue({ allowed: true });
+    mockCheckPolicy.mockResolvedValue({ action: "manual_approval", inChatApproval: true });
+    mockReserveSpend.mockResolvedValue({ reserved: true, reservationId: "reservation-1" });
+  });
+
+  it("asks the user in chat and rejects when they decline", async () => {
+    const confirmInChat = vi.fn(() => Promise.resolve("declined" as const));
+    const { executePayment } = await import("./payment");
+
+    const result = await executePayment(URL, "user", { confirmInChat });
+
+    expect(confirmInChat).toHaveBeenCalledWith(
+      expect.objectContaining({ url: URL, amountUsd: 0.05, amountRaw: "50000", payTo: requirement("50000").payTo, chainId: 8453 }),
+    );
+    expect(result).toMatchObject({ status: "rejected", error: "Payment declined by the user in chat" });
+    expect(mockReleaseSpend).toHaveBeenCalledWith("reservation-1");
+  });
+
+  it("reserves the amount before asking, so concurrent confirmations cannot exceed the caps", async () => {
+    mockCheckPolicy.mockResolvedValue({ action: "manual_approval", policyId: "policy-1", inChatApproval: true });
+    mockReserveSpend.mockResolvedValue({
+      reserved: false,
+      limit: "policy",
+      reason: "Payment of $0.05 would exceed the hourly limit of $1.00",
+      error: "Policy denied: Payment of $0.05 would exceed the hourly limit of $1.00",
+    });
+    const confirmInChat = vi.fn(() => Promise.resolve("confirmed" as const));
+    const { executePayment } = await import("./payment");
+
+    const result = await executePayment(URL, "user", { confirmInChat });
+
+    expect(mockReserveSpend).toHaveBeenCalledWith(expect.objectContaining({ userId: "user", policyId: "policy-1" }), 0.05);
+    expect(confirmInChat).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ status: "pending_approval", reason: "Payment of $0.05 would exceed the hourly limit of $1.00" });
+  });
+
+  it("falls back to dashboard approval when the client cannot confirm", async () => {
+    const confirmInChat = vi.fn(() => Promise.resolve("unavailable" as const));
+    const { executePayment } = await import("./payment");
+
+    const result = await executePayment(URL, "user", { confirmInChat });
+
+    expect(result.status).toBe("pending_approval");
+    expect(mockReleaseSpend).toHaveBeenCalledWith("reservation-1");
+  });
+
+  it("does not ask in chat when the amount is above the policy's in-chat tier", async () => {
+    mockCheckPolicy.mockResolvedValue({ action: "manual_approval", inChatApproval: false });
+    const confirmInChat = vi.fn(() => Promise.resolve("confirmed" as const));
+    const { executePayment } = await import("./payment");
+
+    const result = await executePayment(URL, "user", { confirmInChat });
+
+    expect(confirmInChat).not.toHaveBeenCalled();
+    expect(result.status).toBe("pending_approval");
+  });
+});
+
+describe("executePayment — spending grants", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const { safeFetch } = await import("@/lib/safe-fetch");
+    vi.mocked(safeFetch).mockResolvedValue(new Response(null, { status: 402 }));
+    mockParsePaymentRequired.mockReturnValue({ x402Version: 2, accepts: [requirement("50000")] });
+    mockCheckBudget.mockResolvedValue({ allowed: true });
+    mockCheckPolicy.mockResolvedValue({ action: "manual_approval", policyId: "policy-1", autoSign: false });
+    mockReserveSpend.mockResolvedValue({ reserved: true, reservationId: "reservation-1" });
+  });
+
+  it("rejects with grant_unavailable when the grant cannot cover the payment", async () => {
+    mockReserveSpendingGrant.mockResolvedValue({ status: "unavailable", reason: "Spending grant is still awaiting the user's approval in the dashboard" });
+    const { executePayment } = await import("./payment");
+
+    const result = await executePayment(URL, "user", { grantId: "grant-1" }, undefined, "key-1");
+
+    expect(mockReserveSpendingGrant).toHaveBeenCalledWith("grant-1", "user", "key-1", 0.05);
+    expect(result).toMatchObject({ status: "rejected", code: "grant_unavailable" });
+    expect(result.error).toContain("awaiting the user's approval");
+    expect(mockReleaseSpend).toHaveBeenCalledWith("reservation-1");
+  });
+
+  it("leaves price-increase reviews to the user even with a grant", async () => {
+    mockCheckPolicy.mockResolvedValue({
+      action: "manual_approval",
+      policyId: "policy-1",
+      autoSign: false,
+      reason: "Price increased",
+      previousAmount: 0.01,
+    });
+    const { executePayment } = await import("./payment");
+
+    const result = await executePayment(URL, "user", { grantId: "grant-1" });
+
+    expect(mockReserveSpendingGrant).not.toHaveBeenCalled();
+    expect(result.status).toBe("pending_approval");
+  });
+
+  it("only checks the grant without reserving it for a quote", async () => {
+    mockCheckSpendingGrant.mockResolvedValue({ status: "available", grant: { _id: "grant-1" } });
+    const { evaluatePolicy } = await import("@/lib/policy");
+    vi.mocked(evaluatePolicy).mockResolvedValue({ action: "manual_approval", policyId: "policy-1", autoSign: false });
+    const { quotePayment } = await import("./payment");
+
+    const quote = await quotePayment(URL, "user", { grantId: "grant-1" });
+
+    expect(mockReserveSpendingGrant).not.toHaveBeenCalled();
+    expect(quote).toMatchObject({ decision: "auto_sign", reason: "Covered by spending grant grant-1" });
+  });
+});
+
+describe("executePayment — limits in flight", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const { safeFetch } = await import("@/lib/safe-fetch");
+    vi.mocked(safeFetch).mockResolvedValue(new Response(null, { status: 402 }));
+    mockParsePaymentRequired.mockReturnValue({ x402Version: 2, accepts: [requirement("50000")] });
+    mockCheckBudget.mockResolvedValue({ allowed: true });
+    mockCheckPolicy.mockResolvedValue({ action: "auto_sign", policyId: "policy-1", autoSign: true });
+    mockReleaseSpend.mockResolvedValue(undefined);
+  });
+
+  it("falls back to manual approval when payments in flight fill the policy's cap", async () => {
+    mockReserveSpend.mockResolvedValue({
+      reserved: false,
+      limit: "policy",
+      reason: "Payment of $0.05 would exceed the hourly limit of $1.00",
+      error: "Policy denied: Payment of $0.05 would exceed the hourly limit of $1.00",
+    });
+    const { executePayment } = await import("./payment");
+
+    const result = await executePayment(URL, "user", undefined, undefined, "key-1");
+
+    expect(mockReserveSpend).toHaveBeenCalledWith(
+      { userId: "user", policyId: "policy-1", apiKeyId: "key-1", oauthClientId: undefined },
+      0.05,
+    );
+    expect(result).toMatchObject({ status: "pending_approval", reason: "Payment of $0.05 would exceed the hourly limit of $1.00" });
+  });
+
+  it("rejects a grant payment when payments in flight fill the policy's cap", async () => {
+    mockCheckPolicy.mockResolvedValue({ action: "manual_approval", policyId: "policy-1", autoSign: false });
+    mockReserveSpend.mockResolvedValue({
+      reserved: false,
+      limit: "policy",
+      reason: "would exceed the daily limit",
+      error: "Policy denied: would exceed the daily limit",
+    });
+    const { executePayment } = await import("./payment");
+
+    const result = await executePayment(URL, "user", { grantId: "grant-1" });
+
+    expect(mockReserveSpendingGrant).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ status: "rejected", error: "Policy denied: would exceed the daily limit" });
+  });
+
+  it("rejects when payments in flight fill the account budget", async () => {
+    mockReserveSpend.mockResolvedValue({
+      reserved: false,
+      limit: "account",
+      reason: "Payment of $0.05 would exceed your daily budget of $1.00 ($0.00 remaining)",
+      error: "Budget exceeded: Payment of $0.05 would exceed your daily budget of $1.00 ($0.00 remaining)",
+    });
+    const { executePayment } = await import("./payment");
+
+    const result = await executePayment(URL, "user");
+
+    expect(result).toMatchObject({ status: "rejected", error: expect.stringContaining("Budget exceeded: ") });
+  });
+
+  it("releases the reservation once the payment is over", async () => {
+    mockReserveSpend.mockResolvedValue({ reserved: true, reservationId: "reservation-1" });
+    const { createSmartAccountSigner } = await import("@/lib/smart-account");
+    vi.mocked(createSmartAccountSigner).mockRejectedValue(new Error("bad key"));
+    const { executePayment } = await import("./payment");
+
+    const result = await executePayment(URL, "user");
+
+    expect(result.status).toBe("rejected");
+    expect(mockReleaseSpend).toHaveBeenCalledWith("reservation-1");
+  });
+});
+
+describe("executePayment — without an active session key", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    const { safeFetch } = await import("@/lib/safe-fetch");
+    vi.mocked(safeFetch).mockResolvedValue(new Response(null, { status: 402 }));
+    const { getSmartAccountWithSessionKey } = await import("@/lib/data/smart-account");
+    vi.mocked(getSmartAccountWithSessionKey).mockResolvedValueOnce(null);
+    mockParsePaymentRequired.mockReturnValue({ x402Version: 2, accepts: [requirement("50000")] });
+    mockCheckBudget.mockResolvedValue({ allowed: true });
+  });
+
+  it("rejects a recipient outside the policy's pins instead of asking for approval", async () => {
+    mockCheckPolicy.mockResolvedValue({
+      action: "rejected",
+      reason: "Recipient 0x1111111111111111111111111111111111111111 is not in the policy's allowed payTo addresses",
+      policyId: "policy-1",
+      autoSign: true,
+    });
+    const { executePayment } = await import("./payment");
+
+    const result = await executePayment(URL, "user");
+
+    expect(result).toMatchObject({ status: "rejected", error: expect.stringContaining("allowed payTo addresses") });
+  });
+
+  it("rejects a payment over the cap of a policy that requires approval", async () => {
+    mockCheckPolicy.mockResolvedValue({
+      action: "rejected",
+      reason: "Payment of $0.05 exceeds the per-request limit of $0.01",
+      policyId: "policy-1",
+      autoSign: false,
+    });
+    const { executePayment } = await import("./payment");
+
+    const result = await executePayment(URL, "user");
+
+    expect(result).toMatchObject({ status: "rejected", error: expect.stringContaining("per-request limit") });
+  });
+
+  it("still asks for approval on an endpoint with no policy yet", async () => {
+    mockCheckPolicy.mockResolvedValue({ action: "rejected", reason: "No active policy for GET." });
+    const { executePayment } = await import("./payment");
+
+    const result = await executePayment(URL, "user");
+
+    expect(result).toMatchObject({ status: "pending_approval", reason: "No smart account on selected chain" });
+  });
+
+  it("records the matched policy on the pending payment", async () => {
+    mockCheckPolicy.mockResolvedValue({ action: "auto_sign", policyId: "policy-1", autoSign: true });
+    const { executePayment } = await import("./payment");
+
+    const result = await executePayment(URL, "user");
+
+    expect(result).toMatchObject({ status: "pending_approval", policyId: "policy-1" });
+  });
+});
@@ -3,17 +3,24 @@ import { formatUnits } from "viem";
 import { x402Client, x402HTTPClient } from "@x402/core/client";
 import { registerExactEvmScheme } from "@x402/evm/exact/client";
 import { createTransaction } from "@/lib/data/transactions";
+import { prepareResponseForStorage } from "@/lib/data/response-bodies";
 import { getSmartAccount, getSmartAccountWithSessionKey, updateSessionKeyStatus } from "@/lib/data/smart-account";
 import { decryptPrivateKey, getUsdcBalance } from "@/lib/encryption";
-import { checkPolicy } from "@/lib/policy";
+import { checkPolicy, evaluatePolicy, type PolicyCheckResult } from "@/lib/policy";
+import { checkApiKeyBudget, checkBudget, checkOAuthClientBudget, getSessionKeyDailyStatus } from "@/lib/budget";
+import { releaseSpend, reserveSpend } from "@/lib/spend-reservation";
+import { checkSpendingGrant, releaseSpendingGrant, reserveSpendingGrant } from "@/lib/data/spending-grants";
 import { createSmartAccountSignerFromSerialized, createSmartAccountSigner } from "@/lib/smart-account";
 import { SESSION_KEY_DEFAULT_EXPIRY_DAYS } from "@/lib/smart-account-constants";
+import type { PaymentMetadata } from "@/lib/payment-metadata";
 import { parsePaymentRequired, extractSettleResponse } from "./headers";
+import { formatUsd } from "./display";
 import { getRequirementAmount } from "./requirements";
+import { readResponseBody, type ResponseBody } from "./response-body";
 import type {
-PaymentResult, SigningStrategy, ClientEvmSigner } from "./types";
+PaymentResult, PaymentQuote, PaymentRequired, PaymentRequirements, SigningStrategy, ClientEvmSigner, InChatConfirmation, InChatPaymentDetails } from "./types";
 import { getChainById, getUsdcConfig, isChainSupported, getAllChains } from "../chain-config";
-import { getUserEnabledChains, isChainEnabledForUser } from "../data/user";
+import { getUserEnabledChains, getRecipientDenylist, isChainEnabledForUser } from "../data/user";
 import { logger } from "../logger";
 import { validateUrl, safeFetch } from "../safe-fetch";
 import { SIWxExtension } from "@x402/extensions";
@@ -24,8 +31,19 @@ import { SIWxExtension } from "@x402/extensions";
  * Registers both V1 and V2 EVM exact schemes (EIP-3009 + Permit2)
  * via `registerExactEvmScheme` which handles wildcard eip155:* matching.
  */
-function createPaymentClient(signer: ClientEvmSigner): { client: x402Client; httpClient: x402HTTPClient } {
-  const client = new x402Client();
+function createPaymentClient(
+  signer: ClientEvmSigner,
+  requirement: { network: string; payTo: string; asset: string },
+): { client: x402Client; httpClient: x402HTTPClient } {
+  // Sign exactly the requirement that passed the recipient checks, not
+  // whichever entry the SDK would pick by default.
+  const client = new x402Client((_version, accepts) => {
+    const match = accepts.find(
+      (a) => a.network === requirement.network && a.payTo === requirement.payTo && a.asset === requirement.asset,
+    );
+    if (!match) throw new Error("Selected payment requirement is not supported by the signer");
+    return match;
+  });
   registerExactEvmScheme(client, { signer });
   const httpClient = new x402HTTPClient(client);
   return { client, httpClient };
@@ -145,6 +163,14 @@ export function sanitizeHeaders(headers: Record<string, string>): Record<string,
   return sanitized;
 }
 
+/**
+ * The most a caller is willing to pay: a USD amount, or raw token units of a
+ * specific asset.
+ */
+export type PaymentMaxAmount =
+  | { usd: number }
+  | { amountRaw: string; asset: string };
+
 /**
  * Options for the HTTP request sent during the x402 payment flow.
  */
@@ -155,30 +181,101 @@ export interface PaymentRequestOptions {
   body?: string;
   /** Additional HTTP headers. Merged into both the initial and paid requests. */
   headers?: Record<string, string>;
+  /** Reject the payment before any policy check if the price exceeds this. */
+  maxAmount?: PaymentMaxAmount;
+  /**
+   * Ask the user to confirm the payment in the agent's chat. Only called when
+   * the policy's in-chat tier covers a payment that needs approval and the
+   * session key could sign it; otherwise the payment goes to the dashboard.
+   */
+  confirmInChat?: (payment: InChatPaymentDetails) => Promise<InChatConfirmation>;
+  /**
+   * A spending grant the user approved for the calling agent. Payments that
+   * need approval only because the policy doesn't auto-sign are auto-signed
+   * against the grant's remaining amount instead.
+   */
+  grantId?: string;
+  /** Why the agent is paying; recorded on the transaction. */
+  metadata?: PaymentMetadata;
 }
 
 /**
- * Execute the full x402 payment flow for a given URL.
- *
- * 1. Fetch the URL (using the specified method, body, and headers)
- * 2. If 402 → parse payment requirements (V1 or V2 via SDK)
- * 3. Select best chain from accepted networks
- * 4. Check spending policy
- * 5. Create payment payload via SDK (handles EIP-3009 + Permit2)
- * 6. Re-request with payment headers (preserving original method/body/headers)
- * 7. Log transaction to database
+ * Compare the selected requirement's price to the caller's cap. Returns a
+ * user-facing reason if the price is higher, or null if it fits.
+ */
+function checkMaxAmount(
+  maxAmount: PaymentMaxAmount,
+  amountRaw: bigint,
+  amountUsd: number,
+  asset: string,
+): string | null {
+  if ("usd" in maxAmount) {
+    return amountUsd > maxAmount.usd
+      ? `Price of ${formatUsd(amountUsd)} exceeds maxAmount of ${formatUsd(maxAmount.usd)}`
+      : null;
+  }
+  if (maxAmount.asset.toLowerCase() !== asset.toLowerCase()) {
+    return `Endpoint charges in ${asset}, but maxAmount is denominated in ${maxAmount.asset}`;
+  }
+  return amountRaw > BigInt(maxAmount.amountRaw)
+    ? `Price of ${amountRaw} raw units exceeds maxAmount of ${maxAmount.amountRaw}`
+    : null;
+}
+
+type SessionKeyAccount = NonNullable<Awaited<ReturnType<typeof getSmartAccountWithSessionKey>>>;
+
+/**
+ * Everything the payment flow learned before signing. Filled in step by step
+ * so a quote can report as much as was known when the flow stopped.
+ */
+interface PaymentTrace {
+  httpStatus?: number;
+  paymentRequired?: PaymentRequired;
+  selectedChainId?: number;
+  selectedRequirement?: PaymentRequirements;
+  amountUsd?: number;
+  policyResult?: PolicyCheckResult;
+}
+
+/** A payment that passed every check and should be signed with the session key. */
+interface SignablePayment {
+  status: "ready_to_sign";
+  signingStrategy: "auto_sign" | "in_chat_approval";
+  method: NonNullable<PaymentRequestOptions["method"]>;
+  safeHeaders: Record<string, string> | undefined;
+  paymentRequired: PaymentRequired;
+  smartAccount: SessionKeyAccount;
+  selectedChainId: number;
+  selectedRequirement: PaymentRequirements;
+  amountUsd: number;
+  policyResult: PolicyCheckResult;
+  /** The spending grant the amount was reserved from, if any. */
+  grantId?: string;
+  /** The amount held against the payment's limits until it is recorded, if any. */
+  reservationId?: string;
+}
+
+/**
+ * Run every step of the payment flow up to signing: initial request,
+ * requirement parsing, chain selection, denylist, account, API key and OAuth
+ * client budgets, policy and session key checks. Returns a terminal
+ * PaymentResult when the flow stops early, or the signing context when the
+ * payment can be auto-signed.
  *
- * @param url     The x402-protected endpoint
- * @param userId  The user whose smart account and policy to use
- * @param options Optional HTTP method, body, and headers for the request
- * @param chainId Optional explicit chain ID — skips auto-selection if provided
+ * With `dryRun`, the policy is evaluated without creating a draft and an
+ * expired session key is reported without being marked expired, so quotes
+ * never write anything.
  */
-export async function executePayment(
+async function planPayment(
   url: string,
   userId: string,
-  options?: PaymentRequestOptions,
-  chainId?: number,
-): Promise<PaymentResult> {
+  options: PaymentRequestOptions | undefined,
+  chainId: number | undefined,
+  apiKeyId: string | undefined,
+  oauthClientId: string | undefined,
+  dryRun: boolean,
+  trace: PaymentTrace,
+): Promise<PaymentResult | SignablePayment> {
   // Step 0: Validate URL
   const urlError = validateUrl(url);
   if (urlError) {
@@ -204,6 +301,7 @@ export async function executePayment(
     logger.warn("Initial request failed", { userId, url, action: "payment_rejected", error: message });
     return { success: false, status: "rejected", signingStrategy: "rejected", error: `Request failed: ${message}` };
   }
+  trace.httpStatus = initialResponse.status;
 
   if (initialResponse.status !== 402) {
     // Not a paid endpoint — return the response as-is
@@ -232,6 +330,7 @@ export async function executePayment(
       error: "Received 402 but no valid payment requirements found",
     };
   }
+  trace.paymentRequired = paymentRequired;
 
   // Step 3: Select chain from accepted networks
   let selectedChainId: number;
@@ -288,17 +387,117 @@ export async function executePayment(
 
   // Step 5: Determine the amount from the selected requirement (V1 or V2 via library helper)
   const selectedRequirement = paymentRequired.accepts[acceptIndex];
+  trace.selectedChainId = selectedChainId;
+  trace.selectedRequirement = selectedRequirement;
   const amountStr = getRequirementAmount(selectedRequirement) ?? "0";
   const amountWei = BigInt(amountStr);
   const usdcConfig = getUsdcConfig(selectedChainId);
   const usdcDecimals = usdcConfig?.decimals ?? 6;
   const amountUsd = parseFloat(formatUnits(amountWei, usdcDecimals));
+  trace.amountUsd = amountUsd;
+
+  // The caller's own price cap comes first, so an overpriced call never
+  // reaches the policy check, signing or a pending payment
+  if (options?.maxAmount) {
+    const maxAmountReason = checkMaxAmount(options.maxAmount, amountWei, amountUsd, selectedRequirement.asset);
+    if (maxAmountReason) {
+      logger.info("Price exceeds caller's maxAmount", { userId, url, action: "max_amount_exceeded", reason: maxAmountReason, amount: amountUsd, chainId: selectedChainId });
+      return {
+        success: false,
+        status: "rejected",
+        signingStrategy: "rejected",
+        error: `maxAmount exceeded: ${maxAmountReason}`,
+        code: "max_amount_exceeded",
+        price: {
+          amountRaw: amountStr,
+          amountUsd,
+          asset: selectedRequirement.asset,
+          chainId: selectedChainId,
+        },
+      };
+    }
+  }
+
+  // Recipients on the account-wide denylist are never paid, whatever the signing path
+  const deniedPayTo = await getRecipientDenylist(userId);
+  if (deniedPayTo.includes(selectedRequirement.payTo.toLowerCase())) {
+    logger.warn("Recipient is on the denylist", { userId, url, action: "recipient_denied", payTo: selectedRequirement.payTo, chainId: selectedChainId });
+    return {
+      success: false,
+      status: "rejected",
+      signingStrategy: "rejected",
+      error: `Recipient denied: ${selectedRequirement.payTo} is on your recipient denylist`,
+    };
+  }
+
+  // Account-wide budget applies to every signing path, so check it before routing
+  const budgetResult = await checkBudget(userId, amountUsd);
+  if (!budgetResult.allowed) {
+    logger.warn("Account budget exceeded", { userId, url, action: "budget_exceeded", reason: budgetResult.reason, amount: amountUsd, chainId: selectedChainId });
+    return {
+      success: false,
+      status: "rejected",
+      signingStrategy: "rejected",
+      error: `Budget exceeded: ${budgetResult.reason}`,
+    };
+  }
+
+  // The calling key's own limits stop one agent from draining the shared account
+  if (apiKeyId) {
+    const keyBudgetResult = await checkApiKeyBudget(apiKeyId, amountUsd);
+    if (!keyBudgetResult.allowed) {
+      logger.warn("API key budget exceeded", { userId, url, action: "api_key_budget_exceeded", apiKeyId, reason: keyBudgetResult.reason, amount: amountUsd, chainId: selectedChainId });
+      return {
+        success: false,
+        status: "rejected",
+        signingStrategy: "rejected",
+        error: `API key budget exceeded: ${keyBudgetResult.reason}`,
+      };
+    }
+  }
+
+  // OAuth clients have no API key, so the limits the user set for the app apply instead
+  if (oauthClientId) {
+    const clientBudgetResult = await checkOAuthClientBudget(userId, oauthClientId, amountUsd);
+    if (!clientBudgetResult.allowed) {
+      logger.warn("OAuth client budget exceeded", { userId, url, action: "oauth_client_budget_exceeded", oauthClientId, reason: clientBudgetResult.reason, amount: amountUsd, chainId: selectedChainId });
+      return {
+        success: false,
+        status: "rejected",
+        signingStrategy: "rejected",
+        error: `App budget exceeded: ${clientBudgetResult.reason}`,
+      };
+    }
+  }
+
+  // Step 6: Check spending policy (returns action: auto_sign | manual_approval | rejected).
+  // A matching policy's pinned recipients and caps apply to every signing
+  // path, so check them before routing payments without an active session
+  // key to manual approval. Without a session key the user signs each
+  // payment themselves, so an endpoint with no policy yet still goes there.
+  const recipient = { payTo: selectedRequirement.payTo, asset: selectedRequirement.asset };
+  const policyResult = dryRun
+    ? await evaluatePolicy(amountUsd, url, userId, selectedChainId, method, recipient)
+    : await checkPolicy(amountUsd, url, userId, selectedChainId, method, recipient);
+  trace.policyResult = policyResult;
+  const hasActiveSessionKey = smartAccount?.sessionKeyStatus === "active";
+  if (policyResult.action === "rejected" && (policyResult.policyId || hasActiveSessionKey)) {
+    logger.warn("Policy denied payment", { userId, url, action: "policy_denied", reason: policyResult.reason, amount: amountUsd, chainId: selectedChainId });
+    return {
+      success: false,
+      status: "rejected",
+      signingStrategy: "rejected",
+      error: `Policy denied: ${policyResult.reason}`,
+    };
+  }
 
   // Check session key expiry before signing
   if (smartAccount && smartAccount.sessionKeyStatus === "active" && smartAccount.sessionKeyExpiry) {
     const expiryDate = new Date(smartAccount.sessionKeyExpiry);
     if (expiryDate < new Date()) {
-      await updateSessionKeyStatus(userId, selectedChainId, "expired");
+      if (!dryRun) {
+        await updateSessionKeyStatus(userId, selectedChainId, "expired");
+      }
       logger.info("Session key expired, requires re-authorization", { userId, url, action: "session_key_expired", chainId: selectedChainId });
       return {
         success: false,
@@ -322,38 +521,139 @@ export async function executePayment(
       asset: selectedRequirement.asset,
       chainId: selectedChainId,
       maxTimeoutSeconds: selectedRequirement.maxTimeoutSeconds,
-    };
-  }
-
-  // Step 6: Check spending policy (returns action: auto_sign | manual_approval | rejected)
-  const policyResult = await checkPolicy(amountUsd, url, userId, selectedChainId);
-  if (policyResult.action === "rejected") {
-    logger.warn("Policy denied payment", { userId, url, action: "policy_denied", reason: policyResult.reason, amount: amountUsd, chainId: selectedChainId });
-    return {
-      success: false,
-      status: "rejected",
-      signingStrategy: "rejected",
-      error: `Policy denied: ${policyResult.reason}`,
+      policyId: policyResult.policyId,
+      reason,
+      previousAmount: policyResult.previousAmount,
     };
   }
 
   // Step 7: Determine signing strategy
   let signingStrategy: SigningStrategy = policyResult.action;
+  let approvalReason = policyResult.reason;
+  // A grant stands in for per-payment approval on policies that don't
+  // auto-sign; spending caps and price-increase reviews still apply
+  let useGrant =
+    options?.grantId !== undefined &&
+    signingStrategy === "manual_approval" &&
+    policyResult.autoSign === false &&
+    policyResult.previousAmount === undefined;
+  // Grants and in-chat confirmation sign with the session key, so they are
+  // subject to the same daily limit and balance checks as auto-signing
+  let inChatApproval =
+    !dryRun &&
+    !useGrant &&
+    signingStrategy === "manual_approval" &&
+    policyResult.inChatApproval === true &&
+    options?.confirmInChat !== undefined;
+
+  // The on-chain call policy only bounds each transaction, so enforce the
+  // session key's daily limit here by summing today's session-key payments.
+  if (signingStrategy === "auto_sign" || useGrant || inChatApproval) {
+    const daily = await getSessionKeyDailyStatus(userId, selectedChainId, smartAccount.spendLimitDaily);
+    if (daily && daily.spent + amountUsd > daily.limit) {
+      approvalReason = `Session key daily limit of ${formatUsd(daily.limit)} reached (${formatUsd(daily.spent)} spent today)`;
+      logger.info("Session key daily limit reached, falling back to manual approval", { userId, url, action: "manual_approval_fallback", reason: approvalReason, amount: amountUsd, chainId: selectedChainId });
+      signingStrategy = "manual_approval";
+      useGrant = false;
+      inChatApproval = false;
+    }
+  }
 
-  // If the policy says auto_sign, verify the on-chain USDC balance is sufficient.
+  // If the session key will sign, verify the on-chain USDC balance is sufficient.
   // If balance is too low, fall through to the manual approval path instead of failing.
-  if (signingStrategy === "auto_sign") {
+  if (signingStrategy === "auto_sign" || useGrant || inChatApproval) {
     const balanceStr = await getUsdcBalance(smartAccount.smartAccountAddress, selectedChainId);
     const balance = parseFloat(balanceStr);
     if (balance < amountUsd) {
       logger.info("Insufficient smart account balance, falling back to manual approval", { userId, url, action: "manual_approval_fallback", amount: amountUsd, chainId: selectedChainId });
+      approvalReason = "Insufficient smart account balance";
       signingStrategy = "manual_approval";
+      useGrant = false;
+      inChatApproval = false;
+    }
+  }
+
+  // Hold the amount against the policy's caps and the budgets so concurrent
+  // payments cannot each pass the checks above and together exceed a limit.
+  // In-chat confirmations reserve before asking, since the user may take a while.
+  let reservationId: string | undefined;
+  if (!dryRun && (signingStrategy === "auto_sign" || useGrant || inChatApproval)) {
+    const reservation = await reserveSpend(
+      { userId, policyId: policyResult.policyId, apiKeyId, oauthClientId },
+      amountUsd,
+    );
+    if (!reservation.reserved) {
+      logger.info("Spending limit reached by payments in flight", { userId, url, action: "spend_limit_reached", limit: reservation.limit, reason: reservation.reason, amount: amountUsd, chainId: selectedChainId });
+      // Only a policy cap leaves the user room to approve the payment by hand
+      if (reservation.limit !== "policy" || useGrant) {
+        return {
+          success: false,
+          status: "rejected",
+          signingStrategy: "rejected",
+          error: reservation.error,
+        };
+      }
+      approvalReason = reservation.reason;
+      signingStrategy = "manual_approval";
+      inChatApproval = false;
+    } else {
+      reservationId = reservation.reservationId;
+    }
+  }
+
+  // Take the amount from the grant last, once nothing else can stop the payment
+  let grantId: string | undefined;
+  if (useGrant && options?.grantId) {
+    const grantCheck = dryRun
+      ? await checkSpendingGrant(options.grantId, userId, apiKeyId, amountUsd)
+      : await reserveSpendingGrant(options.grantId, userId, apiKeyId, amountUsd);
+    if (grantCheck.status === "unavailable") {
+      if (reservationId) await releaseSpend(reservationId);
+      logger.info("Spending grant cannot cover payment", { userId, url, action: "grant_unavailable", grantId: options.grantId, reason: grantCheck.reason, amount: amountUsd, chainId: selectedChainId });
+      return {
+        success: false,
+        status: "rejected",
+        signingStrategy: "rejected",
+        error: `Spending grant unavailable: ${grantCheck.reason}`,
+        code: "grant_unavailable",
+      };
+    }
+    grantId = grantCheck.grant._id;
+    signingStrategy = "auto_sign";
+  }
+
+  // Within the policy's in-chat tier, ask the user in the agent's chat before
+  // falling back to dashboard approval
+  if (inChatApproval && options?.confirmInChat) {
+    const confirmation = await options.confirmInChat({
+      url,
+      amountUsd,
+      amountRaw: getRequirementAmount(selectedRequirement) ?? "",
+      asset: selectedRequirement.asset,
+      payTo: selectedRequirement.payTo,
+      chainId: selectedChainId,
+      reason: approvalReason,
+    });
+    logger.info("In-chat payment confirmation answered", { userId, url, action: "in_chat_confirmation", confirmation, amount: amountUsd, chainId: selectedChainId });
+    if (confirmation === "declined") {
+      if (reservationId) await releaseSpend(reservationId);
+      return {
+        success: false,
+        status: "rejected",
+        signingStrategy: "rejected",
+        error: "Payment declined by the user in chat",
+      };
+    }
+    if (confirmation === "confirmed") {
+      signingStrategy = "in_chat_approval";
     }
   }
 
   // Manual approval path: return pending_approval for caller to create PendingPayment
   if (signingStrategy === "manual_approval") {
-    logger.info("Payment requires manual approval", { userId, url, action: "pending_approval", amount: amountUsd, chainId: selectedChainId });
+    // Approval reserves again when the user signs
+    if (reservationId) await releaseSpend(reservationId);
+    logger.info("Payment requires manual approval", { userId, url, action: "pending_approval", reason: approvalReason, amount: amountUsd, chainId: selectedChainId });
     return {
       success: false,
       status: "pending_approval",
@@ -363,9 +663,171 @@ export async function executePayment(
       asset: selectedRequirement.asset,
       chainId: selectedChainId,
       maxTimeoutSeconds: selectedRequirement.maxTimeoutSeconds,
+      policyId: policyResult.policyId,
+      reason: approvalReason,
+      previousAmount: policyResult.previousAmount,
     };
   }
 
+  return {
+    status: "ready_to_sign",
+    signingStrategy: signingStrategy === "in_chat_approval" ? "in_chat_approval" : "auto_sign",
+    method,
+    safeHeaders,
+    paymentRequired,
+    smartAccount,
+    selectedChainId,
+    selectedRequirement,
+    amountUsd,
+    policyResult,
+    grantId,
+    reservationId,
+  };
+}
+
+/**
+ * Preview the x402 payment flow for a URL without paying.
+ *
+ * Sends the initial request and runs the same chain selection, denylist,
+ * budget, session key and policy checks as executePayment, then reports
+ * what it would decide. Never signs, creates a draft policy, or writes a
+ * transaction.
+ */
+export async function quotePayment(
+  url: string,
+  userId: string,
+  options?: PaymentRequestOptions,
+  chainId?: number,
+  apiKeyId?: string,
+  oauthClientId?: string,
+): Promise<PaymentQuote> {
+  const trace: PaymentTrace = {};
+  const plan = await planPayment(url, userId, options, chainId, apiKeyId, oauthClientId, true, trace);
+
+  const enabledChains = trace.paymentRequired ? await getUserEnabledChains(userId) : [];
+  const acceptedNetworks = (trace.paymentRequired?.accepts ?? []).map((accept) => {
+    const acceptChainId = resolveNetworkToChainId(accept.network) ?? null;
+    return {
+      network: accept.network,
+      chainId: acceptChainId,
+      enabled: acceptChainId !== null && enabledChains.includes(acceptChainId),
+      amountRaw: getRequirementAmount(accept) ?? null,
+      asset: accept.asset,
+      payTo: accept.payTo,
+    };
+  });
+
+  let decision: PaymentQuote["decision"];
+  let reason: string | null;
+  if (plan.status === "ready_to_sign") {
+    decision = "auto_sign";
+    reason = plan.grantId ? `Covered by spending grant ${plan.grantId}` : plan.policyResult.reason ?? null;
+  } else if (plan.status === "pending_approval") {
+    decision = "manual_approval";
+    reason = plan.reason ?? null;
+  } else if (plan.status === "rejected") {
+    decision = "rejected";
+    reason = plan.error;
+  } else {
+    decision = "no_payment_required";
+    reason = null;
+  }
+
+  const requirement = trace.selectedRequirement;
+  return {
+    httpStatus: trace.httpStatus ?? null,
+    paymentRequired: trace.httpStatus === 402,
+    acceptedNetworks,
+    selectedChainId: trace.selectedChainId ?? null,
+    amountRaw: requirement ? getRequirementAmount(requirement) ?? null : null,
+    amountUsd: trace.amountUsd ?? null,
+    asset: requirement?.asset ?? null,
+    payTo: requirement?.payTo ?? null,
+    policy: trace.policyResult
+      ? {
+          action: trace.policyResult.action,
+          reason: trace.policyResult.reason ?? null,
+          policyId: trace.policyResult.policyId ?? null,
+        }
+      : null,
+    decision,
+    reason,
+  };
+}
+
+/**
+ * Execute the full x402 payment flow for a given URL.
+ *
+ * 1. Fetch the URL (using the specified method, body, and headers)
+ * 2. If 402 → parse payment requirements (V1 or V2 via SDK)
+ * 3. Select best chain from accepted networks
+ * 4. Check account budget, API key or OAuth client budget and spending policy
+ * 5. Create payment payload via SDK (handles EIP-3009 + Permit2)
+ * 6. Re-request with payment headers (preserving original method/body/headers)
+ * 7. Log transaction to database
+ *
+ * @param url     The x402-protected endpoint
+ * @param userId  The user whose smart account and policy to use
+ * @param options Optional HTTP method, body, and headers for the request
+ * @param chainId Optional explicit chain ID — skips auto-selection if provided
+ * @param apiKeyId Optional API key of the agent making the payment; its budget is
+ *                 enforced and it is recorded on the transaction
+ * @param oauthClientId Optional OAuth client of the agent making the payment;
+ *                 likewise budgeted and recorded
+ */
+export async function executePayment(
+  url: string,
+  userId: string,
+  options?: PaymentRequestOptions,
+  chainId?: number,
+  apiKeyId?: string,
+  oauthClientId?: string,
+): Promise<PaymentResult> {
+  const plan = await planPayment(url, userId, options, chainId, apiKeyId, oauthClientId, false, {});
+  if (plan.status !== "ready_to_sign") return plan;
+
+  try {
+    return await signAndPay(url, userId, options, apiKeyId, oauthClientId, plan);
+  } finally {
+    // The transaction is recorded by now, or the payment was not made
+    if (plan.reservationId) {
+      await releaseSpend(plan.reservationId).catch((error) => {
+        logger.error("Failed to release spend reservation", { userId, url, action: "spend_reservation_release_failed", error: error instanceof Error ? error.message : String(error) });
+      });
+    }
+  }
+}
+
+/**
+ * Sign a planned payment with the session key, send the paid request and
+ * record the transaction (steps 5-7 of executePayment).
+ */
+async function signAndPay(
+  url: string,
+  userId: string,
+  options: PaymentRequestOptions | undefined,
+  apiKeyId: string | undefined,
+  oauthClientId: string | undefined,
+  plan: SignablePayment,
+): Promise<PaymentResult> {
+  const {
+    signingStrategy,
+    method,
+    safeHeaders,
+    paymentRequired,
+    smartAccount,
+    selectedChainId,
+    selectedRequirement,
+    amountUsd,
+    policyResult,
+    grantId,
+  } = plan;
+
+  // Give a reserved grant amount back when the payment was certainly not made
+  const releaseGrant = async () => {
+    if (grantId) await releaseSpendingGrant(grantId, amountUsd);
+  };
+
   // Step 8: Create smart account signer and payment payload via SDK
   const sessionKeyHex = decryptPrivateKey(smartAccount.sessionKeyEncrypted) as Hex;
   let signer: ClientEvmSigner;
@@ -395,23 +857,25 @@ export async function executePayment(
       );
     }
   } catch (err) {
+    await releaseGrant();
     return {
       success: false,
       status: "rejected",
-      signingStrategy: "auto_sign",
+      signingStrategy,
       error: `Failed to create smart account signer: ${err instanceof Error ? err.message : "Unknown error"}`,
     };
   }
 
-  const { client, httpClient } = createPaymentClient(signer);
+  const { client, httpClient } = createPaymentClient(signer, selectedRequirement);
   let paymentPayload;
   try {
     paymentPayload = await client.createPaymentPayload(paymentRequired);
   } catch (err) {
+    await releaseGrant();
     return {
       success: false,
       status: "rejected",
-      signingStrategy: "auto_sign",
+      signingStrategy,
       error: `Failed to create payment: ${err instanceof Error ? err.message : "Unknown error"}`,
     };
   }
@@ -422,6 +886,7 @@ export async function executePayment(
   if (siwxExtension) {
     // Smart account signers use ERC-1271 (contract signatures), which are incompatible
     // with SIWx's personal_sign requirement. Reject early with a clear error.
+    await releaseGrant();
     return {
       success: false,
       status: "rejected",
@@ -448,17 +913,20 @@ export async function executePayment(
     paidResponse = await safeFetch(url, paidRequestInit);
   } catch (err) {
     const message = err instanceof Error ? err.message : "Fetch failed";
+    // The payment may still have settled, so a reserved grant amount stays spent
     logger.error("Paid request failed", { userId, url, action: "payment_failed", error: message });
-    return { success: false, status: "rejected", signingStrategy: "auto_sign", error: `Paid request failed: ${message}` };
+    return { success: false, status: "rejected", signingStrategy, error: `Paid request failed: ${message}` };
   }
 
   // Read response body for storage (without consuming the original response)
-  let responsePayload: string | null = null;
+  let responseBody: ResponseBody | null = null;
   try {
-    responsePayload = await paidResponse.clone().text();
+    responseBody = await readResponseBody(paidResponse.clone());
   } catch {
     // If reading fails, leave as null — don't break the payment flow
   }
+  const responsePayload = responseBody?.payload ?? null;
+  const storedResponse = await prepareResponseForStorage(userId, responseBody);
 
   // Step 10: Extract settlement response and transaction hash from facilitator response
   const settlement = extractSettleResponse(paidResponse) ?? undefined;
@@ -479,23 +947,37 @@ export async function executePayment(
     chainId: selectedChainId,
     status: txStatus,
     type: "payment",
+    signingStrategy,
     userId,
-    responsePayload,
+    policyId: policyResult.policyId,
+    apiKeyId,
+    oauthClientId,
+    grantId,
+    ...options?.metadata,
+    ...storedResponse,
     errorMessage: !paidResponse.ok ? `Payment submitted but server responded with ${paidResponse.status}` : undefined,
     responseStatus: paidResponse.status,
   });
 
   if (!paidResponse.ok) {
+    if (!txHash) await releaseGrant();
     logger.error("Payment failed", { userId, url, action: "payment_failed", status: paidResponse.status, amount: amountUsd, chainId: selectedChainId, responseBody: responsePayload?.slice(0, 500) });
     return {
       success: false,
       status: "rejected",
-      signingStrategy: "auto_sign",
+      signingStrategy,
       error: `Payment submitted but server responded with ${paidResponse.status}`,
       response: paidResponse,
     };
   }
 
   logger.info("Payment completed successfully", { userId, url, action: "payment_completed", txHash, amount: amountUsd, chainId: selectedChainId, status: paidResponse.status });
-  return { success: true, status: "completed", signingStrategy: "auto_sign", response: paidResponse, settlement };
+  return {
+    success: true,
+    status: "completed",
+    signingStrategy,
+    response: paidResponse,
+    settlement,
+    responseBodyId: storedResponse.responseBodyId,
+  };
 }
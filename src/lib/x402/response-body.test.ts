@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { parseTextBody, readResponseBody } from "./response-body";
+
+const PNG_BYTES = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+describe("readResponseBody", () => {
+  it("base64-encodes binary bodies so they survive storage intact", async () => {
+    const response = new Response(PNG_BYTES, { headers: { "content-type": "image/png" } });
+
+    const body = await readResponseBody(response);
+
+    expect(body).toEqual({ payload: "iVBORw0KGgo=", encoding: "base64", contentType: "image/png" });
+    expect(Buffer.from(body.payload, "base64")).toEqual(Buffer.from(PNG_BYTES));
+  });
+
+  it("keeps JSON and streamed text as text", async () => {
+    const json = await readResponseBody(
+      new Response('{"ok":true}', { headers: { "content-type": "application/problem+json" } }),
+    );
+    const stream = await readResponseBody(
+      new Response("data: hello\n\n", { headers: { "content-type": "text/event-stream; charset=utf-8" } }),
+    );
+
+    expect(json.encoding).toBe("utf8");
+    expect(stream).toEqual({ payload: "data: hello\n\n", encoding: "utf8", contentType: "text/event-stream; charset=utf-8" });
+  });
+
+  it("sniffs bodies without a Content-Type", async () => {
+    const text = new Response("plain");
+    text.headers.delete("content-type");
+    const binary = new Response(PNG_BYTES);
+
+    expect(await readResponseBody(text)).toMatchObject({ payload: "plain", encoding: "utf8" });
+    expect(await readResponseBody(binary)).toMatchObject({ encoding: "base64" });
+  });
+});
+
+describe("parseTextBody", () => {
+  it("parses JSON unless the Content-Type says otherwise", () => {
+    expect(parseTextBody('{"a":1}', "application/json")).toEqual({ a: 1 });
+    expect(parseTextBody('{"a":1}', null)).toEqual({ a: 1 });
+    expect(parseTextBody('{"a":1}', "text/plain")).toBe('{"a":1}');
+    expect(parseTextBody("not json", "application/json")).toBe("not json");
+  });
+});
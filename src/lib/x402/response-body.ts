@@ -0,0 +1,101 @@
+/** How a stored response body is encoded: text as-is, or binary as base64. */
+export const RESPONSE_ENCODINGS = ["utf8", "base64"] as const;
+export type ResponseEncoding = (typeof RESPONSE_ENCODINGS)[number];
+
+/** Default for MCP_RESPONSE_MAX_CHARS. */
+const DEFAULT_RESPONSE_BUDGET_CHARS = 100_000;
+
+/**
+ * The most characters of a response body returned in one tool result, and
+ * the most stored inline on a document. Binary bodies are measured by their
+ * base64 length, the size they take in a tool result or a document.
+ * Configured with MCP_RESPONSE_MAX_CHARS.
+ */
+export function getResponseBudget(): number {
+  const raw = process.env.MCP_RESPONSE_MAX_CHARS;
+  const parsed = raw ? parseInt(raw, 10) : NaN;
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_RESPONSE_BUDGET_CHARS;
+}
+
+/** A response body read for storage and for returning to the agent. */
+export interface ResponseBody {
+  payload: string;
+  encoding: ResponseEncoding;
+  /** The response's Content-Type header, including parameters. */
+  contentType: string | null;
+}
+
+/** Media types outside text/* whose bodies are text. */
+const TEXT_MEDIA_TYPES = new Set([
+  "application/json",
+  "application/xml",
+  "application/javascript",
+  "application/ecmascript",
+  "application/x-www-form-urlencoded",
+  "application/x-ndjson",
+  "application/graphql",
+  "application/yaml",
+  "application/x-yaml",
+]);
+
+/** The media type of a Content-Type header, lowercased and without parameters. */
+export function getMediaType(contentType: string | null | undefined): string {
+  return (contentType ?? "").split(";")[0].trim().toLowerCase();
+}
+
+export function isTextMediaType(mediaType: string): boolean {
+  return (
+    mediaType.startsWith("text/") ||
+    TEXT_MEDIA_TYPES.has(mediaType) ||
+    mediaType.endsWith("+json") ||
+    mediaType.endsWith("+xml")
+  );
+}
+
+export function isJsonMediaType(mediaType: string): boolean {
+  return mediaType === "application/json" || mediaType.endsWith("+json");
+}
+
+/**
+ * Read a response body without corrupting binary data. Text media types,
+ * including streamed text such as text/event-stream, are read as text;
+ * everything else is base64-encoded. A body without a Content-Type is kept
+ * as text if it is valid UTF-8.
+ */
+export async function readResponseBody(response: Response): Promise<ResponseBody> {
+  const contentType = response.headers.get("content-type");
+  const mediaType = getMediaType(contentType);
+  if (isTextMediaType(mediaType)) {
+    return { payload: await response.text(), encoding: "utf8", contentType };
+  }
+
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  if (!mediaType) {
+    try {
+      return { payload: new TextDecoder("utf-8", { fatal: true }).decode(bytes), encoding: "utf8", contentType };
+    } catch {
+      // Not text; fall through to base64
+    }
+  }
+  return { payload: Buffer.from(bytes).toString("base64"), encoding: "base64", contentType };
+}
+
+/**
+ * Decode a stored text body for a JSON tool result: parsed JSON when it is
+ * JSON, the text otherwise. Stored payloads from before encodings were
+ * recorded have no Content-Type, so JSON is detected by parsing.
+ */
+export function parseTextBody(payload: string, contentType: string | null): unknown {
+  const mediaType = getMediaType(contentType);
+  if (mediaType && !isJsonMediaType(mediaType)) return payload;
+  try {
+    return JSON.parse(payload);
+  } catch {
+    return payload;
+  }
+}
+
+/** Size in bytes of a base64-encoded body. */
+export function base64ByteLength(payload: string): number {
+  return Buffer.byteLength(payload, "base64");
+}
@@ -25,8 +25,31 @@ export type {
   ClientEvmSigner,
 } from "@x402/evm";
 
-/** Determines which signing method to use based on amount vs policy limits. */
-export type SigningStrategy = "auto_sign" | "manual_approval" | "rejected";
+/**
+ * Determines which signing method to use based on amount vs policy limits.
+ * "in_chat_approval" payments are confirmed by the user in the agent's chat
+ * (MCP elicitation) and then signed with the session key, like auto_sign.
+ */
+export type SigningStrategy = "auto_sign" | "in_chat_approval" | "manual_approval" | "rejected";
+
+/** What the user is shown when asked to confirm a payment in the agent's chat. */
+export interface InChatPaymentDetails {
+  url: string;
+  amountUsd: number;
+  amountRaw: string;
+  asset: string;
+  payTo: string;
+  chainId: number;
+  /** Why the policy asked for approval, if known. */
+  reason?: string;
+}
+
+/**
+ * The user's answer to an in-chat confirmation. "unavailable" means the
+ * client could not ask (no elicitation support, cancelled, or timed out);
+ * the payment then falls back to dashboard approval.
+ */
+export type InChatConfirmation = "confirmed" | "declined" | "unavailable";
 
 /** Result of processing an x402 payment — discriminated union on `status`. */
 export type PaymentResult =
@@ -38,6 +61,8 @@ export type PaymentResult =
       chainId?: number;
       /** Settlement data from the Payment-Response header (V2) or X-Payment-Response (V1). */
       settlement?: import("@x402/core/types").SettleResponse;
+      /** GridFS ID of the stored body when it exceeded the response budget. */
+      responseBodyId?: string;
       error?: undefined;
       paymentRequirements?: undefined;
       amountRaw?: undefined;
@@ -57,6 +82,12 @@ export type PaymentResult =
       chainId: number;
       /** Maximum timeout in seconds from the payment requirement. */
       maxTimeoutSeconds: number;
+      /** The matched EndpointPolicy id, if a policy was evaluated. */
+      policyId?: string;
+      /** Why the policy routed this payment to manual approval, if known. */
+      reason?: string;
+      /** Last accepted USD price, when a price increase triggered the review. */
+      previousAmount?: number;
       error?: undefined;
       response?: undefined;
       settlement?: undefined;
@@ -66,6 +97,10 @@ export type PaymentResult =
       status: "rejected";
       signingStrategy: SigningStrategy;
       error: string;
+      /** Machine-readable reason, set for rejections callers can act on. */
+      code?: "max_amount_exceeded" | "grant_unavailable";
+      /** The price that was rejected, when `code` is "max_amount_exceeded". */
+      price?: { amountRaw: string; amountUsd: number; asset: string; chainId: number };
       chainId?: undefined;
       response?: Response;
       settlement?: undefined;
@@ -73,3 +108,38 @@ export type PaymentResult =
       amountRaw?: undefined;
       asset?: undefined;
     };
+
+/** One payment option offered by an endpoint, as seen by a quote. */
+export interface QuoteAcceptedNetwork {
+  network: string;
+  /** Chain ID in our registry, or null if the network is not supported. */
+  chainId: number | null;
+  /** Whether the chain is enabled for the user's account. */
+  enabled: boolean;
+  amountRaw: string | null;
+  asset: string;
+  payTo: string;
+}
+
+/**
+ * Preview of what x402_pay would do for a request, computed by the same
+ * checks as executePayment but without signing or writing anything.
+ */
+export interface PaymentQuote {
+  /** HTTP status of the initial request, or null if it failed. */
+  httpStatus: number | null;
+  /** Whether the endpoint asked for payment (HTTP 402). */
+  paymentRequired: boolean;
+  acceptedNetworks: QuoteAcceptedNetwork[];
+  /** Chain the payment would use, or null if none could be selected. */
+  selectedChainId: number | null;
+  amountRaw: string | null;
+  amountUsd: number | null;
+  asset: string | null;
+  payTo: string | null;
+  /** Policy evaluation, or null when the flow stopped before the policy check. */
+  policy: { action: SigningStrategy; reason: string | null; policyId: string | null } | null;
+  /** What x402_pay would do: sign, ask for approval, reject, or pass through unpaid. */
+  decision: SigningStrategy | "no_payment_required";
+  reason: string | null;
+}